@@ -4,29 +4,37 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import Toast from 'react-native-toast-message';
-import { useRouter, useFocusEffect } from 'expo-router';
+import { useRouter } from 'expo-router';
 
 import { useAuth } from '../../contexts/AuthContext';
-import { expenseAPI } from '../../services/api';
-import { Expense, EXPENSE_CATEGORIES } from '../../types';
-import { formatters } from '../../utils/formatters';
+import { useBudget } from '../../contexts/BudgetContext';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { useExpenses } from '../../contexts/ExpensesContext';
+import { useCategories } from '../../contexts/CategoriesContext';
 import { Card } from '../../components/ui/Card';
 import { AnimatedCard } from '../../components/ui/AnimatedCard';
 import { Loading } from '../../components/ui/Loading';
 import { debug } from '../../utils/debug';
+import { expenseSelectors } from '../../utils/expenseSelectors';
+import { budgetSelectors } from '../../utils/budgetSelectors';
+import { budgetPeriod } from '../../utils/budgetPeriod';
+import { categoryRegistry } from '../../utils/categoryRegistry';
 
-interface CategoryBudget {
-    category: string;
-    spent: number;
-    limit: number;
-    percentage: number;
-}
+// Past periods listed under History
+const HISTORY_PERIODS = 6;
+
+const formatPercentage = (percentage: number, digits: number) =>
+    Number.isFinite(percentage) ? `${percentage.toFixed(digits)}%` : 'Over';
 
 export default function BudgetScreen() {
-    const { user, isAuthenticated } = useAuth();
-    const [expenses, setExpenses] = useState<Expense[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const { isAuthenticated } = useAuth();
+    const { expenses, isLoading, refreshExpenses, getCategoryTotals, getSubcategoryTotals } = useExpenses();
+    const { formatAmount } = useCurrency();
+    const { getCategory } = useCategories();
+    const { budgetSettings, currentPeriod, periodLabel, effectiveLimit, rolloverAmount, categoryEffectiveLimits, getPeriodHistory } = useBudget();
     const [isRefreshing, setIsRefreshing] = useState(false);
+    // Category drilled into to show its subcategories
+    const [expandedCategory, setExpandedCategory] = useState<string | null>(null);
     const router = useRouter();
 
     // Animation refs
@@ -55,118 +63,51 @@ export default function BudgetScreen() {
         ]).start();
     }, []);
 
-    // Mock budget limits - in a real app, these would come from user settings
-    const budgetLimits: { [key: string]: number } = {
-        'Food & Dining': 500,
-        'Transportation': 200,
-        'Shopping': 300,
-        'Entertainment': 150,
-        'Bills & Utilities': 400,
-        'Healthcare': 200,
-        'Education': 100,
-        'Travel': 250,
-        'Other': 100,
-    };
-
-    useEffect(() => {
-        loadExpenses();
-    }, []);
-
-    // Refresh data when screen comes into focus
-    useFocusEffect(
-        React.useCallback(() => {
-            loadExpenses();
-        }, [])
-    );
-
-    const loadExpenses = async () => {
+    const onRefresh = async () => {
+        setIsRefreshing(true);
         try {
-            debug.log('BudgetScreen', 'Loading expenses...');
-            setIsLoading(true);
-            let data = await expenseAPI.getAllExpenses();
-
-            // Filter expenses by current user
-            data = data.filter(expense => expense.userId === user?.id);
-            debug.log('BudgetScreen', 'Raw expenses data received:', data);
-
-            // Normalize and validate each expense
-            const normalizedExpenses = data.map((expense, index) => {
-                const validation = debug.validateExpense(expense);
-                if (!validation.isValid) {
-                    debug.warn('BudgetScreen', `Invalid expense at index ${index}:`, validation.issues);
-                }
-
-                // Normalize the expense data structure
-                const normalized = debug.normalizeExpense(expense);
-                return normalized;
-            }).filter(expense => expense && expense.id); // Filter out invalid expenses
-
-            debug.log('BudgetScreen', 'Normalized expenses:', normalizedExpenses);
-            setExpenses(normalizedExpenses);
+            await refreshExpenses();
         } catch (error) {
-            debug.error('BudgetScreen', 'Error loading expenses:', error);
+            debug.error('BudgetScreen', 'Error refreshing expenses:', error);
             Toast.show({
                 type: 'error',
                 text1: 'Error',
                 text2: 'Failed to load expenses',
             });
         } finally {
-            setIsLoading(false);
+            setIsRefreshing(false);
         }
     };
 
-    const onRefresh = async () => {
-        setIsRefreshing(true);
-        await loadExpenses();
-        setIsRefreshing(false);
+    const getCurrentPeriodExpenses = () => {
+        return budgetPeriod.filterExpenses(currentPeriod, expenses);
     };
 
-    const getCurrentMonthExpenses = () => {
-        const currentMonth = new Date().getMonth();
-        const currentYear = new Date().getFullYear();
+    // Categories with a limit in Budget Settings, plus spending in categories without one
+    const getCategoryBudgets = () => {
+        return budgetSelectors.categoryBreakdown(budgetSettings, getCategoryTotals(getCurrentPeriodExpenses()), categoryEffectiveLimits);
+    };
 
-        return expenses.filter(expense => {
-            const expenseDate = new Date(expense.date || expense.createdAt);
-            return expenseDate.getMonth() === currentMonth &&
-                expenseDate.getFullYear() === currentYear;
-        });
+    // How a category's spending this period splits across its subcategories
+    const getSubcategoryBreakdown = (category: string) => {
+        return getSubcategoryTotals(category, getCurrentPeriodExpenses());
     };
 
-    const getCategoryBudgets = (): CategoryBudget[] => {
-        const currentMonthExpenses = getCurrentMonthExpenses();
-        const categorySpending: { [key: string]: number } = {};
-
-        // Calculate spending per category
-        currentMonthExpenses.forEach(expense => {
-            const category = expense.category || 'Other';
-            const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-            categorySpending[category] = (categorySpending[category] || 0) + amount;
-        });
-
-        // Create budget objects for all categories
-        return EXPENSE_CATEGORIES.map(category => {
-            const spent = categorySpending[category] || 0;
-            const limit = budgetLimits[category] || 0;
-            const percentage = limit > 0 ? (spent / limit) * 100 : 0;
-
-            return {
-                category,
-                spent,
-                limit,
-                percentage: Math.min(percentage, 100),
-            };
-        }).sort((a, b) => b.percentage - a.percentage);
+    // Only categories with spending filed under a subcategory are worth drilling into
+    const hasSubcategories = (category: string) =>
+        getSubcategoryBreakdown(category).some(total => total.category !== '');
+
+    const toggleExpanded = (category: string) => {
+        setExpandedCategory(current => (current === category ? null : category));
     };
 
+    // Includes whatever rolled over from the previous period
     const getTotalBudget = () => {
-        return Object.values(budgetLimits).reduce((total, limit) => total + limit, 0);
+        return effectiveLimit;
     };
 
     const getTotalSpent = () => {
-        return getCurrentMonthExpenses().reduce((total, expense) => {
-            const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-            return total + amount;
-        }, 0);
+        return expenseSelectors.total(getCurrentPeriodExpenses());
     };
 
     const getProgressColor = (percentage: number) => {
@@ -176,44 +117,38 @@ export default function BudgetScreen() {
         return '#22c55e'; // Green
     };
 
-    const getCategoryIcon = (category: string): keyof typeof Ionicons.glyphMap => {
-
-
-        if (!category || typeof category !== 'string') {
-            console.warn('Invalid category provided to budget getCategoryIcon:', category);
-            return 'ellipse-outline';
-        }
-
-        switch (category.toLowerCase()) {
-            case 'food & dining':
-                return 'restaurant-outline';
-            case 'transportation':
-                return 'car-outline';
-            case 'shopping':
-                return 'bag-outline';
-            case 'entertainment':
-                return 'game-controller-outline';
-            case 'bills & utilities':
-                return 'receipt-outline';
-            case 'healthcare':
-                return 'medical-outline';
-            case 'education':
-                return 'school-outline';
-            case 'travel':
-                return 'airplane-outline';
-            default:
-                return 'ellipse-outline';
-        }
-    };
+    const getCategoryIcon = (category: string) => getCategory(category).icon as keyof typeof Ionicons.glyphMap;
+
+    const renderSubcategories = (category: string, total: number) => (
+        <View className="mt-3 pt-3 border-t border-gray-200">
+            {getSubcategoryBreakdown(category).map(({ category: subcategory, amount }, index) => (
+                <View key={subcategory || 'general'} className="flex-row items-center py-1">
+                    <View
+                        className="w-2 h-2 rounded-full mr-3"
+                        style={{ backgroundColor: categoryRegistry.shade(getCategory(category).color, index) }}
+                    />
+                    <Text className="text-gray-700 flex-1">{categoryRegistry.subcategoryLabel(subcategory)}</Text>
+                    <Text className="text-gray-500 text-xs mr-3">
+                        {formatPercentage(total > 0 ? (amount / total) * 100 : 0, 0)}
+                    </Text>
+                    <Text className="text-gray-900 font-semibold">{formatAmount(amount)}</Text>
+                </View>
+            ))}
+        </View>
+    );
 
     if (isLoading) {
         return <Loading text="Loading budget data..." />;
     }
 
-    const categoryBudgets = getCategoryBudgets();
+    const { budgeted: categoryBudgets, unbudgeted: unbudgetedCategories } = getCategoryBudgets();
+    const allocatedBudget = budgetSelectors.allocated(budgetSettings);
+    const unallocatedBudget = budgetSelectors.unallocated(budgetSettings);
+    const unbudgetedSpent = unbudgetedCategories.reduce((total, { amount }) => total + amount, 0);
     const totalBudget = getTotalBudget();
     const totalSpent = getTotalSpent();
-    const overallPercentage = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : 0;
+    const overallPercentage = totalBudget > 0 ? (totalSpent / totalBudget) * 100 : totalSpent > 0 ? Infinity : 0;
+    const periodHistory = getPeriodHistory(HISTORY_PERIODS + 1).slice(0, -1).reverse();
 
     return (
         <View className="flex-1 bg-gray-50">
@@ -261,17 +196,25 @@ export default function BudgetScreen() {
                         animationType="slideUp"
                         delay={200}
                     >
-                        <Text className="text-white text-lg font-bold mb-6">
-                            Monthly Budget Overview
+                        <Text className="text-white text-lg font-bold">
+                            {periodLabel} Budget Overview
+                        </Text>
+                        <Text className="text-white/70 text-sm mb-6">
+                            {budgetPeriod.formatRange(currentPeriod)}
                         </Text>
 
                         <View className="items-center mb-6">
                             <Text className="text-white text-4xl font-bold">
-                                {formatters.currency(totalSpent)}
+                                {formatAmount(totalSpent)}
                             </Text>
                             <Text className="text-white/80 text-lg">
-                                of {formatters.currency(totalBudget)} budget
+                                of {formatAmount(totalBudget)} budget
                             </Text>
+                            {rolloverAmount !== 0 && (
+                                <Text className="text-white/70 text-sm mt-1">
+                                    {formatAmount(budgetSettings.monthlyLimit)} limit {rolloverAmount > 0 ? '+' : '−'} {formatAmount(Math.abs(rolloverAmount))} rolled over
+                                </Text>
+                            )}
                         </View>
 
                         {/* Overall Progress Bar */}
@@ -279,7 +222,7 @@ export default function BudgetScreen() {
                             <View className="flex-row justify-between mb-3">
                                 <Text className="text-white/90 text-sm font-medium">Overall Progress</Text>
                                 <Text className="text-white font-bold text-lg">
-                                    {overallPercentage.toFixed(1)}%
+                                    {formatPercentage(overallPercentage, 1)}
                                 </Text>
                             </View>
                             <View className="h-4 bg-white/20 rounded-full overflow-hidden">
@@ -296,20 +239,52 @@ export default function BudgetScreen() {
                             <View>
                                 <Text className="text-white/80 text-sm">Remaining</Text>
                                 <Text className="text-white font-bold text-xl">
-                                    {formatters.currency(Math.max(totalBudget - totalSpent, 0))}
+                                    {formatAmount(Math.max(totalBudget - totalSpent, 0))}
                                 </Text>
                             </View>
                             {overallPercentage > 100 && (
                                 <View className="items-end">
                                     <Text className="text-red-200 text-sm">Over budget</Text>
                                     <Text className="text-red-100 font-bold text-lg">
-                                        {formatters.currency(totalSpent - totalBudget)}
+                                        {formatAmount(totalSpent - totalBudget)}
                                     </Text>
                                 </View>
                             )}
                         </View>
                     </AnimatedCard>
 
+                    {/* Allocation of the period limit across categories */}
+                    <AnimatedCard
+                        className="mb-4 p-6 bg-white/95"
+                        animationType="slideUp"
+                        delay={250}
+                    >
+                        <Text className="text-lg font-bold text-gray-900 mb-4">
+                            Allocation
+                        </Text>
+                        <View className="flex-row justify-between mb-2">
+                            <Text className="text-gray-600">Allocated to categories</Text>
+                            <Text className="text-gray-900 font-semibold">{formatAmount(allocatedBudget)}</Text>
+                        </View>
+                        <View className="flex-row justify-between">
+                            <Text className="text-gray-600">Unallocated</Text>
+                            <Text className={`font-semibold ${unallocatedBudget < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                                {formatAmount(unallocatedBudget)}
+                            </Text>
+                        </View>
+
+                        {unallocatedBudget < 0 && (
+                            <View className="bg-red-50 p-3 rounded-xl mt-4">
+                                <View className="flex-row items-center">
+                                    <Ionicons name="warning" size={16} color="#ef4444" />
+                                    <Text className="text-red-600 text-sm font-medium ml-2 flex-1">
+                                        Category limits add up to {formatAmount(-unallocatedBudget)} more than your budget limit of {formatAmount(totalBudget)}.
+                                    </Text>
+                                </View>
+                            </View>
+                        )}
+                    </AnimatedCard>
+
                     {/* Category Breakdown Header */}
                     <AnimatedCard
                         className="mb-4 p-6 bg-white/95"
@@ -322,7 +297,7 @@ export default function BudgetScreen() {
                             </Text>
                             <View className="bg-blue-50 px-3 py-1 rounded-full">
                                 <Text className="text-blue-600 text-xs font-medium">
-                                    {categoryBudgets.length} Categories
+                                    {categoryBudgets.length} Budgeted
                                 </Text>
                             </View>
                         </View>
@@ -336,18 +311,22 @@ export default function BudgetScreen() {
                             animationType="slideLeft"
                             delay={400 + (index * 100)}
                         >
-                            <View className="flex-row items-center mb-4">
+                            <TouchableOpacity
+                                onPress={() => toggleExpanded(budget.category)}
+                                disabled={!hasSubcategories(budget.category)}
+                                className="flex-row items-center mb-4"
+                            >
                                 <View className="w-12 h-12 bg-gray-100 rounded-full items-center justify-center mr-4">
                                     <Ionicons
                                         name={getCategoryIcon(budget.category)}
                                         size={24}
-                                        color="#6b7280"
+                                        color={getCategory(budget.category).color}
                                     />
                                 </View>
                                 <View className="flex-1">
                                     <Text className="text-gray-900 font-bold text-lg">{budget.category}</Text>
                                     <Text className="text-gray-600 text-sm">
-                                        {formatters.currency(budget.spent)} of {formatters.currency(budget.limit)}
+                                        {formatAmount(budget.spent)} of {formatAmount(budget.limit)}
                                     </Text>
                                 </View>
                                 <View className="items-end">
@@ -355,13 +334,21 @@ export default function BudgetScreen() {
                                         className="font-bold text-xl"
                                         style={{ color: getProgressColor(budget.percentage) }}
                                     >
-                                        {budget.percentage.toFixed(0)}%
+                                        {formatPercentage(budget.percentage, 0)}
                                     </Text>
                                     <Text className="text-gray-500 text-xs">
                                         {budget.percentage > 100 ? 'Over limit' : 'Used'}
                                     </Text>
                                 </View>
-                            </View>
+                                {hasSubcategories(budget.category) && (
+                                    <Ionicons
+                                        name={expandedCategory === budget.category ? 'chevron-up' : 'chevron-down'}
+                                        size={18}
+                                        color="#9ca3af"
+                                        style={{ marginLeft: 8 }}
+                                    />
+                                )}
+                            </TouchableOpacity>
 
                             {/* Progress Bar */}
                             <View className="h-3 bg-gray-200 rounded-full overflow-hidden mb-2">
@@ -374,19 +361,111 @@ export default function BudgetScreen() {
                                 />
                             </View>
 
-                            {budget.percentage > 100 && (
+                            {budget.spent > budget.limit && (
                                 <View className="bg-red-50 p-3 rounded-xl mt-2">
                                     <View className="flex-row items-center">
                                         <Ionicons name="warning" size={16} color="#ef4444" />
                                         <Text className="text-red-600 text-sm font-medium ml-2">
-                                            Over budget by {formatters.currency(budget.spent - budget.limit)}
+                                            Over budget by {formatAmount(budget.spent - budget.limit)}
                                         </Text>
                                     </View>
                                 </View>
                             )}
+
+                            {expandedCategory === budget.category && renderSubcategories(budget.category, budget.spent)}
                         </AnimatedCard>
                     ))}
 
+                    {categoryBudgets.length === 0 && (
+                        <AnimatedCard
+                            className="mb-4 bg-white/95 p-6"
+                            animationType="slideUp"
+                            delay={400}
+                        >
+                            <Text className="text-gray-900 font-bold text-lg mb-1">No category limits yet</Text>
+                            <Text className="text-gray-600 text-sm mb-4">
+                                Set limits per category in Budget Settings to track them here.
+                            </Text>
+                            <TouchableOpacity
+                                onPress={() => router.push('/budget-settings')}
+                                className="bg-blue-50 px-4 py-3 rounded-xl flex-row items-center self-start"
+                            >
+                                <Ionicons name="settings-outline" size={18} color="#3b82f6" />
+                                <Text className="text-blue-600 font-semibold ml-2">Open Budget Settings</Text>
+                            </TouchableOpacity>
+                        </AnimatedCard>
+                    )}
+
+                    {/* Past periods: limit, rollover and spend */}
+                    {periodHistory.length > 0 && (
+                        <AnimatedCard
+                            className="mb-4 bg-white/95 p-6"
+                            animationType="slideUp"
+                            delay={500 + (categoryBudgets.length * 100)}
+                        >
+                            <Text className="text-lg font-bold text-gray-900 mb-4">History</Text>
+                            {periodHistory.map(summary => (
+                                <View key={summary.range.start.toISOString()} className="py-3 border-b border-gray-100">
+                                    <View className="flex-row justify-between mb-1">
+                                        <Text className="text-gray-900 font-semibold">
+                                            {budgetPeriod.formatRange(summary.range)}
+                                        </Text>
+                                        <Text className={`font-semibold ${summary.remaining < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                                            {summary.remaining < 0 ? 'Over ' : 'Under '}{formatAmount(Math.abs(summary.remaining))}
+                                        </Text>
+                                    </View>
+                                    <Text className="text-gray-500 text-sm">
+                                        Limit {formatAmount(summary.limit)}
+                                        {summary.rollover !== 0 && ` · rollover ${summary.rollover > 0 ? '+' : '−'}${formatAmount(Math.abs(summary.rollover))}`}
+                                        {` · spent ${formatAmount(summary.spent)}`}
+                                    </Text>
+                                </View>
+                            ))}
+                        </AnimatedCard>
+                    )}
+
+                    {/* Spending in categories without a limit */}
+                    {unbudgetedCategories.length > 0 && (
+                        <AnimatedCard
+                            className="mb-4 bg-white/95 p-6"
+                            animationType="slideUp"
+                            delay={400 + (categoryBudgets.length * 100)}
+                        >
+                            <View className="flex-row items-center justify-between mb-4">
+                                <Text className="text-lg font-bold text-gray-900">Unbudgeted</Text>
+                                <Text className="text-gray-600 font-semibold">{formatAmount(unbudgetedSpent)}</Text>
+                            </View>
+                            {unbudgetedCategories.map(({ category, amount }) => (
+                                <View key={category} className="py-2">
+                                    <TouchableOpacity
+                                        onPress={() => toggleExpanded(category)}
+                                        disabled={!hasSubcategories(category)}
+                                        className="flex-row items-center"
+                                    >
+                                        <View className="w-10 h-10 bg-gray-100 rounded-full items-center justify-center mr-3">
+                                            <Ionicons
+                                                name={getCategoryIcon(category)}
+                                                size={20}
+                                                color={getCategory(category).color}
+                                            />
+                                        </View>
+                                        <Text className="text-gray-900 font-medium flex-1">{category}</Text>
+                                        <Text className="text-gray-900 font-semibold">{formatAmount(amount)}</Text>
+                                        {hasSubcategories(category) && (
+                                            <Ionicons
+                                                name={expandedCategory === category ? 'chevron-up' : 'chevron-down'}
+                                                size={16}
+                                                color="#9ca3af"
+                                                style={{ marginLeft: 8 }}
+                                            />
+                                        )}
+                                    </TouchableOpacity>
+                                    {expandedCategory === category && renderSubcategories(category, amount)}
+                                </View>
+                            ))}
+                        </AnimatedCard>
+                    )}
+
                 </View>
             </ScrollView>
         </View>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, RefreshControl, Dimensions, Animated } from 'react-native';
 import { router, useFocusEffect } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -9,10 +9,17 @@ import { LineChart, PieChart, BarChart } from 'react-native-chart-kit';
 
 import { useAuth } from '../../contexts/AuthContext';
 import { useBudget } from '../../contexts/BudgetContext';
-import { expenseAPI } from '../../services/api';
-import { Expense } from '../../types';
-import { formatters } from '../../utils/formatters';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { useExpenses } from '../../contexts/ExpensesContext';
+import { useIncome } from '../../contexts/IncomeContext';
+import { useGoals } from '../../contexts/GoalsContext';
+import { useCategories } from '../../contexts/CategoriesContext';
 import { debug } from '../../utils/debug';
+import { expenseSelectors } from '../../utils/expenseSelectors';
+import { cashFlow } from '../../utils/cashFlow';
+import { goalProgress, GOAL_STATUS_DETAILS } from '../../utils/goalProgress';
+import { budgetPeriod } from '../../utils/budgetPeriod';
+import { categoryRegistry } from '../../utils/categoryRegistry';
 import { Card } from '../../components/ui/Card';
 import { AnimatedCard } from '../../components/ui/AnimatedCard';
 import { Loading } from '../../components/ui/Loading';
@@ -39,10 +46,15 @@ const chartConfig = {
 
 export default function DashboardScreen() {
     const { user, logout, isAuthenticated } = useAuth();
-    const { budgetSettings, currentMonthSpent, isOverBudget, percentageUsed, refreshBudgetData } = useBudget();
-    const [expenses, setExpenses] = useState<Expense[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
+    const { currentPeriod, periodLabel, currentPeriodSpent, effectiveLimit, rolloverAmount, committedAmount, isOverBudget, percentageUsed } = useBudget();
+    const { expenses, isLoading, refreshExpenses, getCategoryTotals, getSubcategoryTotals, generateRecurringExpenses } = useExpenses();
+    const { income, refreshIncome } = useIncome();
+    const { goals, refreshGoals } = useGoals();
+    const { formatAmount, homeCurrency } = useCurrency();
+    const { getCategory } = useCategories();
     const [isRefreshing, setIsRefreshing] = useState(false);
+    // Category whose subcategories the breakdown chart is showing, if drilled into
+    const [drillCategory, setDrillCategory] = useState<string | null>(null);
 
     // Animation refs
     const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -56,6 +68,15 @@ export default function DashboardScreen() {
         }
     }, [isAuthenticated]);
 
+    // Pick up recurring charges that became due since the last visit
+    useFocusEffect(
+        useCallback(() => {
+            if (user?.id) {
+                generateRecurringExpenses();
+            }
+        }, [user?.id])
+    );
+
     useEffect(() => {
         // Start animations when component mounts
         Animated.parallel([
@@ -96,60 +117,22 @@ export default function DashboardScreen() {
         }
     }, [isOverBudget]);
 
-    useEffect(() => {
-        loadExpenses();
-    }, []);
-
-    // Refresh data when screen comes into focus
-    useFocusEffect(
-        React.useCallback(() => {
-            loadExpenses();
-        }, [])
-    );
-
-    const loadExpenses = async () => {
+    const onRefresh = async () => {
+        setIsRefreshing(true);
         try {
-            debug.log('DashboardScreen', 'Loading expenses...');
-            setIsLoading(true);
-            let data = await expenseAPI.getAllExpenses();
-
-            // Filter expenses by current user
-            data = data.filter(expense => expense.userId === user?.id);
-            debug.log('DashboardScreen', 'Raw expenses data received:', data);
-
-            // Normalize and validate each expense
-            const normalizedExpenses = data.map((expense, index) => {
-                const validation = debug.validateExpense(expense);
-                if (!validation.isValid) {
-                    debug.warn('DashboardScreen', `Invalid expense at index ${index}:`, validation.issues);
-                }
-
-                // Normalize the expense data structure
-                const normalized = debug.normalizeExpense(expense);
-                return normalized;
-            }).filter(expense => expense && expense.id); // Filter out invalid expenses
-
-            debug.log('DashboardScreen', 'Normalized expenses:', normalizedExpenses);
-            setExpenses(normalizedExpenses);
-            await refreshBudgetData();
+            await Promise.all([refreshExpenses(), refreshIncome(), refreshGoals()]);
         } catch (error) {
-            debug.error('DashboardScreen', 'Error loading expenses:', error);
+            debug.error('DashboardScreen', 'Error refreshing expenses:', error);
             Toast.show({
                 type: 'error',
                 text1: 'Error',
                 text2: 'Failed to load expenses',
             });
         } finally {
-            setIsLoading(false);
+            setIsRefreshing(false);
         }
     };
 
-    const onRefresh = async () => {
-        setIsRefreshing(true);
-        await loadExpenses();
-        setIsRefreshing(false);
-    };
-
     const handleLogout = async () => {
         try {
             await logout();
@@ -164,46 +147,24 @@ export default function DashboardScreen() {
     };
 
     const calculateTotalExpenses = () => {
-        return expenses.reduce((total, expense) => {
-            const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-            return total + amount;
-        }, 0);
+        return expenseSelectors.total(expenses);
     };
 
     const getThisMonthExpenses = () => {
-        const currentMonth = new Date().getMonth();
-        const currentYear = new Date().getFullYear();
-
-        return expenses.filter(expense => {
-            const expenseDate = new Date(expense.date || expense.createdAt);
-            return expenseDate.getMonth() === currentMonth &&
-                expenseDate.getFullYear() === currentYear;
-        });
+        return expenseSelectors.currentMonth(expenses);
     };
 
     const getRecentExpenses = () => {
-        return expenses
-            .sort((a, b) => {
-                const dateA = new Date(a.date || a.createdAt).getTime();
-                const dateB = new Date(b.date || b.createdAt).getTime();
-                return dateB - dateA;
-            })
-            .slice(0, 5);
+        // The shared list is already sorted newest first
+        return expenses.slice(0, 5);
     };
 
-    const getCategoryBreakdown = () => {
-        const categoryTotals: { [key: string]: number } = {};
-
-        expenses.forEach(expense => {
-            const category = expense.category || 'Other';
-            const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-            categoryTotals[category] = (categoryTotals[category] || 0) + amount;
-        });
-
-        return Object.entries(categoryTotals)
-            .map(([category, amount]) => ({ category, amount }))
-            .sort((a, b) => b.amount - a.amount)
-            .slice(0, 5);
+    // Top categories, or every subcategory of one category when drilled into
+    const getCategoryBreakdown = (category?: string) => {
+        if (category) {
+            return getSubcategoryTotals(category);
+        }
+        return getCategoryTotals().slice(0, 5);
     };
 
     const getWeeklySpendingData = () => {
@@ -219,12 +180,7 @@ export default function DashboardScreen() {
                 return expenseDate.toDateString() === date.toDateString();
             });
 
-            const total = dayExpenses.reduce((sum, expense) => {
-                const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-                return sum + amount;
-            }, 0);
-
-            return total;
+            return expenseSelectors.total(dayExpenses);
         });
 
         return {
@@ -237,14 +193,15 @@ export default function DashboardScreen() {
         };
     };
 
-    const getPieChartData = () => {
-        const categoryBreakdown = getCategoryBreakdown();
-        const colors = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6'];
+    const getPieChartData = (category?: string) => {
+        const categoryBreakdown = getCategoryBreakdown(category);
 
+        // Subcategories share their parent's hue so the drill-down reads as one category
         return categoryBreakdown.map((item, index) => ({
-            name: item.category,
+            key: item.category,
+            name: category ? categoryRegistry.subcategoryLabel(item.category) : item.category,
             population: item.amount,
-            color: colors[index % colors.length],
+            color: category ? categoryRegistry.shade(getCategory(category).color, index) : getCategory(item.category).color,
             legendFontColor: '#6b7280',
             legendFontSize: 12,
         }));
@@ -255,14 +212,22 @@ export default function DashboardScreen() {
     }
 
     const thisMonthExpenses = getThisMonthExpenses();
-    const thisMonthTotal = thisMonthExpenses.reduce((total, expense) => {
-        const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-        return total + amount;
-    }, 0);
+    const thisMonthTotal = expenseSelectors.total(thisMonthExpenses);
     const recentExpenses = getRecentExpenses();
     const topCategories = getCategoryBreakdown();
     const weeklyData = getWeeklySpendingData();
-    const pieData = getPieChartData();
+    // Goals still being saved for; the list is already soonest deadline first
+    const activeGoals = goals.filter(goal => goalProgress.remaining(goal) > 0).slice(0, 3);
+    const cashFlowMonths = cashFlow.months(expenses, income, 6);
+    const currentCashFlow = cashFlowMonths[cashFlowMonths.length - 1];
+    // Bars share one scale so months compare at a glance
+    const cashFlowScale = Math.max(...cashFlowMonths.map(month => Math.max(month.income, month.expenses)), 1);
+    const hasSubcategories = (category: string) =>
+        getSubcategoryTotals(category).some(total => total.category !== '');
+
+    // Fall back to the overview if the drilled-into category no longer has spending
+    const activeDrillCategory = drillCategory && getSubcategoryTotals(drillCategory).length > 0 ? drillCategory : null;
+    const pieData = getPieChartData(activeDrillCategory || undefined);
 
     return (
         <View className="flex-1 bg-gray-50">
@@ -315,7 +280,7 @@ export default function DashboardScreen() {
                                     <View>
                                         <Text className="text-white/70 text-sm font-medium">This Month</Text>
                                         <Text className="text-white text-xl font-bold">
-                                            {formatters.currency(thisMonthTotal)}
+                                            {formatAmount(thisMonthTotal)}
                                         </Text>
                                     </View>
                                     {/* <View className="w-12 h-12 bg-blue-500/20 rounded-full items-center justify-center">
@@ -375,7 +340,7 @@ export default function DashboardScreen() {
                                     <View className="flex-1">
                                         <Text className="text-red-800 font-bold text-lg mb-1">Budget Exceeded!</Text>
                                         <Text className="text-red-600 text-sm leading-5">
-                                            You've spent ${(currentMonthSpent - budgetSettings.monthlyLimit).toFixed(2)} over your monthly limit.
+                                            You've spent {formatAmount(currentPeriodSpent - effectiveLimit)} over your {periodLabel.toLowerCase()} limit.
                                         </Text>
                                     </View>
                                 </View>
@@ -398,7 +363,7 @@ export default function DashboardScreen() {
                         }}
                     >
                         <View className="flex-row justify-between items-center mb-6">
-                            <Text className="text-xl font-bold text-gray-900">Monthly Budget</Text>
+                            <Text className="text-xl font-bold text-gray-900">{periodLabel} Budget</Text>
                             <TouchableOpacity
                                 onPress={() => router.push('/budget-settings')}
                                 className="p-3 rounded-2xl bg-blue-50 shadow-md"
@@ -436,16 +401,21 @@ export default function DashboardScreen() {
                         <View className="bg-gray-50 rounded-2xl p-6">
                             <View className="flex-row justify-between items-center mb-4">
                                 <View className="flex-1">
-                                    <Text className="text-gray-600 text-sm font-medium mb-1">Spent this month</Text>
+                                    <Text className="text-gray-600 text-sm font-medium mb-1">Spent {budgetPeriod.formatRange(currentPeriod)}</Text>
                                     <Text className="text-2xl font-bold text-gray-900">
-                                        {formatters.currency(currentMonthSpent)}
+                                        {formatAmount(currentPeriodSpent)}
                                     </Text>
                                 </View>
                                 <View className="items-end">
                                     <Text className="text-gray-600 text-sm font-medium mb-1">Budget limit</Text>
                                     <Text className="text-xl font-semibold text-gray-700">
-                                        {formatters.currency(budgetSettings.monthlyLimit)}
+                                        {formatAmount(effectiveLimit)}
                                     </Text>
+                                    {rolloverAmount !== 0 && (
+                                        <Text className={`text-xs font-medium ${rolloverAmount > 0 ? 'text-emerald-600' : 'text-red-500'}`}>
+                                            {rolloverAmount > 0 ? '+' : '−'}{formatAmount(Math.abs(rolloverAmount))} rollover
+                                        </Text>
+                                    )}
                                 </View>
                             </View>
 
@@ -463,14 +433,22 @@ export default function DashboardScreen() {
                                 <View>
                                     <Text className="text-gray-600 text-sm">Remaining</Text>
                                     <Text className="text-lg font-bold text-emerald-600">
-                                        {formatters.currency(Math.max(budgetSettings.monthlyLimit - currentMonthSpent, 0))}
+                                        {formatAmount(Math.max(effectiveLimit - currentPeriodSpent - committedAmount, 0))}
                                     </Text>
                                 </View>
+                                {committedAmount > 0 && !isOverBudget && (
+                                    <View className="items-end">
+                                        <Text className="text-gray-600 text-sm">Committed recurring</Text>
+                                        <Text className="text-lg font-bold text-amber-600">
+                                            {formatAmount(committedAmount)}
+                                        </Text>
+                                    </View>
+                                )}
                                 {isOverBudget && (
                                     <View className="items-end">
                                         <Text className="text-red-500 text-sm font-medium">Over budget</Text>
                                         <Text className="text-red-600 font-bold text-lg">
-                                            {formatters.currency(currentMonthSpent - budgetSettings.monthlyLimit)}
+                                            {formatAmount(currentPeriodSpent - effectiveLimit)}
                                         </Text>
                                     </View>
                                 )}
@@ -478,6 +456,68 @@ export default function DashboardScreen() {
                         </View>
                     </AnimatedCard>
 
+                    {/* Savings Goals */}
+                    <AnimatedCard
+                        className="mb-6 p-6 bg-white shadow-2xl border-0"
+                        variant="elevated"
+                        animationType="slideUp"
+                        delay={250}
+                        style={{
+                            shadowColor: '#000',
+                            shadowOffset: { width: 0, height: 8 },
+                            shadowOpacity: 0.1,
+                            shadowRadius: 16,
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between mb-4">
+                            <Text className="text-xl font-bold text-gray-900">Savings Goals</Text>
+                            <TouchableOpacity
+                                onPress={() => router.push('/goals')}
+                                className="flex-row items-center bg-rose-50 px-3 py-2 rounded-full"
+                            >
+                                <Ionicons name="flag-outline" size={14} color="#e11d48" />
+                                <Text className="text-rose-700 text-xs font-semibold ml-1">
+                                    {goals.length > 0 ? 'All goals' : 'New goal'}
+                                </Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        {activeGoals.length === 0 ? (
+                            <Text className="text-gray-500 text-sm">
+                                {goals.length > 0
+                                    ? 'Every goal is reached. Time to set a new one?'
+                                    : 'Set a target and a date to see how much to put aside each month.'}
+                            </Text>
+                        ) : (
+                            activeGoals.map(goal => {
+                                const status = GOAL_STATUS_DETAILS[goalProgress.status(goal)];
+                                const requiredMonthly = goalProgress.requiredMonthly(goal);
+                                return (
+                                    <TouchableOpacity
+                                        key={goal.id}
+                                        onPress={() => router.push(`/goal-details/${goal.id}`)}
+                                        className="mb-4"
+                                    >
+                                        <View className="flex-row items-center justify-between mb-1">
+                                            <Text className="text-gray-900 font-semibold flex-1" numberOfLines={1}>{goal.name}</Text>
+                                            <Text className="text-xs font-semibold" style={{ color: status.color }}>{status.label}</Text>
+                                        </View>
+                                        <View className="h-2 bg-gray-200 rounded-full overflow-hidden mb-1">
+                                            <View
+                                                className="h-2 rounded-full"
+                                                style={{ width: `${goalProgress.fraction(goal) * 100}%`, backgroundColor: status.color }}
+                                            />
+                                        </View>
+                                        <Text className="text-gray-500 text-xs">
+                                            {formatAmount(goalProgress.saved(goal), goal.currency)} of {formatAmount(goal.targetAmount, goal.currency)}
+                                            {requiredMonthly !== null && ` · ${formatAmount(requiredMonthly, goal.currency)}/month needed`}
+                                        </Text>
+                                    </TouchableOpacity>
+                                );
+                            })
+                        )}
+                    </AnimatedCard>
+
                     {/* Enhanced Quick Stats Grid */}
                     <View className="grid grid-cols-2 gap-4 mb-6">
                         <AnimatedCard
@@ -497,7 +537,7 @@ export default function DashboardScreen() {
                                 </View>
                                 <Text className="text-white/80 text-sm font-medium mb-2">This Month</Text>
                                 <Text className="text-white text-2xl font-bold mb-1">
-                                    {formatters.currency(thisMonthTotal)}
+                                    {formatAmount(thisMonthTotal)}
                                 </Text>
                                 <Text className="text-white/70 text-xs">
                                     {thisMonthExpenses.length} transactions
@@ -522,7 +562,7 @@ export default function DashboardScreen() {
                                 </View>
                                 <Text className="text-white/80 text-sm font-medium mb-2">Total Spent</Text>
                                 <Text className="text-white text-2xl font-bold mb-1">
-                                    {formatters.currency(calculateTotalExpenses())}
+                                    {formatAmount(calculateTotalExpenses())}
                                 </Text>
                                 <Text className="text-white/70 text-xs">
                                     {expenses.length} total
@@ -531,6 +571,90 @@ export default function DashboardScreen() {
                         </AnimatedCard>
                     </View>
 
+                    {/* Cash Flow */}
+                    <AnimatedCard
+                        className="mb-6 p-6 bg-white shadow-2xl border-0"
+                        variant="elevated"
+                        animationType="slideUp"
+                        delay={450}
+                        style={{
+                            shadowColor: '#000',
+                            shadowOffset: { width: 0, height: 8 },
+                            shadowOpacity: 0.1,
+                            shadowRadius: 16,
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between mb-4">
+                            <View className="flex-1">
+                                <Text className="text-xl font-bold text-gray-900 mb-1">
+                                    Cash Flow
+                                </Text>
+                                <Text className="text-gray-500 text-sm">Last 6 months in {homeCurrency}</Text>
+                            </View>
+                            <TouchableOpacity
+                                onPress={() => router.push('/income')}
+                                className="flex-row items-center bg-green-50 px-3 py-2 rounded-full"
+                            >
+                                <Ionicons name="wallet-outline" size={14} color="#16a34a" />
+                                <Text className="text-green-700 text-xs font-semibold ml-1">Income</Text>
+                            </TouchableOpacity>
+                        </View>
+
+                        {/* This month */}
+                        <View className="flex-row mb-4">
+                            <View className="flex-1">
+                                <Text className="text-gray-500 text-xs">Income</Text>
+                                <Text className="text-green-600 font-bold text-base">{formatAmount(currentCashFlow.income)}</Text>
+                            </View>
+                            <View className="flex-1">
+                                <Text className="text-gray-500 text-xs">Spent</Text>
+                                <Text className="text-red-500 font-bold text-base">{formatAmount(currentCashFlow.expenses)}</Text>
+                            </View>
+                            <View className="flex-1">
+                                <Text className="text-gray-500 text-xs">Net savings</Text>
+                                <Text className={`font-bold text-base ${currentCashFlow.net >= 0 ? 'text-gray-900' : 'text-red-500'}`}>
+                                    {formatAmount(currentCashFlow.net)}
+                                </Text>
+                            </View>
+                        </View>
+                        <Text className="text-gray-600 text-sm mb-4">
+                            {currentCashFlow.savingsRate === null
+                                ? 'Add income to see your savings rate'
+                                : `Savings rate this month: ${Math.round(currentCashFlow.savingsRate * 100)}%`}
+                        </Text>
+
+                        {/* Income vs expenses per month */}
+                        <View className="border-t border-gray-200 pt-4">
+                            {cashFlowMonths.map(month => (
+                                <View key={`${month.year}-${month.month}`} className="flex-row items-center mb-3">
+                                    <Text className="text-gray-600 text-xs w-10">{month.label}</Text>
+                                    <View className="flex-1 mr-3">
+                                        <View className="h-2 bg-gray-100 rounded-full mb-1 overflow-hidden">
+                                            <View
+                                                className="h-2 bg-green-500 rounded-full"
+                                                style={{ width: `${(month.income / cashFlowScale) * 100}%` }}
+                                            />
+                                        </View>
+                                        <View className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                                            <View
+                                                className="h-2 bg-red-400 rounded-full"
+                                                style={{ width: `${(month.expenses / cashFlowScale) * 100}%` }}
+                                            />
+                                        </View>
+                                    </View>
+                                    <View className="items-end" style={{ minWidth: 90 }}>
+                                        <Text className={`text-xs font-semibold ${month.net >= 0 ? 'text-gray-900' : 'text-red-500'}`}>
+                                            {month.net >= 0 ? '+' : ''}{formatAmount(month.net)}
+                                        </Text>
+                                        {month.savingsRate !== null && (
+                                            <Text className="text-gray-500 text-xs">{Math.round(month.savingsRate * 100)}% saved</Text>
+                                        )}
+                                    </View>
+                                </View>
+                            ))}
+                        </View>
+                    </AnimatedCard>
+
                     {/* Enhanced Weekly Spending Chart */}
                     {weeklyData.datasets[0].data.some(val => val > 0) && (
                         <AnimatedCard
@@ -550,7 +674,7 @@ export default function DashboardScreen() {
                                     <Text className="text-xl font-bold text-gray-900 mb-1">
                                         Weekly Spending Trend
                                     </Text>
-                                    <Text className="text-gray-500 text-sm">Last 7 days overview</Text>
+                                    <Text className="text-gray-500 text-sm">Last 7 days overview in {homeCurrency}</Text>
                                 </View>
                             </View>
                             <LineChart
@@ -590,14 +714,23 @@ export default function DashboardScreen() {
                             }}
                         >
                             <View className="flex-row items-center justify-between mb-6">
-                                <View>
+                                <View className="flex-1">
                                     <Text className="text-2xl font-bold text-gray-900 mb-1">
-                                        Spending by Category
+                                        {activeDrillCategory || 'Spending by Category'}
                                     </Text>
                                     <Text className="text-gray-600 text-sm font-medium">
-                                        Current month breakdown
+                                        {activeDrillCategory ? 'By subcategory' : 'Current month breakdown'}
                                     </Text>
                                 </View>
+                                {activeDrillCategory && (
+                                    <TouchableOpacity
+                                        onPress={() => setDrillCategory(null)}
+                                        className="flex-row items-center bg-blue-50 px-3 py-2 rounded-full"
+                                    >
+                                        <Ionicons name="arrow-back" size={14} color="#3b82f6" />
+                                        <Text className="text-blue-600 text-xs font-semibold ml-1">All</Text>
+                                    </TouchableOpacity>
+                                )}
                             </View>
                             <PieChart
                                 data={pieData}
@@ -620,10 +753,17 @@ export default function DashboardScreen() {
                                 }}
                             />
                             <View className="mt-4 border-t border-gray-200 pt-4">
-                                <Text className="text-gray-700 font-semibold mb-2">Category Breakdown</Text>
+                                <Text className="text-gray-700 font-semibold mb-2">
+                                    {activeDrillCategory ? 'Subcategory Breakdown' : 'Category Breakdown'}
+                                </Text>
                                 <View className="flex-row flex-wrap justify-between">
                                     {pieData.map((item, index) => (
-                                        <View key={index} className="flex-row items-center mb-3 w-1/2">
+                                        <TouchableOpacity
+                                            key={index}
+                                            onPress={() => setDrillCategory(item.key)}
+                                            disabled={!!activeDrillCategory || !hasSubcategories(item.key)}
+                                            className="flex-row items-center mb-3 w-1/2"
+                                        >
                                             <View 
                                                 style={{
                                                     width: 12,
@@ -637,7 +777,10 @@ export default function DashboardScreen() {
                                                 <Text className="text-gray-800 text-sm font-medium">{item.name}</Text>
                                                 <Text className="text-gray-600 text-xs">{item.population}%</Text>
                                             </View>
-                                        </View>
+                                            {!activeDrillCategory && hasSubcategories(item.key) && (
+                                                <Ionicons name="chevron-forward" size={14} color="#9ca3af" style={{ marginLeft: 4 }} />
+                                            )}
+                                        </TouchableOpacity>
                                     ))}
                                 </View>
                             </View>
@@ -740,7 +883,7 @@ export default function DashboardScreen() {
                                     </View>
                                     <View className="items-end">
                                         <Text className="text-gray-900 font-bold text-xl">
-                                            {formatters.currency(item.amount)}
+                                            {formatAmount(item.amount)}
                                         </Text>
                                         <Text className="text-gray-500 text-xs">total spent</Text>
                                     </View>
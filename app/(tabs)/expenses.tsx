@@ -1,29 +1,39 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, ScrollView, TouchableOpacity, RefreshControl, Animated, StatusBar } from 'react-native';
-import { router, useFocusEffect } from 'expo-router';
+import { View, Text, ScrollView, TouchableOpacity, RefreshControl, Animated, StatusBar, ActivityIndicator, NativeSyntheticEvent, NativeScrollEvent } from 'react-native';
+import { router } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import Toast from 'react-native-toast-message';
 
 import { useAuth } from '../../contexts/AuthContext';
-import { expenseAPI } from '../../services/api';
+import { useCurrency } from '../../contexts/CurrencyContext';
+import { useExpenses } from '../../contexts/ExpensesContext';
+import { useCategories } from '../../contexts/CategoriesContext';
 import { Expense } from '../../types';
-import { formatters } from '../../utils/formatters';
 import { debug } from '../../utils/debug';
+import { expenseSelectors } from '../../utils/expenseSelectors';
+import { formatters } from '../../utils/formatters';
+import { tags } from '../../utils/tags';
 import { Input } from '../../components/ui/Input';
+import { DatePicker } from '../../components/ui/DatePicker';
 import { Loading } from '../../components/ui/Loading';
 import { AnimatedCard } from '../../components/ui/AnimatedCard';
 import { ExpenseCard } from '../../components/expenses/ExpenseCard';
 
 export default function ExpensesScreen() {
-    const { user, isAuthenticated } = useAuth();
-    const [expenses, setExpenses] = useState<Expense[]>([]);
+    const { isAuthenticated } = useAuth();
+    const { expenses, isLoading, refreshExpenses, hasMoreExpenses, loadMoreExpenses, deleteExpense } = useExpenses();
+    const { formatAmount } = useCurrency();
+    const { categories: categoryDefinitions } = useCategories();
     const [filteredExpenses, setFilteredExpenses] = useState<Expense[]>([]);
-    const [isLoading, setIsLoading] = useState(true);
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [searchQuery, setSearchQuery] = useState('');
     const [selectedCategory, setSelectedCategory] = useState<any>('');
+    const [selectedTags, setSelectedTags] = useState<string[]>([]);
+    const [dateRange, setDateRange] = useState<{ from?: string; to?: string }>({});
+    const [showDateRange, setShowDateRange] = useState(false);
+    const [isLoadingMore, setIsLoadingMore] = useState(false);
 
     // Animation refs
     const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -51,131 +61,83 @@ export default function ExpensesScreen() {
         ]).start();
     }, []);
 
-    useEffect(() => {
-        loadExpenses();
-    }, []);
-
-    // Refresh data when screen comes into focus
-    useFocusEffect(
-        React.useCallback(() => {
-            loadExpenses();
-        }, [])
-    );
-
     useEffect(() => {
         filterExpenses();
-    }, [expenses, searchQuery, selectedCategory]);
+    }, [expenses, searchQuery, selectedCategory, selectedTags, dateRange]);
 
-    const loadExpenses = async () => {
+    const onRefresh = async () => {
+        setIsRefreshing(true);
         try {
-            debug.log('ExpensesScreen', 'Loading expenses...');
-            setIsLoading(true);
-            let data = await expenseAPI.getAllExpenses();
-            data = data.filter(expense => expense.userId === user?.id);
-            debug.log('ExpensesScreen', 'Raw expenses data received:', data);
-
-            // Normalize and validate each expense
-            const normalizedExpenses = data.map((expense, index) => {
-                const validation = debug.validateExpense(expense);
-                if (!validation.isValid) {
-                    debug.warn('ExpensesScreen', `Invalid expense at index ${index}:`, validation.issues);
-                }
-
-                // Normalize the expense data structure
-                const normalized = debug.normalizeExpense(expense);
-                return normalized;
-            }).filter(expense => expense && expense.id); // Filter out invalid expenses
-
-            debug.log('ExpensesScreen', 'Normalized expenses:', normalizedExpenses);
-            setExpenses(normalizedExpenses);
+            await refreshExpenses();
         } catch (error) {
-            debug.error('ExpensesScreen', 'Error loading expenses:', error);
+            debug.error('ExpensesScreen', 'Error refreshing expenses:', error);
             Toast.show({
                 type: 'error',
                 text1: 'Error',
                 text2: 'Failed to load expenses',
             });
         } finally {
-            setIsLoading(false);
+            setIsRefreshing(false);
         }
     };
 
-    const onRefresh = async () => {
-        setIsRefreshing(true);
-        await loadExpenses();
-        setIsRefreshing(false);
-    };
+    const handleLoadMore = async () => {
+        if (isLoadingMore || !hasMoreExpenses) return;
 
-    const filterExpenses = () => {
-        debug.log('ExpensesScreen', 'filterExpenses called', { searchQuery, selectedCategory, expensesCount: expenses.length });
-
-        let filtered = [...expenses];
-
-        // Filter by search query
-        if (searchQuery.trim()) {
-            filtered = filtered.filter(expense => {
-                debug.log('ExpensesScreen', 'Filtering expense:', expense);
-
-                try {
-                    // Safe string checks with null/undefined handling
-                    const titleMatch = expense.title?.toLowerCase().includes(searchQuery.toLowerCase()) || false;
-                    const categoryMatch = expense.category?.toLowerCase().includes(searchQuery.toLowerCase()) || false;
-                    const descriptionMatch = expense.description?.toLowerCase().includes(searchQuery.toLowerCase()) || false;
-
-                    return titleMatch || categoryMatch || descriptionMatch;
-                } catch (error) {
-                    debug.error('ExpensesScreen', 'Error filtering expense:', error);
-                    return false;
-                }
+        try {
+            setIsLoadingMore(true);
+            await loadMoreExpenses();
+        } catch (error) {
+            debug.error('ExpensesScreen', 'Error loading more expenses:', error);
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to load more expenses',
             });
+        } finally {
+            setIsLoadingMore(false);
         }
+    };
 
-        // Filter by category
-        if (selectedCategory) {
-            filtered = filtered.filter(expense => {
-                debug.log('ExpensesScreen', 'Category filtering expense:', { expense: expense.id, category: expense.category, selectedCategory });
-                try {
-                    return expense.category === selectedCategory;
-                } catch (error) {
-                    debug.error('ExpensesScreen', 'Error in category filter:', error);
-                    return false;
-                }
-            });
+    const handleScroll = ({ nativeEvent }: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const { layoutMeasurement, contentOffset, contentSize } = nativeEvent;
+        const distanceFromBottom = contentSize.height - (layoutMeasurement.height + contentOffset.y);
+        if (distanceFromBottom < 200) {
+            handleLoadMore();
         }
+    };
 
-        // Sort by date (newest first)
-        try {
-            filtered.sort((a, b) => {
-                const dateA = new Date(a.date || a.createdAt || new Date()).getTime();
-                const dateB = new Date(b.date || b.createdAt || new Date()).getTime();
-                return dateB - dateA;
-            });
-        } catch (error) {
-            debug.error('ExpensesScreen', 'Error sorting expenses:', error);
-        }
+    const filterExpenses = () => {
+        debug.log('ExpensesScreen', 'filterExpenses called', { searchQuery, selectedCategory, selectedTags, dateRange, expensesCount: expenses.length });
+
+        const filtered = expenseSelectors.sortByDateDesc(expenseSelectors.filter(expenses, {
+            search: searchQuery,
+            category: selectedCategory,
+            tags: selectedTags,
+            ...dateRange,
+        }));
 
         debug.log('ExpensesScreen', 'Filtered expenses result:', filtered.length);
         setFilteredExpenses(filtered);
     };
 
-    const handleDeleteExpense = async (expenseId: string) => {
-
-
+    const handleExport = () => {
+        const params = new URLSearchParams();
+        if (searchQuery.trim()) params.set('search', searchQuery.trim());
+        if (selectedCategory) params.set('category', selectedCategory);
+        if (selectedTags.length > 0) params.set('tags', selectedTags.join(','));
+        if (dateRange.from) params.set('from', dateRange.from);
+        if (dateRange.to) params.set('to', dateRange.to);
+        const query = params.toString();
+        router.push(`/export-expenses${query ? `?${query}` : ''}`);
+    };
 
+    const handleDeleteExpense = async (expenseId: string) => {
         try {
             debug.log('ExpensesScreen', 'Deleting expense:', expenseId);
 
-            // Show loading state
-            setIsRefreshing(true);
-
-            // Delete from API
-            await expenseAPI.deleteExpense(expenseId);
-
-            // Remove from local state immediately for better UX
-            setExpenses(prev => prev.filter(expense => expense.id !== expenseId));
-
-            // Reload all expenses to ensure consistency
-            await loadExpenses();
+            // Removed from the shared list immediately; the store syncs the deletion to the API
+            await deleteExpense(expenseId);
 
             Toast.show({
                 type: 'success',
@@ -191,24 +153,23 @@ export default function ExpensesScreen() {
                 text1: 'Error',
                 text2: 'Failed to delete expense. Please try again.',
             });
-
-            // Reload expenses to ensure consistency
-            await loadExpenses();
-        } finally {
-            setIsRefreshing(false);
         }
     };
 
+    // Registry order first, then any names the registry doesn't know about
     const getUniqueCategories = () => {
-        const categories = [...new Set(expenses.map(expense => expense.category))];
-        return categories.sort();
+        const used = new Set(expenses.map(expense => expense.category).filter((name): name is string => !!name));
+        const known = categoryDefinitions.map(category => category.name).filter(name => used.has(name));
+        const unknown = [...used].filter(name => !known.includes(name)).sort();
+        return [...known, ...unknown];
+    };
+
+    const toggleTag = (tag: string) => {
+        setSelectedTags(prev => (prev.includes(tag) ? prev.filter(selected => selected !== tag) : [...prev, tag]));
     };
 
     const getTotalAmount = () => {
-        return filteredExpenses.reduce((total, expense) => {
-            const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-            return total + amount;
-        }, 0);
+        return expenseSelectors.total(filteredExpenses);
     };
 
     if (isLoading) {
@@ -216,6 +177,9 @@ export default function ExpensesScreen() {
     }
 
     const uniqueCategories = getUniqueCategories();
+    const usedTags = tags.all(expenses);
+    const hasFilters = !!(searchQuery || selectedCategory || selectedTags.length > 0 || dateRange.from || dateRange.to);
+    const today = new Date().toISOString().split('T')[0];
 
     return (
         <View className="flex-1 bg-gray-50">
@@ -239,6 +203,18 @@ export default function ExpensesScreen() {
                                 Track and manage your spending
                             </Text>
                         </View>
+                        <TouchableOpacity
+                            onPress={() => router.push('/import-expenses')}
+                            className="bg-white/10 p-2 rounded-xl mr-3"
+                        >
+                            <Ionicons name="download-outline" size={20} color="white" />
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            onPress={handleExport}
+                            className="bg-white/10 p-2 rounded-xl mr-3"
+                        >
+                            <Ionicons name="share-outline" size={20} color="white" />
+                        </TouchableOpacity>
                         <TouchableOpacity
                             onPress={() => router.push('/expense-form')}
                             className="bg-blue-500 px-4 py-2 rounded-xl flex-row items-center shadow-lg"
@@ -267,6 +243,45 @@ export default function ExpensesScreen() {
                         variant="filled"
                     />
 
+                    {/* Date Range Filter */}
+                    <View className="flex-row items-center justify-between mt-3">
+                        <TouchableOpacity
+                            onPress={() => setShowDateRange(!showDateRange)}
+                            className="flex-row items-center"
+                        >
+                            <Ionicons name="calendar-outline" size={18} color="#6b7280" />
+                            <Text className="text-gray-600 font-medium ml-2">
+                                {dateRange.from || dateRange.to
+                                    ? `${dateRange.from ? formatters.date(dateRange.from) : 'Any'} – ${dateRange.to ? formatters.date(dateRange.to) : 'Any'}`
+                                    : 'Any date'}
+                            </Text>
+                        </TouchableOpacity>
+                        {(dateRange.from || dateRange.to) && (
+                            <TouchableOpacity onPress={() => setDateRange({})}>
+                                <Text className="text-blue-500 font-medium">Clear</Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+
+                    {showDateRange && (
+                        <View className="flex-row mt-3">
+                            <View className="flex-1 mr-2">
+                                <DatePicker
+                                    label="From"
+                                    value={dateRange.from || today}
+                                    onDateChange={(from) => setDateRange(prev => ({ ...prev, from }))}
+                                />
+                            </View>
+                            <View className="flex-1 ml-2">
+                                <DatePicker
+                                    label="To"
+                                    value={dateRange.to || today}
+                                    onDateChange={(to) => setDateRange(prev => ({ ...prev, to }))}
+                                />
+                            </View>
+                        </View>
+                    )}
+
                     {/* Category Filter */}
                     {uniqueCategories.length > 0 && (
                         <ScrollView
@@ -305,6 +320,43 @@ export default function ExpensesScreen() {
                         </ScrollView>
                     )}
 
+                    {/* Tag Filter: expenses must carry every selected tag */}
+                    {usedTags.length > 0 && (
+                        <ScrollView
+                            horizontal
+                            showsHorizontalScrollIndicator={false}
+                            className="mt-3"
+                        >
+                            <TouchableOpacity
+                                onPress={() => router.push('/tag-report')}
+                                className="mr-2 px-3 py-1 rounded-full bg-indigo-50 flex-row items-center"
+                            >
+                                <Ionicons name="stats-chart-outline" size={14} color="#6366f1" />
+                                <Text className="text-indigo-600 text-sm font-medium ml-1">Totals</Text>
+                            </TouchableOpacity>
+                            {usedTags.map((tag) => (
+                                <TouchableOpacity
+                                    key={tag}
+                                    className={`mr-2 px-3 py-1 rounded-full ${selectedTags.includes(tag)
+                                        ? 'bg-indigo-500'
+                                        : 'bg-white border border-gray-300'
+                                        }`}
+                                    onPress={() => toggleTag(tag)}
+                                >
+                                    <Text className={`text-sm font-medium ${selectedTags.includes(tag) ? 'text-white' : 'text-gray-600'
+                                        }`}>
+                                        #{tag}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                            {selectedTags.length > 0 && (
+                                <TouchableOpacity onPress={() => setSelectedTags([])} className="px-2 py-1">
+                                    <Text className="text-blue-500 font-medium">Clear</Text>
+                                </TouchableOpacity>
+                            )}
+                        </ScrollView>
+                    )}
+
                     {/* Summary */}
                     <View className="flex-row justify-between items-center mt-6 pt-4">
                         <View>
@@ -312,12 +364,12 @@ export default function ExpensesScreen() {
                                 {filteredExpenses.length} expense{filteredExpenses.length !== 1 ? 's' : ''}
                             </Text>
                             <Text className="text-gray-500 text-xs">
-                                {searchQuery || selectedCategory ? 'Filtered results' : 'All expenses'}
+                                {hasFilters ? 'Filtered results' : 'All expenses'}
                             </Text>
                         </View>
                         <View className="items-end">
                             <Text className="text-xl font-bold text-gray-900">
-                                {formatters.currency(getTotalAmount())}
+                                {formatAmount(getTotalAmount())}
                             </Text>
                             <Text className="text-gray-500 text-xs">Total amount</Text>
                         </View>
@@ -330,6 +382,8 @@ export default function ExpensesScreen() {
                     refreshControl={
                         <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
                     }
+                    onScroll={handleScroll}
+                    scrollEventThrottle={400}
                 >
                     <View className="p-4">
                         {filteredExpenses.length > 0 ? (
@@ -363,16 +417,16 @@ export default function ExpensesScreen() {
                                         <Ionicons name="receipt-outline" size={40} color="#9ca3af" />
                                     </View>
                                     <Text className="text-gray-500 text-xl font-semibold mb-3">
-                                        {searchQuery || selectedCategory ? 'No matching expenses' : 'No expenses yet'}
+                                        {hasFilters ? 'No matching expenses' : 'No expenses yet'}
                                     </Text>
                                     <Text className="text-gray-400 text-center mb-8 px-8 leading-6">
-                                        {searchQuery || selectedCategory
+                                        {hasFilters
                                             ? 'Try adjusting your search or filter criteria to find what you\'re looking for'
                                             : 'Start tracking your expenses by adding your first one and take control of your finances'
                                         }
                                     </Text>
 
-                                    {!searchQuery && !selectedCategory && (
+                                    {!hasFilters && (
                                         <TouchableOpacity
                                             className="bg-blue-500 px-8 py-4 rounded-2xl shadow-lg"
                                             onPress={() => router.push('/expense-form')}
@@ -386,6 +440,12 @@ export default function ExpensesScreen() {
                                 </View>
                             </AnimatedCard>
                         )}
+
+                        {isLoadingMore && (
+                            <View className="py-4 items-center">
+                                <ActivityIndicator size="small" color="#3b82f6" />
+                            </View>
+                        )}
                     </View>
                 </ScrollView>
             </View>
@@ -141,6 +141,20 @@ export default function ProfileScreen() {
                                 <Ionicons name="chevron-forward" size={20} color="#6b7280" />
                             </TouchableOpacity>
 
+                            <TouchableOpacity
+                                className="flex-row items-center p-4 bg-amber-50 rounded-2xl"
+                                onPress={() => router.push('/currency-settings')}
+                            >
+                                <View className="w-12 h-12 bg-amber-100 rounded-full items-center justify-center mr-4">
+                                    <Ionicons name="cash-outline" size={24} color="#f59e0b" />
+                                </View>
+                                <View className="flex-1">
+                                    <Text className="text-gray-900 font-bold text-lg">Currencies</Text>
+                                    <Text className="text-gray-600 text-sm">Home currency and exchange rates</Text>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+                            </TouchableOpacity>
+
                             <TouchableOpacity
                                 className="flex-row items-center p-4 bg-emerald-50 rounded-2xl"
                                 onPress={() => router.push('/(tabs)/expenses')}
@@ -155,6 +169,76 @@ export default function ProfileScreen() {
                                 <Ionicons name="chevron-forward" size={20} color="#6b7280" />
                             </TouchableOpacity>
 
+                            <TouchableOpacity
+                                className="flex-row items-center p-4 bg-violet-50 rounded-2xl"
+                                onPress={() => router.push('/recurring-expenses')}
+                            >
+                                <View className="w-12 h-12 bg-violet-100 rounded-full items-center justify-center mr-4">
+                                    <Ionicons name="repeat-outline" size={24} color="#8b5cf6" />
+                                </View>
+                                <View className="flex-1">
+                                    <Text className="text-gray-900 font-bold text-lg">Recurring Expenses</Text>
+                                    <Text className="text-gray-600 text-sm">Rent, subscriptions and bills</Text>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                className="flex-row items-center p-4 bg-cyan-50 rounded-2xl"
+                                onPress={() => router.push('/categories')}
+                            >
+                                <View className="w-12 h-12 bg-cyan-100 rounded-full items-center justify-center mr-4">
+                                    <Ionicons name="pricetags-outline" size={24} color="#06b6d4" />
+                                </View>
+                                <View className="flex-1">
+                                    <Text className="text-gray-900 font-bold text-lg">Categories</Text>
+                                    <Text className="text-gray-600 text-sm">Names, icons and colors</Text>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                className="flex-row items-center p-4 bg-rose-50 rounded-2xl"
+                                onPress={() => router.push('/goals')}
+                            >
+                                <View className="w-12 h-12 bg-rose-100 rounded-full items-center justify-center mr-4">
+                                    <Ionicons name="flag-outline" size={24} color="#f43f5e" />
+                                </View>
+                                <View className="flex-1">
+                                    <Text className="text-gray-900 font-bold text-lg">Savings Goals</Text>
+                                    <Text className="text-gray-600 text-sm">Targets, contributions and progress</Text>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                className="flex-row items-center p-4 bg-indigo-50 rounded-2xl"
+                                onPress={() => router.push('/groups')}
+                            >
+                                <View className="w-12 h-12 bg-indigo-100 rounded-full items-center justify-center mr-4">
+                                    <Ionicons name="people-outline" size={24} color="#6366f1" />
+                                </View>
+                                <View className="flex-1">
+                                    <Text className="text-gray-900 font-bold text-lg">Groups</Text>
+                                    <Text className="text-gray-600 text-sm">Shared costs and settling up</Text>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+                            </TouchableOpacity>
+
+                            <TouchableOpacity
+                                className="flex-row items-center p-4 bg-teal-50 rounded-2xl"
+                                onPress={() => router.push('/category-rules')}
+                            >
+                                <View className="w-12 h-12 bg-teal-100 rounded-full items-center justify-center mr-4">
+                                    <Ionicons name="git-branch-outline" size={24} color="#14b8a6" />
+                                </View>
+                                <View className="flex-1">
+                                    <Text className="text-gray-900 font-bold text-lg">Category Rules</Text>
+                                    <Text className="text-gray-600 text-sm">File expenses automatically</Text>
+                                </View>
+                                <Ionicons name="chevron-forward" size={20} color="#6b7280" />
+                            </TouchableOpacity>
+
                             <TouchableOpacity
                                 className="flex-row items-center p-4 bg-slate-50 rounded-2xl"
                                 onPress={() => router.push('/expense-form')}
@@ -8,7 +8,15 @@ import 'react-native-reanimated';
 import Toast from 'react-native-toast-message';
 
 import { AuthProvider } from '../contexts/AuthContext';
+import { CategoriesProvider } from '../contexts/CategoriesContext';
+import { CurrencyProvider } from '../contexts/CurrencyContext';
+import { ExpensesProvider } from '../contexts/ExpensesContext';
+import { IncomeProvider } from '../contexts/IncomeContext';
+import { GoalsProvider } from '../contexts/GoalsContext';
 import { BudgetProvider } from '../contexts/BudgetContext';
+import { CategoryRulesProvider } from '../contexts/CategoryRulesContext';
+import { CategoryClassifierProvider } from '../contexts/CategoryClassifierContext';
+import { GroupsProvider } from '../contexts/GroupsContext';
 import '../global.css';
 
 export {
@@ -56,28 +64,95 @@ function RootLayoutNav() {
 
   return (
     <AuthProvider>
-      <BudgetProvider>
-        <ThemeProvider value={DefaultTheme}>
-          <Stack>
-            <Stack.Screen name="index" options={{ headerShown: false }} />
-            <Stack.Screen name="login" options={{ headerShown: false }} />
-            <Stack.Screen name="register" options={{ headerShown: false }} />
-            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
-            <Stack.Screen name="expense-form" options={{
-              presentation: 'modal',
-              headerShown: false
-            }} />
-            <Stack.Screen name="expense-details/[id]" options={{
-              headerShown: false
-            }} />
-            <Stack.Screen name="budget-settings" options={{
-              presentation: 'modal',
-              headerShown: false
-            }} />
-          </Stack>
-          <Toast />
-        </ThemeProvider>
-      </BudgetProvider>
+      <CategoriesProvider>
+        <CurrencyProvider>
+          <ExpensesProvider>
+            <IncomeProvider>
+              <GoalsProvider>
+                <BudgetProvider>
+                  <CategoryRulesProvider>
+                    <CategoryClassifierProvider>
+                      <GroupsProvider>
+                        <ThemeProvider value={DefaultTheme}>
+                          <Stack>
+                            <Stack.Screen name="index" options={{ headerShown: false }} />
+                            <Stack.Screen name="login" options={{ headerShown: false }} />
+                            <Stack.Screen name="register" options={{ headerShown: false }} />
+                            <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+                            <Stack.Screen name="expense-form" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="expense-details/[id]" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="budget-settings" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="recurring-expenses" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="currency-settings" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="export-expenses" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="import-expenses" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="category-rules" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="categories" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="tag-report" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="groups" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="group-details/[id]" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="group-expense-form" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="income" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="income-form" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="goals" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="goal-details/[id]" options={{
+                              headerShown: false
+                            }} />
+                            <Stack.Screen name="goal-form" options={{
+                              presentation: 'modal',
+                              headerShown: false
+                            }} />
+                          </Stack>
+                          <Toast />
+                        </ThemeProvider>
+                      </GroupsProvider>
+                    </CategoryClassifierProvider>
+                  </CategoryRulesProvider>
+                </BudgetProvider>
+              </GoalsProvider>
+            </IncomeProvider>
+          </ExpensesProvider>
+        </CurrencyProvider>
+      </CategoriesProvider>
     </AuthProvider>
   );
 }
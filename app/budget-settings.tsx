@@ -11,15 +11,38 @@ import { Input } from '../components/ui/Input';
 import { Button } from '../components/ui/Button';
 import { AnimatedCard } from '../components/ui/AnimatedCard';
 import { useAuth } from '@/contexts/AuthContext';
-import { EXPENSE_CATEGORIES } from '../types';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useCategories } from '@/contexts/CategoriesContext';
+import { BUDGET_PERIOD_TYPES, BudgetPeriodType, BudgetAlertType } from '../types';
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '../services/notificationScheduler';
+import { budgetSelectors } from '../utils/budgetSelectors';
+import { budgetPeriod } from '../utils/budgetPeriod';
+import { recurrence } from '../utils/recurrence';
+import { formatters } from '../utils/formatters';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const NOTIFICATION_OPTIONS: { type: BudgetAlertType; title: string; description: string }[] = [
+    { type: 'threshold', title: 'Approaching limit', description: 'When spending reaches the notification threshold' },
+    { type: 'overLimit', title: 'Over budget', description: 'When spending goes past the budget limit' },
+    { type: 'categoryOverLimit', title: 'Category over limit', description: 'When a category goes past its own limit' },
+];
 
 export default function BudgetSettingsScreen() {
     const { budgetSettings, setBudgetSettings } = useBudget();
     const [monthlyLimit, setMonthlyLimit] = useState(budgetSettings.monthlyLimit.toString());
     const [notificationThreshold, setNotificationThreshold] = useState(budgetSettings.notificationThreshold.toString());
     const [categoryLimits, setCategoryLimits] = useState(budgetSettings.categoryLimits || {});
+    const [period, setPeriod] = useState<BudgetPeriodType>(budgetPeriod.type(budgetSettings));
+    const [weekStartsOn, setWeekStartsOn] = useState(budgetSettings.weekStartsOn ?? 1);
+    const [cycleStartDay, setCycleStartDay] = useState((budgetSettings.cycleStartDay || 1).toString());
+    const [rolloverSince, setRolloverSince] = useState(budgetSettings.rolloverSince);
+    const [categoryRolloverSince, setCategoryRolloverSince] = useState(budgetSettings.categoryRolloverSince || {});
+    const [notifications, setNotifications] = useState({ ...DEFAULT_NOTIFICATION_PREFERENCES, ...budgetSettings.notifications });
     const [isLoading, setIsLoading] = useState(false);
     const { isAuthenticated } = useAuth();
+    const { homeCurrency } = useCurrency();
+    const { activeCategories } = useCategories();
 
     // Animation refs
     const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -59,7 +82,13 @@ export default function BudgetSettingsScreen() {
         const thresholdValue = parseFloat(notificationThreshold);
 
         if (isNaN(limitValue) || limitValue <= 0) {
-            Alert.alert('Invalid Input', 'Please enter a valid monthly limit greater than 0.');
+            Alert.alert('Invalid Input', 'Please enter a valid budget limit greater than 0.');
+            return;
+        }
+
+        const cycleDayValue = parseInt(cycleStartDay, 10);
+        if (period === 'custom' && (isNaN(cycleDayValue) || cycleDayValue < 1 || cycleDayValue > 31)) {
+            Alert.alert('Invalid Input', 'Please enter a pay cycle start day between 1 and 31.');
             return;
         }
 
@@ -83,6 +112,14 @@ export default function BudgetSettingsScreen() {
                 monthlyLimit: limitValue,
                 notificationThreshold: thresholdValue,
                 categoryLimits: validatedCategoryLimits,
+                period,
+                ...(period === 'weekly' && { weekStartsOn }),
+                ...(period === 'custom' && { cycleStartDay: cycleDayValue }),
+                ...(rolloverSince && { rolloverSince }),
+                categoryRolloverSince: Object.fromEntries(
+                    Object.entries(categoryRolloverSince).filter(([category]) => validatedCategoryLimits[category] > 0)
+                ),
+                notifications,
             });
 
             Toast.show({
@@ -103,6 +140,29 @@ export default function BudgetSettingsScreen() {
         }
     };
 
+    // Live check of the values being edited, before they are saved
+    const draftOverAllocation = -budgetSelectors.unallocated({
+        monthlyLimit: parseFloat(monthlyLimit) || 0,
+        notificationThreshold: parseFloat(notificationThreshold) || 0,
+        categoryLimits,
+    });
+
+    // Carry-over counts from the period rollover is switched on in; keep the original date while it stays on
+    const toggleRollover = () => {
+        setRolloverSince(prev => (prev ? undefined : recurrence.toDateKey(new Date())));
+    };
+
+    const toggleCategoryRollover = (category: string) => {
+        setCategoryRolloverSince(prev => {
+            const { [category]: current, ...rest } = prev;
+            return current ? rest : { ...rest, [category]: recurrence.toDateKey(new Date()) };
+        });
+    };
+
+    const toggleNotification = (type: BudgetAlertType) => {
+        setNotifications(prev => ({ ...prev, [type]: !prev[type] }));
+    };
+
     const handleCategoryLimitChange = (category: string, value: string) => {
         const numericValue = value === '' ? 0 : parseFloat(value);
         if (!isNaN(numericValue)) {
@@ -113,6 +173,14 @@ export default function BudgetSettingsScreen() {
         }
     };
 
+    // Archived categories stay listed while they still have a limit, so it can be cleared
+    const limitCategories = activeCategories.map(category => category.name);
+    Object.keys(categoryLimits).forEach(category => {
+        if (categoryLimits[category] > 0 && !limitCategories.includes(category)) {
+            limitCategories.push(category);
+        }
+    });
+
     return (
         <View className="flex-1">
             <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
@@ -186,12 +254,63 @@ export default function BudgetSettingsScreen() {
                             delay={200}
                         >
                             <Text className="text-white text-lg font-bold mb-6">
-                                Monthly Budget Configuration
+                                Budget Configuration
                             </Text>
 
                             <View className="space-y-4">
+                                {/* Budget period */}
+                                <View className="mb-4">
+                                    <Text className="text-white text-sm font-semibold mb-3">Budget Period</Text>
+                                    <View className="flex-row flex-wrap">
+                                        {BUDGET_PERIOD_TYPES.map((type) => (
+                                            <TouchableOpacity
+                                                key={type}
+                                                onPress={() => setPeriod(type)}
+                                                className={`px-4 py-2 rounded-xl mr-2 mb-2 ${period === type ? 'bg-blue-500/30' : 'bg-white/5'}`}
+                                            >
+                                                <Text className={`font-medium ${period === type ? 'text-blue-300' : 'text-white'}`}>
+                                                    {budgetPeriod.label({ ...budgetSettings, period: type })}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+                                </View>
+
+                                {period === 'weekly' && (
+                                    <View className="mb-4">
+                                        <Text className="text-white text-sm font-semibold mb-3">Week Starts On</Text>
+                                        <View className="flex-row flex-wrap">
+                                            {WEEKDAYS.map((weekday, index) => (
+                                                <TouchableOpacity
+                                                    key={weekday}
+                                                    onPress={() => setWeekStartsOn(index)}
+                                                    className={`px-3 py-2 rounded-xl mr-2 mb-2 ${weekStartsOn === index ? 'bg-blue-500/30' : 'bg-white/5'}`}
+                                                >
+                                                    <Text className={`font-medium ${weekStartsOn === index ? 'text-blue-300' : 'text-white'}`}>
+                                                        {weekday}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            ))}
+                                        </View>
+                                    </View>
+                                )}
+
+                                {period === 'custom' && (
+                                    <Input
+                                        label="Pay Cycle Starts On Day"
+                                        placeholder="25"
+                                        value={cycleStartDay}
+                                        onChangeText={setCycleStartDay}
+                                        leftIcon="calendar-outline"
+                                        keyboardType="number-pad"
+                                        variant="glass"
+                                        helperText="Months shorter than this start on their last day"
+                                        required
+                                    />
+                                )}
+
                                 <Input
-                                    label="Monthly Spending Limit"
+                                    label={`${budgetPeriod.label({ ...budgetSettings, period })} Spending Limit`}
                                     placeholder="1000"
                                     value={monthlyLimit}
                                     onChangeText={setMonthlyLimit}
@@ -211,6 +330,23 @@ export default function BudgetSettingsScreen() {
                                     variant="glass"
                                     required
                                 />
+
+                                <TouchableOpacity
+                                    onPress={toggleRollover}
+                                    className="bg-white/10 border-2 border-white/20 rounded-2xl p-4 flex-row items-center justify-between"
+                                >
+                                    <View className="flex-1 mr-3">
+                                        <Text className="text-white text-base font-medium">Roll over unused budget</Text>
+                                        <Text className="text-gray-400 text-xs">
+                                            Carry each period's remainder or overspend into the next
+                                        </Text>
+                                    </View>
+                                    <Ionicons
+                                        name={rolloverSince ? 'checkbox' : 'square-outline'}
+                                        size={22}
+                                        color={rolloverSince ? '#60a5fa' : '#9ca3af'}
+                                    />
+                                </TouchableOpacity>
                             </View>
                         </AnimatedCard>
 
@@ -219,22 +355,74 @@ export default function BudgetSettingsScreen() {
                             animationType="slideUp"
                             delay={300}
                         >
-                            <Text className="text-white text-lg font-bold mb-6">
+                            <Text className="text-white text-lg font-bold mb-2">
                                 Category Limits
                             </Text>
+                            <Text className={`text-sm mb-6 ${draftOverAllocation > 0 ? 'text-red-400' : 'text-gray-300'}`}>
+                                {draftOverAllocation > 0
+                                    ? `Category limits exceed the budget limit by ${formatters.currency(draftOverAllocation, homeCurrency)}`
+                                    : `${formatters.currency(-draftOverAllocation, homeCurrency)} of the budget limit left unallocated`}
+                            </Text>
 
                             <View className="space-y-4">
-                                {EXPENSE_CATEGORIES.map((category) => (
-                                    <Input
-                                        key={category}
-                                        label={category}
-                                        placeholder="0"
-                                        value={categoryLimits[category]?.toString() || ''}
-                                        onChangeText={(value) => handleCategoryLimitChange(category, value)}
-                                        leftIcon="wallet-outline"
-                                        keyboardType="numeric"
-                                        variant="glass"
-                                    />
+                                {limitCategories.map((category) => (
+                                    <View key={category}>
+                                        <Input
+                                            label={category}
+                                            placeholder="0"
+                                            value={categoryLimits[category]?.toString() || ''}
+                                            onChangeText={(value) => handleCategoryLimitChange(category, value)}
+                                            leftIcon="wallet-outline"
+                                            keyboardType="numeric"
+                                            variant="glass"
+                                        />
+                                        {categoryLimits[category] > 0 && (
+                                            <TouchableOpacity
+                                                onPress={() => toggleCategoryRollover(category)}
+                                                className="flex-row items-center mb-4"
+                                            >
+                                                <Ionicons
+                                                    name={categoryRolloverSince[category] ? 'checkbox' : 'square-outline'}
+                                                    size={18}
+                                                    color={categoryRolloverSince[category] ? '#60a5fa' : '#9ca3af'}
+                                                />
+                                                <Text className="text-gray-300 text-sm ml-2">Roll over unused {category} budget</Text>
+                                            </TouchableOpacity>
+                                        )}
+                                    </View>
+                                ))}
+                            </View>
+                        </AnimatedCard>
+
+                        <AnimatedCard
+                            className="mb-6"
+                            animationType="slideUp"
+                            delay={350}
+                        >
+                            <Text className="text-white text-lg font-bold mb-2">
+                                Notifications
+                            </Text>
+                            <Text className="text-gray-300 text-sm mb-6">
+                                Each alert is sent at most once per budget period
+                            </Text>
+
+                            <View className="space-y-4">
+                                {NOTIFICATION_OPTIONS.map(({ type, title, description }) => (
+                                    <TouchableOpacity
+                                        key={type}
+                                        onPress={() => toggleNotification(type)}
+                                        className="bg-white/10 border-2 border-white/20 rounded-2xl p-4 flex-row items-center justify-between"
+                                    >
+                                        <View className="flex-1 mr-3">
+                                            <Text className="text-white text-base font-medium">{title}</Text>
+                                            <Text className="text-gray-400 text-xs">{description}</Text>
+                                        </View>
+                                        <Ionicons
+                                            name={notifications[type] ? 'checkbox' : 'square-outline'}
+                                            size={22}
+                                            color={notifications[type] ? '#60a5fa' : '#9ca3af'}
+                                        />
+                                    </TouchableOpacity>
                                 ))}
                             </View>
                         </AnimatedCard>
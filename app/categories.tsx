@@ -0,0 +1,424 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, Animated, StatusBar } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCategories, CategoryDraft } from '../contexts/CategoriesContext';
+import { useExpenses } from '../contexts/ExpensesContext';
+import { useBudget } from '../contexts/BudgetContext';
+import { useCategoryRules } from '../contexts/CategoryRulesContext';
+import { CategoryDefinition } from '../types';
+import { categoryRegistry, CATEGORY_COLORS, CATEGORY_ICONS } from '../utils/categoryRegistry';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { Input } from '../components/ui/Input';
+import { Button } from '../components/ui/Button';
+
+const emptyDraft: CategoryDraft = {
+    name: '',
+    icon: CATEGORY_ICONS[0],
+    color: CATEGORY_COLORS[0],
+    subcategories: [],
+};
+
+export default function CategoriesScreen() {
+    const { isAuthenticated } = useAuth();
+    const { categories, addCategory, updateCategory, setArchived, mergeCategory } = useCategories();
+    const { expenses, recategorizeExpenses } = useExpenses();
+    const { recategorizeLimits } = useBudget();
+    const { recategorizeRules } = useCategoryRules();
+    const [draft, setDraft] = useState<CategoryDraft>(emptyDraft);
+    const [newSubcategory, setNewSubcategory] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [mergingId, setMergingId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const usage = (category: CategoryDefinition) =>
+        expenses.filter(expense => expense.category === category.name).length;
+
+    const resetEditor = () => {
+        setDraft(emptyDraft);
+        setNewSubcategory('');
+        setEditingId(null);
+    };
+
+    const startEditing = (category: CategoryDefinition) => {
+        setDraft({
+            name: category.name,
+            icon: category.icon,
+            color: category.color,
+            subcategories: category.subcategories || [],
+        });
+        setNewSubcategory('');
+        setEditingId(category.id);
+        setMergingId(null);
+    };
+
+    const addSubcategory = () => {
+        const problem = categoryRegistry.validateSubcategoryName(draft, newSubcategory);
+        if (problem) {
+            Alert.alert('Invalid Subcategory', problem);
+            return;
+        }
+        setDraft(prev => ({ ...prev, subcategories: [...(prev.subcategories || []), newSubcategory.trim()] }));
+        setNewSubcategory('');
+    };
+
+    // Expenses already filed under a removed subcategory keep it; it just stops being offered
+    const removeSubcategory = (subcategory: string) => {
+        setDraft(prev => ({ ...prev, subcategories: (prev.subcategories || []).filter(existing => existing !== subcategory) }));
+    };
+
+    const showError = (error: unknown, fallback: string) => {
+        Toast.show({
+            type: 'error',
+            text1: 'Error',
+            text2: error instanceof Error ? error.message : fallback,
+        });
+    };
+
+    // Everything filed under the old names follows the category to its new name
+    const retag = async (fromNames: string[], to: string) => {
+        await recategorizeExpenses(fromNames, to);
+        await recategorizeLimits(fromNames, to);
+        await recategorizeRules(fromNames, to);
+    };
+
+    const handleSave = async () => {
+        const problem = categoryRegistry.validateName(categories, draft.name, editingId || undefined);
+        if (problem) {
+            Alert.alert('Invalid Category', problem);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            if (editingId) {
+                const previous = categories.find(category => category.id === editingId);
+                const updated = await updateCategory(editingId, draft);
+                if (previous && previous.name !== updated.name) {
+                    await retag([previous.name], updated.name);
+                }
+            } else {
+                await addCategory(draft);
+            }
+            Toast.show({
+                type: 'success',
+                text1: 'Success',
+                text2: editingId ? 'Category updated' : 'Category added',
+            });
+            resetEditor();
+        } catch (error) {
+            showError(error, 'Failed to save category');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleArchive = async (category: CategoryDefinition) => {
+        try {
+            await setArchived(category.id, !category.archived);
+            if (editingId === category.id) resetEditor();
+        } catch (error) {
+            showError(error, 'Failed to update category');
+        }
+    };
+
+    const handleMerge = (source: CategoryDefinition, target: CategoryDefinition) => {
+        const count = usage(source);
+        Alert.alert(
+            'Merge Categories',
+            `Move ${count} expense${count === 1 ? '' : 's'}, budget limits and rules from ${source.name} into ${target.name}? ${source.name} will be removed.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Merge',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            const names = await mergeCategory(source.id, target.id);
+                            await retag(names, target.name);
+                            setMergingId(null);
+                            if (editingId === source.id) resetEditor();
+                            Toast.show({
+                                type: 'success',
+                                text1: 'Success',
+                                text2: `Merged into ${target.name}`,
+                            });
+                        } catch (error) {
+                            showError(error, 'Failed to merge categories');
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const renderCategory = (category: CategoryDefinition) => {
+        const count = usage(category);
+        const isFallback = categoryRegistry.isFallback(category);
+
+        return (
+            <View key={category.id} className="bg-white/10 border border-white/20 rounded-2xl p-4 mb-3">
+                <View className="flex-row items-center">
+                    <View
+                        className="w-10 h-10 rounded-full items-center justify-center mr-3"
+                        style={{ backgroundColor: `${category.color}20` }}
+                    >
+                        <Ionicons
+                            name={category.icon as keyof typeof Ionicons.glyphMap}
+                            size={20}
+                            color={category.color}
+                        />
+                    </View>
+                    <View className="flex-1">
+                        <Text className={`text-base font-bold ${category.archived ? 'text-gray-400' : 'text-white'}`}>
+                            {category.name}
+                        </Text>
+                        <Text className="text-gray-400 text-xs">
+                            {count} expense{count === 1 ? '' : 's'}
+                            {(category.subcategories || []).length > 0 ? ` · ${(category.subcategories || []).length} subcategories` : ''}
+                            {category.archived ? ' · Archived' : ''}
+                        </Text>
+                    </View>
+
+                    <TouchableOpacity
+                        onPress={() => startEditing(category)}
+                        className="p-2 rounded-xl bg-white/10 ml-2"
+                    >
+                        <Ionicons name="create-outline" size={18} color="white" />
+                    </TouchableOpacity>
+                    {!isFallback && (
+                        <>
+                            <TouchableOpacity
+                                onPress={() => handleArchive(category)}
+                                className="p-2 rounded-xl bg-white/10 ml-2"
+                            >
+                                <Ionicons
+                                    name={category.archived ? 'arrow-undo-outline' : 'archive-outline'}
+                                    size={18}
+                                    color="white"
+                                />
+                            </TouchableOpacity>
+                            <TouchableOpacity
+                                onPress={() => setMergingId(mergingId === category.id ? null : category.id)}
+                                className={`p-2 rounded-xl ml-2 ${mergingId === category.id ? 'bg-blue-500/30' : 'bg-white/10'}`}
+                            >
+                                <Ionicons name="git-merge-outline" size={18} color="white" />
+                            </TouchableOpacity>
+                        </>
+                    )}
+                </View>
+
+                {mergingId === category.id && (
+                    <View className="mt-3">
+                        <Text className="text-gray-300 text-sm mb-2">Merge into</Text>
+                        <View className="flex-row flex-wrap">
+                            {categoryRegistry.active(categories)
+                                .filter(target => target.id !== category.id)
+                                .map(target => (
+                                    <TouchableOpacity
+                                        key={target.id}
+                                        onPress={() => handleMerge(category, target)}
+                                        className="flex-row items-center px-3 py-2 rounded-xl mr-2 mb-2 bg-white/5"
+                                    >
+                                        <Ionicons
+                                            name={target.icon as keyof typeof Ionicons.glyphMap}
+                                            size={14}
+                                            color={target.color}
+                                        />
+                                        <Text className="text-white font-medium ml-2">{target.name}</Text>
+                                    </TouchableOpacity>
+                                ))}
+                        </View>
+                    </View>
+                )}
+            </View>
+        );
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Categories
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Names, icons and colors
+                                </Text>
+                            </View>
+
+                            <View style={{ width: 40 }} />
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    keyboardShouldPersistTaps="handled"
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                >
+                    <View className="p-4">
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                            <Text className="text-white text-lg font-bold mb-4">
+                                {editingId ? 'Edit Category' : 'New Category'}
+                            </Text>
+
+                            <Input
+                                label="Name"
+                                placeholder="Groceries"
+                                value={draft.name}
+                                onChangeText={name => setDraft(prev => ({ ...prev, name }))}
+                                leftIcon="pricetag-outline"
+                                variant="glass"
+                            />
+
+                            <Text className="text-gray-300 text-sm mb-2">Icon</Text>
+                            <View className="flex-row flex-wrap mb-2">
+                                {CATEGORY_ICONS.map(icon => (
+                                    <TouchableOpacity
+                                        key={icon}
+                                        onPress={() => setDraft(prev => ({ ...prev, icon }))}
+                                        className={`w-11 h-11 rounded-xl items-center justify-center mr-2 mb-2 ${draft.icon === icon
+                                            ? 'bg-blue-500/30'
+                                            : 'bg-white/5'
+                                            }`}
+                                    >
+                                        <Ionicons
+                                            name={icon as keyof typeof Ionicons.glyphMap}
+                                            size={20}
+                                            color={draft.icon === icon ? draft.color : 'white'}
+                                        />
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <Text className="text-gray-300 text-sm mb-2">Color</Text>
+                            <View className="flex-row flex-wrap mb-2">
+                                {CATEGORY_COLORS.map(color => (
+                                    <TouchableOpacity
+                                        key={color}
+                                        onPress={() => setDraft(prev => ({ ...prev, color }))}
+                                        className="w-9 h-9 rounded-full items-center justify-center mr-2 mb-2"
+                                        style={{ backgroundColor: color }}
+                                    >
+                                        {draft.color === color && (
+                                            <Ionicons name="checkmark" size={18} color="white" />
+                                        )}
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+
+                            <Text className="text-gray-300 text-sm mb-2">Subcategories</Text>
+                            {(draft.subcategories || []).length > 0 && (
+                                <View className="flex-row flex-wrap mb-2">
+                                    {(draft.subcategories || []).map(subcategory => (
+                                        <TouchableOpacity
+                                            key={subcategory}
+                                            onPress={() => removeSubcategory(subcategory)}
+                                            className="flex-row items-center px-3 py-2 rounded-xl mr-2 mb-2 bg-white/5"
+                                        >
+                                            <Text className="text-white font-medium mr-1">{subcategory}</Text>
+                                            <Ionicons name="close" size={14} color="#9ca3af" />
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
+                            <Input
+                                placeholder="e.g. Groceries"
+                                value={newSubcategory}
+                                onChangeText={setNewSubcategory}
+                                onSubmitEditing={addSubcategory}
+                                leftIcon="git-branch-outline"
+                                rightIcon="add-circle-outline"
+                                onRightIconPress={addSubcategory}
+                                returnKeyType="done"
+                                variant="glass"
+                            />
+
+                            <Button
+                                title={editingId ? 'Update Category' : 'Add Category'}
+                                onPress={handleSave}
+                                loading={isSaving}
+                                disabled={isSaving}
+                                variant="gradient"
+                                fullWidth
+                                leftIcon={editingId ? 'checkmark-outline' : 'add-outline'}
+                            />
+                            {editingId && (
+                                <TouchableOpacity onPress={resetEditor} className="items-center mt-3">
+                                    <Text className="text-gray-300 font-medium">Cancel Editing</Text>
+                                </TouchableOpacity>
+                            )}
+                        </AnimatedCard>
+
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                            <Text className="text-white text-lg font-bold mb-1">Your Categories</Text>
+                            <Text className="text-gray-400 text-xs mb-3">
+                                Archived categories stay on past expenses but are hidden when adding new ones.
+                                Merging moves expenses, limits and rules to the chosen category.
+                            </Text>
+                            {categories.map(renderCategory)}
+                        </AnimatedCard>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
@@ -0,0 +1,377 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, Animated, StatusBar } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useCategoryRules, CategoryRuleDraft } from '../contexts/CategoryRulesContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { CategoryRule, CategoryRuleField, CategoryRuleMatchType } from '../types';
+import { categoryRules } from '../utils/categoryRules';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { Input } from '../components/ui/Input';
+import { Button } from '../components/ui/Button';
+
+const MATCH_TYPES: { key: CategoryRuleMatchType; label: string }[] = [
+    { key: 'contains', label: 'Contains' },
+    { key: 'regex', label: 'Regex' },
+];
+
+const RULE_FIELDS: { key: CategoryRuleField; label: string }[] = [
+    { key: 'title', label: 'Title' },
+    { key: 'description', label: 'Description' },
+    { key: 'any', label: 'Either' },
+];
+
+const emptyDraft: CategoryRuleDraft = {
+    pattern: '',
+    matchType: 'contains',
+    field: 'title',
+    category: '',
+    enabled: true,
+};
+
+export default function CategoryRulesScreen() {
+    const { isAuthenticated } = useAuth();
+    const { homeCurrency } = useCurrency();
+    const { rules, addRule, updateRule, deleteRule, moveRule } = useCategoryRules();
+    const { activeCategories } = useCategories();
+    const [draft, setDraft] = useState<CategoryRuleDraft>(emptyDraft);
+    const [minAmount, setMinAmount] = useState('');
+    const [maxAmount, setMaxAmount] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const resetEditor = () => {
+        setDraft(emptyDraft);
+        setMinAmount('');
+        setMaxAmount('');
+        setEditingId(null);
+    };
+
+    const startEditing = (rule: CategoryRule) => {
+        const { id, createdAt, minAmount: min, maxAmount: max, ...rest } = rule;
+        setDraft(rest);
+        setMinAmount(min !== undefined ? min.toString() : '');
+        setMaxAmount(max !== undefined ? max.toString() : '');
+        setEditingId(id);
+    };
+
+    const parseBound = (value: string): number | undefined => {
+        const parsed = parseFloat(value);
+        return value.trim() === '' || isNaN(parsed) ? undefined : parsed;
+    };
+
+    const handleSave = async () => {
+        const rule: CategoryRuleDraft = {
+            ...draft,
+            pattern: draft.pattern.trim(),
+            minAmount: parseBound(minAmount),
+            maxAmount: parseBound(maxAmount),
+        };
+        const problem = categoryRules.validate(rule);
+        if (problem) {
+            Alert.alert('Invalid Rule', problem);
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            if (editingId) {
+                await updateRule(editingId, rule);
+            } else {
+                await addRule(rule);
+            }
+            Toast.show({
+                type: 'success',
+                text1: 'Success',
+                text2: editingId ? 'Rule updated' : 'Rule added',
+            });
+            resetEditor();
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to save rule',
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDelete = (rule: CategoryRule) => {
+        Alert.alert(
+            'Delete Rule',
+            `Stop filing "${rule.pattern}" under ${rule.category}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteRule(rule.id);
+                            if (editingId === rule.id) resetEditor();
+                        } catch (error) {
+                            Toast.show({
+                                type: 'error',
+                                text1: 'Error',
+                                text2: 'Failed to delete rule',
+                            });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const runSafely = async (action: () => Promise<void>) => {
+        try {
+            await action();
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to update rules',
+            });
+        }
+    };
+
+    const renderChips = <T extends string>(
+        options: { key: T; label: string }[],
+        value: T,
+        onSelect: (key: T) => void
+    ) => (
+        <View className="flex-row flex-wrap mb-2">
+            {options.map(option => (
+                <TouchableOpacity
+                    key={option.key}
+                    onPress={() => onSelect(option.key)}
+                    className={`px-4 py-2 rounded-xl mr-2 mb-2 ${value === option.key
+                        ? 'bg-blue-500/30'
+                        : 'bg-white/5'
+                        }`}
+                >
+                    <Text className={`font-medium ${value === option.key
+                        ? 'text-blue-300'
+                        : 'text-white'
+                        }`}>
+                        {option.label}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+
+    const renderRule = (rule: CategoryRule, index: number) => (
+        <View key={rule.id} className="bg-white/10 border border-white/20 rounded-2xl p-4 mb-3">
+            <View className="flex-row items-start">
+                <TouchableOpacity onPress={() => runSafely(() => updateRule(rule.id, { enabled: !rule.enabled }))}>
+                    <Ionicons
+                        name={rule.enabled ? 'checkbox' : 'square-outline'}
+                        size={22}
+                        color={rule.enabled ? '#60a5fa' : '#9ca3af'}
+                    />
+                </TouchableOpacity>
+                <View className="flex-1 ml-3">
+                    <Text className={`text-base font-bold ${rule.enabled ? 'text-white' : 'text-gray-400'}`}>
+                        {index + 1}. {rule.category}
+                    </Text>
+                    <Text className="text-gray-300 text-sm">{categoryRules.describe(rule)}</Text>
+                </View>
+            </View>
+
+            <View className="flex-row justify-end mt-3">
+                <TouchableOpacity
+                    onPress={() => runSafely(() => moveRule(rule.id, -1))}
+                    disabled={index === 0}
+                    className="p-2 rounded-xl bg-white/10 mr-2"
+                >
+                    <Ionicons name="arrow-up" size={18} color={index === 0 ? '#4b5563' : 'white'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    onPress={() => runSafely(() => moveRule(rule.id, 1))}
+                    disabled={index === rules.length - 1}
+                    className="p-2 rounded-xl bg-white/10 mr-2"
+                >
+                    <Ionicons name="arrow-down" size={18} color={index === rules.length - 1 ? '#4b5563' : 'white'} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    onPress={() => startEditing(rule)}
+                    className="p-2 rounded-xl bg-white/10 mr-2"
+                >
+                    <Ionicons name="create-outline" size={18} color="white" />
+                </TouchableOpacity>
+                <TouchableOpacity
+                    onPress={() => handleDelete(rule)}
+                    className="p-2 rounded-xl bg-red-500/20"
+                >
+                    <Ionicons name="trash-outline" size={18} color="#f87171" />
+                </TouchableOpacity>
+            </View>
+        </View>
+    );
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Category Rules
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    File expenses automatically
+                                </Text>
+                            </View>
+
+                            <View style={{ width: 40 }} />
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    keyboardShouldPersistTaps="handled"
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                >
+                    <View className="p-4">
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                            <Text className="text-white text-lg font-bold mb-4">
+                                {editingId ? 'Edit Rule' : 'New Rule'}
+                            </Text>
+
+                            <Text className="text-gray-300 text-sm mb-2">When</Text>
+                            {renderChips(RULE_FIELDS, draft.field, field => setDraft(prev => ({ ...prev, field })))}
+                            {renderChips(MATCH_TYPES, draft.matchType, matchType => setDraft(prev => ({ ...prev, matchType })))}
+
+                            <Input
+                                label={draft.matchType === 'regex' ? 'Pattern' : 'Text'}
+                                placeholder={draft.matchType === 'regex' ? '^(uber|lyft)' : 'Uber'}
+                                value={draft.pattern}
+                                onChangeText={pattern => setDraft(prev => ({ ...prev, pattern }))}
+                                leftIcon="search-outline"
+                                autoCapitalize="none"
+                                variant="glass"
+                            />
+
+                            <View className="flex-row">
+                                <View className="flex-1 mr-2">
+                                    <Input
+                                        label={`Min (${homeCurrency})`}
+                                        placeholder="Any"
+                                        value={minAmount}
+                                        onChangeText={setMinAmount}
+                                        keyboardType="numeric"
+                                        variant="glass"
+                                    />
+                                </View>
+                                <View className="flex-1 ml-2">
+                                    <Input
+                                        label={`Max (${homeCurrency})`}
+                                        placeholder="Any"
+                                        value={maxAmount}
+                                        onChangeText={setMaxAmount}
+                                        keyboardType="numeric"
+                                        variant="glass"
+                                    />
+                                </View>
+                            </View>
+
+                            <Text className="text-gray-300 text-sm mb-2">File under</Text>
+                            {renderChips(
+                                activeCategories.map(category => ({ key: category.name, label: category.name })),
+                                draft.category,
+                                category => setDraft(prev => ({ ...prev, category }))
+                            )}
+
+                            <Button
+                                title={editingId ? 'Update Rule' : 'Add Rule'}
+                                onPress={handleSave}
+                                loading={isSaving}
+                                disabled={isSaving}
+                                variant="gradient"
+                                fullWidth
+                                leftIcon={editingId ? 'checkmark-outline' : 'add-outline'}
+                            />
+                            {editingId && (
+                                <TouchableOpacity onPress={resetEditor} className="items-center mt-3">
+                                    <Text className="text-gray-300 font-medium">Cancel Editing</Text>
+                                </TouchableOpacity>
+                            )}
+                        </AnimatedCard>
+
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                            <Text className="text-white text-lg font-bold mb-1">Rules</Text>
+                            <Text className="text-gray-400 text-xs mb-3">
+                                Checked top to bottom; the first match picks the category.
+                            </Text>
+                            {rules.length === 0 ? (
+                                <Text className="text-gray-300 text-sm">
+                                    No rules yet. Add one above, e.g. title contains "Uber" → Transportation.
+                                </Text>
+                            ) : (
+                                rules.map(renderRule)
+                            )}
+                        </AnimatedCard>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
@@ -0,0 +1,253 @@
+import React, { useEffect, useState, useRef } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, Animated, StatusBar } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { Input } from '../components/ui/Input';
+import { Button } from '../components/ui/Button';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { formatters } from '../utils/formatters';
+import { SUPPORTED_CURRENCIES } from '../types';
+
+const formatRate = (rate: number | null) => (rate === null ? '' : parseFloat(rate.toPrecision(6)).toString());
+
+export default function CurrencySettingsScreen() {
+    const { isAuthenticated } = useAuth();
+    const { homeCurrency, rates, canRefreshRates, setHomeCurrency, setRate, refreshRates, getRate } = useCurrency();
+    const [rateInputs, setRateInputs] = useState<{ [currency: string]: string }>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    // Rates are edited as "1 <currency> = x <home currency>"
+    useEffect(() => {
+        const inputs: { [currency: string]: string } = {};
+        SUPPORTED_CURRENCIES.forEach(currency => {
+            inputs[currency] = formatRate(getRate(currency));
+        });
+        setRateInputs(inputs);
+    }, [rates, homeCurrency]);
+
+    const handleHomeCurrency = async (currency: string) => {
+        if (currency === homeCurrency) return;
+        try {
+            await setHomeCurrency(currency);
+            Toast.show({
+                type: 'success',
+                text1: 'Home Currency Updated',
+                text2: `Totals are now shown in ${currency}`,
+            });
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to update home currency',
+            });
+        }
+    };
+
+    const handleSave = async () => {
+        const changed = SUPPORTED_CURRENCIES.filter(currency =>
+            currency !== homeCurrency && rateInputs[currency] !== formatRate(getRate(currency))
+        );
+
+        for (const currency of changed) {
+            const value = parseFloat(rateInputs[currency]);
+            if (isNaN(value) || value <= 0) {
+                Alert.alert('Invalid Rate', `Please enter a rate greater than 0 for ${currency}.`);
+                return;
+            }
+        }
+
+        setIsSaving(true);
+        try {
+            for (const currency of changed) {
+                await setRate(currency, parseFloat(rateInputs[currency]));
+            }
+            Toast.show({
+                type: 'success',
+                text1: 'Success',
+                text2: 'Exchange rates saved',
+            });
+            router.back();
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to save exchange rates',
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRefresh = async () => {
+        setIsRefreshing(true);
+        try {
+            await refreshRates();
+            Toast.show({
+                type: 'success',
+                text1: 'Rates Updated',
+                text2: 'Exchange rates refreshed',
+            });
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to refresh exchange rates',
+            });
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-6"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="close" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Currencies
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Home currency and exchange rates
+                                </Text>
+                            </View>
+
+                            <View style={{ width: 40 }} />
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+                    <View className="p-6">
+                        <AnimatedCard className="mb-6" animationType="slideUp" delay={200}>
+                            <Text className="text-white text-lg font-bold mb-2">Home Currency</Text>
+                            <Text className="text-gray-300 text-sm mb-4">
+                                Budgets, totals and charts are converted into this currency.
+                            </Text>
+                            <View className="flex-row flex-wrap">
+                                {SUPPORTED_CURRENCIES.map(currency => (
+                                    <TouchableOpacity
+                                        key={currency}
+                                        onPress={() => handleHomeCurrency(currency)}
+                                        className={`px-4 py-2 rounded-xl mr-2 mb-2 ${homeCurrency === currency
+                                            ? 'bg-blue-500/30'
+                                            : 'bg-white/5'
+                                            }`}
+                                    >
+                                        <Text className={`font-medium ${homeCurrency === currency
+                                            ? 'text-blue-300'
+                                            : 'text-white'
+                                            }`}>
+                                            {currency}
+                                        </Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        </AnimatedCard>
+
+                        <AnimatedCard className="mb-6" animationType="slideUp" delay={300}>
+                            <View className="flex-row items-center justify-between mb-2">
+                                <Text className="text-white text-lg font-bold">Exchange Rates</Text>
+                                {canRefreshRates && (
+                                    <TouchableOpacity
+                                        onPress={handleRefresh}
+                                        disabled={isRefreshing}
+                                        className="p-2 rounded-xl bg-white/10"
+                                    >
+                                        <Ionicons name="refresh" size={20} color="white" />
+                                    </TouchableOpacity>
+                                )}
+                            </View>
+                            <Text className="text-gray-300 text-sm mb-4">
+                                Last updated {formatters.date(rates.updatedAt)} ({rates.source})
+                            </Text>
+
+                            {SUPPORTED_CURRENCIES.filter(currency => currency !== homeCurrency).map(currency => (
+                                <Input
+                                    key={currency}
+                                    label={`1 ${currency} in ${homeCurrency}`}
+                                    placeholder="0.00"
+                                    value={rateInputs[currency] || ''}
+                                    onChangeText={(value) => setRateInputs(prev => ({ ...prev, [currency]: value }))}
+                                    leftIcon="swap-horizontal-outline"
+                                    keyboardType="numeric"
+                                    variant="glass"
+                                />
+                            ))}
+                        </AnimatedCard>
+
+                        <AnimatedCard className="bg-transparent" animationType="scale" delay={400}>
+                            <Button
+                                title="Save Rates"
+                                onPress={handleSave}
+                                loading={isSaving}
+                                disabled={isSaving}
+                                variant="gradient"
+                                size="lg"
+                                fullWidth
+                                leftIcon="checkmark-outline"
+                            />
+                        </AnimatedCard>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
@@ -6,73 +6,16 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import Toast from 'react-native-toast-message';
 
-import { expenseAPI } from '../../services/api';
-import { Expense } from '../../types';
+import { Expense, DEFAULT_CURRENCY } from '../../types';
 import { formatters } from '../../utils/formatters';
 import { AnimatedCard } from '../../components/ui/AnimatedCard';
 import { Button } from '../../components/ui/Button';
 import { Loading } from '../../components/ui/Loading';
+import { ReceiptGallery } from '../../components/expenses/ReceiptGallery';
 import { useAuth } from '@/contexts/AuthContext';
-
-const getCategoryIcon = (category: string): keyof typeof Ionicons.glyphMap => {
-
-
-    if (!category || typeof category !== 'string') {
-        console.warn('Invalid category provided to expense details getCategoryIcon:', category);
-        return 'ellipse-outline';
-    }
-
-    switch (category.toLowerCase()) {
-        case 'food & dining':
-            return 'restaurant-outline';
-        case 'transportation':
-            return 'car-outline';
-        case 'shopping':
-            return 'bag-outline';
-        case 'entertainment':
-            return 'game-controller-outline';
-        case 'bills & utilities':
-            return 'receipt-outline';
-        case 'healthcare':
-            return 'medical-outline';
-        case 'education':
-            return 'school-outline';
-        case 'travel':
-            return 'airplane-outline';
-        default:
-            return 'ellipse-outline';
-    }
-};
-
-const getCategoryColor = (category: string): string => {
-
-
-    if (!category || typeof category !== 'string') {
-        console.warn('Invalid category provided to expense details getCategoryColor:', category);
-        return '#6b7280';
-    }
-
-    switch (category.toLowerCase()) {
-        case 'food & dining':
-            return '#f59e0b';
-        case 'transportation':
-            return '#3b82f6';
-        case 'shopping':
-            return '#ec4899';
-        case 'entertainment':
-            return '#8b5cf6';
-        case 'bills & utilities':
-            return '#ef4444';
-        case 'healthcare':
-            return '#10b981';
-        case 'education':
-            return '#06b6d4';
-        case 'travel':
-            return '#f97316';
-        default:
-            return '#6b7280';
-    }
-};
+import { useExpenses } from '@/contexts/ExpensesContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useCategories } from '@/contexts/CategoriesContext';
 
 export default function ExpenseDetailsScreen() {
     const { id } = useLocalSearchParams<{ id: string }>();
@@ -80,6 +23,9 @@ export default function ExpenseDetailsScreen() {
     const [isLoading, setIsLoading] = useState(true);
     const [isDeleting, setIsDeleting] = useState(false);
     const { isAuthenticated } = useAuth();
+    const { getExpense, deleteExpense } = useExpenses();
+    const { homeCurrency, getRate } = useCurrency();
+    const { getCategory } = useCategories();
 
     // Animation refs
     const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -123,7 +69,7 @@ export default function ExpenseDetailsScreen() {
     const loadExpense = async (expenseId: string) => {
         try {
             setIsLoading(true);
-            const data = await expenseAPI.getExpense(expenseId);
+            const data = await getExpense(expenseId);
             setExpense(data);
         } catch (error) {
             Toast.show({
@@ -148,7 +94,7 @@ export default function ExpenseDetailsScreen() {
 
         setIsDeleting(true);
         try {
-            await expenseAPI.deleteExpense(expense.id);
+            await deleteExpense(expense.id);
             Toast.show({
                 type: 'success',
                 text1: 'Success',
@@ -205,8 +151,11 @@ export default function ExpenseDetailsScreen() {
             </View>
         );
     }
-    const categoryIcon = getCategoryIcon(expense.category ?? '');
-    const categoryColor = getCategoryColor(expense.category ?? '');
+    const expenseCurrency = expense.currency || DEFAULT_CURRENCY;
+    const conversionRate = getRate(expenseCurrency);
+    const category = getCategory(expense.category);
+    const categoryIcon = category.icon as keyof typeof Ionicons.glyphMap;
+    const categoryColor = category.color;
 
     return (
         <View className="flex-1">
@@ -298,9 +247,18 @@ export default function ExpenseDetailsScreen() {
                                 </View>
 
                                 <Text className="text-white text-2xl font-bold mb-2">
-                                    {formatters.currency(expense.amount)}
+                                    {formatters.currency(expense.amount, expenseCurrency)}
                                 </Text>
 
+                                {/* Converted amount when it was paid in another currency */}
+                                {expenseCurrency !== homeCurrency && (
+                                    <Text className="text-gray-300 text-sm mb-2">
+                                        {expense.convertedAmount !== undefined
+                                            ? `≈ ${formatters.currency(expense.convertedAmount, homeCurrency)} at 1 ${expenseCurrency} = ${conversionRate?.toPrecision(4)} ${homeCurrency}`
+                                            : `No ${expenseCurrency} → ${homeCurrency} exchange rate set`}
+                                    </Text>
+                                )}
+
                                 <Text className="text-white text-lg font-semibold text-center">
                                     {expense.title || 'Untitled Expense'}
                                 </Text>
@@ -314,10 +272,55 @@ export default function ExpenseDetailsScreen() {
                                     </View>
                                     <View className="flex-1">
                                         <Text className="text-gray-300 text-xs">Category</Text>
-                                        <Text className="text-white font-medium text-sm">{expense.category}</Text>
+                                        <Text className="text-white font-medium text-sm">
+                                            {[category.name, expense.subcategory].filter(Boolean).join(' › ')}
+                                        </Text>
                                     </View>
                                 </View>
 
+                                {expense.splits && expense.splits.length > 0 && (
+                                    <View className="bg-white/5 rounded-xl p-3">
+                                        <View className="flex-row items-center mb-2">
+                                            <View className="w-8 h-8 bg-white/10 rounded-full items-center justify-center mr-3">
+                                                <Ionicons name="git-branch-outline" size={16} color="#9ca3af" />
+                                            </View>
+                                            <Text className="text-gray-300 text-xs">Split ({expense.splits.length})</Text>
+                                        </View>
+                                        {expense.splits.map(split => (
+                                            <View key={split.id} className="flex-row items-center py-2 pl-11">
+                                                <Ionicons
+                                                    name={getCategory(split.category).icon as keyof typeof Ionicons.glyphMap}
+                                                    size={14}
+                                                    color={getCategory(split.category).color}
+                                                />
+                                                <View className="flex-1 ml-2">
+                                                    <Text className="text-white font-medium text-sm">{split.category}</Text>
+                                                    {split.note && (
+                                                        <Text className="text-gray-400 text-xs">{split.note}</Text>
+                                                    )}
+                                                </View>
+                                                <Text className="text-white font-medium text-sm">
+                                                    {formatters.currency(split.amount, expenseCurrency)}
+                                                </Text>
+                                            </View>
+                                        ))}
+                                    </View>
+                                )}
+
+                                {expense.tags && expense.tags.length > 0 && (
+                                    <View className="flex-row items-center bg-white/5 rounded-xl p-3">
+                                        <View className="w-8 h-8 bg-white/10 rounded-full items-center justify-center mr-3">
+                                            <Ionicons name="pricetag-outline" size={16} color="#9ca3af" />
+                                        </View>
+                                        <View className="flex-1">
+                                            <Text className="text-gray-300 text-xs">Tags</Text>
+                                            <Text className="text-white font-medium text-sm">
+                                                {expense.tags.map(tag => `#${tag}`).join('  ')}
+                                            </Text>
+                                        </View>
+                                    </View>
+                                )}
+
                                 <View className="flex-row items-center bg-white/5 rounded-xl p-3">
                                     <View className="w-8 h-8 bg-white/10 rounded-full items-center justify-center mr-3">
                                         <Ionicons name="calendar-outline" size={16} color="#9ca3af" />
@@ -382,6 +385,25 @@ export default function ExpenseDetailsScreen() {
                             </AnimatedCard>
                         )}
 
+                        {/* Receipts */}
+                        {expense.attachments && expense.attachments.length > 0 && (
+                            <AnimatedCard
+                                className="mb-4"
+                                animationType="slideLeft"
+                                delay={350}
+                            >
+                                <View className="flex-row items-center mb-3">
+                                    <View className="w-8 h-8 bg-white/10 rounded-full items-center justify-center mr-3">
+                                        <Ionicons name="document-attach-outline" size={16} color="#9ca3af" />
+                                    </View>
+                                    <Text className="text-gray-300 text-xs">
+                                        Receipts ({expense.attachments.length})
+                                    </Text>
+                                </View>
+                                <ReceiptGallery attachments={expense.attachments} />
+                            </AnimatedCard>
+                        )}
+
                         {/* Action Buttons */}
                         <AnimatedCard
                             className="bg-transparent"
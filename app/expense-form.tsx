@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { View, Text, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform, Alert, Animated, StatusBar } from 'react-native';
+import { View, Text, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform, Alert, Animated, StatusBar, Image } from 'react-native';
 import { router, useLocalSearchParams } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -8,9 +8,21 @@ import Toast from 'react-native-toast-message';
 
 import { useAuth } from '../contexts/AuthContext';
 import { useBudget } from '../contexts/BudgetContext';
-import { expenseAPI } from '../services/api';
-import { ExpenseFormData, EXPENSE_CATEGORIES } from '../types';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useExpenses } from '../contexts/ExpensesContext';
+import { useCategoryRules } from '../contexts/CategoryRulesContext';
+import { useCategoryClassifier } from '../contexts/CategoryClassifierContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { ExpenseFormData, ExpenseSplit, ReceiptAttachment, RecurrenceFrequency, RecurrenceRule, RECURRENCE_FREQUENCIES, SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from '../types';
+import { receiptStore, ReceiptSource } from '../services/receiptStore';
+import { receiptScanner } from '../services/receiptScanner';
 import { validation } from '../utils/validation';
+import { recurrence } from '../utils/recurrence';
+import { categoryRules } from '../utils/categoryRules';
+import { categoryRegistry } from '../utils/categoryRegistry';
+import { tags } from '../utils/tags';
+import { formatters } from '../utils/formatters';
+import { receiptParser } from '../utils/receiptParser';
 import { Input } from '../components/ui/Input';
 import { Button } from '../components/ui/Button';
 import { Card } from '../components/ui/Card';
@@ -18,10 +30,38 @@ import { AnimatedCard } from '../components/ui/AnimatedCard';
 import { Loading } from '../components/ui/Loading';
 import { DatePicker } from '../components/ui/DatePicker';
 
+// How sure the learned classifier must be before it picks the category by itself
+const PRESELECT_CONFIDENCE = 0.6;
+// Predictions below this aren't worth showing next to a category
+const SHOW_CONFIDENCE = 0.1;
+
+// Fields a scanned receipt can fill in
+type ScannedField = 'title' | 'amount' | 'date' | 'currency';
+
+// A split line while it's being typed; the amount stays text until the form is saved
+interface SplitDraft {
+    id: string;
+    amount: string;
+    category: string;
+    note: string;
+}
+
+const newSplit = (amount = '', category = ''): SplitDraft => ({
+    id: `split_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+    amount,
+    category,
+    note: '',
+});
+
 export default function ExpenseFormScreen() {
     const { user, isAuthenticated } = useAuth();
-    const { checkBudgetAlert, refreshBudgetData } = useBudget();
-    const { id } = useLocalSearchParams<{ id?: string }>();
+    const { checkBudgetAlert } = useBudget();
+    const { expenses, getExpense, createExpense, updateExpense } = useExpenses();
+    const { homeCurrency, convert } = useCurrency();
+    const { findRule } = useCategoryRules();
+    const { rankCategories } = useCategoryClassifier();
+    const { activeCategories, getCategory } = useCategories();
+    const { id, recurring } = useLocalSearchParams<{ id?: string; recurring?: string }>();
     const isEditing = !!id;
     useEffect(() => {
         if (!isAuthenticated) {
@@ -32,7 +72,11 @@ export default function ExpenseFormScreen() {
     const [formData, setFormData] = useState<ExpenseFormData>({
         title: '',
         amount: '',
+        currency: homeCurrency,
         category: '',
+        subcategory: '',
+        tags: [],
+        attachments: [],
         description: '',
         date: new Date().toISOString().split('T')[0],
     });
@@ -41,12 +85,39 @@ export default function ExpenseFormScreen() {
     const [isLoading, setIsLoading] = useState(false);
     const [isSubmitting, setIsSubmitting] = useState(false);
     const [showCategoryPicker, setShowCategoryPicker] = useState(false);
+    const [tagInput, setTagInput] = useState('');
+    const [isAttaching, setIsAttaching] = useState(false);
+    const [scanningId, setScanningId] = useState<string | null>(null);
+    // Values read off a receipt stay highlighted until the user edits or confirms them
+    const [scannedFields, setScannedFields] = useState<ScannedField[]>([]);
+    // Empty unless the expense is divided across categories
+    const [splits, setSplits] = useState<SplitDraft[]>([]);
+    // Photos taken on this visit; their files are removed again if the form is left without saving
+    const newAttachments = useRef<ReceiptAttachment[]>([]);
+    const saved = useRef(false);
+    // Set from the first tap on save, including while the budget dialog waits; state lags a render behind
+    const submitting = useRef(false);
+    // Once the user picks a category, predictions stop overriding it
+    const [categoryChosen, setCategoryChosen] = useState(false);
+    const [isRecurring, setIsRecurring] = useState(recurring === '1');
+    const [recurrenceRule, setRecurrenceRule] = useState<RecurrenceRule>({ frequency: 'monthly', interval: 1 });
+    const [recurrenceInterval, setRecurrenceInterval] = useState('1');
+    const [recurringSourceId, setRecurringSourceId] = useState<string | undefined>();
+    const [wasRecurring, setWasRecurring] = useState(false);
 
     // Animation refs
     const fadeAnim = useRef(new Animated.Value(0)).current;
     const slideAnim = useRef(new Animated.Value(50)).current;
     const scaleAnim = useRef(new Animated.Value(0.9)).current;
 
+    useEffect(() => {
+        return () => {
+            if (!saved.current) {
+                receiptStore.remove(newAttachments.current);
+            }
+        };
+    }, []);
+
     useEffect(() => {
         // Start animations when component mounts
         Animated.parallel([
@@ -78,14 +149,31 @@ export default function ExpenseFormScreen() {
     const loadExpense = async (expenseId: string) => {
         try {
             setIsLoading(true);
-            const expense = await expenseAPI.getExpense(expenseId);
+            const expense = await getExpense(expenseId);
             setFormData({
                 title: expense.title || '',
                 amount: expense.amount?.toString() || '0',
+                currency: expense.currency || DEFAULT_CURRENCY,
                 category: expense.category || '',
+                subcategory: expense.subcategory || '',
+                tags: expense.tags || [],
+                attachments: expense.attachments || [],
                 description: expense.description || '',
                 date: expense.date?.split('T')[0] || new Date().toISOString().split('T')[0],
             });
+            setSplits((expense.splits || []).map(split => ({
+                id: split.id,
+                amount: split.amount.toString(),
+                category: split.category,
+                note: split.note || '',
+            })));
+            setRecurringSourceId(expense.recurringSourceId);
+            if (expense.recurrence) {
+                setRecurrenceRule(expense.recurrence);
+                setRecurrenceInterval(expense.recurrence.interval.toString());
+                setIsRecurring(!recurrence.isEnded(expense.recurrence));
+                setWasRecurring(true);
+            }
         } catch (error) {
             Toast.show({
                 type: 'error',
@@ -98,6 +186,179 @@ export default function ExpenseFormScreen() {
         }
     };
 
+    useEffect(() => {
+        if (isEditing || categoryChosen) return;
+        const [best] = rankCategories({ title: formData.title, description: formData.description });
+        if (best && best.confidence >= PRESELECT_CONFIDENCE) {
+            setFormData(prev => (prev.category === best.category ? prev : { ...prev, category: best.category, subcategory: '' }));
+        }
+    }, [formData.title, formData.description]);
+
+    // Picking a category on its own files the expense directly under it
+    const chooseCategory = (category: string, subcategory = '') => {
+        setFormData(prev => ({ ...prev, category, subcategory }));
+        if (errors.category) {
+            setErrors(prev => ({ ...prev, category: '' }));
+        }
+        setCategoryChosen(true);
+    };
+
+    const addTags = (value: string) => {
+        const added = tags.parse(value);
+        if (added.length > 0) {
+            setFormData(prev => ({ ...prev, tags: tags.merge(prev.tags || [], added) }));
+        }
+        setTagInput('');
+    };
+
+    // Typing a comma commits what came before it, so tags can be entered in one go
+    const handleTagInput = (value: string) => {
+        const lastComma = value.lastIndexOf(',');
+        if (lastComma === -1) {
+            setTagInput(value);
+            return;
+        }
+        addTags(value.slice(0, lastComma));
+        setTagInput(value.slice(lastComma + 1));
+    };
+
+    const removeTag = (tag: string) => {
+        setFormData(prev => ({ ...prev, tags: (prev.tags || []).filter(existing => existing !== tag) }));
+    };
+
+    const attachReceipts = async (source: ReceiptSource) => {
+        setIsAttaching(true);
+        try {
+            const added = await receiptStore.pick(source);
+            newAttachments.current.push(...added);
+            setFormData(prev => ({ ...prev, attachments: [...(prev.attachments || []), ...added] }));
+            // The first receipt on a new expense is read straight away
+            if (!isEditing && added.length > 0 && (formData.attachments || []).length === 0 && receiptScanner.isAvailable()) {
+                scanReceipt(added[0], true);
+            }
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: error instanceof Error ? error.message : 'Failed to attach receipt',
+            });
+        } finally {
+            setIsAttaching(false);
+        }
+    };
+
+    // Fills in only what the user hasn't entered yet; quiet scans don't report receipts they couldn't read
+    const scanReceipt = async (attachment: ReceiptAttachment, quiet = false) => {
+        if (!receiptScanner.isAvailable()) {
+            Toast.show({
+                type: 'info',
+                text1: 'Scanning unavailable',
+                text2: 'Reading receipts needs the iOS or Android app',
+            });
+            return;
+        }
+
+        setScanningId(attachment.id);
+        try {
+            // Receipts from the US put the month first; most other places put the day first
+            const receipt = await receiptScanner.scan(attachment.uri, homeCurrency === 'USD' ? 'us' : 'eu');
+            const filled: Partial<ExpenseFormData> = {};
+            if (receipt.merchant && !formData.title.trim()) {
+                filled.title = receipt.merchant;
+            }
+            if (receipt.total !== undefined && !formData.amount.trim()) {
+                filled.amount = receipt.total.toFixed(2);
+                // The currency only means something alongside the amount it was read with
+                if (receipt.currency && receipt.currency !== formData.currency) {
+                    filled.currency = receipt.currency;
+                }
+            }
+            // A date other than today was picked on purpose
+            const dateUntouched = formData.date === new Date().toISOString().split('T')[0];
+            if (receipt.date && !isEditing && dateUntouched && receipt.date !== formData.date) {
+                filled.date = receipt.date;
+            }
+
+            const fields = Object.keys(filled) as ScannedField[];
+            if (fields.length === 0) {
+                if (!quiet) {
+                    Toast.show({
+                        type: 'info',
+                        text1: receiptParser.isEmpty(receipt) ? 'Nothing found' : 'Nothing to fill in',
+                        text2: receiptParser.isEmpty(receipt)
+                            ? "Couldn't read a total or shop name from this photo"
+                            : 'The details on this receipt are already filled in',
+                    });
+                }
+                return;
+            }
+
+            setFormData(prev => ({ ...prev, ...filled }));
+            setErrors(prev => {
+                const next = { ...prev };
+                fields.forEach(field => delete next[field]);
+                return next;
+            });
+            setScannedFields(prev => Array.from(new Set([...prev, ...fields])));
+        } catch (error) {
+            console.error('Error scanning receipt:', error);
+            if (!quiet) {
+                Toast.show({
+                    type: 'error',
+                    text1: 'Error',
+                    text2: 'Failed to read receipt',
+                });
+            }
+        } finally {
+            setScanningId(null);
+        }
+    };
+
+    // Saved photos are only deleted once the edit is saved, so cancelling keeps them
+    const removeAttachment = (attachment: ReceiptAttachment) => {
+        setFormData(prev => ({ ...prev, attachments: (prev.attachments || []).filter(existing => existing.id !== attachment.id) }));
+        if (newAttachments.current.some(added => added.id === attachment.id)) {
+            newAttachments.current = newAttachments.current.filter(added => added.id !== attachment.id);
+            receiptStore.remove([attachment]);
+        }
+    };
+
+    // The whole amount starts on the current category, with an empty line to move part of it to
+    const startSplitting = () => {
+        setSplits([newSplit(formData.amount, formData.category), newSplit()]);
+        setShowCategoryPicker(false);
+    };
+
+    const updateSplit = (splitId: string, changes: Partial<SplitDraft>) => {
+        setSplits(prev => prev.map(split => (split.id === splitId ? { ...split, ...changes } : split)));
+        if (errors.splits) {
+            setErrors(prev => ({ ...prev, splits: '' }));
+        }
+    };
+
+    const removeSplit = (splitId: string) => {
+        setSplits(prev => prev.filter(split => split.id !== splitId));
+    };
+
+    // Going back to a single category keeps the one that had the most of the amount
+    const stopSplitting = () => {
+        const [largest] = [...splits].sort((a, b) => (parseFloat(b.amount) || 0) - (parseFloat(a.amount) || 0));
+        if (largest?.category && largest.category !== formData.category) {
+            setFormData(prev => ({ ...prev, category: largest.category, subcategory: '' }));
+        }
+        setSplits([]);
+        if (errors.splits) {
+            setErrors(prev => ({ ...prev, splits: '' }));
+        }
+    };
+
+    const toSplits = (): ExpenseSplit[] => splits.map(split => ({
+        id: split.id,
+        amount: parseFloat(split.amount),
+        category: split.category,
+        ...(split.note.trim() && { note: split.note.trim() }),
+    }));
+
     const validateForm = () => {
         const newErrors: { [key: string]: string } = {};
 
@@ -111,9 +372,16 @@ export default function ExpenseFormScreen() {
             newErrors.amount = amountValidation.message!;
         }
 
-        const categoryValidation = validation.category(formData.category);
-        if (!categoryValidation.isValid) {
-            newErrors.category = categoryValidation.message!;
+        if (splits.length > 0) {
+            const splitsValidation = validation.splits(splits, formData.amount);
+            if (!splitsValidation.isValid) {
+                newErrors.splits = splitsValidation.message!;
+            }
+        } else {
+            const categoryValidation = validation.category(formData.category);
+            if (!categoryValidation.isValid) {
+                newErrors.category = categoryValidation.message!;
+            }
         }
 
         const descriptionValidation = validation.description(formData.description || '');
@@ -126,12 +394,24 @@ export default function ExpenseFormScreen() {
             newErrors.date = dateValidation.message!;
         }
 
+        if (isRecurring) {
+            const intervalValidation = validation.recurrenceInterval(recurrenceInterval);
+            if (!intervalValidation.isValid) {
+                newErrors.recurrenceInterval = intervalValidation.message!;
+            }
+
+            const endDateValidation = validation.recurrenceEndDate(recurrenceRule.endDate, formData.date);
+            if (!endDateValidation.isValid) {
+                newErrors.recurrenceEndDate = endDateValidation.message!;
+            }
+        }
+
         setErrors(newErrors);
         return Object.keys(newErrors).length === 0;
     };
 
     const handleSubmit = async () => {
-        if (!validateForm()) {
+        if (submitting.current || !validateForm()) {
             return;
         }
 
@@ -144,28 +424,48 @@ export default function ExpenseFormScreen() {
             return;
         }
 
-        // Check budget alert for new expenses
-        if (!isEditing) {
-            const expenseAmount = parseFloat(formData.amount);
-            if (!isNaN(expenseAmount)) {
-                checkBudgetAlert(expenseAmount);
-            }
-        }
+        // A split expense is listed under whichever category has the largest share
+        const expenseSplits = toSplits();
+        const [primary] = [...expenseSplits].sort((a, b) => b.amount - a.amount);
+        const category = primary ? primary.category : formData.category;
 
+        // Edits pass their id so only the change in amount counts against the budget
+        const expenseAmount = parseFloat(formData.amount);
+        submitting.current = true;
         setIsSubmitting(true);
         try {
+            const proceed = await checkBudgetAlert({
+                // Budgets are kept in the home currency
+                amount: convert(expenseAmount, formData.currency || homeCurrency) ?? expenseAmount,
+                category,
+                splits: expenseSplits,
+                date: formData.date,
+                expenseId: id,
+            });
+            if (!proceed) {
+                return;
+            }
+
+            // Text still in the tag field counts, even if it was never committed with a comma
+            const expenseData = {
+                ...formData,
+                category,
+                subcategory: category === formData.category ? formData.subcategory : '',
+                splits: expenseSplits,
+                tags: tags.merge(formData.tags || [], tags.parse(tagInput)),
+                recurrence: buildRecurrence(),
+            };
             if (isEditing && id) {
-                await expenseAPI.updateExpense(id, formData);
+                await updateExpense(id, expenseData);
+                saved.current = true;
                 Toast.show({
                     type: 'success',
                     text1: 'Success',
                     text2: 'Expense updated successfully',
                 });
             } else {
-                await expenseAPI.createExpense({
-                    ...formData,
-                    userId: user.id,
-                });
+                await createExpense(expenseData);
+                saved.current = true;
                 Toast.show({
                     type: 'success',
                     text1: 'Success',
@@ -173,10 +473,7 @@ export default function ExpenseFormScreen() {
                 });
             }
 
-            // Refresh budget data after adding/updating expense
-            await refreshBudgetData();
-
-            // Navigate back to trigger refresh
+            // Every screen reads the shared list, so there is nothing to reload
             router.back();
 
         } catch (error) {
@@ -186,12 +483,33 @@ export default function ExpenseFormScreen() {
                 text2: `Failed to ${isEditing ? 'update' : 'create'} expense`,
             });
         } finally {
+            submitting.current = false;
             setIsSubmitting(false);
         }
     };
 
+    const buildRecurrence = (): RecurrenceRule | undefined => {
+        if (isRecurring) {
+            return { ...recurrenceRule, interval: parseInt(recurrenceInterval, 10) };
+        }
+        if (wasRecurring) {
+            // Stop the series where it is; occurrences already created are kept
+            return { ...recurrenceRule, endDate: recurrenceRule.lastGeneratedDate || formData.date };
+        }
+        return undefined;
+    };
+
+    const updateRecurrence = (changes: Partial<RecurrenceRule>) => {
+        setRecurrenceRule(prev => ({ ...prev, ...changes }));
+        if (errors.recurrenceEndDate) {
+            setErrors(prev => ({ ...prev, recurrenceEndDate: '' }));
+        }
+    };
+
     const updateFormData = (field: keyof ExpenseFormData, value: string) => {
         setFormData(prev => ({ ...prev, [field]: value }));
+        // Changing a scanned value counts as checking it
+        setScannedFields(prev => prev.filter(scanned => scanned !== field));
         // Clear error when user starts typing
         if (errors[field]) {
             setErrors(prev => ({ ...prev, [field]: '' }));
@@ -215,12 +533,52 @@ export default function ExpenseFormScreen() {
 
     const hasUnsavedChanges = () => {
         if (!isEditing) {
-            return formData.title || formData.amount || formData.category || formData.description;
+            return formData.title || formData.amount || formData.category || formData.description
+                || formData.tags?.length || formData.attachments?.length || splits.length;
         }
         // For editing, we'd need to compare with original data
         return false;
     };
 
+    // Rules compare amounts in the home currency, like budgets
+    const enteredAmount = parseFloat(formData.amount);
+    const matchedRule = findRule({
+        title: formData.title,
+        description: formData.description,
+        amount: isNaN(enteredAmount) ? undefined : convert(enteredAmount, formData.currency || homeCurrency) ?? enteredAmount,
+    });
+    const suggestedRule = matchedRule && matchedRule.category !== formData.category ? matchedRule : undefined;
+
+    // Most likely categories first, based on how similar expenses were filed before
+    const predictions = rankCategories({ title: formData.title, description: formData.description });
+    const confidence: { [category: string]: number } = {};
+    predictions.forEach(prediction => {
+        confidence[prediction.category] = prediction.confidence;
+    });
+    // An archived category stays selectable on expenses already filed under it
+    const pickable = activeCategories.map(category => category.name);
+    if (formData.category && !pickable.includes(formData.category)) {
+        pickable.push(formData.category);
+    }
+    const rankedCategories = pickable.sort((a, b) => (confidence[b] || 0) - (confidence[a] || 0));
+
+    // Positive while part of the amount hasn't been given a line yet
+    const unassigned = (parseFloat(formData.amount) || 0)
+        - splits.reduce((total, split) => total + (parseFloat(split.amount) || 0), 0);
+
+    const tagSuggestions = tagInput.trim()
+        ? tags.suggest(tags.all(expenses), tagInput, formData.tags)
+        : [];
+
+    // The category's own list, plus a subcategory the expense already has if it was since removed
+    const subcategoryOptions = (category: string) => {
+        const options = [...(getCategory(category).subcategories || [])];
+        if (category === formData.category && formData.subcategory && !options.includes(formData.subcategory)) {
+            options.push(formData.subcategory);
+        }
+        return options;
+    };
+
     if (isLoading) {
         return <Loading text="Loading expense..." />;
     }
@@ -303,6 +661,18 @@ export default function ExpenseFormScreen() {
                                 delay={200}
                             >
                                 <View className="space-y-4">
+                                    {scannedFields.length > 0 && (
+                                        <View className="flex-row items-center bg-amber-400/15 border border-amber-400/40 rounded-xl px-3 py-2 mb-4">
+                                            <Ionicons name="scan-outline" size={16} color="#fbbf24" />
+                                            <Text className="text-amber-200 text-sm ml-2 flex-1">
+                                                Filled in from your receipt. Check the highlighted fields.
+                                            </Text>
+                                            <TouchableOpacity onPress={() => setScannedFields([])}>
+                                                <Text className="text-amber-300 text-sm font-semibold ml-2">Looks right</Text>
+                                            </TouchableOpacity>
+                                        </View>
+                                    )}
+
                                     <Input
                                         label="Expense Title"
                                         placeholder="What did you spend on?"
@@ -311,6 +681,7 @@ export default function ExpenseFormScreen() {
                                         error={errors.title}
                                         leftIcon="receipt-outline"
                                         variant="glass"
+                                        highlighted={scannedFields.includes('title')}
                                         required
                                     />
 
@@ -323,68 +694,270 @@ export default function ExpenseFormScreen() {
                                         leftIcon="cash-outline"
                                         keyboardType="numeric"
                                         variant="glass"
+                                        highlighted={scannedFields.includes('amount')}
                                         required
                                     />
 
-                                    {/* Category Picker */}
-                                    <View>
-                                        <Text className="text-white text-sm font-semibold mb-3">
-                                            Category <Text className="text-red-400">*</Text>
-                                        </Text>
-                                        <TouchableOpacity
-                                            onPress={() => setShowCategoryPicker(!showCategoryPicker)}
-                                            className="bg-white/10  border-2 border-white/20 rounded-2xl p-4 flex-row items-center justify-between"
-                                        >
-                                            <View className="flex-row items-center">
-                                                <Ionicons name="grid-outline" size={22} color="#9ca3af" />
-                                                <Text className="text-white ml-3 text-base font-medium">
-                                                    {formData.category || 'Select a category'}
+                                    {/* Currency the expense was paid in */}
+                                    <ScrollView
+                                        horizontal
+                                        showsHorizontalScrollIndicator={false}
+                                        className="mb-2"
+                                        keyboardShouldPersistTaps="handled"
+                                    >
+                                        {SUPPORTED_CURRENCIES.map((currency) => (
+                                            <TouchableOpacity
+                                                key={currency}
+                                                onPress={() => updateFormData('currency', currency)}
+                                                className={`px-3 py-2 rounded-xl mr-2 ${formData.currency === currency
+                                                    ? 'bg-blue-500/30'
+                                                    : 'bg-white/5'
+                                                    } ${formData.currency === currency && scannedFields.includes('currency')
+                                                    ? 'border border-amber-400'
+                                                    : ''
+                                                    }`}
+                                            >
+                                                <Text className={`font-medium ${formData.currency === currency
+                                                    ? 'text-blue-300'
+                                                    : 'text-white'
+                                                    }`}>
+                                                    {currency}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        ))}
+                                    </ScrollView>
+
+                                    {/* Category Picker; a split expense picks one per line instead */}
+                                    {splits.length === 0 ? (
+                                        <View>
+                                            <Text className="text-white text-sm font-semibold mb-3">
+                                                Category <Text className="text-red-400">*</Text>
+                                            </Text>
+                                            <TouchableOpacity
+                                                onPress={() => setShowCategoryPicker(!showCategoryPicker)}
+                                                className="bg-white/10  border-2 border-white/20 rounded-2xl p-4 flex-row items-center justify-between"
+                                            >
+                                                <View className="flex-row items-center">
+                                                    <Ionicons name="grid-outline" size={22} color="#9ca3af" />
+                                                    <Text className="text-white ml-3 text-base font-medium">
+                                                        {formData.category
+                                                            ? [formData.category, formData.subcategory].filter(Boolean).join(' › ')
+                                                            : 'Select a category'}
+                                                    </Text>
+                                                </View>
+                                                <Ionicons
+                                                    name={showCategoryPicker ? "chevron-up" : "chevron-down"}
+                                                    size={20}
+                                                    color="#9ca3af"
+                                                />
+                                            </TouchableOpacity>
+                                            {errors.category && (
+                                                <View className="flex-row items-center mt-2">
+                                                    <Ionicons name="alert-circle" size={16} color="#ef4444" />
+                                                    <Text className="text-red-500 text-sm ml-2 font-medium">
+                                                        {errors.category}
+                                                    </Text>
+                                                </View>
+                                            )}
+                                            {suggestedRule && (
+                                                <TouchableOpacity
+                                                    onPress={() => chooseCategory(suggestedRule.category)}
+                                                    className="flex-row items-center mt-2 bg-blue-500/20 rounded-xl px-3 py-2"
+                                                >
+                                                    <Ionicons name="sparkles-outline" size={16} color="#93c5fd" />
+                                                    <Text className="text-blue-300 text-sm ml-2 flex-1" numberOfLines={1}>
+                                                        Suggested: {suggestedRule.category} · {categoryRules.describe(suggestedRule)}
+                                                    </Text>
+                                                    <Text className="text-blue-300 text-sm font-semibold ml-2">Apply</Text>
+                                                </TouchableOpacity>
+                                            )}
+                                            <TouchableOpacity
+                                                onPress={startSplitting}
+                                                className="flex-row items-center mt-2"
+                                            >
+                                                <Ionicons name="git-branch-outline" size={16} color="#93c5fd" />
+                                                <Text className="text-blue-300 text-sm font-medium ml-2">Split across categories</Text>
+                                            </TouchableOpacity>
+                                        </View>
+                                    ) : (
+                                        <View>
+                                            <View className="flex-row items-center justify-between mb-3">
+                                                <Text className="text-white text-sm font-semibold">
+                                                    Split <Text className="text-red-400">*</Text>
                                                 </Text>
+                                                <TouchableOpacity onPress={stopSplitting}>
+                                                    <Text className="text-blue-300 text-sm font-medium">Use one category</Text>
+                                                </TouchableOpacity>
                                             </View>
-                                            <Ionicons
-                                                name={showCategoryPicker ? "chevron-up" : "chevron-down"}
-                                                size={20}
-                                                color="#9ca3af"
-                                            />
-                                        </TouchableOpacity>
-                                        {errors.category && (
-                                            <View className="flex-row items-center mt-2">
-                                                <Ionicons name="alert-circle" size={16} color="#ef4444" />
-                                                <Text className="text-red-500 text-sm ml-2 font-medium">
-                                                    {errors.category}
+
+                                            {splits.map((split, index) => (
+                                                <View key={split.id} className="bg-white/5 rounded-2xl p-3 mb-3">
+                                                    <View className="flex-row items-center justify-between mb-2">
+                                                        <Text className="text-gray-300 text-xs font-semibold">Line {index + 1}</Text>
+                                                        {splits.length > 2 && (
+                                                            <TouchableOpacity onPress={() => removeSplit(split.id)}>
+                                                                <Ionicons name="trash-outline" size={16} color="#f87171" />
+                                                            </TouchableOpacity>
+                                                        )}
+                                                    </View>
+
+                                                    <Input
+                                                        placeholder="0.00"
+                                                        value={split.amount}
+                                                        onChangeText={(value) => updateSplit(split.id, { amount: value })}
+                                                        leftIcon="cash-outline"
+                                                        keyboardType="numeric"
+                                                        variant="glass"
+                                                    />
+
+                                                    <ScrollView
+                                                        horizontal
+                                                        showsHorizontalScrollIndicator={false}
+                                                        className="mb-3"
+                                                        keyboardShouldPersistTaps="handled"
+                                                    >
+                                                        {activeCategories.map(category => (
+                                                            <TouchableOpacity
+                                                                key={category.id}
+                                                                onPress={() => updateSplit(split.id, { category: category.name })}
+                                                                className={`px-3 py-2 rounded-xl mr-2 flex-row items-center ${split.category === category.name
+                                                                    ? 'bg-blue-500/30'
+                                                                    : 'bg-white/5'
+                                                                    }`}
+                                                            >
+                                                                <Ionicons
+                                                                    name={category.icon as keyof typeof Ionicons.glyphMap}
+                                                                    size={14}
+                                                                    color={category.color}
+                                                                />
+                                                                <Text className={`text-sm font-medium ml-1 ${split.category === category.name
+                                                                    ? 'text-blue-300'
+                                                                    : 'text-white'
+                                                                    }`}>
+                                                                    {category.name}
+                                                                </Text>
+                                                            </TouchableOpacity>
+                                                        ))}
+                                                    </ScrollView>
+
+                                                    <Input
+                                                        placeholder="Note (optional)"
+                                                        value={split.note}
+                                                        onChangeText={(value) => updateSplit(split.id, { note: value })}
+                                                        leftIcon="create-outline"
+                                                        variant="glass"
+                                                    />
+                                                </View>
+                                            ))}
+
+                                            <View className="flex-row items-center justify-between">
+                                                <TouchableOpacity
+                                                    onPress={() => setSplits(prev => [...prev, newSplit(unassigned >= 0.005 ? unassigned.toFixed(2) : '')])}
+                                                    className="flex-row items-center"
+                                                >
+                                                    <Ionicons name="add-circle-outline" size={18} color="#93c5fd" />
+                                                    <Text className="text-blue-300 text-sm font-medium ml-1">Add line</Text>
+                                                </TouchableOpacity>
+                                                <Text className={`text-sm font-medium ${Math.abs(unassigned) < 0.005 ? 'text-green-400' : 'text-amber-300'}`}>
+                                                    {Math.abs(unassigned) < 0.005
+                                                        ? 'All assigned'
+                                                        : `${formatters.currency(Math.abs(unassigned), formData.currency || homeCurrency)} ${unassigned > 0 ? 'left' : 'over'}`}
                                                 </Text>
                                             </View>
-                                        )}
-                                    </View>
+
+                                            {errors.splits && (
+                                                <View className="flex-row items-center mt-2">
+                                                    <Ionicons name="alert-circle" size={16} color="#ef4444" />
+                                                    <Text className="text-red-500 text-sm ml-2 font-medium">
+                                                        {errors.splits}
+                                                    </Text>
+                                                </View>
+                                            )}
+                                        </View>
+                                    )}
 
                                     {/* Category Options */}
-                                    {showCategoryPicker && (
+                                    {splits.length === 0 && showCategoryPicker && (
                                         <Animated.View
                                             style={{
                                                 opacity: fadeAnim,
                                             }}
                                             className="bg-white/5 rounded-2xl p-2"
                                         >
-                                            {EXPENSE_CATEGORIES.map((category) => (
-                                                <TouchableOpacity
-                                                    key={category}
-                                                    onPress={() => {
-                                                        updateFormData('category', category);
-                                                        setShowCategoryPicker(false);
-                                                    }}
-                                                    className={`p-3 rounded-xl mb-1 ${formData.category === category
-                                                        ? 'bg-blue-500/30'
-                                                        : 'bg-white/5'
-                                                        }`}
-                                                >
-                                                    <Text className={`font-medium ${formData.category === category
-                                                        ? 'text-blue-300'
-                                                        : 'text-white'
-                                                        }`}>
-                                                        {category}
-                                                    </Text>
-                                                </TouchableOpacity>
-                                            ))}
+                                            {rankedCategories.map((category) => {
+                                                const selected = formData.category === category;
+                                                const subcategories = subcategoryOptions(category);
+                                                return (
+                                                    <View key={category}>
+                                                        <TouchableOpacity
+                                                            onPress={() => {
+                                                                chooseCategory(category);
+                                                                // Stay open so a subcategory can be picked next
+                                                                if (subcategories.length === 0) {
+                                                                    setShowCategoryPicker(false);
+                                                                }
+                                                            }}
+                                                            className={`p-3 rounded-xl mb-1 flex-row items-center justify-between ${selected
+                                                                ? 'bg-blue-500/30'
+                                                                : 'bg-white/5'
+                                                                }`}
+                                                        >
+                                                            <View className="flex-row items-center">
+                                                                <Ionicons
+                                                                    name={getCategory(category).icon as keyof typeof Ionicons.glyphMap}
+                                                                    size={16}
+                                                                    color={getCategory(category).color}
+                                                                />
+                                                                <Text className={`font-medium ml-2 ${selected
+                                                                    ? 'text-blue-300'
+                                                                    : 'text-white'
+                                                                    }`}>
+                                                                    {category}
+                                                                </Text>
+                                                                {subcategories.length > 0 && (
+                                                                    <Ionicons
+                                                                        name={selected ? 'chevron-down' : 'chevron-forward'}
+                                                                        size={14}
+                                                                        color="#9ca3af"
+                                                                        style={{ marginLeft: 6 }}
+                                                                    />
+                                                                )}
+                                                            </View>
+                                                            {(confidence[category] || 0) >= SHOW_CONFIDENCE && (
+                                                                <Text className="text-gray-400 text-xs">
+                                                                    {Math.round(confidence[category] * 100)}% match
+                                                                </Text>
+                                                            )}
+                                                        </TouchableOpacity>
+
+                                                        {/* Subcategories of the selected category */}
+                                                        {selected && subcategories.length > 0 && (
+                                                            <View className="flex-row flex-wrap pl-6 pb-2">
+                                                                {['', ...subcategories].map(subcategory => (
+                                                                    <TouchableOpacity
+                                                                        key={subcategory || 'general'}
+                                                                        onPress={() => {
+                                                                            chooseCategory(category, subcategory);
+                                                                            setShowCategoryPicker(false);
+                                                                        }}
+                                                                        className={`px-3 py-2 rounded-xl mr-2 mt-1 ${(formData.subcategory || '') === subcategory
+                                                                            ? 'bg-blue-500/30'
+                                                                            : 'bg-white/5'
+                                                                            }`}
+                                                                    >
+                                                                        <Text className={`text-sm font-medium ${(formData.subcategory || '') === subcategory
+                                                                            ? 'text-blue-300'
+                                                                            : 'text-white'
+                                                                            }`}>
+                                                                            {categoryRegistry.subcategoryLabel(subcategory)}
+                                                                        </Text>
+                                                                    </TouchableOpacity>
+                                                                ))}
+                                                            </View>
+                                                        )}
+                                                    </View>
+                                                );
+                                            })}
                                         </Animated.View>
                                     )}
 
@@ -394,9 +967,91 @@ export default function ExpenseFormScreen() {
                                         onDateChange={(value) => updateFormData('date', value)}
                                         error={errors.date}
                                         variant="glass"
+                                        highlighted={scannedFields.includes('date')}
                                         required
                                     />
 
+                                    {/* Repeat settings; occurrences generated from a series cannot start their own */}
+                                    {!recurringSourceId && (
+                                        <View>
+                                            <TouchableOpacity
+                                                onPress={() => setIsRecurring(!isRecurring)}
+                                                className="bg-white/10 border-2 border-white/20 rounded-2xl p-4 flex-row items-center justify-between"
+                                            >
+                                                <View className="flex-row items-center">
+                                                    <Ionicons name="repeat-outline" size={22} color="#9ca3af" />
+                                                    <Text className="text-white ml-3 text-base font-medium">
+                                                        {isRecurring ? recurrence.describe({ ...recurrenceRule, interval: parseInt(recurrenceInterval, 10) || 1 }) : 'Does not repeat'}
+                                                    </Text>
+                                                </View>
+                                                <Ionicons
+                                                    name={isRecurring ? 'checkbox' : 'square-outline'}
+                                                    size={22}
+                                                    color={isRecurring ? '#60a5fa' : '#9ca3af'}
+                                                />
+                                            </TouchableOpacity>
+
+                                            {isRecurring && (
+                                                <View className="bg-white/5 rounded-2xl p-3 mt-2">
+                                                    <View className="flex-row flex-wrap mb-3">
+                                                        {RECURRENCE_FREQUENCIES.map((frequency: RecurrenceFrequency) => (
+                                                            <TouchableOpacity
+                                                                key={frequency}
+                                                                onPress={() => updateRecurrence({ frequency })}
+                                                                className={`px-4 py-2 rounded-xl mr-2 mb-2 ${recurrenceRule.frequency === frequency
+                                                                    ? 'bg-blue-500/30'
+                                                                    : 'bg-white/5'
+                                                                    }`}
+                                                            >
+                                                                <Text className={`font-medium capitalize ${recurrenceRule.frequency === frequency
+                                                                    ? 'text-blue-300'
+                                                                    : 'text-white'
+                                                                    }`}>
+                                                                    {frequency}
+                                                                </Text>
+                                                            </TouchableOpacity>
+                                                        ))}
+                                                    </View>
+
+                                                    <Input
+                                                        label="Repeat every"
+                                                        placeholder="1"
+                                                        value={recurrenceInterval}
+                                                        onChangeText={(value) => {
+                                                            setRecurrenceInterval(value);
+                                                            if (errors.recurrenceInterval) {
+                                                                setErrors(prev => ({ ...prev, recurrenceInterval: '' }));
+                                                            }
+                                                        }}
+                                                        error={errors.recurrenceInterval}
+                                                        leftIcon="timer-outline"
+                                                        keyboardType="number-pad"
+                                                        variant="glass"
+                                                    />
+
+                                                    {recurrenceRule.endDate ? (
+                                                        <View>
+                                                            <DatePicker
+                                                                label="Ends on"
+                                                                value={recurrenceRule.endDate}
+                                                                onDateChange={(value) => updateRecurrence({ endDate: value })}
+                                                                error={errors.recurrenceEndDate}
+                                                                variant="glass"
+                                                            />
+                                                            <TouchableOpacity onPress={() => updateRecurrence({ endDate: undefined })}>
+                                                                <Text className="text-blue-300 font-medium">Repeat forever</Text>
+                                                            </TouchableOpacity>
+                                                        </View>
+                                                    ) : (
+                                                        <TouchableOpacity onPress={() => updateRecurrence({ endDate: formData.date })}>
+                                                            <Text className="text-blue-300 font-medium">Set an end date</Text>
+                                                        </TouchableOpacity>
+                                                    )}
+                                                </View>
+                                            )}
+                                        </View>
+                                    )}
+
                                     <Input
                                         label="Description"
                                         placeholder="Optional notes about this expense"
@@ -409,6 +1064,105 @@ export default function ExpenseFormScreen() {
                                         variant="glass"
                                         style={{ height: 80, textAlignVertical: 'top' }}
                                     />
+
+                                    {/* Receipts */}
+                                    <View>
+                                        <Text className="text-white text-sm font-semibold mb-3">Receipts</Text>
+                                        <View className="flex-row mb-3">
+                                            <TouchableOpacity
+                                                onPress={() => attachReceipts('camera')}
+                                                disabled={isAttaching}
+                                                className="flex-1 flex-row items-center justify-center bg-white/10 border border-white/20 rounded-xl py-3 mr-2"
+                                            >
+                                                <Ionicons name="camera-outline" size={18} color="white" />
+                                                <Text className="text-white font-medium ml-2">Take Photo</Text>
+                                            </TouchableOpacity>
+                                            <TouchableOpacity
+                                                onPress={() => attachReceipts('library')}
+                                                disabled={isAttaching}
+                                                className="flex-1 flex-row items-center justify-center bg-white/10 border border-white/20 rounded-xl py-3 ml-2"
+                                            >
+                                                <Ionicons name="images-outline" size={18} color="white" />
+                                                <Text className="text-white font-medium ml-2">Choose</Text>
+                                            </TouchableOpacity>
+                                        </View>
+                                        {(formData.attachments || []).length > 0 && (
+                                            <ScrollView horizontal showsHorizontalScrollIndicator={false} className="mb-3">
+                                                {(formData.attachments || []).map(attachment => (
+                                                    <View key={attachment.id} className="mr-3">
+                                                        <Image
+                                                            source={{ uri: attachment.thumbnailUri }}
+                                                            style={{ width: 72, height: 72, borderRadius: 12 }}
+                                                        />
+                                                        <TouchableOpacity
+                                                            onPress={() => removeAttachment(attachment)}
+                                                            className="absolute -top-2 -right-2 bg-red-500 rounded-full p-1"
+                                                        >
+                                                            <Ionicons name="close" size={12} color="white" />
+                                                        </TouchableOpacity>
+                                                        <TouchableOpacity
+                                                            onPress={() => scanReceipt(attachment)}
+                                                            disabled={scanningId !== null}
+                                                            className="flex-row items-center justify-center mt-1"
+                                                        >
+                                                            <Ionicons
+                                                                name={scanningId === attachment.id ? 'hourglass-outline' : 'scan-outline'}
+                                                                size={12}
+                                                                color="#93c5fd"
+                                                            />
+                                                            <Text className="text-blue-300 text-xs ml-1">
+                                                                {scanningId === attachment.id ? 'Reading' : 'Scan'}
+                                                            </Text>
+                                                        </TouchableOpacity>
+                                                    </View>
+                                                ))}
+                                            </ScrollView>
+                                        )}
+                                    </View>
+
+                                    {/* Tags */}
+                                    <View>
+                                        <Input
+                                            label="Tags"
+                                            placeholder="e.g. lisbon-trip, reimbursable"
+                                            value={tagInput}
+                                            onChangeText={handleTagInput}
+                                            onSubmitEditing={() => addTags(tagInput)}
+                                            leftIcon="pricetag-outline"
+                                            rightIcon={tagInput.trim() ? 'add-circle-outline' : undefined}
+                                            onRightIconPress={() => addTags(tagInput)}
+                                            autoCapitalize="none"
+                                            returnKeyType="done"
+                                            variant="glass"
+                                        />
+                                        {tagSuggestions.length > 0 && (
+                                            <View className="flex-row flex-wrap mb-2">
+                                                {tagSuggestions.map(tag => (
+                                                    <TouchableOpacity
+                                                        key={tag}
+                                                        onPress={() => addTags(tag)}
+                                                        className="px-3 py-1 rounded-xl mr-2 mb-2 bg-white/5 border border-white/20"
+                                                    >
+                                                        <Text className="text-gray-300 text-sm">#{tag}</Text>
+                                                    </TouchableOpacity>
+                                                ))}
+                                            </View>
+                                        )}
+                                        {(formData.tags || []).length > 0 && (
+                                            <View className="flex-row flex-wrap">
+                                                {(formData.tags || []).map(tag => (
+                                                    <TouchableOpacity
+                                                        key={tag}
+                                                        onPress={() => removeTag(tag)}
+                                                        className="flex-row items-center px-3 py-1 rounded-xl mr-2 mb-2 bg-blue-500/30"
+                                                    >
+                                                        <Text className="text-blue-300 text-sm font-medium mr-1">#{tag}</Text>
+                                                        <Ionicons name="close" size={12} color="#93c5fd" />
+                                                    </TouchableOpacity>
+                                                ))}
+                                            </View>
+                                        )}
+                                    </View>
                                 </View>
                             </AnimatedCard>
 
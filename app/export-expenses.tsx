@@ -0,0 +1,260 @@
+import React, { useEffect, useState, useRef } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Animated, StatusBar, Platform } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useExpenses } from '../contexts/ExpensesContext';
+import { Button } from '../components/ui/Button';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { expenseSelectors } from '../utils/expenseSelectors';
+import { formatters } from '../utils/formatters';
+import {
+    exportExpensesToCsv,
+    CSV_COLUMNS,
+    CSV_DATE_FORMATS,
+    CSV_AMOUNT_FORMATS,
+    DEFAULT_CSV_COLUMNS,
+    CsvColumn,
+    CsvDateFormat,
+    CsvAmountFormat,
+} from '../utils/csvExport';
+
+const CSV_MIME_TYPE = 'text/csv';
+
+// Hands the CSV over as a file through the platform share sheet
+const shareCsvFile = async (csv: string, fileName: string) => {
+    // The file system and sharing modules are native-only, so the browser downloads a blob instead
+    if (Platform.OS === 'web') {
+        const url = URL.createObjectURL(new Blob([csv], { type: CSV_MIME_TYPE }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = fileName;
+        link.click();
+        URL.revokeObjectURL(url);
+        return;
+    }
+
+    const uri = `${FileSystem.cacheDirectory}${fileName}`;
+    await FileSystem.writeAsStringAsync(uri, csv);
+    await Sharing.shareAsync(uri, {
+        mimeType: CSV_MIME_TYPE,
+        UTI: 'public.comma-separated-values-text',
+        dialogTitle: fileName,
+    });
+};
+
+export default function ExportExpensesScreen() {
+    const { isAuthenticated } = useAuth();
+    const { expenses } = useExpenses();
+    const { homeCurrency, formatAmount } = useCurrency();
+    // The Expenses tab passes its current filter so the export matches what is on screen
+    const { search, category, tags: tagParam, from, to } = useLocalSearchParams<{ search?: string; category?: string; tags?: string; from?: string; to?: string }>();
+    const tags = tagParam ? tagParam.split(',') : undefined;
+    const [columns, setColumns] = useState<CsvColumn[]>(DEFAULT_CSV_COLUMNS);
+    const [dateFormat, setDateFormat] = useState<CsvDateFormat>('iso');
+    const [amountFormat, setAmountFormat] = useState<CsvAmountFormat>('decimalPoint');
+    const [isSharing, setIsSharing] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const selected = expenseSelectors.sortByDateDesc(expenseSelectors.filter(expenses, { search, category, tags, from, to }));
+
+    const filterSummary = [
+        search && `matching "${search}"`,
+        category,
+        tags && tags.map(tag => `#${tag}`).join(' '),
+        from && `from ${formatters.date(from)}`,
+        to && `to ${formatters.date(to)}`,
+    ].filter(Boolean).join(' · ') || 'All expenses';
+
+    // Columns keep the order they are listed in, whatever order they were ticked
+    const toggleColumn = (column: CsvColumn) => {
+        setColumns(prev => prev.includes(column)
+            ? prev.filter(key => key !== column)
+            : CSV_COLUMNS.map(({ key }) => key).filter(key => key === column || prev.includes(key)));
+    };
+
+    const handleExport = async () => {
+        if (columns.length === 0) {
+            Toast.show({
+                type: 'error',
+                text1: 'No Columns',
+                text2: 'Choose at least one column to export',
+            });
+            return;
+        }
+
+        setIsSharing(true);
+        try {
+            const csv = exportExpensesToCsv(selected, { columns, dateFormat, amountFormat, homeCurrency });
+            await shareCsvFile(csv, `expenses-${new Date().toISOString().split('T')[0]}.csv`);
+        } catch (error) {
+            console.error('Error exporting expenses:', error);
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to export expenses',
+            });
+        } finally {
+            setIsSharing(false);
+        }
+    };
+
+    const renderChoice = <T extends string>(
+        options: { key: T; label: string }[],
+        value: T,
+        onSelect: (key: T) => void
+    ) => (
+        <View className="flex-row flex-wrap">
+            {options.map(option => (
+                <TouchableOpacity
+                    key={option.key}
+                    onPress={() => onSelect(option.key)}
+                    className={`px-4 py-2 rounded-xl mr-2 mb-2 ${value === option.key
+                        ? 'bg-blue-500/30'
+                        : 'bg-white/5'
+                        }`}
+                >
+                    <Text className={`font-medium ${value === option.key
+                        ? 'text-blue-300'
+                        : 'text-white'
+                        }`}>
+                        {option.label}
+                    </Text>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-6"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="close" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Export Expenses
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Share a CSV for your spreadsheet
+                                </Text>
+                            </View>
+
+                            <View style={{ width: 40 }} />
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView className="flex-1">
+                    <View className="p-6">
+                        <AnimatedCard className="mb-6" animationType="slideUp" delay={200}>
+                            <Text className="text-white text-lg font-bold mb-2">
+                                {selected.length} expense{selected.length !== 1 ? 's' : ''}
+                            </Text>
+                            <Text className="text-gray-300 text-sm">{filterSummary}</Text>
+                            <Text className="text-gray-400 text-xs mt-1">
+                                {formatAmount(expenseSelectors.total(selected))} in total
+                            </Text>
+                        </AnimatedCard>
+
+                        <AnimatedCard className="mb-6" animationType="slideUp" delay={300}>
+                            <Text className="text-white text-lg font-bold mb-4">Columns</Text>
+                            {CSV_COLUMNS.map(({ key, label }) => (
+                                <TouchableOpacity
+                                    key={key}
+                                    onPress={() => toggleColumn(key)}
+                                    className="flex-row items-center mb-3"
+                                >
+                                    <Ionicons
+                                        name={columns.includes(key) ? 'checkbox' : 'square-outline'}
+                                        size={20}
+                                        color={columns.includes(key) ? '#60a5fa' : '#9ca3af'}
+                                    />
+                                    <Text className="text-white text-base ml-3">
+                                        {key === 'convertedAmount' ? `${label} (${homeCurrency})` : label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </AnimatedCard>
+
+                        <AnimatedCard className="mb-6" animationType="slideUp" delay={350}>
+                            <Text className="text-white text-lg font-bold mb-4">Date Format</Text>
+                            {renderChoice(CSV_DATE_FORMATS, dateFormat, setDateFormat)}
+
+                            <Text className="text-white text-lg font-bold mt-4 mb-4">Amount Format</Text>
+                            {renderChoice(CSV_AMOUNT_FORMATS, amountFormat, setAmountFormat)}
+                        </AnimatedCard>
+
+                        <AnimatedCard className="bg-transparent" animationType="scale" delay={400}>
+                            <Button
+                                title="Export CSV"
+                                onPress={handleExport}
+                                loading={isSharing}
+                                disabled={isSharing || selected.length === 0}
+                                variant="gradient"
+                                size="lg"
+                                fullWidth
+                                leftIcon="share-outline"
+                            />
+                        </AnimatedCard>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
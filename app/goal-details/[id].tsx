@@ -0,0 +1,369 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform, Alert, Animated, StatusBar } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { GoalContribution } from '../../types';
+import { validation } from '../../utils/validation';
+import { formatters } from '../../utils/formatters';
+import { goalProgress, GOAL_STATUS_DETAILS } from '../../utils/goalProgress';
+import { AnimatedCard } from '../../components/ui/AnimatedCard';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { DatePicker } from '../../components/ui/DatePicker';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGoals } from '@/contexts/GoalsContext';
+
+const today = () => new Date().toISOString().split('T')[0];
+
+export default function GoalDetailsScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const { isAuthenticated } = useAuth();
+    const { getGoal, deleteGoal, addContribution, removeContribution } = useGoals();
+    const [amount, setAmount] = useState('');
+    const [date, setDate] = useState(today());
+    const [note, setNote] = useState('');
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const goal = id ? getGoal(id) : undefined;
+    if (!goal) {
+        return null;
+    }
+
+    const money = (value: number) => formatters.currency(value, goal.currency);
+    const status = goalProgress.status(goal);
+    const statusDetails = GOAL_STATUS_DETAILS[status];
+    const fraction = goalProgress.fraction(goal);
+    const requiredMonthly = goalProgress.requiredMonthly(goal);
+    const projected = goalProgress.projectedCompletion(goal);
+    const monthsLeft = goalProgress.monthsLeft(goal);
+
+    const handleContribute = async () => {
+        const newErrors: { [key: string]: string } = {};
+        const amountValidation = validation.amount(amount);
+        if (!amountValidation.isValid) {
+            newErrors.amount = amountValidation.message!;
+        }
+        const dateValidation = validation.date(date);
+        if (!dateValidation.isValid) {
+            newErrors.date = dateValidation.message!;
+        }
+        setErrors(newErrors);
+        if (Object.keys(newErrors).length > 0) {
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const updated = await addContribution(goal.id, {
+                amount: parseFloat(amount),
+                date,
+                note: note.trim(),
+            });
+            setAmount('');
+            setDate(today());
+            setNote('');
+            Toast.show({
+                type: 'success',
+                text1: goalProgress.remaining(updated) === 0 ? 'Goal reached!' : 'Contribution added',
+                text2: `${money(goalProgress.saved(updated))} saved towards ${goal.name}`,
+            });
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to add contribution',
+            });
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleRemoveContribution = (contribution: GoalContribution) => {
+        Alert.alert(
+            'Remove Contribution',
+            `Remove ${money(contribution.amount)} from ${formatters.date(contribution.date)}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Remove',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await removeContribution(goal.id, contribution.id);
+                        } catch (error) {
+                            Toast.show({
+                                type: 'error',
+                                text1: 'Error',
+                                text2: 'Failed to remove contribution',
+                            });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleDelete = () => {
+        Alert.alert(
+            'Delete Goal',
+            `Are you sure you want to delete "${goal.name}" and its ${goal.contributions.length} contribution${goal.contributions.length === 1 ? '' : 's'}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteGoal(goal.id);
+                            router.back();
+                        } catch (error) {
+                            Toast.show({
+                                type: 'error',
+                                text1: 'Error',
+                                text2: 'Failed to delete goal',
+                            });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const describeRequired = () => {
+        if (status === 'complete') return 'Nothing left to save';
+        if (requiredMonthly === null) return 'The target date has passed';
+        return `${money(requiredMonthly)} a month`;
+    };
+
+    const describeProjection = () => {
+        if (!projected) return 'Add a contribution to see when you\'ll get there';
+        return status === 'complete'
+            ? `Reached on ${formatters.date(projected)}`
+            : `At your current pace, ${formatters.date(projected)}`;
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    className="flex-1"
+                >
+                    {/* Header */}
+                    <LinearGradient
+                        colors={['#0f172a', '#1e293b']}
+                        className="px-4 py-4"
+                    >
+                        <Animated.View
+                            style={{
+                                opacity: fadeAnim,
+                                transform: [{ translateY: slideAnim }],
+                            }}
+                        >
+                            <View className="flex-row items-center justify-between">
+                                <TouchableOpacity
+                                    onPress={() => router.back()}
+                                    className="p-2 rounded-xl bg-white/10"
+                                >
+                                    <Ionicons name="arrow-back" size={24} color="white" />
+                                </TouchableOpacity>
+
+                                <View className="flex-1 items-center">
+                                    <Text className="text-white text-xl font-bold" numberOfLines={1}>
+                                        {goal.name}
+                                    </Text>
+                                    <Text className="text-gray-300 text-sm">
+                                        {money(goal.targetAmount)} by {formatters.date(goal.targetDate)}
+                                    </Text>
+                                </View>
+
+                                <TouchableOpacity
+                                    onPress={() => router.push(`/goal-form?id=${goal.id}`)}
+                                    className="p-2 rounded-xl bg-white/10"
+                                >
+                                    <Ionicons name="create-outline" size={24} color="white" />
+                                </TouchableOpacity>
+                            </View>
+                        </Animated.View>
+                    </LinearGradient>
+
+                    <ScrollView
+                        className="flex-1"
+                        contentContainerStyle={{ paddingBottom: 20 }}
+                        keyboardShouldPersistTaps="handled"
+                    >
+                        <View className="p-4">
+                            {/* Progress */}
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                                <View className="flex-row items-center justify-between mb-3">
+                                    <Text className="text-white text-3xl font-bold">{Math.round(fraction * 100)}%</Text>
+                                    <View className="px-3 py-1 rounded-full bg-white/10">
+                                        <Text className="text-xs font-semibold" style={{ color: statusDetails.color }}>
+                                            {statusDetails.label}
+                                        </Text>
+                                    </View>
+                                </View>
+                                <View className="h-3 bg-white/10 rounded-full overflow-hidden mb-3">
+                                    <View
+                                        className="h-3 rounded-full"
+                                        style={{ width: `${fraction * 100}%`, backgroundColor: statusDetails.color }}
+                                    />
+                                </View>
+                                <View className="flex-row justify-between">
+                                    <Text className="text-gray-300 text-sm">{money(goalProgress.saved(goal))} saved</Text>
+                                    <Text className="text-gray-300 text-sm">{money(goalProgress.remaining(goal))} to go</Text>
+                                </View>
+                            </AnimatedCard>
+
+                            {/* Plan */}
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={250}>
+                                <Text className="text-white text-lg font-bold mb-4">Plan</Text>
+                                <View className="flex-row items-center mb-3">
+                                    <Ionicons name="calendar-outline" size={18} color="#93c5fd" />
+                                    <View className="ml-3 flex-1">
+                                        <Text className="text-gray-400 text-xs">Needed to finish on time</Text>
+                                        <Text className="text-white font-semibold">{describeRequired()}</Text>
+                                    </View>
+                                </View>
+                                <View className="flex-row items-center mb-3">
+                                    <Ionicons name="trending-up-outline" size={18} color="#93c5fd" />
+                                    <View className="ml-3 flex-1">
+                                        <Text className="text-gray-400 text-xs">Projected completion</Text>
+                                        <Text className="text-white font-semibold">{describeProjection()}</Text>
+                                    </View>
+                                </View>
+                                <View className="flex-row items-center">
+                                    <Ionicons name="flag-outline" size={18} color="#93c5fd" />
+                                    <View className="ml-3 flex-1">
+                                        <Text className="text-gray-400 text-xs">Target date</Text>
+                                        <Text className="text-white font-semibold">
+                                            {formatters.date(goal.targetDate)}
+                                            {monthsLeft > 0 && ` · ${monthsLeft < 1 ? 'under a month' : `${Math.floor(monthsLeft)} month${Math.floor(monthsLeft) === 1 ? '' : 's'}`} left`}
+                                        </Text>
+                                    </View>
+                                </View>
+                            </AnimatedCard>
+
+                            {/* Add contribution */}
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                                <Text className="text-white text-lg font-bold mb-4">Add Contribution</Text>
+                                <Input
+                                    label={`Amount (${goal.currency})`}
+                                    placeholder="0.00"
+                                    value={amount}
+                                    onChangeText={(value) => {
+                                        setAmount(value);
+                                        if (errors.amount) setErrors(prev => ({ ...prev, amount: '' }));
+                                    }}
+                                    error={errors.amount}
+                                    leftIcon="cash-outline"
+                                    keyboardType="numeric"
+                                    variant="glass"
+                                    required
+                                />
+                                <DatePicker
+                                    label="Date"
+                                    value={date}
+                                    onDateChange={(value) => {
+                                        setDate(value);
+                                        if (errors.date) setErrors(prev => ({ ...prev, date: '' }));
+                                    }}
+                                    error={errors.date}
+                                    variant="glass"
+                                    required
+                                />
+                                <Input
+                                    label="Note"
+                                    placeholder="Optional"
+                                    value={note}
+                                    onChangeText={setNote}
+                                    leftIcon="document-text-outline"
+                                    variant="glass"
+                                />
+                                <Button
+                                    title="Add Contribution"
+                                    onPress={handleContribute}
+                                    loading={isSaving}
+                                    disabled={isSaving}
+                                    variant="gradient"
+                                    fullWidth
+                                    leftIcon="add-outline"
+                                />
+                            </AnimatedCard>
+
+                            {/* Contributions */}
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={350}>
+                                <Text className="text-white text-lg font-bold mb-4">Contributions</Text>
+                                {goal.contributions.length === 0 ? (
+                                    <Text className="text-gray-400 text-sm">Nothing saved towards this goal yet.</Text>
+                                ) : (
+                                    [...goal.contributions]
+                                        .sort((a, b) => b.date.localeCompare(a.date))
+                                        .map(contribution => (
+                                            <View key={contribution.id} className="flex-row items-center justify-between py-2 border-b border-white/10">
+                                                <View className="flex-1">
+                                                    <Text className="text-white font-medium">{money(contribution.amount)}</Text>
+                                                    <Text className="text-gray-400 text-xs">
+                                                        {formatters.date(contribution.date)}{contribution.note ? ` · ${contribution.note}` : ''}
+                                                    </Text>
+                                                </View>
+                                                <TouchableOpacity onPress={() => handleRemoveContribution(contribution)} className="p-1">
+                                                    <Ionicons name="trash-outline" size={18} color="#f87171" />
+                                                </TouchableOpacity>
+                                            </View>
+                                        ))
+                                )}
+                            </AnimatedCard>
+
+                            <Button
+                                title="Delete Goal"
+                                onPress={handleDelete}
+                                variant="danger"
+                                fullWidth
+                                leftIcon="trash-outline"
+                            />
+                        </View>
+                    </ScrollView>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </View>
+    );
+}
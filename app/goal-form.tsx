@@ -0,0 +1,228 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform, Animated, StatusBar } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useGoals } from '../contexts/GoalsContext';
+import { GoalFormData } from '../types';
+import { validation } from '../utils/validation';
+import { Input } from '../components/ui/Input';
+import { Button } from '../components/ui/Button';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { DatePicker } from '../components/ui/DatePicker';
+
+// New goals start six months out
+const defaultTargetDate = () => {
+    const date = new Date();
+    date.setMonth(date.getMonth() + 6);
+    return date.toISOString().split('T')[0];
+};
+
+export default function GoalFormScreen() {
+    const { isAuthenticated } = useAuth();
+    const { homeCurrency } = useCurrency();
+    const { getGoal, createGoal, updateGoal } = useGoals();
+    const { id } = useLocalSearchParams<{ id?: string }>();
+    const isEditing = !!id;
+    const existing = id ? getGoal(id) : undefined;
+
+    const [formData, setFormData] = useState<GoalFormData>({
+        name: existing?.name || '',
+        targetAmount: existing ? existing.targetAmount.toString() : '',
+        targetDate: existing?.targetDate || defaultTargetDate(),
+    });
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const updateFormData = (field: keyof GoalFormData, value: string) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        if (errors[field]) {
+            setErrors(prev => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    const validateForm = () => {
+        const newErrors: { [key: string]: string } = {};
+
+        if (formData.name.trim().length < 2) {
+            newErrors.name = 'Name must be at least 2 characters long';
+        } else if (formData.name.length > 60) {
+            newErrors.name = 'Name must be less than 60 characters';
+        }
+
+        const amountValidation = validation.amount(formData.targetAmount);
+        if (!amountValidation.isValid) {
+            newErrors.targetAmount = amountValidation.message!;
+        }
+
+        // An existing goal may keep a date that has since passed
+        const dateUnchanged = existing && existing.targetDate === formData.targetDate;
+        const dateValidation = validation.targetDate(formData.targetDate);
+        if (!dateUnchanged && !dateValidation.isValid) {
+            newErrors.targetDate = dateValidation.message!;
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = async () => {
+        if (!validateForm()) {
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            if (isEditing && id) {
+                await updateGoal(id, formData);
+                router.back();
+            } else {
+                const goal = await createGoal(formData);
+                router.replace(`/goal-details/${goal.id}`);
+            }
+            Toast.show({
+                type: 'success',
+                text1: 'Success',
+                text2: `Goal ${isEditing ? 'updated' : 'created'} successfully`,
+            });
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: `Failed to ${isEditing ? 'update' : 'create'} goal`,
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    className="flex-1"
+                >
+                    {/* Header */}
+                    <LinearGradient
+                        colors={['#0f172a', '#1e293b']}
+                        className="px-4 py-4"
+                    >
+                        <Animated.View
+                            style={{
+                                opacity: fadeAnim,
+                                transform: [{ translateY: slideAnim }],
+                            }}
+                        >
+                            <View className="flex-row items-center justify-between">
+                                <TouchableOpacity
+                                    onPress={() => router.back()}
+                                    className="p-2 rounded-xl bg-white/10"
+                                >
+                                    <Ionicons name="close" size={24} color="white" />
+                                </TouchableOpacity>
+
+                                <View className="flex-1 items-center">
+                                    <Text className="text-white text-xl font-bold">
+                                        {isEditing ? 'Edit Goal' : 'New Goal'}
+                                    </Text>
+                                    <Text className="text-gray-300 text-sm">
+                                        {isEditing ? 'Change the target or deadline' : 'Save towards something'}
+                                    </Text>
+                                </View>
+
+                                <View style={{ width: 40 }} />
+                            </View>
+                        </Animated.View>
+                    </LinearGradient>
+
+                    <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+                        <View className="p-4">
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                                <Input
+                                    label="Name"
+                                    placeholder="e.g. Emergency fund"
+                                    value={formData.name}
+                                    onChangeText={(value) => updateFormData('name', value)}
+                                    error={errors.name}
+                                    leftIcon="flag-outline"
+                                    variant="glass"
+                                    required
+                                />
+
+                                <Input
+                                    label={`Target amount (${existing?.currency || homeCurrency})`}
+                                    placeholder="0.00"
+                                    value={formData.targetAmount}
+                                    onChangeText={(value) => updateFormData('targetAmount', value)}
+                                    error={errors.targetAmount}
+                                    leftIcon="cash-outline"
+                                    keyboardType="numeric"
+                                    variant="glass"
+                                    required
+                                />
+
+                                <DatePicker
+                                    label="Target date"
+                                    value={formData.targetDate}
+                                    onDateChange={(value) => updateFormData('targetDate', value)}
+                                    error={errors.targetDate}
+                                    variant="glass"
+                                    required
+                                />
+                            </AnimatedCard>
+
+                            <Button
+                                title={isEditing ? 'Update Goal' : 'Create Goal'}
+                                onPress={handleSubmit}
+                                loading={isSubmitting}
+                                disabled={isSubmitting}
+                                variant="gradient"
+                                fullWidth
+                                leftIcon={isEditing ? 'checkmark-outline' : 'add-outline'}
+                            />
+                        </View>
+                    </ScrollView>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </View>
+    );
+}
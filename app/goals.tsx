@@ -0,0 +1,168 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, RefreshControl, Animated, StatusBar } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useGoals } from '../contexts/GoalsContext';
+import { goalProgress, GOAL_STATUS_DETAILS } from '../utils/goalProgress';
+import { formatters } from '../utils/formatters';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { Loading } from '../components/ui/Loading';
+
+export default function GoalsScreen() {
+    const { isAuthenticated } = useAuth();
+    const { goals, isLoading, refreshGoals } = useGoals();
+    const [isRefreshing, setIsRefreshing] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const onRefresh = async () => {
+        setIsRefreshing(true);
+        try {
+            await refreshGoals();
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to load goals',
+            });
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    if (isLoading && goals.length === 0) {
+        return <Loading text="Loading goals..." />;
+    }
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Savings Goals
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Targets, deadlines and progress
+                                </Text>
+                            </View>
+
+                            <TouchableOpacity
+                                onPress={() => router.push('/goal-form')}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="add" size={24} color="white" />
+                            </TouchableOpacity>
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                    refreshControl={
+                        <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+                    }
+                >
+                    <View className="p-4">
+                        {goals.length === 0 ? (
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                                <Text className="text-gray-300 text-sm mb-4">
+                                    No goals yet. Set a target like an emergency fund or a holiday, log what you put aside and see when you'll get there.
+                                </Text>
+                                <TouchableOpacity
+                                    onPress={() => router.push('/goal-form')}
+                                    className="flex-row items-center self-start bg-blue-500/30 px-4 py-2 rounded-xl"
+                                >
+                                    <Ionicons name="add" size={16} color="#93c5fd" />
+                                    <Text className="text-blue-300 font-medium ml-1">New Goal</Text>
+                                </TouchableOpacity>
+                            </AnimatedCard>
+                        ) : (
+                            goals.map((goal, index) => {
+                                const status = GOAL_STATUS_DETAILS[goalProgress.status(goal)];
+                                const fraction = goalProgress.fraction(goal);
+                                return (
+                                    <AnimatedCard key={goal.id} className="mb-3" animationType="slideUp" delay={200 + index * 50}>
+                                        <TouchableOpacity onPress={() => router.push(`/goal-details/${goal.id}`)}>
+                                            <View className="flex-row items-center justify-between mb-2">
+                                                <Text className="text-white font-bold text-base flex-1" numberOfLines={1}>{goal.name}</Text>
+                                                <Text className="text-xs font-semibold" style={{ color: status.color }}>{status.label}</Text>
+                                            </View>
+                                            <View className="h-2 bg-white/10 rounded-full overflow-hidden mb-2">
+                                                <View
+                                                    className="h-2 rounded-full"
+                                                    style={{ width: `${fraction * 100}%`, backgroundColor: status.color }}
+                                                />
+                                            </View>
+                                            <View className="flex-row justify-between">
+                                                <Text className="text-gray-300 text-xs">
+                                                    {formatters.currency(goalProgress.saved(goal), goal.currency)} of {formatters.currency(goal.targetAmount, goal.currency)}
+                                                </Text>
+                                                <Text className="text-gray-400 text-xs">by {formatters.date(goal.targetDate)}</Text>
+                                            </View>
+                                        </TouchableOpacity>
+                                    </AnimatedCard>
+                                );
+                            })
+                        )}
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
@@ -0,0 +1,419 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, RefreshControl, Alert, Animated, StatusBar } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { GroupExpense, GroupMember } from '../../types';
+import { userAPI } from '../../services/api';
+import { formatters } from '../../utils/formatters';
+import { groupLedger, GroupTransfer } from '../../utils/groupLedger';
+import { AnimatedCard } from '../../components/ui/AnimatedCard';
+import { Button } from '../../components/ui/Button';
+import { Input } from '../../components/ui/Input';
+import { Loading } from '../../components/ui/Loading';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGroups } from '@/contexts/GroupsContext';
+
+export default function GroupDetailsScreen() {
+    const { id } = useLocalSearchParams<{ id: string }>();
+    const { user, isAuthenticated } = useAuth();
+    const { getGroup, ledgers, loadLedger, getBalances, deleteExpense, recordSettlement, addMembers } = useGroups();
+    const [isLoading, setIsLoading] = useState(true);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+    const [settlingKey, setSettlingKey] = useState<string | null>(null);
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<GroupMember[]>([]);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    useEffect(() => {
+        if (id) {
+            fetchLedger(id).finally(() => setIsLoading(false));
+        }
+    }, [id]);
+
+    const fetchLedger = async (groupId: string) => {
+        try {
+            await loadLedger(groupId);
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to load group',
+            });
+        }
+    };
+
+    const onRefresh = async () => {
+        if (!id) return;
+        setIsRefreshing(true);
+        await fetchLedger(id);
+        setIsRefreshing(false);
+    };
+
+    const group = id ? getGroup(id) : undefined;
+    const ledger = id ? ledgers[id] : undefined;
+
+    if (isLoading && !ledger) {
+        return <Loading text="Loading group..." />;
+    }
+
+    if (!group) {
+        return (
+            <View className="flex-1">
+                <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+                {/* Background Gradient */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b', '#334155']}
+                    className="absolute inset-0"
+                />
+
+                <SafeAreaView className="flex-1">
+                    <View className="flex-1 items-center justify-center p-8">
+                        <View className="w-20 h-20 bg-red-500/20 rounded-full items-center justify-center mb-6">
+                            <Ionicons name="alert-circle-outline" size={40} color="#ef4444" />
+                        </View>
+                        <Text className="text-white text-xl font-semibold mb-3">
+                            Group Not Found
+                        </Text>
+                        <Text className="text-gray-300 text-center mb-8 leading-6">
+                            The group doesn't exist or you're no longer a member.
+                        </Text>
+                        <Button
+                            title="Go Back"
+                            onPress={() => router.back()}
+                            variant="gradient"
+                            leftIcon="arrow-back-outline"
+                        />
+                    </View>
+                </SafeAreaView>
+            </View>
+        );
+    }
+
+    const expenses = ledger?.expenses || [];
+    const settlements = ledger?.settlements || [];
+    const balances = getBalances(group.id);
+    const transfers = groupLedger.settle(balances);
+    const nameOf = (memberId: string) => groupLedger.memberName(group.members, memberId, user?.id);
+    const money = (amount: number) => formatters.currency(amount, group.currency);
+
+    const handleSettle = (transfer: GroupTransfer) => {
+        Alert.alert(
+            'Record Payment',
+            `${nameOf(transfer.from)} paid ${nameOf(transfer.to)} ${money(transfer.amount)}?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Record',
+                    onPress: async () => {
+                        setSettlingKey(`${transfer.from}>${transfer.to}`);
+                        try {
+                            await recordSettlement(group.id, transfer);
+                            Toast.show({
+                                type: 'success',
+                                text1: 'Payment recorded',
+                                text2: `${nameOf(transfer.from)} → ${nameOf(transfer.to)} ${money(transfer.amount)}`,
+                            });
+                        } catch (error) {
+                            Toast.show({
+                                type: 'error',
+                                text1: 'Error',
+                                text2: 'Failed to record payment',
+                            });
+                        } finally {
+                            setSettlingKey(null);
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const handleDeleteExpense = (expense: GroupExpense) => {
+        Alert.alert(
+            'Delete Expense',
+            `Remove "${expense.title}" from ${group.name}? Balances will be recalculated for everyone.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteExpense(group.id, expense.id);
+                        } catch (error) {
+                            Toast.show({
+                                type: 'error',
+                                text1: 'Error',
+                                text2: 'Failed to delete expense',
+                            });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const searchMembers = async () => {
+        if (query.trim().length < 2) return;
+        try {
+            const found = await userAPI.searchUsers(query.trim());
+            setResults(found.filter(member => !group.memberIds.includes(member.id)));
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to search users',
+            });
+        }
+    };
+
+    const handleAddMember = async (member: GroupMember) => {
+        try {
+            await addMembers(group.id, [member]);
+            setResults(prev => prev.filter(result => result.id !== member.id));
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to add member',
+            });
+        }
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold" numberOfLines={1}>
+                                    {group.name}
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    {group.members.length} members · {group.currency}
+                                </Text>
+                            </View>
+
+                            <TouchableOpacity
+                                onPress={() => router.push(`/group-expense-form?groupId=${group.id}`)}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="add" size={24} color="white" />
+                            </TouchableOpacity>
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                    keyboardShouldPersistTaps="handled"
+                    refreshControl={
+                        <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+                    }
+                >
+                    <View className="p-4">
+                        {/* Balances */}
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                            <Text className="text-white text-lg font-bold mb-3">Balances</Text>
+                            {group.members.map(member => {
+                                const balance = balances[member.id] || 0;
+                                const settled = Math.abs(balance) < 0.005;
+                                return (
+                                    <View key={member.id} className="flex-row items-center justify-between py-2">
+                                        <Text className="text-white font-medium">{nameOf(member.id)}</Text>
+                                        <Text className={`font-semibold ${settled
+                                            ? 'text-gray-400'
+                                            : balance > 0 ? 'text-green-400' : 'text-red-400'
+                                            }`}>
+                                            {settled ? 'Settled' : `${balance > 0 ? 'gets back' : 'owes'} ${money(Math.abs(balance))}`}
+                                        </Text>
+                                    </View>
+                                );
+                            })}
+                        </AnimatedCard>
+
+                        {/* Settle up */}
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={250}>
+                            <Text className="text-white text-lg font-bold mb-1">Settle Up</Text>
+                            <Text className="text-gray-400 text-xs mb-3">
+                                The fewest payments that clear every balance. Record one once the money has changed hands.
+                            </Text>
+                            {transfers.length === 0 ? (
+                                <Text className="text-gray-300 text-sm">Everyone is settled up.</Text>
+                            ) : (
+                                transfers.map(transfer => {
+                                    const key = `${transfer.from}>${transfer.to}`;
+                                    return (
+                                        <View key={key} className="flex-row items-center justify-between bg-white/5 rounded-xl p-3 mb-2">
+                                            <View className="flex-1">
+                                                <Text className="text-white font-medium">
+                                                    {nameOf(transfer.from)} → {nameOf(transfer.to)}
+                                                </Text>
+                                                <Text className="text-gray-300 text-sm">{money(transfer.amount)}</Text>
+                                            </View>
+                                            <TouchableOpacity
+                                                onPress={() => handleSettle(transfer)}
+                                                disabled={settlingKey !== null}
+                                                className="px-3 py-2 rounded-xl bg-blue-500/30"
+                                            >
+                                                <Text className="text-blue-300 font-semibold text-sm">
+                                                    {settlingKey === key ? 'Saving…' : 'Record'}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        </View>
+                                    );
+                                })
+                            )}
+                        </AnimatedCard>
+
+                        {/* Expenses */}
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                            <Text className="text-white text-lg font-bold mb-3">Expenses</Text>
+                            {expenses.length === 0 ? (
+                                <Text className="text-gray-300 text-sm">
+                                    Nothing recorded yet. Tap + to add what someone paid for the group.
+                                </Text>
+                            ) : (
+                                expenses.map(expense => {
+                                    const myShare = groupLedger.owedShares(expense)[user?.id || ''] || 0;
+                                    return (
+                                        <View key={expense.id} className="flex-row items-center py-3 border-b border-white/10">
+                                            <View className="flex-1">
+                                                <Text className="text-white font-medium">{expense.title}</Text>
+                                                <Text className="text-gray-400 text-xs">
+                                                    {nameOf(expense.paidBy)} paid · {formatters.date(expense.date)} · split {expense.splitMethod === 'exact' ? 'by amount' : expense.splitMethod === 'shares' ? 'by shares' : 'equally'}
+                                                </Text>
+                                                {myShare > 0 && (
+                                                    <Text className="text-gray-300 text-xs">Your share {money(myShare)}</Text>
+                                                )}
+                                            </View>
+                                            <Text className="text-white font-semibold mr-3">{money(expense.amount)}</Text>
+                                            <TouchableOpacity onPress={() => handleDeleteExpense(expense)}>
+                                                <Ionicons name="trash-outline" size={18} color="#f87171" />
+                                            </TouchableOpacity>
+                                        </View>
+                                    );
+                                })
+                            )}
+                        </AnimatedCard>
+
+                        {/* Payments */}
+                        {settlements.length > 0 && (
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={350}>
+                                <Text className="text-white text-lg font-bold mb-3">Payments</Text>
+                                {settlements.map(settlement => (
+                                    <View key={settlement.id} className="flex-row items-center justify-between py-2">
+                                        <View className="flex-1">
+                                            <Text className="text-white text-sm">
+                                                {nameOf(settlement.from)} paid {nameOf(settlement.to)}
+                                            </Text>
+                                            <Text className="text-gray-400 text-xs">{formatters.date(settlement.date)}</Text>
+                                        </View>
+                                        <Text className="text-white font-semibold">{money(settlement.amount)}</Text>
+                                    </View>
+                                ))}
+                            </AnimatedCard>
+                        )}
+
+                        {/* Members */}
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={400}>
+                            <Text className="text-white text-lg font-bold mb-3">Members</Text>
+                            <View className="flex-row flex-wrap mb-3">
+                                {group.members.map(member => (
+                                    <View key={member.id} className="bg-indigo-500/20 px-3 py-1 rounded-full mr-2 mb-2">
+                                        <Text className="text-indigo-200 text-sm font-medium">
+                                            {member.name || member.username}
+                                        </Text>
+                                    </View>
+                                ))}
+                            </View>
+                            <Input
+                                placeholder="Add someone by username"
+                                value={query}
+                                onChangeText={setQuery}
+                                onSubmitEditing={searchMembers}
+                                returnKeyType="search"
+                                autoCapitalize="none"
+                                leftIcon="person-add-outline"
+                                rightIcon="search"
+                                onRightIconPress={searchMembers}
+                                variant="glass"
+                            />
+                            {results.length > 0 && (
+                                <View className="flex-row flex-wrap">
+                                    {results.map(member => (
+                                        <TouchableOpacity
+                                            key={member.id}
+                                            onPress={() => handleAddMember(member)}
+                                            className="flex-row items-center px-3 py-2 rounded-xl mr-2 mb-2 bg-white/5"
+                                        >
+                                            <Ionicons name="add" size={14} color="white" />
+                                            <Text className="text-white font-medium ml-1">
+                                                {member.name ? `${member.name} (@${member.username})` : `@${member.username}`}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
+                        </AnimatedCard>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
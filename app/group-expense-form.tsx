@@ -0,0 +1,348 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform, Animated, StatusBar } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useGroups } from '../contexts/GroupsContext';
+import { GroupSplitMethod, GROUP_SPLIT_METHODS } from '../types';
+import { validation } from '../utils/validation';
+import { formatters } from '../utils/formatters';
+import { groupLedger } from '../utils/groupLedger';
+import { Input } from '../components/ui/Input';
+import { Button } from '../components/ui/Button';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { DatePicker } from '../components/ui/DatePicker';
+
+const SPLIT_METHOD_LABELS: { [method in GroupSplitMethod]: string } = {
+    equal: 'Equally',
+    shares: 'By shares',
+    exact: 'By amount',
+};
+
+export default function GroupExpenseFormScreen() {
+    const { user, isAuthenticated } = useAuth();
+    const { getGroup, addExpense } = useGroups();
+    const { groupId } = useLocalSearchParams<{ groupId: string }>();
+    const group = groupId ? getGroup(groupId) : undefined;
+
+    const [title, setTitle] = useState('');
+    const [amount, setAmount] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [paidBy, setPaidBy] = useState(user?.id || '');
+    const [splitMethod, setSplitMethod] = useState<GroupSplitMethod>('equal');
+    // Per-member input: 1/0 for 'equal', weights for 'shares', amounts for 'exact'
+    const [values, setValues] = useState<{ [memberId: string]: string }>(() =>
+        Object.fromEntries((group?.memberIds || []).map(memberId => [memberId, '1'])));
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    if (!group) {
+        return null;
+    }
+
+    const nameOf = (memberId: string) => groupLedger.memberName(group.members, memberId, user?.id);
+
+    // Everyone is back in when the method changes; exact amounts start blank
+    const changeMethod = (method: GroupSplitMethod) => {
+        setSplitMethod(method);
+        setValues(Object.fromEntries(group.memberIds.map(memberId => [memberId, method === 'exact' ? '' : '1'])));
+        setErrors(prev => ({ ...prev, split: '' }));
+    };
+
+    const updateValue = (memberId: string, value: string) => {
+        setValues(prev => ({ ...prev, [memberId]: value }));
+        if (errors.split) {
+            setErrors(prev => ({ ...prev, split: '' }));
+        }
+    };
+
+    const valueOf = (memberId: string) => values[memberId] ?? (splitMethod === 'exact' ? '' : '1');
+    const shares = Object.fromEntries(group.memberIds.map(memberId => [memberId, parseFloat(valueOf(memberId)) || 0]));
+    // Members left out are dropped rather than stored with a zero
+    const included = Object.fromEntries(Object.entries(shares).filter(([, value]) => value > 0));
+    const total = parseFloat(amount) || 0;
+    const preview = total > 0 ? groupLedger.owedShares({ amount: total, splitMethod, shares: included }) : {};
+    const assigned = Object.values(shares).reduce((sum, value) => sum + value, 0);
+
+    const validateForm = () => {
+        const newErrors: { [key: string]: string } = {};
+
+        const titleValidation = validation.title(title);
+        if (!titleValidation.isValid) {
+            newErrors.title = titleValidation.message!;
+        }
+
+        const amountValidation = validation.amount(amount);
+        if (!amountValidation.isValid) {
+            newErrors.amount = amountValidation.message!;
+        }
+
+        const dateValidation = validation.date(date);
+        if (!dateValidation.isValid) {
+            newErrors.date = dateValidation.message!;
+        }
+
+        const splitError = amountValidation.isValid ? groupLedger.validateSplit(total, splitMethod, shares) : undefined;
+        if (splitError) {
+            newErrors.split = splitError;
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = async () => {
+        if (!validateForm()) {
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            await addExpense(group.id, {
+                title: title.trim(),
+                amount: total,
+                paidBy,
+                splitMethod,
+                shares: included,
+                date,
+            });
+            Toast.show({
+                type: 'success',
+                text1: 'Success',
+                text2: `Added to ${group.name}`,
+            });
+            router.back();
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to add group expense',
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    className="flex-1"
+                >
+                    {/* Header */}
+                    <LinearGradient
+                        colors={['#0f172a', '#1e293b']}
+                        className="px-4 py-4"
+                    >
+                        <Animated.View
+                            style={{
+                                opacity: fadeAnim,
+                                transform: [{ translateY: slideAnim }],
+                            }}
+                        >
+                            <View className="flex-row items-center justify-between">
+                                <TouchableOpacity
+                                    onPress={() => router.back()}
+                                    className="p-2 rounded-xl bg-white/10"
+                                >
+                                    <Ionicons name="close" size={24} color="white" />
+                                </TouchableOpacity>
+
+                                <View className="flex-1 items-center">
+                                    <Text className="text-white text-xl font-bold">
+                                        Group Expense
+                                    </Text>
+                                    <Text className="text-gray-300 text-sm" numberOfLines={1}>
+                                        {group.name}
+                                    </Text>
+                                </View>
+
+                                <View style={{ width: 40 }} />
+                            </View>
+                        </Animated.View>
+                    </LinearGradient>
+
+                    <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+                        <View className="p-4">
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                                <Input
+                                    label="Title"
+                                    placeholder="e.g. Friday lunch"
+                                    value={title}
+                                    onChangeText={setTitle}
+                                    error={errors.title}
+                                    leftIcon="receipt-outline"
+                                    variant="glass"
+                                    required
+                                />
+
+                                <Input
+                                    label={`Amount (${group.currency})`}
+                                    placeholder="0.00"
+                                    value={amount}
+                                    onChangeText={setAmount}
+                                    error={errors.amount}
+                                    leftIcon="cash-outline"
+                                    keyboardType="numeric"
+                                    variant="glass"
+                                    required
+                                />
+
+                                <DatePicker
+                                    label="Date"
+                                    value={date}
+                                    onDateChange={setDate}
+                                    error={errors.date}
+                                    variant="glass"
+                                    required
+                                />
+
+                                {/* Who paid */}
+                                <Text className="text-white text-sm font-semibold mb-3">Paid by</Text>
+                                <View className="flex-row flex-wrap mb-2">
+                                    {group.members.map(member => (
+                                        <TouchableOpacity
+                                            key={member.id}
+                                            onPress={() => setPaidBy(member.id)}
+                                            className={`px-3 py-2 rounded-xl mr-2 mb-2 ${paidBy === member.id
+                                                ? 'bg-blue-500/30'
+                                                : 'bg-white/5'
+                                                }`}
+                                        >
+                                            <Text className={`font-medium ${paidBy === member.id
+                                                ? 'text-blue-300'
+                                                : 'text-white'
+                                                }`}>
+                                                {nameOf(member.id)}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            </AnimatedCard>
+
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                                <Text className="text-white text-sm font-semibold mb-3">Split</Text>
+                                <View className="flex-row mb-4">
+                                    {GROUP_SPLIT_METHODS.map(method => (
+                                        <TouchableOpacity
+                                            key={method}
+                                            onPress={() => changeMethod(method)}
+                                            className={`px-4 py-2 rounded-xl mr-2 ${splitMethod === method
+                                                ? 'bg-blue-500/30'
+                                                : 'bg-white/5'
+                                                }`}
+                                        >
+                                            <Text className={`font-medium ${splitMethod === method
+                                                ? 'text-blue-300'
+                                                : 'text-white'
+                                                }`}>
+                                                {SPLIT_METHOD_LABELS[method]}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
+                                {group.members.map(member => (
+                                    <View key={member.id} className="flex-row items-center justify-between mb-3">
+                                        {splitMethod === 'equal' ? (
+                                            <TouchableOpacity
+                                                onPress={() => updateValue(member.id, valueOf(member.id) === '1' ? '0' : '1')}
+                                                className="flex-row items-center flex-1"
+                                            >
+                                                <Ionicons
+                                                    name={valueOf(member.id) === '1' ? 'checkbox' : 'square-outline'}
+                                                    size={22}
+                                                    color={valueOf(member.id) === '1' ? '#60a5fa' : '#9ca3af'}
+                                                />
+                                                <Text className="text-white font-medium ml-3">{nameOf(member.id)}</Text>
+                                            </TouchableOpacity>
+                                        ) : (
+                                            <View className="flex-row items-center flex-1">
+                                                <Text className="text-white font-medium flex-1">{nameOf(member.id)}</Text>
+                                                <View style={{ width: 120 }}>
+                                                    <Input
+                                                        placeholder={splitMethod === 'exact' ? '0.00' : '0'}
+                                                        value={valueOf(member.id)}
+                                                        onChangeText={(value) => updateValue(member.id, value)}
+                                                        keyboardType="numeric"
+                                                        variant="glass"
+                                                    />
+                                                </View>
+                                            </View>
+                                        )}
+                                        <Text className="text-gray-300 text-sm ml-3" style={{ minWidth: 80, textAlign: 'right' }}>
+                                            {preview[member.id] ? formatters.currency(preview[member.id], group.currency) : '—'}
+                                        </Text>
+                                    </View>
+                                ))}
+
+                                {splitMethod === 'exact' && total > 0 && Math.abs(total - assigned) >= 0.005 && (
+                                    <Text className="text-amber-300 text-sm">
+                                        {formatters.currency(Math.abs(total - assigned), group.currency)} {total > assigned ? 'left to assign' : 'too much'}
+                                    </Text>
+                                )}
+
+                                {errors.split && (
+                                    <View className="flex-row items-center mt-2">
+                                        <Ionicons name="alert-circle" size={16} color="#ef4444" />
+                                        <Text className="text-red-500 text-sm ml-2 font-medium">
+                                            {errors.split}
+                                        </Text>
+                                    </View>
+                                )}
+                            </AnimatedCard>
+
+                            <Button
+                                title="Add Expense"
+                                onPress={handleSubmit}
+                                loading={isSubmitting}
+                                disabled={isSubmitting}
+                                variant="gradient"
+                                fullWidth
+                                leftIcon="add-outline"
+                            />
+                        </View>
+                    </ScrollView>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </View>
+    );
+}
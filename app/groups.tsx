@@ -0,0 +1,322 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, RefreshControl, Animated, StatusBar, ActivityIndicator } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useGroups } from '../contexts/GroupsContext';
+import { GroupMember } from '../types';
+import { userAPI } from '../services/api';
+import { formatters } from '../utils/formatters';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { Input } from '../components/ui/Input';
+import { Button } from '../components/ui/Button';
+
+export default function GroupsScreen() {
+    const { user, isAuthenticated } = useAuth();
+    const { groups, refreshGroups, createGroup, loadLedger, getBalances } = useGroups();
+    const [name, setName] = useState('');
+    const [query, setQuery] = useState('');
+    const [results, setResults] = useState<GroupMember[]>([]);
+    const [members, setMembers] = useState<GroupMember[]>([]);
+    const [isSearching, setIsSearching] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+    const [isRefreshing, setIsRefreshing] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    // Balances on the list need each group's ledger
+    useEffect(() => {
+        groups.forEach(group => {
+            loadLedger(group.id).catch(error => {
+                console.error('Error loading group ledger:', error);
+            });
+        });
+    }, [groups.length]);
+
+    const onRefresh = async () => {
+        setIsRefreshing(true);
+        try {
+            await refreshGroups();
+            await Promise.all(groups.map(group => loadLedger(group.id)));
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to refresh groups',
+            });
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    const search = async () => {
+        if (query.trim().length < 2) return;
+        setIsSearching(true);
+        try {
+            const found = await userAPI.searchUsers(query.trim());
+            setResults(found.filter(member => member.id !== user?.id));
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to search users',
+            });
+        } finally {
+            setIsSearching(false);
+        }
+    };
+
+    const toggleMember = (member: GroupMember) => {
+        setMembers(prev => (prev.some(existing => existing.id === member.id)
+            ? prev.filter(existing => existing.id !== member.id)
+            : [...prev, member]));
+    };
+
+    const handleCreate = async () => {
+        if (name.trim().length < 2) {
+            Toast.show({
+                type: 'error',
+                text1: 'Name required',
+                text2: 'Give the group a name of at least 2 characters',
+            });
+            return;
+        }
+        if (members.length === 0) {
+            Toast.show({
+                type: 'error',
+                text1: 'Add members',
+                text2: 'Find at least one other person to share with',
+            });
+            return;
+        }
+
+        setIsCreating(true);
+        try {
+            const group = await createGroup(name, members);
+            setName('');
+            setQuery('');
+            setResults([]);
+            setMembers([]);
+            router.push(`/group-details/${group.id}`);
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to create group',
+            });
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    const describeBalance = (balance: number, currency: string) => {
+        if (Math.abs(balance) < 0.005) return { label: 'Settled up', color: 'text-gray-400' };
+        return balance > 0
+            ? { label: `You are owed ${formatters.currency(balance, currency)}`, color: 'text-green-400' }
+            : { label: `You owe ${formatters.currency(-balance, currency)}`, color: 'text-red-400' };
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Groups
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Share costs and settle up
+                                </Text>
+                            </View>
+
+                            <View style={{ width: 40 }} />
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                    keyboardShouldPersistTaps="handled"
+                    refreshControl={
+                        <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+                    }
+                >
+                    <View className="p-4">
+                        {/* Groups */}
+                        {groups.length === 0 ? (
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                                <Text className="text-gray-300 text-sm">
+                                    No groups yet. Create one below to split lunches, trips or a shared flat with other people using the app.
+                                </Text>
+                            </AnimatedCard>
+                        ) : (
+                            groups.map((group, index) => {
+                                const balance = describeBalance(getBalances(group.id)[user?.id || ''] || 0, group.currency);
+                                return (
+                                    <AnimatedCard key={group.id} className="mb-3" animationType="slideUp" delay={200 + index * 50}>
+                                        <TouchableOpacity
+                                            onPress={() => router.push(`/group-details/${group.id}`)}
+                                            className="flex-row items-center"
+                                        >
+                                            <View className="w-10 h-10 bg-indigo-500/20 rounded-full items-center justify-center mr-3">
+                                                <Ionicons name="people-outline" size={20} color="#818cf8" />
+                                            </View>
+                                            <View className="flex-1">
+                                                <Text className="text-white font-bold text-base">{group.name}</Text>
+                                                <Text className="text-gray-400 text-xs">
+                                                    {group.members.length} member{group.members.length === 1 ? '' : 's'} · {group.currency}
+                                                </Text>
+                                                <Text className={`text-sm font-medium ${balance.color}`}>{balance.label}</Text>
+                                            </View>
+                                            <Ionicons name="chevron-forward" size={20} color="#9ca3af" />
+                                        </TouchableOpacity>
+                                    </AnimatedCard>
+                                );
+                            })
+                        )}
+
+                        {/* New group */}
+                        <AnimatedCard className="mt-2 mb-4" animationType="slideUp" delay={300}>
+                            <Text className="text-white text-lg font-bold mb-4">New Group</Text>
+                            <Input
+                                label="Name"
+                                placeholder="e.g. Team lunches"
+                                value={name}
+                                onChangeText={setName}
+                                leftIcon="people-outline"
+                                variant="glass"
+                            />
+
+                            <Input
+                                label="Add members"
+                                placeholder="Search by username"
+                                value={query}
+                                onChangeText={setQuery}
+                                onSubmitEditing={search}
+                                returnKeyType="search"
+                                autoCapitalize="none"
+                                leftIcon="person-add-outline"
+                                rightIcon="search"
+                                onRightIconPress={search}
+                                variant="glass"
+                            />
+
+                            {isSearching && <ActivityIndicator color="#93c5fd" className="mb-4" />}
+
+                            {results.length > 0 && (
+                                <View className="flex-row flex-wrap mb-4">
+                                    {results.map(member => {
+                                        const selected = members.some(existing => existing.id === member.id);
+                                        return (
+                                            <TouchableOpacity
+                                                key={member.id}
+                                                onPress={() => toggleMember(member)}
+                                                className={`px-3 py-2 rounded-xl mr-2 mb-2 ${selected
+                                                    ? 'bg-blue-500/30'
+                                                    : 'bg-white/5'
+                                                    }`}
+                                            >
+                                                <Text className={`font-medium ${selected
+                                                    ? 'text-blue-300'
+                                                    : 'text-white'
+                                                    }`}>
+                                                    {member.name ? `${member.name} (@${member.username})` : `@${member.username}`}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+                            )}
+
+                            {members.length > 0 && (
+                                <View className="mb-4">
+                                    <Text className="text-gray-300 text-xs mb-2">
+                                        You and {members.length} other{members.length === 1 ? '' : 's'}
+                                    </Text>
+                                    <View className="flex-row flex-wrap">
+                                        {members.map(member => (
+                                            <TouchableOpacity
+                                                key={member.id}
+                                                onPress={() => toggleMember(member)}
+                                                className="flex-row items-center bg-indigo-500/20 px-3 py-1 rounded-full mr-2 mb-2"
+                                            >
+                                                <Text className="text-indigo-200 text-sm font-medium">
+                                                    {member.name || member.username}
+                                                </Text>
+                                                <Ionicons name="close" size={14} color="#c7d2fe" style={{ marginLeft: 4 }} />
+                                            </TouchableOpacity>
+                                        ))}
+                                    </View>
+                                </View>
+                            )}
+
+                            <Button
+                                title="Create Group"
+                                onPress={handleCreate}
+                                loading={isCreating}
+                                disabled={isCreating}
+                                variant="gradient"
+                                fullWidth
+                                leftIcon="add-outline"
+                            />
+                        </AnimatedCard>
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
@@ -0,0 +1,381 @@
+import React, { useEffect, useMemo, useState, useRef } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Animated, StatusBar, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useExpenses } from '../contexts/ExpensesContext';
+import { useCategoryRules } from '../contexts/CategoryRulesContext';
+import { useCategories } from '../contexts/CategoriesContext';
+import { Button } from '../components/ui/Button';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { formatters } from '../utils/formatters';
+import { CSV_DATE_FORMATS, CsvDateFormat } from '../utils/csvExport';
+import { expenseImport, IMPORT_FIELDS, ImportField, ImportMapping, ImportRow, ImportTable } from '../utils/expenseImport';
+import { categoryRegistry } from '../utils/categoryRegistry';
+
+// Rows shown in the preview; everything is still imported
+const PREVIEW_LIMIT = 50;
+
+const SPENDING_SIGNS: { key: 'positive' | 'negative'; label: string }[] = [
+    { key: 'positive', label: 'Spending is positive' },
+    { key: 'negative', label: 'Spending is negative' },
+];
+
+const readFile = async (uri: string): Promise<string> => {
+    // The file system module is native-only; the web picker hands back a blob URL
+    if (Platform.OS === 'web') {
+        return (await fetch(uri)).text();
+    }
+    return FileSystem.readAsStringAsync(uri);
+};
+
+export default function ImportExpensesScreen() {
+    const { isAuthenticated } = useAuth();
+    const { expenses, importExpenses } = useExpenses();
+    const { homeCurrency, convert } = useCurrency();
+    const { rules, findRule } = useCategoryRules();
+    const { categories } = useCategories();
+    const [fileName, setFileName] = useState('');
+    const [table, setTable] = useState<ImportTable | null>(null);
+    const [mapping, setMapping] = useState<ImportMapping>({});
+    const [dateFormat, setDateFormat] = useState<CsvDateFormat>('iso');
+    const [decimalComma, setDecimalComma] = useState(false);
+    const [spendingSign, setSpendingSign] = useState<'positive' | 'negative'>('positive');
+    // Duplicates are skipped unless ticked; valid rows are imported unless unticked
+    const [overrides, setOverrides] = useState<{ [line: number]: boolean }>({});
+    const [isPicking, setIsPicking] = useState(false);
+    const [isImporting, setIsImporting] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const rows = useMemo(() => {
+        if (!table) return [];
+        return expenseImport.buildRows(table, mapping, {
+            dateFormat,
+            decimalComma,
+            spendingSign,
+            defaultCurrency: homeCurrency,
+            resolveCategory: (value) => categoryRegistry.find(categories, value)?.name,
+            // Rows without a known category are filed by the user's category rules
+            categorize: (data) => {
+                const amount = parseFloat(data.amount);
+                return findRule({
+                    title: data.title,
+                    description: data.description,
+                    amount: isNaN(amount) ? undefined : convert(amount, data.currency || homeCurrency) ?? amount,
+                })?.category;
+            },
+        }, expenses);
+    }, [table, mapping, dateFormat, decimalComma, spendingSign, homeCurrency, expenses, rules, categories]);
+
+    const isSelected = (row: ImportRow) => row.errors.length === 0 && (overrides[row.line] ?? !row.duplicateOf);
+    const selectedRows = rows.filter(isSelected);
+    const duplicateCount = rows.filter(row => row.errors.length === 0 && row.duplicateOf).length;
+    const invalidCount = rows.filter(row => row.errors.length > 0).length;
+    const missingFields = IMPORT_FIELDS.filter(({ key, required }) => required && mapping[key] === undefined);
+
+    const handlePickFile = async () => {
+        setIsPicking(true);
+        try {
+            const result = await DocumentPicker.getDocumentAsync({
+                type: ['text/*', 'application/x-ofx', 'application/vnd.intu.qfx', 'application/octet-stream'],
+                copyToCacheDirectory: true,
+            });
+            if (result.canceled) return;
+
+            const asset = result.assets[0];
+            const parsed = expenseImport.parse(await readFile(asset.uri), asset.name);
+            if (parsed.rows.length === 0) {
+                Toast.show({
+                    type: 'error',
+                    text1: 'Nothing to Import',
+                    text2: 'No transactions were found in that file',
+                });
+                return;
+            }
+
+            const guessed = expenseImport.guessMapping(parsed);
+            setFileName(asset.name);
+            setTable(parsed);
+            setMapping(guessed);
+            setSpendingSign(expenseImport.guessSpendingSign(parsed, guessed));
+            setOverrides({});
+        } catch (error) {
+            console.error('Error reading import file:', error);
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to read the selected file',
+            });
+        } finally {
+            setIsPicking(false);
+        }
+    };
+
+    const handleMap = (field: ImportField, column: number | undefined) => {
+        setMapping(prev => ({ ...prev, [field]: column }));
+        setOverrides({});
+    };
+
+    const toggleRow = (row: ImportRow) => {
+        if (row.errors.length > 0) return;
+        setOverrides(prev => ({ ...prev, [row.line]: !isSelected(row) }));
+    };
+
+    const handleImport = async () => {
+        setIsImporting(true);
+        try {
+            const { created, failed } = await importExpenses(selectedRows.map(row => row.data));
+            Toast.show({
+                type: failed.length > 0 ? 'error' : 'success',
+                text1: failed.length > 0 ? 'Partially Imported' : 'Import Complete',
+                text2: failed.length > 0
+                    ? `${created.length} imported, ${failed.length} failed`
+                    : `${created.length} expense${created.length !== 1 ? 's' : ''} imported`,
+            });
+            if (failed.length === 0) {
+                router.back();
+            }
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to import expenses',
+            });
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    const renderChip = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+        <TouchableOpacity
+            key={key}
+            onPress={onPress}
+            className={`px-4 py-2 rounded-xl mr-2 mb-2 ${isActive
+                ? 'bg-blue-500/30'
+                : 'bg-white/5'
+                }`}
+        >
+            <Text className={`font-medium ${isActive
+                ? 'text-blue-300'
+                : 'text-white'
+                }`}>
+                {label}
+            </Text>
+        </TouchableOpacity>
+    );
+
+    const renderRow = (row: ImportRow) => {
+        const selected = isSelected(row);
+        return (
+            <TouchableOpacity
+                key={row.line}
+                onPress={() => toggleRow(row)}
+                disabled={row.errors.length > 0}
+                className="flex-row items-start py-3 border-b border-white/10"
+            >
+                <Ionicons
+                    name={row.errors.length > 0 ? 'alert-circle' : selected ? 'checkbox' : 'square-outline'}
+                    size={20}
+                    color={row.errors.length > 0 ? '#f87171' : selected ? '#60a5fa' : '#9ca3af'}
+                />
+                <View className="flex-1 ml-3">
+                    <View className="flex-row justify-between">
+                        <Text className="text-white font-medium flex-1 mr-2" numberOfLines={1}>
+                            {row.data.title || `Line ${row.line}`}
+                        </Text>
+                        <Text className="text-white font-semibold">
+                            {row.data.amount ? formatters.currency(row.data.amount, row.data.currency) : '—'}
+                        </Text>
+                    </View>
+                    <Text className="text-gray-400 text-xs">
+                        {row.data.date ? formatters.date(row.data.date) : 'No date'} · {row.data.category}
+                    </Text>
+                    {row.errors.map(error => (
+                        <Text key={error} className="text-red-400 text-xs">{error}</Text>
+                    ))}
+                    {row.errors.length === 0 && row.duplicateOf && (
+                        <Text className="text-amber-400 text-xs">
+                            Possible duplicate of "{row.duplicateOf.title}" — tick to import anyway
+                        </Text>
+                    )}
+                </View>
+            </TouchableOpacity>
+        );
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-6"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="close" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Import Expenses
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    From a bank CSV or OFX statement
+                                </Text>
+                            </View>
+
+                            <View style={{ width: 40 }} />
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView className="flex-1">
+                    <View className="p-6">
+                        <AnimatedCard className="mb-6" animationType="slideUp" delay={200}>
+                            <Text className="text-white text-lg font-bold mb-2">File</Text>
+                            <Text className="text-gray-300 text-sm mb-4">
+                                {table
+                                    ? `${fileName} · ${table.rows.length} row${table.rows.length !== 1 ? 's' : ''}`
+                                    : 'Choose a statement exported from your bank or card provider.'}
+                            </Text>
+                            <Button
+                                title={table ? 'Choose Another File' : 'Choose File'}
+                                onPress={handlePickFile}
+                                loading={isPicking}
+                                disabled={isPicking || isImporting}
+                                variant="glass"
+                                fullWidth
+                                leftIcon="document-outline"
+                            />
+                        </AnimatedCard>
+
+                        {table && (
+                            <>
+                                <AnimatedCard className="mb-6" animationType="slideUp" delay={250}>
+                                    <Text className="text-white text-lg font-bold mb-4">Columns</Text>
+                                    {IMPORT_FIELDS.map(({ key, label, required }) => (
+                                        <View key={key} className="mb-3">
+                                            <Text className="text-gray-300 text-sm mb-2">
+                                                {label}{required ? ' *' : ''}
+                                            </Text>
+                                            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                                                {!required && renderChip('none', 'None', mapping[key] === undefined, () => handleMap(key, undefined))}
+                                                {table.headers.map((header, column) =>
+                                                    renderChip(`${column}`, header || `Column ${column + 1}`, mapping[key] === column, () => handleMap(key, column))
+                                                )}
+                                            </ScrollView>
+                                        </View>
+                                    ))}
+                                </AnimatedCard>
+
+                                <AnimatedCard className="mb-6" animationType="slideUp" delay={300}>
+                                    <Text className="text-white text-lg font-bold mb-4">Formats</Text>
+                                    <Text className="text-gray-300 text-sm mb-2">Dates</Text>
+                                    <View className="flex-row flex-wrap mb-2">
+                                        {CSV_DATE_FORMATS.map(option =>
+                                            renderChip(option.key, option.label, dateFormat === option.key, () => setDateFormat(option.key))
+                                        )}
+                                    </View>
+                                    <Text className="text-gray-300 text-sm mb-2">Decimal separator</Text>
+                                    <View className="flex-row flex-wrap mb-2">
+                                        {renderChip('point', '1234.50', !decimalComma, () => setDecimalComma(false))}
+                                        {renderChip('comma', '1234,50', decimalComma, () => setDecimalComma(true))}
+                                    </View>
+                                    <Text className="text-gray-300 text-sm mb-2">Amounts</Text>
+                                    <View className="flex-row flex-wrap">
+                                        {SPENDING_SIGNS.map(option =>
+                                            renderChip(option.key, option.label, spendingSign === option.key, () => setSpendingSign(option.key))
+                                        )}
+                                    </View>
+                                </AnimatedCard>
+
+                                <AnimatedCard className="mb-6" animationType="slideUp" delay={350}>
+                                    <Text className="text-white text-lg font-bold mb-2">Preview</Text>
+                                    {missingFields.length > 0 ? (
+                                        <Text className="text-red-400 text-sm">
+                                            Choose a column for {missingFields.map(({ label }) => label).join(', ')}
+                                        </Text>
+                                    ) : (
+                                        <>
+                                            <Text className="text-gray-300 text-sm mb-2">
+                                                {selectedRows.length} to import · {duplicateCount} possible duplicate{duplicateCount !== 1 ? 's' : ''} · {invalidCount} with problems
+                                            </Text>
+                                            {rows.slice(0, PREVIEW_LIMIT).map(renderRow)}
+                                            {rows.length > PREVIEW_LIMIT && (
+                                                <Text className="text-gray-400 text-xs mt-3">
+                                                    and {rows.length - PREVIEW_LIMIT} more
+                                                </Text>
+                                            )}
+                                        </>
+                                    )}
+                                </AnimatedCard>
+
+                                <AnimatedCard className="bg-transparent" animationType="scale" delay={400}>
+                                    <Button
+                                        title={`Import ${selectedRows.length} Expense${selectedRows.length !== 1 ? 's' : ''}`}
+                                        onPress={handleImport}
+                                        loading={isImporting}
+                                        disabled={isImporting || missingFields.length > 0 || selectedRows.length === 0}
+                                        variant="gradient"
+                                        size="lg"
+                                        fullWidth
+                                        leftIcon="cloud-upload-outline"
+                                    />
+                                </AnimatedCard>
+                            </>
+                        )}
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
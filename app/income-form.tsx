@@ -0,0 +1,311 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, KeyboardAvoidingView, Platform, Animated, StatusBar } from 'react-native';
+import { router, useLocalSearchParams } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useIncome } from '../contexts/IncomeContext';
+import { IncomeFormData, INCOME_SOURCES, SUPPORTED_CURRENCIES, DEFAULT_CURRENCY } from '../types';
+import { validation } from '../utils/validation';
+import { INCOME_SOURCE_DETAILS } from '../utils/cashFlow';
+import { Input } from '../components/ui/Input';
+import { Button } from '../components/ui/Button';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { DatePicker } from '../components/ui/DatePicker';
+
+export default function IncomeFormScreen() {
+    const { isAuthenticated } = useAuth();
+    const { homeCurrency } = useCurrency();
+    const { getIncome, createIncome, updateIncome } = useIncome();
+    const { id } = useLocalSearchParams<{ id?: string }>();
+    const isEditing = !!id;
+
+    const [formData, setFormData] = useState<IncomeFormData>({
+        title: '',
+        amount: '',
+        currency: homeCurrency,
+        source: 'salary',
+        description: '',
+        date: new Date().toISOString().split('T')[0],
+    });
+    const [errors, setErrors] = useState<{ [key: string]: string }>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    useEffect(() => {
+        if (!isEditing || !id) return;
+        const income = getIncome(id);
+        if (!income) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to load income details',
+            });
+            router.back();
+            return;
+        }
+        setFormData({
+            title: income.title,
+            amount: income.amount.toString(),
+            currency: income.currency || DEFAULT_CURRENCY,
+            source: income.source,
+            description: income.description || '',
+            date: income.date.split('T')[0],
+        });
+    }, [id, isEditing]);
+
+    const updateFormData = <K extends keyof IncomeFormData>(field: K, value: IncomeFormData[K]) => {
+        setFormData(prev => ({ ...prev, [field]: value }));
+        if (errors[field]) {
+            setErrors(prev => ({ ...prev, [field]: '' }));
+        }
+    };
+
+    const validateForm = () => {
+        const newErrors: { [key: string]: string } = {};
+
+        const titleValidation = validation.title(formData.title);
+        if (!titleValidation.isValid) {
+            newErrors.title = titleValidation.message!;
+        }
+
+        const amountValidation = validation.amount(formData.amount);
+        if (!amountValidation.isValid) {
+            newErrors.amount = amountValidation.message!;
+        }
+
+        const dateValidation = validation.date(formData.date);
+        if (!dateValidation.isValid) {
+            newErrors.date = dateValidation.message!;
+        }
+
+        const descriptionValidation = validation.description(formData.description || '');
+        if (!descriptionValidation.isValid) {
+            newErrors.description = descriptionValidation.message!;
+        }
+
+        setErrors(newErrors);
+        return Object.keys(newErrors).length === 0;
+    };
+
+    const handleSubmit = async () => {
+        if (!validateForm()) {
+            return;
+        }
+
+        setIsSubmitting(true);
+        try {
+            const incomeData = { ...formData, title: formData.title.trim() };
+            if (isEditing && id) {
+                await updateIncome(id, incomeData);
+            } else {
+                await createIncome(incomeData);
+            }
+            Toast.show({
+                type: 'success',
+                text1: 'Success',
+                text2: `Income ${isEditing ? 'updated' : 'added'} successfully`,
+            });
+            router.back();
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: `Failed to ${isEditing ? 'update' : 'add'} income`,
+            });
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                <KeyboardAvoidingView
+                    behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+                    className="flex-1"
+                >
+                    {/* Header */}
+                    <LinearGradient
+                        colors={['#0f172a', '#1e293b']}
+                        className="px-4 py-4"
+                    >
+                        <Animated.View
+                            style={{
+                                opacity: fadeAnim,
+                                transform: [{ translateY: slideAnim }],
+                            }}
+                        >
+                            <View className="flex-row items-center justify-between">
+                                <TouchableOpacity
+                                    onPress={() => router.back()}
+                                    className="p-2 rounded-xl bg-white/10"
+                                >
+                                    <Ionicons name="close" size={24} color="white" />
+                                </TouchableOpacity>
+
+                                <View className="flex-1 items-center">
+                                    <Text className="text-white text-xl font-bold">
+                                        {isEditing ? 'Edit Income' : 'Add Income'}
+                                    </Text>
+                                    <Text className="text-gray-300 text-sm">
+                                        {isEditing ? 'Update your income details' : 'Track money coming in'}
+                                    </Text>
+                                </View>
+
+                                <View style={{ width: 40 }} />
+                            </View>
+                        </Animated.View>
+                    </LinearGradient>
+
+                    <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+                        <View className="p-4">
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                                <Input
+                                    label="Title"
+                                    placeholder="e.g. March salary"
+                                    value={formData.title}
+                                    onChangeText={(value) => updateFormData('title', value)}
+                                    error={errors.title}
+                                    leftIcon="wallet-outline"
+                                    variant="glass"
+                                    required
+                                />
+
+                                <Input
+                                    label="Amount"
+                                    placeholder="0.00"
+                                    value={formData.amount}
+                                    onChangeText={(value) => updateFormData('amount', value)}
+                                    error={errors.amount}
+                                    leftIcon="cash-outline"
+                                    keyboardType="numeric"
+                                    variant="glass"
+                                    required
+                                />
+
+                                {/* Currency the money arrived in */}
+                                <ScrollView
+                                    horizontal
+                                    showsHorizontalScrollIndicator={false}
+                                    className="mb-4"
+                                    keyboardShouldPersistTaps="handled"
+                                >
+                                    {SUPPORTED_CURRENCIES.map((currency) => (
+                                        <TouchableOpacity
+                                            key={currency}
+                                            onPress={() => updateFormData('currency', currency)}
+                                            className={`px-3 py-2 rounded-xl mr-2 ${formData.currency === currency
+                                                ? 'bg-blue-500/30'
+                                                : 'bg-white/5'
+                                                }`}
+                                        >
+                                            <Text className={`font-medium ${formData.currency === currency
+                                                ? 'text-blue-300'
+                                                : 'text-white'
+                                                }`}>
+                                                {currency}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </ScrollView>
+
+                                <Text className="text-white text-sm font-semibold mb-3">Source</Text>
+                                <View className="flex-row flex-wrap mb-4">
+                                    {INCOME_SOURCES.map(source => (
+                                        <TouchableOpacity
+                                            key={source}
+                                            onPress={() => updateFormData('source', source)}
+                                            className={`flex-row items-center px-3 py-2 rounded-xl mr-2 mb-2 ${formData.source === source
+                                                ? 'bg-blue-500/30'
+                                                : 'bg-white/5'
+                                                }`}
+                                        >
+                                            <Ionicons
+                                                name={INCOME_SOURCE_DETAILS[source].icon as keyof typeof Ionicons.glyphMap}
+                                                size={16}
+                                                color={formData.source === source ? '#93c5fd' : '#ffffff'}
+                                            />
+                                            <Text className={`font-medium ml-2 ${formData.source === source
+                                                ? 'text-blue-300'
+                                                : 'text-white'
+                                                }`}>
+                                                {INCOME_SOURCE_DETAILS[source].label}
+                                            </Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+
+                                <DatePicker
+                                    label="Date"
+                                    value={formData.date}
+                                    onDateChange={(value) => updateFormData('date', value)}
+                                    error={errors.date}
+                                    variant="glass"
+                                    required
+                                />
+
+                                <Input
+                                    label="Description"
+                                    placeholder="Add a note (optional)"
+                                    value={formData.description}
+                                    onChangeText={(value) => updateFormData('description', value)}
+                                    error={errors.description}
+                                    leftIcon="document-text-outline"
+                                    variant="glass"
+                                    multiline
+                                />
+                            </AnimatedCard>
+
+                            <Button
+                                title={isEditing ? 'Update Income' : 'Add Income'}
+                                onPress={handleSubmit}
+                                loading={isSubmitting}
+                                disabled={isSubmitting}
+                                variant="gradient"
+                                fullWidth
+                                leftIcon={isEditing ? 'checkmark-outline' : 'add-outline'}
+                            />
+                        </View>
+                    </ScrollView>
+                </KeyboardAvoidingView>
+            </SafeAreaView>
+        </View>
+    );
+}
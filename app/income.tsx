@@ -0,0 +1,212 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, RefreshControl, Alert, Animated, StatusBar } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useIncome } from '../contexts/IncomeContext';
+import { Income, DEFAULT_CURRENCY } from '../types';
+import { cashFlow, INCOME_SOURCE_DETAILS } from '../utils/cashFlow';
+import { formatters } from '../utils/formatters';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { Loading } from '../components/ui/Loading';
+
+export default function IncomeScreen() {
+    const { isAuthenticated } = useAuth();
+    const { formatAmount, homeCurrency } = useCurrency();
+    const { income, isLoading, refreshIncome, deleteIncome, getIncomeByMonth } = useIncome();
+    const [isRefreshing, setIsRefreshing] = useState(false);
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const onRefresh = async () => {
+        setIsRefreshing(true);
+        try {
+            await refreshIncome();
+        } catch (error) {
+            Toast.show({
+                type: 'error',
+                text1: 'Error',
+                text2: 'Failed to load income',
+            });
+        } finally {
+            setIsRefreshing(false);
+        }
+    };
+
+    const handleDelete = (entry: Income) => {
+        Alert.alert(
+            'Delete Income',
+            `Are you sure you want to delete "${entry.title}"?`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await deleteIncome(entry.id);
+                        } catch (error) {
+                            Toast.show({
+                                type: 'error',
+                                text1: 'Error',
+                                text2: 'Failed to delete income',
+                            });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    if (isLoading && income.length === 0) {
+        return <Loading text="Loading income..." />;
+    }
+
+    const now = new Date();
+    const thisMonth = getIncomeByMonth(now.getFullYear(), now.getMonth());
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Income
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Salary, freelance work and refunds
+                                </Text>
+                            </View>
+
+                            <TouchableOpacity
+                                onPress={() => router.push('/income-form')}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="add" size={24} color="white" />
+                            </TouchableOpacity>
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                    refreshControl={
+                        <RefreshControl refreshing={isRefreshing} onRefresh={onRefresh} />
+                    }
+                >
+                    <View className="p-4">
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                            <Text className="text-gray-300 text-sm">This month</Text>
+                            <Text className="text-green-400 text-3xl font-bold mt-1">
+                                {formatAmount(cashFlow.total(thisMonth))}
+                            </Text>
+                            <Text className="text-gray-400 text-xs mt-1">
+                                {thisMonth.length} payment{thisMonth.length === 1 ? '' : 's'} in {homeCurrency}
+                            </Text>
+                        </AnimatedCard>
+
+                        {income.length === 0 ? (
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                                <Text className="text-gray-300 text-sm">
+                                    No income recorded yet. Add your salary, freelance payments or refunds to see how much you save each month.
+                                </Text>
+                            </AnimatedCard>
+                        ) : (
+                            income.map((entry, index) => {
+                                const details = INCOME_SOURCE_DETAILS[entry.source];
+                                const currency = entry.currency || DEFAULT_CURRENCY;
+                                return (
+                                    <AnimatedCard key={entry.id} className="mb-3" animationType="slideUp" delay={300 + Math.min(index, 10) * 30}>
+                                        <TouchableOpacity
+                                            onPress={() => router.push(`/income-form?id=${entry.id}`)}
+                                            onLongPress={() => handleDelete(entry)}
+                                            className="flex-row items-center"
+                                        >
+                                            <View className="w-10 h-10 bg-green-500/20 rounded-full items-center justify-center mr-3">
+                                                <Ionicons name={details.icon as keyof typeof Ionicons.glyphMap} size={20} color="#4ade80" />
+                                            </View>
+                                            <View className="flex-1">
+                                                <Text className="text-white font-bold text-base" numberOfLines={1}>{entry.title}</Text>
+                                                <Text className="text-gray-400 text-xs">
+                                                    {details.label} · {formatters.date(entry.date)}
+                                                </Text>
+                                            </View>
+                                            <View className="items-end mr-2">
+                                                <Text className="text-green-400 font-bold">
+                                                    +{formatters.currency(entry.amount, currency)}
+                                                </Text>
+                                                {currency !== homeCurrency && entry.convertedAmount !== undefined && (
+                                                    <Text className="text-gray-400 text-xs">
+                                                        ≈ {formatAmount(entry.convertedAmount)}
+                                                    </Text>
+                                                )}
+                                            </View>
+                                            <TouchableOpacity onPress={() => handleDelete(entry)} className="p-1">
+                                                <Ionicons name="trash-outline" size={18} color="#f87171" />
+                                            </TouchableOpacity>
+                                        </TouchableOpacity>
+                                    </AnimatedCard>
+                                );
+                            })
+                        )}
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
@@ -0,0 +1,241 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Alert, Animated, StatusBar } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import Toast from 'react-native-toast-message';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useExpenses } from '../contexts/ExpensesContext';
+import { Expense, DEFAULT_CURRENCY } from '../types';
+import { formatters } from '../utils/formatters';
+import { recurrence } from '../utils/recurrence';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+import { Button } from '../components/ui/Button';
+import { Loading } from '../components/ui/Loading';
+
+export default function RecurringExpensesScreen() {
+    const { isAuthenticated } = useAuth();
+    const { expenses, recurringExpenses, isLoading, updateExpense } = useExpenses();
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const active = recurringExpenses.filter(expense => !recurrence.isEnded(expense.recurrence!));
+    const ended = recurringExpenses.filter(expense => recurrence.isEnded(expense.recurrence!));
+
+    const getOccurrenceCount = (series: Expense) =>
+        expenses.filter(expense => expense.recurringSourceId === series.id).length + 1;
+
+    const handleEndSeries = (series: Expense) => {
+        const rule = series.recurrence!;
+        Alert.alert(
+            'End Series',
+            `Stop repeating "${series.title}"? Expenses already created are kept.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'End Series',
+                    style: 'destructive',
+                    onPress: async () => {
+                        try {
+                            await updateExpense(series.id, {
+                                recurrence: { ...rule, endDate: rule.lastGeneratedDate || series.date?.slice(0, 10) },
+                            });
+                            Toast.show({
+                                type: 'success',
+                                text1: 'Series Ended',
+                                text2: `"${series.title}" will no longer repeat`,
+                            });
+                        } catch (error) {
+                            Toast.show({
+                                type: 'error',
+                                text1: 'Error',
+                                text2: 'Failed to end recurring expense',
+                            });
+                        }
+                    },
+                },
+            ]
+        );
+    };
+
+    const renderSeries = (series: Expense, isActive: boolean) => {
+        const rule = series.recurrence!;
+        const nextDate = isActive ? recurrence.nextOccurrence(series.date || series.createdAt, rule) : null;
+
+        return (
+            <View key={series.id} className="bg-white/10 border border-white/20 rounded-2xl p-4 mb-3">
+                <TouchableOpacity
+                    onPress={() => router.push(`/expense-details/${series.id}`)}
+                    className="flex-row items-center justify-between"
+                >
+                    <View className="flex-1 mr-3">
+                        <Text className="text-white text-lg font-bold" numberOfLines={1}>
+                            {series.title}
+                        </Text>
+                        <Text className="text-gray-300 text-sm">
+                            {recurrence.describe(rule)} · {series.category}
+                        </Text>
+                    </View>
+                    <Text className="text-white text-lg font-bold">
+                        {formatters.currency(series.amount, series.currency || DEFAULT_CURRENCY)}
+                    </Text>
+                </TouchableOpacity>
+
+                <View className="flex-row items-center justify-between mt-3">
+                    <View>
+                        <Text className="text-gray-400 text-xs">
+                            {nextDate ? `Next on ${formatters.date(recurrence.parseDateKey(nextDate))}` : 'No upcoming charges'}
+                        </Text>
+                        <Text className="text-gray-400 text-xs">
+                            {getOccurrenceCount(series)} logged
+                            {rule.endDate ? ` · ends ${formatters.date(recurrence.parseDateKey(rule.endDate))}` : ''}
+                        </Text>
+                    </View>
+                    <View className="flex-row">
+                        <TouchableOpacity
+                            onPress={() => router.push(`/expense-form?id=${series.id}`)}
+                            className="p-2 rounded-xl bg-white/10 mr-2"
+                        >
+                            <Ionicons name="create-outline" size={20} color="white" />
+                        </TouchableOpacity>
+                        {isActive && (
+                            <TouchableOpacity
+                                onPress={() => handleEndSeries(series)}
+                                className="p-2 rounded-xl bg-red-500/20"
+                            >
+                                <Ionicons name="stop-circle-outline" size={20} color="#f87171" />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                </View>
+            </View>
+        );
+    };
+
+    if (isLoading) {
+        return <Loading text="Loading recurring expenses..." />;
+    }
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Recurring Expenses
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Rent, subscriptions and bills
+                                </Text>
+                            </View>
+
+                            <TouchableOpacity
+                                onPress={() => router.push('/expense-form?recurring=1')}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="add" size={24} color="white" />
+                            </TouchableOpacity>
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    showsVerticalScrollIndicator={false}
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                >
+                    <View className="p-4">
+                        {recurringExpenses.length === 0 ? (
+                            <AnimatedCard animationType="slideUp" delay={200}>
+                                <View className="items-center py-8">
+                                    <View className="w-20 h-20 bg-blue-500/20 rounded-full items-center justify-center mb-6">
+                                        <Ionicons name="repeat-outline" size={40} color="#60a5fa" />
+                                    </View>
+                                    <Text className="text-white text-xl font-semibold mb-3">
+                                        No Recurring Expenses
+                                    </Text>
+                                    <Text className="text-gray-300 text-center mb-8 leading-6">
+                                        Set an expense to repeat and it will be logged for you every time it comes due.
+                                    </Text>
+                                    <Button
+                                        title="Add Recurring Expense"
+                                        onPress={() => router.push('/expense-form?recurring=1')}
+                                        variant="gradient"
+                                        leftIcon="add-outline"
+                                    />
+                                </View>
+                            </AnimatedCard>
+                        ) : (
+                            <>
+                                {active.length > 0 && (
+                                    <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                                        <Text className="text-white text-lg font-bold mb-3">Active</Text>
+                                        {active.map(series => renderSeries(series, true))}
+                                    </AnimatedCard>
+                                )}
+
+                                {ended.length > 0 && (
+                                    <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                                        <Text className="text-white text-lg font-bold mb-3">Ended</Text>
+                                        {ended.map(series => renderSeries(series, false))}
+                                    </AnimatedCard>
+                                )}
+                            </>
+                        )}
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
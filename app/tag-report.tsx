@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, ScrollView, TouchableOpacity, Animated, StatusBar } from 'react-native';
+import { router } from 'expo-router';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+
+import { useAuth } from '../contexts/AuthContext';
+import { useCurrency } from '../contexts/CurrencyContext';
+import { useExpenses } from '../contexts/ExpensesContext';
+import { expenseSelectors } from '../utils/expenseSelectors';
+import { formatters } from '../utils/formatters';
+import { recurrence } from '../utils/recurrence';
+import { tags } from '../utils/tags';
+import { AnimatedCard } from '../components/ui/AnimatedCard';
+
+type ReportRange = 'all' | 'month' | 'year';
+
+const REPORT_RANGES: { key: ReportRange; label: string }[] = [
+    { key: 'all', label: 'All Time' },
+    { key: 'year', label: 'This Year' },
+    { key: 'month', label: 'This Month' },
+];
+
+// First day (YYYY-MM-DD) the range covers; undefined for all time
+const rangeStart = (range: ReportRange): string | undefined => {
+    const now = new Date();
+    switch (range) {
+        case 'month':
+            return recurrence.toDateKey(new Date(now.getFullYear(), now.getMonth(), 1));
+        case 'year':
+            return recurrence.toDateKey(new Date(now.getFullYear(), 0, 1));
+        default:
+            return undefined;
+    }
+};
+
+export default function TagReportScreen() {
+    const { isAuthenticated } = useAuth();
+    const { formatAmount } = useCurrency();
+    const { expenses } = useExpenses();
+    const [range, setRange] = useState<ReportRange>('all');
+
+    // Animation refs
+    const fadeAnim = useRef(new Animated.Value(0)).current;
+    const slideAnim = useRef(new Animated.Value(50)).current;
+
+    useEffect(() => {
+        if (!isAuthenticated) {
+            router.replace('/login');
+        }
+    }, [isAuthenticated]);
+
+    useEffect(() => {
+        Animated.parallel([
+            Animated.timing(fadeAnim, {
+                toValue: 1,
+                duration: 800,
+                useNativeDriver: true,
+            }),
+            Animated.timing(slideAnim, {
+                toValue: 0,
+                duration: 600,
+                useNativeDriver: true,
+            }),
+        ]).start();
+    }, []);
+
+    const inRange = expenseSelectors.filter(expenses, { from: rangeStart(range) });
+    const totals = tags.totals(inRange, expenseSelectors.amount);
+    const largest = totals.length > 0 ? totals[0].amount : 0;
+    const untagged = inRange.filter(expense => !expense.tags || expense.tags.length === 0);
+
+    return (
+        <View className="flex-1">
+            <StatusBar barStyle="light-content" backgroundColor="#0f172a" />
+
+            {/* Background Gradient */}
+            <LinearGradient
+                colors={['#0f172a', '#1e293b', '#334155']}
+                className="absolute inset-0"
+            />
+
+            <SafeAreaView className="flex-1">
+                {/* Header */}
+                <LinearGradient
+                    colors={['#0f172a', '#1e293b']}
+                    className="px-4 py-4"
+                >
+                    <Animated.View
+                        style={{
+                            opacity: fadeAnim,
+                            transform: [{ translateY: slideAnim }],
+                        }}
+                    >
+                        <View className="flex-row items-center justify-between">
+                            <TouchableOpacity
+                                onPress={() => router.back()}
+                                className="p-2 rounded-xl bg-white/10"
+                            >
+                                <Ionicons name="arrow-back" size={24} color="white" />
+                            </TouchableOpacity>
+
+                            <View className="flex-1 items-center">
+                                <Text className="text-white text-xl font-bold">
+                                    Tag Totals
+                                </Text>
+                                <Text className="text-gray-300 text-sm">
+                                    Spending per tag
+                                </Text>
+                            </View>
+
+                            <View style={{ width: 40 }} />
+                        </View>
+                    </Animated.View>
+                </LinearGradient>
+
+                <ScrollView
+                    className="flex-1"
+                    contentContainerStyle={{ paddingBottom: 20 }}
+                >
+                    <View className="p-4">
+                        <View className="flex-row mb-4">
+                            {REPORT_RANGES.map(option => (
+                                <TouchableOpacity
+                                    key={option.key}
+                                    onPress={() => setRange(option.key)}
+                                    className={`px-4 py-2 rounded-xl mr-2 ${range === option.key
+                                        ? 'bg-blue-500/30'
+                                        : 'bg-white/5'
+                                        }`}
+                                >
+                                    <Text className={`font-medium ${range === option.key
+                                        ? 'text-blue-300'
+                                        : 'text-white'
+                                        }`}>
+                                        {option.label}
+                                    </Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <AnimatedCard className="mb-4" animationType="slideUp" delay={200}>
+                            <Text className="text-gray-400 text-xs mb-3">
+                                An expense with several tags counts towards each of them, so totals can add up to more than you spent.
+                            </Text>
+                            {totals.length === 0 ? (
+                                <Text className="text-gray-300 text-sm">
+                                    No tagged expenses in this period. Add tags like "lisbon-trip" or "reimbursable" when saving an expense.
+                                </Text>
+                            ) : (
+                                totals.map(total => (
+                                    <View key={total.tag} className="mb-4">
+                                        <View className="flex-row items-center justify-between mb-1">
+                                            <Text className="text-white font-bold text-base">#{total.tag}</Text>
+                                            <Text className="text-white font-bold text-base">{formatAmount(total.amount)}</Text>
+                                        </View>
+                                        <View className="h-2 bg-white/10 rounded-full overflow-hidden mb-1">
+                                            <View
+                                                className="h-full rounded-full bg-indigo-400"
+                                                style={{ width: `${largest > 0 ? (total.amount / largest) * 100 : 0}%` }}
+                                            />
+                                        </View>
+                                        <Text className="text-gray-400 text-xs">
+                                            {total.count} expense{total.count === 1 ? '' : 's'} · {total.from === total.to
+                                                ? formatters.date(total.from)
+                                                : `${formatters.date(total.from)} – ${formatters.date(total.to)}`}
+                                        </Text>
+                                    </View>
+                                ))
+                            )}
+                        </AnimatedCard>
+
+                        {untagged.length > 0 && (
+                            <AnimatedCard className="mb-4" animationType="slideUp" delay={300}>
+                                <View className="flex-row items-center justify-between">
+                                    <Text className="text-gray-300">
+                                        Untagged ({untagged.length})
+                                    </Text>
+                                    <Text className="text-gray-300 font-semibold">
+                                        {formatAmount(expenseSelectors.total(untagged))}
+                                    </Text>
+                                </View>
+                            </AnimatedCard>
+                        )}
+                    </View>
+                </ScrollView>
+            </SafeAreaView>
+        </View>
+    );
+}
@@ -1,10 +1,12 @@
 import React, { useEffect } from 'react';
 import { View, Text, TouchableOpacity } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { Expense } from '../../types';
+import { Expense, DEFAULT_CURRENCY } from '../../types';
 import { formatters } from '../../utils/formatters';
 import { Card } from '../ui/Card';
 import { useAuth } from '@/contexts/AuthContext';
+import { useCurrency } from '@/contexts/CurrencyContext';
+import { useCategories } from '@/contexts/CategoriesContext';
 import { router } from 'expo-router';
 
 interface ExpenseCardProps {
@@ -15,66 +17,6 @@ interface ExpenseCardProps {
     showActions?: boolean;
 }
 
-const getCategoryIcon = (category: string): keyof typeof Ionicons.glyphMap => {
-
-
-    if (!category || typeof category !== 'string') {
-        console.warn('Invalid category provided to getCategoryIcon:', category);
-        return 'ellipse-outline';
-    }
-
-    switch (category.toLowerCase()) {
-        case 'food & dining':
-            return 'restaurant-outline';
-        case 'transportation':
-            return 'car-outline';
-        case 'shopping':
-            return 'bag-outline';
-        case 'entertainment':
-            return 'game-controller-outline';
-        case 'bills & utilities':
-            return 'receipt-outline';
-        case 'healthcare':
-            return 'medical-outline';
-        case 'education':
-            return 'school-outline';
-        case 'travel':
-            return 'airplane-outline';
-        default:
-            return 'ellipse-outline';
-    }
-};
-
-const getCategoryColor = (category: string): string => {
-
-
-    if (!category || typeof category !== 'string') {
-        console.warn('Invalid category provided to getCategoryColor:', category);
-        return '#6b7280';
-    }
-
-    switch (category.toLowerCase()) {
-        case 'food & dining':
-            return '#f59e0b';
-        case 'transportation':
-            return '#3b82f6';
-        case 'shopping':
-            return '#ec4899';
-        case 'entertainment':
-            return '#8b5cf6';
-        case 'bills & utilities':
-            return '#ef4444';
-        case 'healthcare':
-            return '#10b981';
-        case 'education':
-            return '#06b6d4';
-        case 'travel':
-            return '#f97316';
-        default:
-            return '#6b7280';
-    }
-};
-
 export const ExpenseCard: React.FC<ExpenseCardProps> = ({
     expense,
     onPress,
@@ -86,12 +28,15 @@ export const ExpenseCard: React.FC<ExpenseCardProps> = ({
 
 
     const { isAuthenticated } = useAuth()
+    const { homeCurrency } = useCurrency();
+    const { getCategory } = useCategories();
 
     // Ensure all required fields exist with fallbacks
     const safeExpense = {
         id: expense.id || '',
         title: expense.title || expense.name || 'Untitled Expense',
         amount: expense.amount || 0,
+        currency: expense.currency || DEFAULT_CURRENCY,
         category: expense.category || 'Other',
         description: expense.description || '',
         date: expense.date || expense.createdAt || new Date().toISOString(),
@@ -108,8 +53,9 @@ export const ExpenseCard: React.FC<ExpenseCardProps> = ({
 
 
 
-    const categoryIcon = getCategoryIcon(safeExpense.category);
-    const categoryColor = getCategoryColor(safeExpense.category);
+    const category = getCategory(safeExpense.category);
+    const categoryIcon = category.icon as keyof typeof Ionicons.glyphMap;
+    const categoryColor = category.color;
 
     return (
         <TouchableOpacity onPress={onPress} disabled={!onPress}>
@@ -132,19 +78,58 @@ export const ExpenseCard: React.FC<ExpenseCardProps> = ({
                                 {safeExpense.title}
                             </Text>
                             <Text className="text-gray-500 text-sm">
-                                {safeExpense.category}
-                            </Text>
-                            <Text className="text-gray-400 text-xs">
-                                {formatters.relativeDate(safeExpense.date)}
+                                {[safeExpense.category, expense.subcategory].filter(Boolean).join(' › ')}
+                                {expense.splits && expense.splits.length > 1 && ` +${expense.splits.length - 1} more`}
                             </Text>
+                            <View className="flex-row items-center">
+                                <Text className="text-gray-400 text-xs">
+                                    {formatters.relativeDate(safeExpense.date)}
+                                </Text>
+                                {expense.attachments && expense.attachments.length > 0 && (
+                                    <Ionicons name="attach" size={12} color="#9ca3af" style={{ marginLeft: 4 }} />
+                                )}
+                            </View>
+                            {expense.tags && expense.tags.length > 0 && (
+                                <View className="flex-row flex-wrap mt-1">
+                                    {expense.tags.map(tag => (
+                                        <View key={tag} className="bg-indigo-50 px-2 py-0.5 rounded-full mr-1 mt-1">
+                                            <Text className="text-indigo-600 text-xs font-medium">#{tag}</Text>
+                                        </View>
+                                    ))}
+                                </View>
+                            )}
                         </View>
                     </View>
 
                     <View className="items-end">
                         <Text className="text-gray-900 text-lg font-bold">
-                            {formatters.currency(safeExpense.amount)}
+                            {formatters.currency(safeExpense.amount, safeExpense.currency)}
                         </Text>
 
+                        {safeExpense.currency !== homeCurrency && expense.convertedAmount !== undefined && (
+                            <Text className="text-gray-500 text-xs">
+                                ≈ {formatters.currency(expense.convertedAmount, homeCurrency)}
+                            </Text>
+                        )}
+
+                        {expense.pendingSync && (
+                            <View className="flex-row items-center bg-amber-100 px-2 py-0.5 rounded-full mt-1">
+                                <Ionicons name="cloud-upload-outline" size={12} color="#d97706" />
+                                <Text className="text-amber-700 text-xs font-medium ml-1">
+                                    Pending sync
+                                </Text>
+                            </View>
+                        )}
+
+                        {expense.syncFailed && (
+                            <View className="flex-row items-center bg-red-100 px-2 py-0.5 rounded-full mt-1">
+                                <Ionicons name="alert-circle-outline" size={12} color="#dc2626" />
+                                <Text className="text-red-700 text-xs font-medium ml-1">
+                                    Not saved to server · edit to retry
+                                </Text>
+                            </View>
+                        )}
+
                         {showActions && (
                             <View className="flex-row mt-2">
                                 {onEdit && (
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { View, Text, Image, Modal, ScrollView, TouchableOpacity, Dimensions } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { ReceiptAttachment } from '../../types';
+
+interface ReceiptGalleryProps {
+    attachments: ReceiptAttachment[];
+}
+
+const THUMBNAIL_SIZE = 88;
+
+export const ReceiptGallery: React.FC<ReceiptGalleryProps> = ({ attachments }) => {
+    // Index of the receipt open full screen, or null while browsing thumbnails
+    const [openIndex, setOpenIndex] = useState<number | null>(null);
+    const { width, height } = Dimensions.get('window');
+
+    return (
+        <View>
+            <View className="flex-row flex-wrap">
+                {attachments.map((attachment, index) => (
+                    <TouchableOpacity
+                        key={attachment.id}
+                        onPress={() => setOpenIndex(index)}
+                        className="mr-3 mb-3"
+                    >
+                        <Image
+                            source={{ uri: attachment.thumbnailUri }}
+                            style={{ width: THUMBNAIL_SIZE, height: THUMBNAIL_SIZE, borderRadius: 12 }}
+                        />
+                    </TouchableOpacity>
+                ))}
+            </View>
+
+            <Modal
+                visible={openIndex !== null}
+                transparent
+                animationType="fade"
+                onRequestClose={() => setOpenIndex(null)}
+            >
+                <View className="flex-1 bg-black">
+                    <ScrollView
+                        horizontal
+                        pagingEnabled
+                        showsHorizontalScrollIndicator={false}
+                        contentOffset={{ x: (openIndex || 0) * width, y: 0 }}
+                        onMomentumScrollEnd={({ nativeEvent }) =>
+                            setOpenIndex(Math.round(nativeEvent.contentOffset.x / width))}
+                    >
+                        {attachments.map(attachment => (
+                            <Image
+                                key={attachment.id}
+                                source={{ uri: attachment.uri }}
+                                style={{ width, height }}
+                                resizeMode="contain"
+                            />
+                        ))}
+                    </ScrollView>
+
+                    <View className="absolute top-12 left-4 right-4 flex-row items-center justify-between">
+                        <TouchableOpacity
+                            onPress={() => setOpenIndex(null)}
+                            className="p-2 rounded-xl bg-white/20"
+                        >
+                            <Ionicons name="close" size={24} color="white" />
+                        </TouchableOpacity>
+                        {attachments.length > 1 && (
+                            <Text className="text-white font-medium">
+                                {(openIndex || 0) + 1} / {attachments.length}
+                            </Text>
+                        )}
+                    </View>
+                </View>
+            </Modal>
+        </View>
+    );
+};
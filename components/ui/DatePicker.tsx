@@ -10,6 +10,7 @@ interface DatePickerProps {
     error?: string;
     required?: boolean;
     variant?: 'default' | 'filled' | 'glass';
+    highlighted?: boolean;
 }
 
 export const DatePicker: React.FC<DatePickerProps> = ({
@@ -19,6 +20,7 @@ export const DatePicker: React.FC<DatePickerProps> = ({
     error,
     required = false,
     variant = 'default',
+    highlighted = false,
 }) => {
     const [showPicker, setShowPicker] = useState(false);
 
@@ -52,7 +54,7 @@ export const DatePicker: React.FC<DatePickerProps> = ({
             )}
 
             <TouchableOpacity
-                className={`border rounded-lg p-3 flex-row items-center justify-between ${error ? 'border-danger-500' : 'border-gray-300'
+                className={`border rounded-lg p-3 flex-row items-center justify-between ${error ? 'border-danger-500' : highlighted ? 'border-amber-400' : 'border-gray-300'
                     }`}
                 onPress={() => setShowPicker(true)}
             >
@@ -11,6 +11,8 @@ interface InputProps extends TextInputProps {
     variant?: 'default' | 'filled' | 'glass';
     required?: boolean;
     helperText?: string;
+    // Draws attention to a value filled in for the user, e.g. from a scanned receipt
+    highlighted?: boolean;
 }
 
 export const Input: React.FC<InputProps> = ({
@@ -22,6 +24,7 @@ export const Input: React.FC<InputProps> = ({
     variant = 'default',
     required = false,
     helperText,
+    highlighted = false,
     style,
     ...props
 }) => {
@@ -94,6 +97,7 @@ export const Input: React.FC<InputProps> = ({
     const getBorderColor = () => {
         if (error) return '#ef4444';
         if (isFocused) return '#3b82f6';
+        if (highlighted) return '#fbbf24';
         return variant === 'glass' ? 'rgba(255, 255, 255, 0.2)' : '#e5e7eb';
     };
 
@@ -1,16 +1,18 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User } from '../types';
-import { storage } from '../utils/storage';
-import { userAPI } from '../services/api';
+import { storage, stripSecrets } from '../utils/storage';
+import { userAPI, authSession, ApiError } from '../services/api';
+import { authServer, RegisterData } from '../services/auth';
 
 interface AuthContextType {
     user: User | null;
     isLoading: boolean;
     isAuthenticated: boolean;
     login: (username: string, password: string) => Promise<boolean>;
-    register: (userData: { name: string; username: string; email: string; password: string }) => Promise<void>;
+    register: (userData: RegisterData) => Promise<void>;
     logout: () => Promise<void>;
     refreshUser: () => Promise<void>;
+    updateUser: (updates: Partial<Pick<User, 'name' | 'email' | 'avatar' | 'homeCurrency'>>) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -30,24 +32,48 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         initializeAuth();
     }, []);
 
+    // Expired sessions and 401 responses sign the user out
+    useEffect(() => {
+        return authSession.onUnauthorized(() => {
+            console.warn('AuthContext: Session expired or rejected, logging out');
+            logout();
+        });
+    }, []);
+
     const initializeAuth = async () => {
         try {
 
             setIsLoading(true);
+            await storage.migrateSensitiveData();
             const storedUser = await storage.getUser();
+            const storedSession = await storage.getAuthSession();
 
+            if (storedUser && (!storedSession || storedSession.userId !== storedUser.id || authSession.isExpired(storedSession))) {
+                // No valid session: sign in again
+                await storage.clearAll();
+                setUser(null);
+                return;
+            }
+
+            if (storedUser && storedSession) {
+                authSession.set(storedSession);
 
-            if (storedUser) {
                 // Verify the stored user is still valid
                 try {
 
-                    const updatedUser = await userAPI.getUser(storedUser.id);
+                    const updatedUser = stripSecrets(await userAPI.getUser(storedUser.id));
 
                     setUser(updatedUser);
                 } catch (error) {
-                    // If user verification fails, clear stored data
+                    if (error instanceof ApiError && error.isNetworkError) {
+                        // Offline: keep the session and work from local data
+                        setUser(storedUser);
+                        return;
+                    }
 
+                    // If user verification fails, clear stored data
                     console.error('AuthContext: Verification error:', error);
+                    authSession.set(null);
                     await storage.clearAll();
                     setUser(null);
                 }
@@ -65,22 +91,15 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
     const login = async (username: string, password: string): Promise<boolean> => {
         try {
-
             setIsLoading(true);
-            const userData = await userAPI.login(username, password);
-
+            const { user: userData, session } = await authServer.login(username, password);
 
-            if (userData) {
+            authSession.set(session);
+            setUser(userData);
+            await storage.setUser(userData);
+            await storage.setAuthSession(session);
 
-                setUser(userData);
-                await storage.setUser(userData);
-                await storage.setAuthToken(userData.id); // Using user ID as token for simplicity
-
-                return true;
-            }
-
-
-            return false;
+            return true;
         } catch (error) {
             console.error('AuthContext: Login error:', error);
             return false;
@@ -89,20 +108,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }
     };
 
-    const register = async (userData: { name: string; username: string; email: string; password: string }): Promise<void> => {
+    const register = async (userData: RegisterData): Promise<void> => {
         try {
-
             setIsLoading(true);
 
-            // Create user via API
-            const newUser = await userAPI.createUser(userData);
-
+            // Create user via the auth server, which hashes the password
+            const { user: newUser, session } = await authServer.register(userData);
 
             // Auto-login after successful registration
+            authSession.set(session);
             setUser(newUser);
             await storage.setUser(newUser);
-            await storage.setAuthToken(newUser.id);
-
+            await storage.setAuthSession(session);
         } catch (error) {
             console.error('AuthContext: Registration error:', error);
             throw error;
@@ -115,6 +132,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         try {
 
             setIsLoading(true);
+            authSession.set(null);
             setUser(null);
             await storage.clearAll();
 
@@ -129,7 +147,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         if (!user) return;
 
         try {
-            const updatedUser = await userAPI.getUser(user.id);
+            const updatedUser = stripSecrets(await userAPI.getUser(user.id));
             setUser(updatedUser);
             await storage.setUser(updatedUser);
         } catch (error) {
@@ -139,6 +157,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         }
     };
 
+    const updateUser = async (updates: Partial<Pick<User, 'name' | 'email' | 'avatar' | 'homeCurrency'>>): Promise<void> => {
+        if (!user) {
+            throw new Error('User not authenticated');
+        }
+
+        const updatedUser = { ...user, ...stripSecrets(await userAPI.updateUser(user.id, updates)) };
+        setUser(updatedUser);
+        await storage.setUser(updatedUser);
+    };
+
     const value: AuthContextType = {
         user,
         isLoading,
@@ -147,6 +175,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         register,
         logout,
         refreshUser,
+        updateUser,
     };
 
     return (
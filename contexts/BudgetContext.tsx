@@ -1,18 +1,36 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { Alert } from 'react-native';
+import { Alert, Platform } from 'react-native';
 import { storage } from '../utils/storage';
-import { expenseAPI, userAPI } from '../services/api';
-import { Expense, BudgetSettings } from '../types';
+import { userAPI } from '../services/api';
+import { notificationScheduler } from '../services/notificationScheduler';
+import { BudgetSettings } from '../types';
+import { expenseSelectors } from '../utils/expenseSelectors';
+import { recurrence } from '../utils/recurrence';
+import { budgetPeriod, BudgetPeriodRange } from '../utils/budgetPeriod';
+import { budgetSelectors, BudgetCheck, BudgetWarning, PeriodSummary } from '../utils/budgetSelectors';
 import { useAuth } from './AuthContext';
+import { useCurrency } from './CurrencyContext';
+import { useExpenses } from './ExpensesContext';
 
 interface BudgetContextType {
     budgetSettings: BudgetSettings;
-    currentMonthSpent: number;
+    currentPeriod: BudgetPeriodRange;
+    periodLabel: string;
+    currentPeriodSpent: number;
+    // Limit for the current period including any rollover
+    effectiveLimit: number;
+    rolloverAmount: number;
+    categoryEffectiveLimits: { [category: string]: number };
+    committedAmount: number;
     isOverBudget: boolean;
     percentageUsed: number;
     setBudgetSettings: (settings: BudgetSettings) => Promise<void>;
-    checkBudgetAlert: (newExpenseAmount: number) => void;
+    // Moves limits and rollover set under any of the old names onto the new one, adding limits together on a merge
+    recategorizeLimits: (fromNames: string[], to: string) => Promise<void>;
+    // Warns about limits the expense would cross and resolves with whether to go ahead
+    checkBudgetAlert: (check: BudgetCheck) => Promise<boolean>;
     refreshBudgetData: () => Promise<void>;
+    getPeriodHistory: (count: number, category?: string) => PeriodSummary[];
 }
 
 const defaultBudgetSettings: BudgetSettings = {
@@ -29,15 +47,31 @@ interface BudgetProviderProps {
 
 export const BudgetProvider: React.FC<BudgetProviderProps> = ({ children }) => {
     const { user } = useAuth();
+    const { expenses } = useExpenses();
+    const { formatAmount } = useCurrency();
     const [budgetSettings, setBudgetSettingsState] = useState<BudgetSettings>(defaultBudgetSettings);
-    const [currentMonthSpent, setCurrentMonthSpent] = useState(0);
+    const [currentPeriodSpent, setCurrentPeriodSpent] = useState(0);
+    const [rolloverAmount, setRolloverAmount] = useState(0);
+    const [categoryEffectiveLimits, setCategoryEffectiveLimits] = useState<{ [category: string]: number }>({});
+    const [committedAmount, setCommittedAmount] = useState(0);
+    // Alerts wait for the saved settings so the defaults never trigger a notification
+    const [settingsLoaded, setSettingsLoaded] = useState(false);
 
     useEffect(() => {
+        setSettingsLoaded(false);
         if (user?.id) {
             initializeBudget();
         }
     }, [user?.id]);
 
+    const currentPeriod = budgetPeriod.containing(budgetSettings);
+    const periodLabel = budgetPeriod.label(budgetSettings);
+
+    // Recompute whenever the shared expense list or the period settings change
+    useEffect(() => {
+        refreshBudgetData();
+    }, [expenses, budgetSettings, settingsLoaded]);
+
     const initializeBudget = async () => {
         if (!user?.id) return;
 
@@ -55,9 +89,10 @@ export const BudgetProvider: React.FC<BudgetProviderProps> = ({ children }) => {
                     await userAPI.updateBudgetSettings(user.id, storedSettings);
                 }
             }
-            await refreshBudgetData();
         } catch (error) {
             console.error('Error initializing budget:', error);
+        } finally {
+            setSettingsLoaded(true);
         }
     };
 
@@ -78,74 +113,140 @@ export const BudgetProvider: React.FC<BudgetProviderProps> = ({ children }) => {
         }
     };
 
+    const recategorizeLimits = async (fromNames: string[], to: string) => {
+        const from = new Set(fromNames.map(name => name.toLowerCase()));
+        const limits = budgetSettings.categoryLimits || {};
+        const rollovers = budgetSettings.categoryRolloverSince || {};
+        const affected = [...Object.keys(limits), ...Object.keys(rollovers)].some(category => from.has(category.toLowerCase()));
+        if (!affected) return;
+
+        const rename = (category: string) => (from.has(category.toLowerCase()) ? to : category);
+        const categoryLimits: { [category: string]: number } = {};
+        Object.entries(limits).forEach(([category, limit]) => {
+            const key = rename(category);
+            categoryLimits[key] = (categoryLimits[key] || 0) + (Number(limit) || 0);
+        });
+        // Rollover on a merged category counts from whichever side switched it on first
+        const categoryRolloverSince: { [category: string]: string } = {};
+        Object.entries(rollovers).forEach(([category, since]) => {
+            const key = rename(category);
+            if (!categoryRolloverSince[key] || since < categoryRolloverSince[key]) {
+                categoryRolloverSince[key] = since;
+            }
+        });
+        await setBudgetSettings({ ...budgetSettings, categoryLimits, categoryRolloverSince });
+    };
+
     const refreshBudgetData = async () => {
         if (!user?.id) return;
 
-        try {
-            let expenses = await expenseAPI.getAllExpenses();
+        // Works off the shared list, which already includes changes still waiting to sync
+        const period = budgetPeriod.containing(budgetSettings);
+        const summary = budgetSelectors.currentPeriodSummary(budgetSettings, expenses);
+        setCurrentPeriodSpent(summary.spent);
+        setRolloverAmount(summary.rollover);
 
-            // Filter expenses by current user
-            expenses = expenses.filter((expense: Expense) => expense.userId === user.id);
+        const categoryLimits: { [category: string]: number } = {};
+        const categories = Object.keys(budgetSelectors.categoryLimits(budgetSettings)).map(category => {
+            const categorySummary = budgetSelectors.currentPeriodSummary(budgetSettings, expenses, category);
+            categoryLimits[category] = categorySummary.effectiveLimit;
+            return { category, spent: categorySummary.spent, limit: categorySummary.effectiveLimit };
+        });
+        setCategoryEffectiveLimits(categoryLimits);
 
-            const currentMonth = new Date().getMonth();
-            const currentYear = new Date().getFullYear();
-
-            const monthlyExpenses = expenses.filter((expense: Expense) => {
-                const expenseDate = new Date(expense.date || expense.createdAt);
-                return expenseDate.getMonth() === currentMonth &&
-                    expenseDate.getFullYear() === currentYear;
+        if (settingsLoaded) {
+            notificationScheduler.evaluate(user.id, {
+                period,
+                periodLabel: budgetPeriod.label(budgetSettings),
+                spent: summary.spent,
+                limit: summary.effectiveLimit,
+                threshold: budgetSettings.notificationThreshold,
+                categories,
+                formatAmount: amount => formatAmount(amount),
+            }, budgetSettings.notifications).catch(error => {
+                console.error('Error checking budget notifications:', error);
             });
+        }
 
-            const totalSpent = monthlyExpenses.reduce((total: number, expense: Expense) => {
-                const amount = typeof expense.amount === 'string' ? parseFloat(expense.amount) || 0 : expense.amount;
-                return total + amount;
-            }, 0);
+        // Recurring charges still to come before the period ends are already spoken for
+        const upcoming = recurrence.upcoming(expenses, new Date(), period.end);
+        setCommittedAmount(expenseSelectors.total(upcoming.map(occurrence => occurrence.source)));
+    };
 
-            setCurrentMonthSpent(totalSpent);
-        } catch (error) {
-            console.error('Error refreshing budget data:', error);
+    const effectiveLimit = budgetSettings.monthlyLimit + rolloverAmount;
+
+    const getPeriodHistory = (count: number, category?: string) => {
+        return budgetSelectors.periodSummaries(budgetSettings, expenses, { count, category });
+    };
+
+    const describeWarning = (warning: BudgetWarning): string => {
+        const label = periodLabel.toLowerCase();
+        switch (warning.type) {
+            case 'overLimit':
+                return `This will exceed your ${label} budget (${formatAmount(warning.limit)}) by ${formatAmount(warning.spentAfter - warning.limit)}.`;
+            case 'categoryOverLimit':
+                return `${warning.category} will be ${formatAmount(warning.spentAfter - warning.limit)} over its ${formatAmount(warning.limit)} limit.`;
+            case 'threshold':
+            default:
+                return `This will bring you to ${((warning.spentAfter / warning.limit) * 100).toFixed(1)}% of your ${label} budget limit (${formatAmount(warning.limit)}).`;
         }
     };
 
-    const checkBudgetAlert = (newExpenseAmount: number) => {
-        const projectedSpent = currentMonthSpent + newExpenseAmount;
-        const projectedPercentage = (projectedSpent / budgetSettings.monthlyLimit) * 100;
+    const checkBudgetAlert = (check: BudgetCheck): Promise<boolean> => {
+        const warnings = budgetSelectors.budgetWarnings(budgetSettings, expenses, check, {
+            total: effectiveLimit,
+            categories: categoryEffectiveLimits,
+        });
+        if (warnings.length === 0) {
+            return Promise.resolve(true);
+        }
 
-        if (projectedPercentage >= budgetSettings.notificationThreshold &&
-            currentMonthSpent < budgetSettings.monthlyLimit * (budgetSettings.notificationThreshold / 100)) {
-            Alert.alert(
-                'Budget Alert',
-                `Adding this expense will bring you to ${projectedPercentage.toFixed(1)}% of your monthly budget limit ($${budgetSettings.monthlyLimit}).`,
-                [
-                    { text: 'Continue', style: 'default' },
-                    { text: 'Cancel', style: 'cancel' }
-                ]
-            );
+        const exceeded = warnings.some(warning => warning.type !== 'threshold');
+        const title = exceeded ? 'Budget Exceeded' : 'Budget Alert';
+        const message = warnings.map(describeWarning).join('\n\n');
+        // react-native-web's Alert is a no-op, so the browser's own dialog asks instead
+        if (Platform.OS === 'web') {
+            return Promise.resolve(window.confirm(`${title}\n\n${message}`));
         }
 
-        if (projectedSpent > budgetSettings.monthlyLimit) {
+        return new Promise(resolve => {
             Alert.alert(
-                'Budget Exceeded',
-                `This expense will exceed your monthly budget by $${(projectedSpent - budgetSettings.monthlyLimit).toFixed(2)}.`,
+                title,
+                message,
                 [
-                    { text: 'Add Anyway', style: 'destructive' },
-                    { text: 'Cancel', style: 'cancel' }
-                ]
+                    { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+                    {
+                        text: exceeded ? (check.expenseId ? 'Save Anyway' : 'Add Anyway') : 'Continue',
+                        style: exceeded ? 'destructive' : 'default',
+                        onPress: () => resolve(true),
+                    },
+                ],
+                // Dismissing the dialog on Android counts as cancelling
+                { cancelable: true, onDismiss: () => resolve(false) }
             );
-        }
+        });
     };
 
-    const isOverBudget = currentMonthSpent > budgetSettings.monthlyLimit;
-    const percentageUsed = (currentMonthSpent / budgetSettings.monthlyLimit) * 100;
+    const isOverBudget = currentPeriodSpent > effectiveLimit;
+    // A deficit can leave nothing to spend this period, in which case the budget is fully used
+    const percentageUsed = effectiveLimit > 0 ? (currentPeriodSpent / effectiveLimit) * 100 : 100;
 
     const value: BudgetContextType = {
         budgetSettings,
-        currentMonthSpent,
+        currentPeriod,
+        periodLabel,
+        currentPeriodSpent,
+        effectiveLimit,
+        rolloverAmount,
+        categoryEffectiveLimits,
+        committedAmount,
         isOverBudget,
         percentageUsed,
         setBudgetSettings,
+        recategorizeLimits,
         checkBudgetAlert,
         refreshBudgetData,
+        getPeriodHistory,
     };
 
     return (
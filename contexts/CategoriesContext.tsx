@@ -0,0 +1,145 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { CategoryDefinition, DEFAULT_CATEGORIES } from '../types';
+import { storage } from '../utils/storage';
+import { categoryRegistry } from '../utils/categoryRegistry';
+import { useAuth } from './AuthContext';
+
+export type CategoryDraft = Pick<CategoryDefinition, 'name' | 'icon' | 'color' | 'subcategories'>;
+
+interface CategoriesContextType {
+    // Every category, archived ones included, in display order
+    categories: CategoryDefinition[];
+    activeCategories: CategoryDefinition[];
+    // Icon and color for any name, including old names and ones the registry doesn't know
+    getCategory: (name?: string) => CategoryDefinition;
+    resolveName: (name?: string) => string;
+    addCategory: (draft: CategoryDraft) => Promise<CategoryDefinition>;
+    // Renaming keeps the old name as an alias so expenses not yet re-tagged still resolve
+    updateCategory: (categoryId: string, updates: Partial<CategoryDraft>) => Promise<CategoryDefinition>;
+    setArchived: (categoryId: string, archived: boolean) => Promise<void>;
+    // Folds the source into the target and removes it; returns every name now meaning the target
+    mergeCategory: (sourceId: string, targetId: string) => Promise<string[]>;
+}
+
+const CategoriesContext = createContext<CategoriesContextType | undefined>(undefined);
+
+interface CategoriesProviderProps {
+    children: ReactNode;
+}
+
+export const CategoriesProvider: React.FC<CategoriesProviderProps> = ({ children }) => {
+    const { user } = useAuth();
+    const [categories, setCategories] = useState<CategoryDefinition[]>(DEFAULT_CATEGORIES);
+
+    useEffect(() => {
+        if (!user?.id) {
+            setCategories(DEFAULT_CATEGORIES);
+            return;
+        }
+        storage.getCategories(user.id).then(stored => setCategories(stored || DEFAULT_CATEGORIES));
+    }, [user?.id]);
+
+    const saveCategories = async (updated: CategoryDefinition[]) => {
+        if (!user?.id) {
+            throw new Error('User not authenticated');
+        }
+        setCategories(updated);
+        await storage.setCategories(user.id, updated);
+    };
+
+    const requireCategory = (categoryId: string): CategoryDefinition => {
+        const category = categories.find(item => item.id === categoryId);
+        if (!category) {
+            throw new Error('Category not found');
+        }
+        return category;
+    };
+
+    const assertValidName = (name: string, categoryId?: string) => {
+        const problem = categoryRegistry.validateName(categories, name, categoryId);
+        if (problem) {
+            throw new Error(problem);
+        }
+    };
+
+    const addCategory = async (draft: CategoryDraft) => {
+        assertValidName(draft.name);
+        const category: CategoryDefinition = {
+            ...draft,
+            name: draft.name.trim(),
+            id: `category_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+        };
+        await saveCategories([...categories, category]);
+        return category;
+    };
+
+    const updateCategory = async (categoryId: string, updates: Partial<CategoryDraft>) => {
+        const current = requireCategory(categoryId);
+        const updated: CategoryDefinition = { ...current, ...updates };
+
+        if (updates.name !== undefined && updates.name.trim() !== current.name) {
+            if (categoryRegistry.isFallback(current)) {
+                throw new Error(`${current.name} can't be renamed`);
+            }
+            assertValidName(updates.name, categoryId);
+            updated.name = updates.name.trim();
+            updated.aliases = Array.from(new Set([...(current.aliases || []), current.name]))
+                .filter(alias => alias.toLowerCase() !== updated.name.toLowerCase());
+        }
+
+        await saveCategories(categories.map(category => (category.id === categoryId ? updated : category)));
+        return updated;
+    };
+
+    const setArchived = async (categoryId: string, archived: boolean) => {
+        const current = requireCategory(categoryId);
+        if (archived && categoryRegistry.isFallback(current)) {
+            throw new Error(`${current.name} can't be archived`);
+        }
+        await saveCategories(categories.map(category => (category.id === categoryId ? { ...category, archived } : category)));
+    };
+
+    const mergeCategory = async (sourceId: string, targetId: string) => {
+        const source = requireCategory(sourceId);
+        const target = requireCategory(targetId);
+        if (sourceId === targetId) {
+            throw new Error('Choose a different category to merge into');
+        }
+        if (categoryRegistry.isFallback(source)) {
+            throw new Error(`${source.name} can't be merged away`);
+        }
+
+        const aliases = Array.from(new Set([...(target.aliases || []), source.name, ...(source.aliases || [])]));
+        // Re-filed expenses keep their subcategory, so the target takes over the source's list
+        const subcategories = Array.from(new Set([...(target.subcategories || []), ...(source.subcategories || [])]));
+        await saveCategories(categories
+            .filter(category => category.id !== sourceId)
+            .map(category => (category.id === targetId ? { ...category, aliases, subcategories } : category)));
+        return [source.name, ...(source.aliases || [])];
+    };
+
+    const value: CategoriesContextType = {
+        categories,
+        activeCategories: categoryRegistry.active(categories),
+        getCategory: (name) => categoryRegistry.lookup(categories, name),
+        resolveName: (name) => categoryRegistry.resolveName(categories, name),
+        addCategory,
+        updateCategory,
+        setArchived,
+        mergeCategory,
+    };
+
+    return (
+        <CategoriesContext.Provider value={value}>
+            {children}
+        </CategoriesContext.Provider>
+    );
+};
+
+export const useCategories = (): CategoriesContextType => {
+    const context = useContext(CategoriesContext);
+    if (context === undefined) {
+        throw new Error('useCategories must be used within a CategoriesProvider');
+    }
+    return context;
+};
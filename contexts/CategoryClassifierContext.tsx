@@ -0,0 +1,88 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { categoryClassifier, CategoryPrediction, ClassifierExample, ClassifierInput } from '../utils/categoryClassifier';
+import { useAuth } from './AuthContext';
+import { useExpenses } from './ExpensesContext';
+import { useCategories } from './CategoriesContext';
+
+interface CategoryClassifierContextType {
+    // Active categories ranked by confidence for what has been typed so far; empty for unfamiliar text
+    rankCategories: (input: ClassifierInput) => CategoryPrediction[];
+    trainedExamples: number;
+}
+
+const CategoryClassifierContext = createContext<CategoryClassifierContextType | undefined>(undefined);
+
+interface CategoryClassifierProviderProps {
+    children: ReactNode;
+}
+
+const sameExample = (a: ClassifierExample | null, b: ClassifierExample | null) =>
+    a?.category === b?.category && a?.tokens.join(' ') === b?.tokens.join(' ');
+
+export const CategoryClassifierProvider: React.FC<CategoryClassifierProviderProps> = ({ children }) => {
+    const { user } = useAuth();
+    const { expenses } = useExpenses();
+    const { activeCategories } = useCategories();
+    const model = useRef(categoryClassifier.create());
+    // What each expense contributed, so edits and deletions can be taken back out
+    const trained = useRef(new Map<string, ClassifierExample>());
+    const [trainedExamples, setTrainedExamples] = useState(0);
+
+    useEffect(() => {
+        model.current = categoryClassifier.create();
+        trained.current.clear();
+        setTrainedExamples(0);
+    }, [user?.id]);
+
+    // Retrain incrementally: only expenses that were added, edited or removed touch the model
+    useEffect(() => {
+        const seen = new Set<string>();
+        let changed = false;
+
+        expenses.forEach(expense => {
+            seen.add(expense.id);
+            const example = categoryClassifier.example(expense);
+            const previous = trained.current.get(expense.id) || null;
+            if (sameExample(previous, example)) return;
+
+            if (previous) categoryClassifier.remove(model.current, previous);
+            if (example) {
+                categoryClassifier.add(model.current, example);
+                trained.current.set(expense.id, example);
+            } else {
+                trained.current.delete(expense.id);
+            }
+            changed = true;
+        });
+
+        trained.current.forEach((example, expenseId) => {
+            if (seen.has(expenseId)) return;
+            categoryClassifier.remove(model.current, example);
+            trained.current.delete(expenseId);
+            changed = true;
+        });
+
+        if (changed) {
+            setTrainedExamples(model.current.examples);
+        }
+    }, [expenses]);
+
+    const value: CategoryClassifierContextType = {
+        rankCategories: (input) => categoryClassifier.rank(model.current, input, activeCategories.map(category => category.name)),
+        trainedExamples,
+    };
+
+    return (
+        <CategoryClassifierContext.Provider value={value}>
+            {children}
+        </CategoryClassifierContext.Provider>
+    );
+};
+
+export const useCategoryClassifier = (): CategoryClassifierContextType => {
+    const context = useContext(CategoryClassifierContext);
+    if (context === undefined) {
+        throw new Error('useCategoryClassifier must be used within a CategoryClassifierProvider');
+    }
+    return context;
+};
@@ -0,0 +1,99 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { CategoryRule } from '../types';
+import { storage } from '../utils/storage';
+import { categoryRules, CategoryRuleInput } from '../utils/categoryRules';
+import { useAuth } from './AuthContext';
+
+export type CategoryRuleDraft = Omit<CategoryRule, 'id' | 'createdAt'>;
+
+interface CategoryRulesContextType {
+    // In priority order
+    rules: CategoryRule[];
+    addRule: (draft: CategoryRuleDraft) => Promise<CategoryRule>;
+    updateRule: (ruleId: string, updates: Partial<CategoryRuleDraft>) => Promise<void>;
+    deleteRule: (ruleId: string) => Promise<void>;
+    moveRule: (ruleId: string, offset: -1 | 1) => Promise<void>;
+    // First matching rule, if any
+    findRule: (input: CategoryRuleInput) => CategoryRule | undefined;
+    // Points rules filing under any of the old names at the new one, after a rename or merge
+    recategorizeRules: (fromNames: string[], to: string) => Promise<void>;
+}
+
+const CategoryRulesContext = createContext<CategoryRulesContextType | undefined>(undefined);
+
+interface CategoryRulesProviderProps {
+    children: ReactNode;
+}
+
+export const CategoryRulesProvider: React.FC<CategoryRulesProviderProps> = ({ children }) => {
+    const { user } = useAuth();
+    const [rules, setRules] = useState<CategoryRule[]>([]);
+
+    useEffect(() => {
+        if (!user?.id) {
+            setRules([]);
+            return;
+        }
+        storage.getCategoryRules(user.id).then(setRules);
+    }, [user?.id]);
+
+    const saveRules = async (updated: CategoryRule[]) => {
+        if (!user?.id) {
+            throw new Error('User not authenticated');
+        }
+        setRules(updated);
+        await storage.setCategoryRules(user.id, updated);
+    };
+
+    const addRule = async (draft: CategoryRuleDraft) => {
+        const rule: CategoryRule = {
+            ...draft,
+            id: `rule_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+            createdAt: new Date().toISOString(),
+        };
+        await saveRules([...rules, rule]);
+        return rule;
+    };
+
+    const updateRule = async (ruleId: string, updates: Partial<CategoryRuleDraft>) => {
+        await saveRules(rules.map(rule => (rule.id === ruleId ? { ...rule, ...updates } : rule)));
+    };
+
+    const deleteRule = async (ruleId: string) => {
+        await saveRules(rules.filter(rule => rule.id !== ruleId));
+    };
+
+    const moveRule = async (ruleId: string, offset: -1 | 1) => {
+        await saveRules(categoryRules.move(rules, ruleId, offset));
+    };
+
+    const recategorizeRules = async (fromNames: string[], to: string) => {
+        const from = new Set(fromNames.map(name => name.toLowerCase()));
+        if (!rules.some(rule => from.has(rule.category.toLowerCase()))) return;
+        await saveRules(rules.map(rule => (from.has(rule.category.toLowerCase()) ? { ...rule, category: to } : rule)));
+    };
+
+    const value: CategoryRulesContextType = {
+        rules,
+        addRule,
+        updateRule,
+        deleteRule,
+        moveRule,
+        findRule: (input) => categoryRules.find(rules, input),
+        recategorizeRules,
+    };
+
+    return (
+        <CategoryRulesContext.Provider value={value}>
+            {children}
+        </CategoryRulesContext.Provider>
+    );
+};
+
+export const useCategoryRules = (): CategoryRulesContextType => {
+    const context = useContext(CategoryRulesContext);
+    if (context === undefined) {
+        throw new Error('useCategoryRules must be used within a CategoryRulesProvider');
+    }
+    return context;
+};
@@ -0,0 +1,94 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { DEFAULT_CURRENCY, ExchangeRateTable } from '../types';
+import { exchangeRates, DEFAULT_EXCHANGE_RATES } from '../services/exchangeRates';
+import { formatters } from '../utils/formatters';
+import { useAuth } from './AuthContext';
+
+interface CurrencyContextType {
+    homeCurrency: string;
+    rates: ExchangeRateTable;
+    canRefreshRates: boolean;
+    setHomeCurrency: (currency: string) => Promise<void>;
+    setRate: (currency: string, valueInHomeCurrency: number) => Promise<void>;
+    refreshRates: () => Promise<void>;
+    getRate: (from: string, to?: string) => number | null;
+    convert: (amount: number, from: string, to?: string) => number | null;
+    formatAmount: (amount: number | string, currency?: string) => string;
+}
+
+const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
+
+interface CurrencyProviderProps {
+    children: ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+    const { user, updateUser } = useAuth();
+    const [rates, setRates] = useState<ExchangeRateTable>(DEFAULT_EXCHANGE_RATES);
+
+    const homeCurrency = user?.homeCurrency || DEFAULT_CURRENCY;
+
+    useEffect(() => {
+        if (!user?.id) {
+            setRates(DEFAULT_EXCHANGE_RATES);
+            return;
+        }
+        exchangeRates.load(user.id).then(setRates);
+    }, [user?.id]);
+
+    const requireUserId = (): string => {
+        if (!user?.id) {
+            throw new Error('User not authenticated');
+        }
+        return user.id;
+    };
+
+    const setHomeCurrency = async (currency: string) => {
+        await updateUser({ homeCurrency: currency });
+    };
+
+    const setRate = async (currency: string, valueInHomeCurrency: number) => {
+        const userId = requireUserId();
+        const updated = exchangeRates.withRate(rates, currency, valueInHomeCurrency, homeCurrency);
+        setRates(updated);
+        await exchangeRates.save(userId, updated);
+    };
+
+    const refreshRates = async () => {
+        setRates(await exchangeRates.refresh(requireUserId(), homeCurrency));
+    };
+
+    const getRate = (from: string, to: string = homeCurrency) => exchangeRates.rate(rates, from, to);
+
+    const convert = (amount: number, from: string, to: string = homeCurrency) =>
+        exchangeRates.convert(rates, amount, from, to);
+
+    const formatAmount = (amount: number | string, currency: string = homeCurrency) =>
+        formatters.currency(amount, currency);
+
+    const value: CurrencyContextType = {
+        homeCurrency,
+        rates,
+        canRefreshRates: !!exchangeRates.getProvider(),
+        setHomeCurrency,
+        setRate,
+        refreshRates,
+        getRate,
+        convert,
+        formatAmount,
+    };
+
+    return (
+        <CurrencyContext.Provider value={value}>
+            {children}
+        </CurrencyContext.Provider>
+    );
+};
+
+export const useCurrency = (): CurrencyContextType => {
+    const context = useContext(CurrencyContext);
+    if (context === undefined) {
+        throw new Error('useCurrency must be used within a CurrencyProvider');
+    }
+    return context;
+};
@@ -0,0 +1,314 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { expenseStore } from '../services/expenseStore';
+import { recurringExpenses as recurringGenerator } from '../services/recurringExpenses';
+import { Expense, ExpenseFormData, DEFAULT_CURRENCY } from '../types';
+import { debug } from '../utils/debug';
+import { expenseSelectors, CategoryTotal } from '../utils/expenseSelectors';
+import { recurrence } from '../utils/recurrence';
+import { useAuth } from './AuthContext';
+import { useCurrency } from './CurrencyContext';
+import { useCategories } from './CategoriesContext';
+
+interface ExpensesContextType {
+    expenses: Expense[];
+    isLoading: boolean;
+    refreshExpenses: () => Promise<void>;
+    // Older pages come from the server as the list scrolls; false once the last one has arrived
+    hasMoreExpenses: boolean;
+    loadMoreExpenses: () => Promise<void>;
+    invalidate: () => void;
+    getExpense: (expenseId: string) => Promise<Expense>;
+    createExpense: (expenseData: ExpenseFormData) => Promise<Expense>;
+    // Creates each row in turn; rows that fail are reported back rather than stopping the batch
+    importExpenses: (rows: ExpenseFormData[]) => Promise<{ created: Expense[]; failed: ExpenseFormData[] }>;
+    updateExpense: (expenseId: string, expenseData: Partial<ExpenseFormData>) => Promise<Expense>;
+    deleteExpense: (expenseId: string) => Promise<void>;
+    // Re-tags every expense filed under one of the names; returns how many changed
+    recategorizeExpenses: (fromNames: string[], to: string) => Promise<number>;
+    getExpensesByMonth: (year: number, month: number) => Expense[];
+    getExpensesByCategory: (category: string) => Expense[];
+    getExpensesInRange: (start: Date, end: Date) => Expense[];
+    getCategoryTotals: (expenses?: Expense[]) => CategoryTotal[];
+    // Drill-down of one category; '' stands for expenses without a subcategory
+    getSubcategoryTotals: (category: string, expenses?: Expense[]) => CategoryTotal[];
+    recurringExpenses: Expense[];
+    generateRecurringExpenses: () => Promise<number>;
+}
+
+const ExpensesContext = createContext<ExpensesContextType | undefined>(undefined);
+
+interface ExpensesProviderProps {
+    children: ReactNode;
+}
+
+// Validate and normalize raw store data so every screen sees the same shape
+const normalizeExpenses = (data: Expense[]): Expense[] => {
+    const normalized = data.map((expense, index) => {
+        const validation = debug.validateExpense(expense);
+        if (!validation.isValid) {
+            debug.warn('ExpensesContext', `Invalid expense at index ${index}:`, validation.issues);
+        }
+        return debug.normalizeExpense(expense);
+    }).filter(expense => expense && expense.id); // Filter out invalid expenses
+
+    return expenseSelectors.sortByDateDesc(normalized);
+};
+
+export const ExpensesProvider: React.FC<ExpensesProviderProps> = ({ children }) => {
+    const { user } = useAuth();
+    const { convert, homeCurrency, rates } = useCurrency();
+    const { categories, resolveName } = useCategories();
+    const [expenses, setExpenses] = useState<Expense[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [hasMoreExpenses, setHasMoreExpenses] = useState(true);
+    // Page 1 arrives with every refresh
+    const nextPage = useRef(2);
+    const isLoadingMore = useRef(false);
+    const userIdRef = useRef<string | undefined>(user?.id);
+    userIdRef.current = user?.id;
+
+    useEffect(() => {
+        setExpenses([]);
+        setHasMoreExpenses(true);
+        nextPage.current = 2;
+        if (!user?.id) {
+            setIsLoading(false);
+            return;
+        }
+
+        // Materialize recurring charges that fell due while the app was closed
+        loadExpenses(user.id).then(() => generateRecurring(user.id));
+
+        // Keep the list in step with background refreshes and sync results
+        const unsubscribe = expenseStore.subscribe((userId) => {
+            if (userId === userIdRef.current) {
+                expenseStore.getCachedExpenses(userId).then(data => {
+                    if (userId === userIdRef.current) {
+                        setExpenses(normalizeExpenses(data));
+                    }
+                });
+            }
+        });
+        const stopAutoSync = expenseStore.startAutoSync(user.id);
+
+        return () => {
+            unsubscribe();
+            stopAutoSync();
+        };
+    }, [user?.id]);
+
+    const loadExpenses = async (userId: string) => {
+        try {
+            setIsLoading(true);
+            const data = await expenseStore.loadExpenses(userId);
+            if (userId === userIdRef.current) {
+                setExpenses(normalizeExpenses(data));
+            }
+        } catch (error) {
+            debug.error('ExpensesContext', 'Error loading expenses:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const generateRecurring = async (userId: string): Promise<number> => {
+        try {
+            return await recurringGenerator.generateDue(userId);
+        } catch (error) {
+            debug.error('ExpensesContext', 'Error generating recurring expenses:', error);
+            return 0;
+        }
+    };
+
+    // Totals everywhere are in the home currency; the original amount stays on the expense.
+    // Categories are shown under their current name even if the expense predates a rename.
+    const convertedExpenses = useMemo(() => expenses.map(expense => {
+        const category = expense.category ? resolveName(expense.category) : expense.category;
+        const splits = expense.splits?.map(split => ({ ...split, category: resolveName(split.category) }));
+        const convertedAmount = convert(expense.amount, expense.currency || DEFAULT_CURRENCY);
+        if (convertedAmount === null) {
+            debug.warn('ExpensesContext', `No exchange rate for ${expense.currency} to ${homeCurrency}`);
+            return { ...expense, category, splits };
+        }
+        return { ...expense, category, splits, convertedAmount };
+    }), [expenses, rates, homeCurrency, categories]);
+
+    const requireUserId = (): string => {
+        if (!user?.id) {
+            throw new Error('User not authenticated');
+        }
+        return user.id;
+    };
+
+    // Push pending changes and pull the server state; errors reach the caller
+    const refreshExpenses = async () => {
+        const userId = requireUserId();
+        const { hasMore } = await expenseStore.refresh(userId);
+        const data = await expenseStore.getCachedExpenses(userId);
+        if (userId === userIdRef.current) {
+            setExpenses(normalizeExpenses(data));
+            nextPage.current = 2;
+            setHasMoreExpenses(hasMore);
+        }
+    };
+
+    // Fetch the next server page into the cache; a failure stops paging until the next refresh
+    const loadMoreExpenses = async () => {
+        const userId = requireUserId();
+        if (!hasMoreExpenses || isLoadingMore.current) return;
+
+        isLoadingMore.current = true;
+        try {
+            const result = await expenseStore.fetchPage(userId, nextPage.current);
+            const data = await expenseStore.getCachedExpenses(userId);
+            if (userId === userIdRef.current) {
+                setExpenses(normalizeExpenses(data));
+                nextPage.current = result.page + 1;
+                setHasMoreExpenses(result.hasMore);
+            }
+        } catch (error) {
+            setHasMoreExpenses(false);
+            throw error;
+        } finally {
+            isLoadingMore.current = false;
+        }
+    };
+
+    // Mark the list stale and refetch in the background
+    const invalidate = () => {
+        if (!user?.id) return;
+        refreshExpenses().catch(error => {
+            debug.warn('ExpensesContext', 'Refresh after invalidate failed', error);
+        });
+    };
+
+    const getExpense = async (expenseId: string): Promise<Expense> => {
+        const cached = convertedExpenses.find(expense => expense.id === expenseId);
+        if (cached) {
+            return cached;
+        }
+        return debug.normalizeExpense(await expenseStore.getExpense(requireUserId(), expenseId));
+    };
+
+    // Optimistic updates: the list changes first and rolls back if the local write fails
+    const applyOptimistic = async <T,>(update: (current: Expense[]) => Expense[], action: () => Promise<T>): Promise<T> => {
+        const previous = expenses;
+        setExpenses(current => update(current));
+        try {
+            return await action();
+        } catch (error) {
+            setExpenses(previous);
+            throw error;
+        }
+    };
+
+    const createExpense = async (expenseData: ExpenseFormData): Promise<Expense> => {
+        const userId = requireUserId();
+        const created = await expenseStore.createExpense({ ...expenseData, userId });
+        setExpenses(current => normalizeExpenses([created, ...current.filter(expense => expense.id !== created.id)]));
+        return created;
+    };
+
+    const importExpenses = async (rows: ExpenseFormData[]) => {
+        const userId = requireUserId();
+        const created: Expense[] = [];
+        const failed: ExpenseFormData[] = [];
+        for (const row of rows) {
+            try {
+                created.push(await expenseStore.createExpense({ ...row, userId }));
+            } catch (error) {
+                debug.error('ExpensesContext', 'Error importing expense:', error);
+                failed.push(row);
+            }
+        }
+
+        const createdIds = new Set(created.map(expense => expense.id));
+        setExpenses(current => normalizeExpenses([...created, ...current.filter(expense => !createdIds.has(expense.id))]));
+        return { created, failed };
+    };
+
+    const updateExpense = async (expenseId: string, expenseData: Partial<ExpenseFormData>): Promise<Expense> => {
+        const userId = requireUserId();
+        return applyOptimistic(
+            current => current.map(expense => expense.id === expenseId
+                ? debug.normalizeExpense({
+                    ...expense,
+                    ...expenseData,
+                    amount: expenseData.amount !== undefined ? expenseData.amount : expense.amount,
+                    pendingSync: true,
+                    syncFailed: false,
+                })
+                : expense),
+            () => expenseStore.updateExpense(userId, expenseId, expenseData)
+        );
+    };
+
+    const deleteExpense = async (expenseId: string): Promise<void> => {
+        const userId = requireUserId();
+        return applyOptimistic(
+            current => current.filter(expense => expense.id !== expenseId),
+            () => expenseStore.deleteExpense(userId, expenseId)
+        );
+    };
+
+    const recategorizeExpenses = async (fromNames: string[], to: string): Promise<number> => {
+        const userId = requireUserId();
+        const from = new Set(fromNames.map(name => name.toLowerCase()));
+        const matches = (category?: string) => !!category && from.has(category.toLowerCase());
+        const affected = expenses.filter(expense =>
+            matches(expense.category) || (expense.splits || []).some(split => matches(split.category)));
+
+        // Split lines move along with the expense's own category
+        const changes = new Map(affected.map(expense => [expense.id, {
+            category: matches(expense.category) ? to : expense.category || '',
+            ...(expense.splits && {
+                splits: expense.splits.map(split => (matches(split.category) ? { ...split, category: to } : split)),
+            }),
+        }]));
+        for (const [expenseId, change] of changes) {
+            await expenseStore.updateExpense(userId, expenseId, change);
+        }
+        if (affected.length > 0) {
+            setExpenses(current => current.map(expense => (changes.has(expense.id)
+                ? { ...expense, ...changes.get(expense.id), pendingSync: true }
+                : expense)));
+        }
+        return affected.length;
+    };
+
+    const value: ExpensesContextType = {
+        expenses: convertedExpenses,
+        isLoading,
+        refreshExpenses,
+        hasMoreExpenses,
+        loadMoreExpenses,
+        invalidate,
+        getExpense,
+        createExpense,
+        importExpenses,
+        updateExpense,
+        deleteExpense,
+        recategorizeExpenses,
+        getExpensesByMonth: (year, month) => expenseSelectors.byMonth(convertedExpenses, year, month),
+        getExpensesByCategory: (category) => expenseSelectors.byCategory(convertedExpenses, category),
+        getExpensesInRange: (start, end) => expenseSelectors.byDateRange(convertedExpenses, start, end),
+        getCategoryTotals: (subset = convertedExpenses) => expenseSelectors.categoryTotals(subset),
+        getSubcategoryTotals: (category, subset = convertedExpenses) => expenseSelectors.subcategoryTotals(subset, category),
+        recurringExpenses: recurrence.templates(convertedExpenses),
+        generateRecurringExpenses: async () => generateRecurring(requireUserId()),
+    };
+
+    return (
+        <ExpensesContext.Provider value={value}>
+            {children}
+        </ExpensesContext.Provider>
+    );
+};
+
+export const useExpenses = (): ExpensesContextType => {
+    const context = useContext(ExpensesContext);
+    if (context === undefined) {
+        throw new Error('useExpenses must be used within an ExpensesProvider');
+    }
+    return context;
+};
@@ -0,0 +1,185 @@
+import React, { createContext, useContext, useEffect, useRef, useState, ReactNode } from 'react';
+import { goalAPI } from '../services/api';
+import { GoalContribution, GoalFormData, SavingsGoal } from '../types';
+import { debug } from '../utils/debug';
+import { storage } from '../utils/storage';
+import { goalProgress } from '../utils/goalProgress';
+import { useAuth } from './AuthContext';
+import { useCurrency } from './CurrencyContext';
+
+export type ContributionDraft = Pick<GoalContribution, 'amount' | 'date' | 'note'>;
+
+interface GoalsContextType {
+    // Soonest deadline first, finished goals last
+    goals: SavingsGoal[];
+    isLoading: boolean;
+    refreshGoals: () => Promise<void>;
+    getGoal: (goalId: string) => SavingsGoal | undefined;
+    // New goals are kept in the home currency at the time they're created
+    createGoal: (goalData: GoalFormData) => Promise<SavingsGoal>;
+    updateGoal: (goalId: string, goalData: GoalFormData) => Promise<SavingsGoal>;
+    deleteGoal: (goalId: string) => Promise<void>;
+    addContribution: (goalId: string, contribution: ContributionDraft) => Promise<SavingsGoal>;
+    removeContribution: (goalId: string, contributionId: string) => Promise<SavingsGoal>;
+}
+
+const GoalsContext = createContext<GoalsContextType | undefined>(undefined);
+
+interface GoalsProviderProps {
+    children: ReactNode;
+}
+
+const normalizeGoals = (data: SavingsGoal[]): SavingsGoal[] =>
+    goalProgress.sort(data.map(goal => debug.normalizeGoal(goal)).filter(goal => goal.id));
+
+// Like income, goals are edited online and cached so progress stays visible offline
+export const GoalsProvider: React.FC<GoalsProviderProps> = ({ children }) => {
+    const { user } = useAuth();
+    const { homeCurrency } = useCurrency();
+    const [goals, setGoals] = useState<SavingsGoal[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const userIdRef = useRef<string | undefined>(user?.id);
+    userIdRef.current = user?.id;
+
+    useEffect(() => {
+        setGoals([]);
+        if (!user?.id) {
+            setIsLoading(false);
+            return;
+        }
+        loadGoals(user.id);
+    }, [user?.id]);
+
+    const loadGoals = async (userId: string) => {
+        try {
+            setIsLoading(true);
+            const cached = await storage.getCachedGoals(userId);
+            if (cached && userId === userIdRef.current) {
+                setGoals(normalizeGoals(cached));
+            }
+            await fetchGoals(userId);
+        } catch (error) {
+            debug.error('GoalsContext', 'Error loading goals:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const fetchGoals = async (userId: string) => {
+        const data = normalizeGoals(await goalAPI.getUserGoals(userId));
+        await storage.setCachedGoals(userId, data);
+        if (userId === userIdRef.current) {
+            setGoals(data);
+        }
+    };
+
+    const requireUserId = (): string => {
+        if (!user?.id) {
+            throw new Error('User not authenticated');
+        }
+        return user.id;
+    };
+
+    const getGoal = (goalId: string) => goals.find(goal => goal.id === goalId);
+
+    const requireGoal = (goalId: string): SavingsGoal => {
+        const goal = getGoal(goalId);
+        if (!goal) {
+            throw new Error('Goal not found');
+        }
+        return goal;
+    };
+
+    // Keeps state and the offline copy in step after a successful write
+    const commit = async (userId: string, update: (current: SavingsGoal[]) => SavingsGoal[]) => {
+        const next = normalizeGoals(update(goals));
+        setGoals(next);
+        await storage.setCachedGoals(userId, next);
+    };
+
+    const replace = async (userId: string, saved: SavingsGoal) => {
+        const goal = debug.normalizeGoal(saved);
+        await commit(userId, current => [goal, ...current.filter(existing => existing.id !== goal.id)]);
+        return goal;
+    };
+
+    const refreshGoals = async () => {
+        await fetchGoals(requireUserId());
+    };
+
+    const createGoal = async (goalData: GoalFormData) => {
+        const userId = requireUserId();
+        return replace(userId, await goalAPI.createGoal({
+            name: goalData.name.trim(),
+            targetAmount: parseFloat(goalData.targetAmount),
+            targetDate: goalData.targetDate,
+            currency: homeCurrency,
+            contributions: [],
+            userId,
+        }));
+    };
+
+    const updateGoal = async (goalId: string, goalData: GoalFormData) => {
+        const userId = requireUserId();
+        return replace(userId, await goalAPI.updateGoal(goalId, {
+            name: goalData.name.trim(),
+            targetAmount: parseFloat(goalData.targetAmount),
+            targetDate: goalData.targetDate,
+        }));
+    };
+
+    const deleteGoal = async (goalId: string) => {
+        const userId = requireUserId();
+        await goalAPI.deleteGoal(goalId);
+        await commit(userId, current => current.filter(goal => goal.id !== goalId));
+    };
+
+    const addContribution = async (goalId: string, draft: ContributionDraft) => {
+        const userId = requireUserId();
+        const goal = requireGoal(goalId);
+        const contribution: GoalContribution = {
+            id: `contribution_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+            amount: draft.amount,
+            date: draft.date,
+            ...(draft.note && { note: draft.note }),
+            createdAt: new Date().toISOString(),
+        };
+        return replace(userId, await goalAPI.updateGoal(goalId, {
+            contributions: [contribution, ...goal.contributions],
+        }));
+    };
+
+    const removeContribution = async (goalId: string, contributionId: string) => {
+        const userId = requireUserId();
+        const goal = requireGoal(goalId);
+        return replace(userId, await goalAPI.updateGoal(goalId, {
+            contributions: goal.contributions.filter(contribution => contribution.id !== contributionId),
+        }));
+    };
+
+    const value: GoalsContextType = {
+        goals,
+        isLoading,
+        refreshGoals,
+        getGoal,
+        createGoal,
+        updateGoal,
+        deleteGoal,
+        addContribution,
+        removeContribution,
+    };
+
+    return (
+        <GoalsContext.Provider value={value}>
+            {children}
+        </GoalsContext.Provider>
+    );
+};
+
+export const useGoals = (): GoalsContextType => {
+    const context = useContext(GoalsContext);
+    if (context === undefined) {
+        throw new Error('useGoals must be used within a GoalsProvider');
+    }
+    return context;
+};
@@ -0,0 +1,182 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { ExpenseGroup, GroupExpense, GroupMember, GroupSettlement } from '../types';
+import { groupAPI } from '../services/api';
+import { groupLedger, GroupTransfer } from '../utils/groupLedger';
+import { useAuth } from './AuthContext';
+import { useCurrency } from './CurrencyContext';
+
+export type GroupExpenseDraft = Pick<GroupExpense, 'title' | 'amount' | 'paidBy' | 'splitMethod' | 'shares' | 'date'>;
+
+export interface GroupLedger {
+    expenses: GroupExpense[];
+    settlements: GroupSettlement[];
+}
+
+interface GroupsContextType {
+    groups: ExpenseGroup[];
+    isLoading: boolean;
+    refreshGroups: () => Promise<void>;
+    getGroup: (groupId: string) => ExpenseGroup | undefined;
+    // The signed-in user is always a member of groups they create
+    createGroup: (name: string, members: GroupMember[]) => Promise<ExpenseGroup>;
+    addMembers: (groupId: string, members: GroupMember[]) => Promise<void>;
+    // Expenses and settlements of groups loaded so far, by group id
+    ledgers: { [groupId: string]: GroupLedger };
+    loadLedger: (groupId: string) => Promise<GroupLedger>;
+    addExpense: (groupId: string, draft: GroupExpenseDraft) => Promise<GroupExpense>;
+    deleteExpense: (groupId: string, expenseId: string) => Promise<void>;
+    recordSettlement: (groupId: string, transfer: GroupTransfer) => Promise<GroupSettlement>;
+    // Positive when the group owes the member; empty until the ledger has loaded
+    getBalances: (groupId: string) => { [memberId: string]: number };
+}
+
+const GroupsContext = createContext<GroupsContextType | undefined>(undefined);
+
+interface GroupsProviderProps {
+    children: ReactNode;
+}
+
+// Groups are shared with other users, so they live on the server only and need a connection
+export const GroupsProvider: React.FC<GroupsProviderProps> = ({ children }) => {
+    const { user } = useAuth();
+    const { homeCurrency } = useCurrency();
+    const [groups, setGroups] = useState<ExpenseGroup[]>([]);
+    const [ledgers, setLedgers] = useState<{ [groupId: string]: GroupLedger }>({});
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        setGroups([]);
+        setLedgers({});
+        if (user?.id) {
+            refreshGroups().catch(error => {
+                console.error('Error loading groups:', error);
+            });
+        }
+    }, [user?.id]);
+
+    const requireUser = () => {
+        if (!user?.id) {
+            throw new Error('User not authenticated');
+        }
+        return user;
+    };
+
+    const refreshGroups = async () => {
+        const current = requireUser();
+        setIsLoading(true);
+        try {
+            setGroups(await groupAPI.getUserGroups(current.id));
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const getGroup = (groupId: string) => groups.find(group => group.id === groupId);
+
+    const createGroup = async (name: string, members: GroupMember[]) => {
+        const current = requireUser();
+        const self: GroupMember = { id: current.id, username: current.username, ...(current.name && { name: current.name }) };
+        const everyone = [self, ...members.filter(member => member.id !== current.id)];
+        const group = await groupAPI.createGroup({
+            name: name.trim(),
+            currency: homeCurrency,
+            members: everyone,
+            memberIds: everyone.map(member => member.id),
+            createdBy: current.id,
+        });
+        setGroups(prev => [...prev, group]);
+        setLedgers(prev => ({ ...prev, [group.id]: { expenses: [], settlements: [] } }));
+        return group;
+    };
+
+    const addMembers = async (groupId: string, members: GroupMember[]) => {
+        const group = getGroup(groupId);
+        if (!group) {
+            throw new Error('Group not found');
+        }
+        const added = members.filter(member => !group.memberIds.includes(member.id));
+        if (added.length === 0) return;
+        const updated = await groupAPI.updateGroup(groupId, {
+            members: [...group.members, ...added],
+            memberIds: [...group.memberIds, ...added.map(member => member.id)],
+        });
+        await groupAPI.addMemberships(groupId, added.map(member => member.id));
+        setGroups(prev => prev.map(existing => (existing.id === groupId ? updated : existing)));
+    };
+
+    const loadLedger = async (groupId: string) => {
+        const [expenses, settlements] = await Promise.all([
+            groupAPI.getExpenses(groupId),
+            groupAPI.getSettlements(groupId),
+        ]);
+        const ledger = { expenses, settlements };
+        setLedgers(prev => ({ ...prev, [groupId]: ledger }));
+        return ledger;
+    };
+
+    const updateLedger = (groupId: string, change: (ledger: GroupLedger) => GroupLedger) => {
+        setLedgers(prev => ({ ...prev, [groupId]: change(prev[groupId] || { expenses: [], settlements: [] }) }));
+    };
+
+    const addExpense = async (groupId: string, draft: GroupExpenseDraft) => {
+        const current = requireUser();
+        const expense = await groupAPI.createExpense(groupId, { ...draft, createdBy: current.id });
+        updateLedger(groupId, ledger => ({ ...ledger, expenses: [expense, ...ledger.expenses] }));
+        return expense;
+    };
+
+    const deleteExpense = async (groupId: string, expenseId: string) => {
+        await groupAPI.deleteExpense(groupId, expenseId);
+        updateLedger(groupId, ledger => ({
+            ...ledger,
+            expenses: ledger.expenses.filter(expense => expense.id !== expenseId),
+        }));
+    };
+
+    const recordSettlement = async (groupId: string, transfer: GroupTransfer) => {
+        const current = requireUser();
+        const settlement = await groupAPI.createSettlement(groupId, {
+            ...transfer,
+            date: new Date().toISOString().split('T')[0],
+            createdBy: current.id,
+        });
+        updateLedger(groupId, ledger => ({ ...ledger, settlements: [settlement, ...ledger.settlements] }));
+        return settlement;
+    };
+
+    const getBalances = (groupId: string) => {
+        const group = getGroup(groupId);
+        const ledger = ledgers[groupId];
+        if (!group || !ledger) return {};
+        return groupLedger.balances(group.memberIds, ledger.expenses, ledger.settlements);
+    };
+
+    const value: GroupsContextType = {
+        groups,
+        isLoading,
+        refreshGroups,
+        getGroup,
+        createGroup,
+        addMembers,
+        ledgers,
+        loadLedger,
+        addExpense,
+        deleteExpense,
+        recordSettlement,
+        getBalances,
+    };
+
+    return (
+        <GroupsContext.Provider value={value}>
+            {children}
+        </GroupsContext.Provider>
+    );
+};
+
+export const useGroups = (): GroupsContextType => {
+    const context = useContext(GroupsContext);
+    if (context === undefined) {
+        throw new Error('useGroups must be used within a GroupsProvider');
+    }
+    return context;
+};
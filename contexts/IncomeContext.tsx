@@ -0,0 +1,152 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, ReactNode } from 'react';
+import { incomeAPI } from '../services/api';
+import { Income, IncomeFormData, DEFAULT_CURRENCY } from '../types';
+import { debug } from '../utils/debug';
+import { storage } from '../utils/storage';
+import { cashFlow } from '../utils/cashFlow';
+import { useAuth } from './AuthContext';
+import { useCurrency } from './CurrencyContext';
+
+interface IncomeContextType {
+    income: Income[];
+    isLoading: boolean;
+    refreshIncome: () => Promise<void>;
+    getIncome: (incomeId: string) => Income | undefined;
+    createIncome: (incomeData: IncomeFormData) => Promise<Income>;
+    updateIncome: (incomeId: string, incomeData: Partial<IncomeFormData>) => Promise<Income>;
+    deleteIncome: (incomeId: string) => Promise<void>;
+    getIncomeByMonth: (year: number, month: number) => Income[];
+}
+
+const IncomeContext = createContext<IncomeContextType | undefined>(undefined);
+
+interface IncomeProviderProps {
+    children: ReactNode;
+}
+
+// Same validation and normalization the expense list goes through
+const normalizeIncome = (data: Income[]): Income[] => {
+    const normalized = data.map((entry, index) => {
+        const validation = debug.validateIncome(entry);
+        if (!validation.isValid) {
+            debug.warn('IncomeContext', `Invalid income at index ${index}:`, validation.issues);
+        }
+        return debug.normalizeIncome(entry);
+    }).filter(entry => entry && entry.id);
+
+    return cashFlow.sortByDateDesc(normalized);
+};
+
+// Income is edited online; the cached copy keeps the list and cash flow readable offline
+export const IncomeProvider: React.FC<IncomeProviderProps> = ({ children }) => {
+    const { user } = useAuth();
+    const { convert, homeCurrency, rates } = useCurrency();
+    const [income, setIncome] = useState<Income[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const userIdRef = useRef<string | undefined>(user?.id);
+    userIdRef.current = user?.id;
+
+    useEffect(() => {
+        setIncome([]);
+        if (!user?.id) {
+            setIsLoading(false);
+            return;
+        }
+        loadIncome(user.id);
+    }, [user?.id]);
+
+    const loadIncome = async (userId: string) => {
+        try {
+            setIsLoading(true);
+            const cached = await storage.getCachedIncome(userId);
+            if (cached && userId === userIdRef.current) {
+                setIncome(normalizeIncome(cached));
+            }
+            await fetchIncome(userId);
+        } catch (error) {
+            debug.error('IncomeContext', 'Error loading income:', error);
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const fetchIncome = async (userId: string) => {
+        const data = normalizeIncome(await incomeAPI.getUserIncome(userId));
+        await storage.setCachedIncome(userId, data);
+        if (userId === userIdRef.current) {
+            setIncome(data);
+        }
+    };
+
+    const convertedIncome = useMemo(() => income.map(entry => {
+        const convertedAmount = convert(entry.amount, entry.currency || DEFAULT_CURRENCY);
+        if (convertedAmount === null) {
+            debug.warn('IncomeContext', `No exchange rate for ${entry.currency} to ${homeCurrency}`);
+            return entry;
+        }
+        return { ...entry, convertedAmount };
+    }), [income, rates, homeCurrency]);
+
+    const requireUserId = (): string => {
+        if (!user?.id) {
+            throw new Error('User not authenticated');
+        }
+        return user.id;
+    };
+
+    // Keeps state and the offline copy in step after a successful write
+    const commit = async (userId: string, update: (current: Income[]) => Income[]) => {
+        const next = normalizeIncome(update(income));
+        setIncome(next);
+        await storage.setCachedIncome(userId, next);
+    };
+
+    const refreshIncome = async () => {
+        await fetchIncome(requireUserId());
+    };
+
+    const createIncome = async (incomeData: IncomeFormData): Promise<Income> => {
+        const userId = requireUserId();
+        const created = debug.normalizeIncome(await incomeAPI.createIncome({ ...incomeData, userId }));
+        await commit(userId, current => [created, ...current.filter(entry => entry.id !== created.id)]);
+        return created;
+    };
+
+    const updateIncome = async (incomeId: string, incomeData: Partial<IncomeFormData>): Promise<Income> => {
+        const userId = requireUserId();
+        const updated = debug.normalizeIncome(await incomeAPI.updateIncome(incomeId, incomeData));
+        await commit(userId, current => current.map(entry => (entry.id === incomeId ? updated : entry)));
+        return updated;
+    };
+
+    const deleteIncome = async (incomeId: string): Promise<void> => {
+        const userId = requireUserId();
+        await incomeAPI.deleteIncome(incomeId);
+        await commit(userId, current => current.filter(entry => entry.id !== incomeId));
+    };
+
+    const value: IncomeContextType = {
+        income: convertedIncome,
+        isLoading,
+        refreshIncome,
+        getIncome: (incomeId) => convertedIncome.find(entry => entry.id === incomeId),
+        createIncome,
+        updateIncome,
+        deleteIncome,
+        getIncomeByMonth: (year, month) => cashFlow.byMonth(convertedIncome, year, month),
+    };
+
+    return (
+        <IncomeContext.Provider value={value}>
+            {children}
+        </IncomeContext.Provider>
+    );
+};
+
+export const useIncome = (): IncomeContextType => {
+    const context = useContext(IncomeContext);
+    if (context === undefined) {
+        throw new Error('useIncome must be used within an IncomeProvider');
+    }
+    return context;
+};
@@ -0,0 +1,259 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { expenseStore, isLocalExpenseId } from '../expenseStore';
+import { ApiError, expenseAPI } from '../api';
+import { storage } from '../../utils/storage';
+import { Expense, ExpenseFormData, SyncOperation } from '../../types';
+
+// Every storage call yields to the event loop, like AsyncStorage does, so interleavings actually happen
+const tick = () => new Promise(resolve => setTimeout(resolve, 0));
+const memory: { expenses: { [userId: string]: Expense[] }; queue: { [userId: string]: SyncOperation[] } } = {
+  expenses: {},
+  queue: {},
+};
+
+jest.mock('../../utils/storage', () => ({
+  storage: {
+    getCachedExpenses: jest.fn(async (userId: string) => {
+      await tick();
+      return memory.expenses[userId] ? JSON.parse(JSON.stringify(memory.expenses[userId])) : null;
+    }),
+    setCachedExpenses: jest.fn(async (userId: string, expenses: Expense[]) => {
+      await tick();
+      memory.expenses[userId] = JSON.parse(JSON.stringify(expenses));
+    }),
+    getSyncQueue: jest.fn(async (userId: string) => {
+      await tick();
+      return JSON.parse(JSON.stringify(memory.queue[userId] || []));
+    }),
+    setSyncQueue: jest.fn(async (userId: string, queue: SyncOperation[]) => {
+      await tick();
+      memory.queue[userId] = JSON.parse(JSON.stringify(queue));
+    }),
+  },
+}));
+
+jest.mock('../api', () => {
+  const actual = jest.requireActual<typeof import('../api')>('../api');
+  return {
+    ApiError: actual.ApiError,
+    expenseAPI: {
+      getUserExpenses: jest.fn(),
+      getExpense: jest.fn(),
+      createExpense: jest.fn(),
+      updateExpense: jest.fn(),
+      deleteExpense: jest.fn(),
+    },
+  };
+});
+
+jest.mock('../receiptStore', () => ({
+  receiptStore: {
+    remove: jest.fn(async () => undefined),
+    removeDropped: jest.fn(async () => undefined),
+  },
+}));
+
+const USER_ID = 'user_1';
+const mockedAPI = expenseAPI as jest.Mocked<typeof expenseAPI>;
+
+const row = (index: number): ExpenseFormData => ({
+  title: `Statement row ${index}`,
+  amount: `${index + 1}.00`,
+  category: 'Other',
+  date: '2026-10-01',
+});
+
+const drain = async () => {
+  while ((await storage.getSyncQueue(USER_ID)).length > 0) {
+    await expenseStore.syncPending(USER_ID);
+  }
+};
+
+describe('expenseStore', () => {
+  let serverId = 0;
+
+  beforeEach(() => {
+    memory.expenses = {};
+    memory.queue = {};
+    serverId = 0;
+    jest.clearAllMocks();
+    mockedAPI.createExpense.mockImplementation(async (data) => {
+      // Slow enough that later rows are queued while this one is in flight
+      await tick();
+      await tick();
+      serverId += 1;
+      const now = new Date().toISOString();
+      return { ...data, id: `server_${serverId}`, amount: parseFloat(data.amount), createdAt: now, updatedAt: now };
+    });
+    mockedAPI.getUserExpenses.mockResolvedValue({ expenses: [], page: 1, hasMore: false });
+  });
+
+  it('sends every create queued while a sync is in flight', async () => {
+    // The same sequence importExpenses runs: one create after another, each kicking off a sync
+    for (let index = 0; index < 20; index++) {
+      await expenseStore.createExpense({ ...row(index), userId: USER_ID });
+    }
+    await drain();
+
+    expect(mockedAPI.createExpense).toHaveBeenCalledTimes(20);
+    const cached = await expenseStore.getCachedExpenses(USER_ID);
+    expect(cached).toHaveLength(20);
+    expect(cached.some(expense => isLocalExpenseId(expense.id))).toBe(false);
+    expect(cached.every(expense => !expense.pendingSync)).toBe(true);
+  });
+
+  it('keeps creates made in parallel with a running sync', async () => {
+    await expenseStore.createExpense({ ...row(0), userId: USER_ID });
+    const sync = expenseStore.syncPending(USER_ID);
+    await Promise.all(Array.from({ length: 10 }, (_, index) =>
+      expenseStore.createExpense({ ...row(index + 1), userId: USER_ID })));
+    await sync;
+    await drain();
+
+    expect(mockedAPI.createExpense).toHaveBeenCalledTimes(11);
+    expect(await expenseStore.getCachedExpenses(USER_ID)).toHaveLength(11);
+  });
+
+  it('merges each server page into the cache without dropping other pages', async () => {
+    const synced = (id: string, date: string): Expense => ({
+      id, title: id, amount: 1, category: 'Other', date, userId: USER_ID, createdAt: `${date}T12:00:00.000Z`,
+    });
+    memory.expenses[USER_ID] = [
+      synced('deleted_elsewhere', '2026-10-03'),
+      synced('older', '2026-08-01'),
+      synced('oldest_gone', '2026-06-01'),
+    ];
+    mockedAPI.getUserExpenses.mockResolvedValueOnce({
+      expenses: [synced('newest', '2026-10-05'), synced('mid', '2026-09-15')],
+      page: 1,
+      hasMore: true,
+    });
+
+    const first = await expenseStore.refresh(USER_ID);
+    expect(first.hasMore).toBe(true);
+    expect((await expenseStore.getCachedExpenses(USER_ID)).map(expense => expense.id))
+      .toEqual(['newest', 'mid', 'older', 'oldest_gone']);
+
+    mockedAPI.getUserExpenses.mockResolvedValueOnce({ expenses: [synced('older', '2026-08-01')], page: 2, hasMore: false });
+    const second = await expenseStore.fetchPage(USER_ID, 2);
+    expect(second.expenses.map(expense => expense.id)).toEqual(['older']);
+    expect(mockedAPI.getUserExpenses).toHaveBeenLastCalledWith(USER_ID, { page: 2, limit: 20 });
+    expect((await expenseStore.getCachedExpenses(USER_ID)).map(expense => expense.id))
+      .toEqual(['newest', 'mid', 'older']);
+  });
+
+  describe('while a refresh is waiting on the server', () => {
+    const synced = (id: string, title: string): Expense => ({
+      id, title, amount: 1, category: 'Other', date: '2026-10-01', userId: USER_ID,
+      createdAt: '2026-10-01T12:00:00.000Z', updatedAt: '2026-10-01T12:00:00.000Z',
+    });
+
+    // Starts a refresh whose fetch only answers once released; resolves once the request is out
+    const refreshHeldOpen = async (expenses: Expense[]) => {
+      let release: () => void = () => undefined;
+      let requested: () => void = () => undefined;
+      const held = new Promise<void>(resolve => {
+        release = resolve;
+      });
+      const sent = new Promise<void>(resolve => {
+        requested = resolve;
+      });
+      mockedAPI.getUserExpenses.mockImplementationOnce(async () => {
+        requested();
+        await held;
+        return { expenses, page: 1, hasMore: false };
+      });
+      const refresh = expenseStore.refresh(USER_ID);
+      await sent;
+      return async () => {
+        release();
+        await refresh;
+      };
+    };
+
+    const cachedTitles = async () => (await expenseStore.getCachedExpenses(USER_ID)).map(expense => expense.title);
+
+    it('keeps an expense created and synced before the response arrives', async () => {
+      const finishRefresh = await refreshHeldOpen([]);
+
+      await expenseStore.createExpense({ ...row(0), userId: USER_ID });
+      await drain();
+      expect((await expenseStore.getCachedExpenses(USER_ID)).map(expense => expense.id)).toEqual(['server_1']);
+
+      await finishRefresh();
+      expect((await expenseStore.getCachedExpenses(USER_ID)).map(expense => expense.id)).toEqual(['server_1']);
+    });
+
+    it('does not bring back an expense deleted before the response arrives', async () => {
+      memory.expenses[USER_ID] = [synced('server_9', 'Taxi')];
+      mockedAPI.deleteExpense.mockResolvedValue(undefined);
+      const finishRefresh = await refreshHeldOpen([synced('server_9', 'Taxi')]);
+
+      await expenseStore.deleteExpense(USER_ID, 'server_9');
+      await drain();
+
+      await finishRefresh();
+      expect(await cachedTitles()).toEqual([]);
+    });
+
+    it('keeps an edit synced before the response arrives', async () => {
+      memory.expenses[USER_ID] = [synced('server_9', 'Taxi')];
+      mockedAPI.updateExpense.mockImplementation(async (expenseId, data) => ({
+        ...synced(expenseId, data.title || ''),
+        updatedAt: new Date().toISOString(),
+      }));
+      const finishRefresh = await refreshHeldOpen([synced('server_9', 'Taxi')]);
+
+      await expenseStore.updateExpense(USER_ID, 'server_9', { title: 'Taxi to airport' });
+      await drain();
+
+      await finishRefresh();
+      expect(await cachedTitles()).toEqual(['Taxi to airport']);
+    });
+  });
+
+  it('retries an operation the server rate limited', async () => {
+    mockedAPI.createExpense.mockRejectedValueOnce(new ApiError('Too many requests', 429));
+    await expenseStore.createExpense({ ...row(0), userId: USER_ID });
+    await expenseStore.syncPending(USER_ID);
+
+    const [queued] = await storage.getSyncQueue(USER_ID);
+    expect(queued).toEqual(expect.objectContaining({ type: 'create', attempts: 1 }));
+    expect((await expenseStore.getCachedExpenses(USER_ID))[0].pendingSync).toBe(true);
+
+    memory.queue[USER_ID] = memory.queue[USER_ID].map(op => ({ ...op, nextAttemptAt: 0 }));
+    await drain();
+    expect((await expenseStore.getCachedExpenses(USER_ID)).map(expense => expense.id)).toEqual(['server_1']);
+  });
+
+  it('keeps a rejected expense on the device, marked, until it is saved again', async () => {
+    mockedAPI.createExpense.mockRejectedValueOnce(new ApiError('Bad request', 400));
+    const created = await expenseStore.createExpense({ ...row(0), userId: USER_ID });
+    await expenseStore.updateExpense(USER_ID, created.id, { title: 'Renamed' });
+    await drain();
+
+    expect(await storage.getSyncQueue(USER_ID)).toEqual([]);
+    await expenseStore.refresh(USER_ID);
+    const [failed] = await expenseStore.getCachedExpenses(USER_ID);
+    expect(failed).toEqual(expect.objectContaining({ id: created.id, syncFailed: true, pendingSync: false }));
+
+    await expenseStore.updateExpense(USER_ID, created.id, { amount: '9.50' });
+    await drain();
+
+    expect(mockedAPI.createExpense).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'Renamed', amount: '9.5' }));
+    const [saved] = await expenseStore.getCachedExpenses(USER_ID);
+    expect(saved.id).toBe('server_1');
+    expect(saved.syncFailed).toBeFalsy();
+  });
+
+  it('keeps rows created during a refresh', async () => {
+    const refresh = expenseStore.refresh(USER_ID);
+    await expenseStore.createExpense({ ...row(0), userId: USER_ID });
+    await refresh;
+    await drain();
+
+    const cached = await expenseStore.getCachedExpenses(USER_ID);
+    expect(cached.map(expense => expense.title)).toEqual(['Statement row 0']);
+    expect(mockedAPI.createExpense).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import {
+  BudgetAlertSnapshot,
+  BudgetNotification,
+  createNotificationScheduler,
+  NotificationScheduler,
+  NotificationTransport,
+  SentAlertStore,
+} from '../notificationScheduler';
+
+// Only the fakes below are used; the Expo-backed defaults are built at import time
+jest.mock('expo-notifications', () => ({}));
+jest.mock('../../utils/storage', () => ({ storage: {} }));
+
+const USER_ID = 'user_1';
+const MARCH = { start: new Date(2026, 2, 1), end: new Date(2026, 2, 31) };
+const APRIL = { start: new Date(2026, 3, 1), end: new Date(2026, 3, 30) };
+
+const snapshot = (overrides: Partial<BudgetAlertSnapshot> = {}): BudgetAlertSnapshot => ({
+  period: MARCH,
+  periodLabel: 'Monthly',
+  spent: 0,
+  limit: 1000,
+  threshold: 80,
+  categories: [],
+  formatAmount: amount => `$${amount.toFixed(2)}`,
+  ...overrides,
+});
+
+describe('notificationScheduler', () => {
+  let granted: boolean;
+  let sent: BudgetNotification[];
+  let stored: { [userId: string]: string[] };
+  let scheduler: NotificationScheduler;
+
+  const transport: NotificationTransport = {
+    requestPermission: async () => granted,
+    send: async notification => {
+      sent.push(notification);
+    },
+  };
+
+  const sentAlerts: SentAlertStore = {
+    load: async userId => [...(stored[userId] || [])],
+    save: async (userId, alertKeys) => {
+      stored[userId] = [...alertKeys];
+    },
+  };
+
+  const types = () => sent.map(notification => notification.data?.type);
+
+  beforeEach(() => {
+    granted = true;
+    sent = [];
+    stored = {};
+    scheduler = createNotificationScheduler(transport, sentAlerts);
+  });
+
+  it('sends the threshold warning once per period', async () => {
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 850 }))).toBe(1);
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 900 }))).toBe(0);
+    expect(types()).toEqual(['threshold']);
+
+    expect(await scheduler.evaluate(USER_ID, snapshot({ period: APRIL, spent: 850 }))).toBe(1);
+    expect(types()).toEqual(['threshold', 'threshold']);
+  });
+
+  it('forgets alerts from earlier periods', async () => {
+    await scheduler.evaluate(USER_ID, snapshot({ spent: 850 }));
+    await scheduler.evaluate(USER_ID, snapshot({ period: APRIL, spent: 850 }));
+    expect(stored[USER_ID]).toEqual(['2026-04-01|threshold']);
+  });
+
+  it('sends nothing below the threshold', async () => {
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 799 }))).toBe(0);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('lets going over the limit supersede the threshold warning', async () => {
+    await scheduler.evaluate(USER_ID, snapshot({ spent: 1200 }));
+    expect(types()).toEqual(['overLimit']);
+    expect(stored[USER_ID]).toEqual(expect.arrayContaining(['2026-03-01|overLimit', '2026-03-01|threshold']));
+
+    // Dropping back under the limit doesn't bring the earlier warning back
+    await scheduler.evaluate(USER_ID, snapshot({ spent: 900 }));
+    expect(types()).toEqual(['overLimit']);
+  });
+
+  it('still sends over the limit after the threshold warning went out', async () => {
+    await scheduler.evaluate(USER_ID, snapshot({ spent: 850 }));
+    await scheduler.evaluate(USER_ID, snapshot({ spent: 1200 }));
+    expect(types()).toEqual(['threshold', 'overLimit']);
+  });
+
+  it('records nothing without permission so alerts fire once it is granted', async () => {
+    granted = false;
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 1200 }))).toBe(0);
+    expect(sent).toHaveLength(0);
+    expect(stored[USER_ID]).toBeUndefined();
+
+    granted = true;
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 1200 }))).toBe(1);
+    expect(types()).toEqual(['overLimit']);
+  });
+
+  it('sends one alert per category over its limit', async () => {
+    const categories = [
+      { category: 'Food', spent: 320, limit: 300 },
+      { category: 'Travel', spent: 100, limit: 200 },
+      { category: 'Fun', spent: 60, limit: 50 },
+    ];
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 480, categories }))).toBe(2);
+    expect(sent.map(notification => notification.data?.category)).toEqual(['Food', 'Fun']);
+
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 480, categories }))).toBe(0);
+  });
+
+  it('honours each alert type preference on its own', async () => {
+    const categories = [{ category: 'Food', spent: 320, limit: 300 }];
+    const over = snapshot({ spent: 1200, categories });
+
+    await scheduler.evaluate('no_categories', over, { categoryOverLimit: false });
+    expect(types()).toEqual(['overLimit']);
+
+    // With the overspend alert off, the early warning still goes out
+    sent = [];
+    await scheduler.evaluate('no_over_limit', over, { overLimit: false, categoryOverLimit: false });
+    expect(types()).toEqual(['threshold']);
+
+    sent = [];
+    await scheduler.evaluate('categories_only', over, { overLimit: false, threshold: false });
+    expect(types()).toEqual(['categoryOverLimit']);
+  });
+
+  it('keeps alerts that failed to send due for the next run', async () => {
+    const failing = createNotificationScheduler(
+      { ...transport, send: async () => { throw new Error('offline'); } },
+      sentAlerts
+    );
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(await failing.evaluate(USER_ID, snapshot({ spent: 850 }))).toBe(0);
+    expect(await scheduler.evaluate(USER_ID, snapshot({ spent: 850 }))).toBe(1);
+    consoleError.mockRestore();
+  });
+});
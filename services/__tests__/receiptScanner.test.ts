@@ -0,0 +1,26 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { createReceiptScanner, createStaticOcrEngine } from '../receiptScanner';
+
+// ML Kit is a native module; these tests use canned OCR text instead
+jest.mock('@react-native-ml-kit/text-recognition', () => ({}));
+
+describe('receiptScanner', () => {
+  it('parses the text the OCR engine returns', async () => {
+    const scanner = createReceiptScanner(createStaticOcrEngine('LE PETIT CAFE\n14/07/2024\nTOTAL 18,40 EUR'));
+    expect(await scanner.scan('file:///receipt.jpg', 'eu')).toEqual({
+      merchant: 'Le Petit Cafe',
+      total: 18.4,
+      date: '2024-07-14',
+      currency: 'EUR',
+    });
+  });
+
+  it('reads each image\'s own text', async () => {
+    const scanner = createReceiptScanner(createStaticOcrEngine({
+      'file:///a.jpg': 'Shop A\nTotal 1.00',
+      'file:///b.jpg': 'Shop B\nTotal 2.00',
+    }));
+    expect((await scanner.scan('file:///b.jpg')).total).toBe(2);
+    await expect(scanner.scan('file:///c.jpg')).rejects.toThrow('No text recorded for this image');
+  });
+});
@@ -1,8 +1,87 @@
 import axios from 'axios';
-import { User, Expense, ExpenseFormData, BudgetSettings } from '../types';
+import {
+  User,
+  UserRecord,
+  AuthSession,
+  Expense,
+  ExpenseFormData,
+  ExpenseQueryOptions,
+  ExpensePage,
+  BudgetSettings,
+  ExpenseGroup,
+  GroupExpense,
+  GroupMember,
+  GroupMembership,
+  GroupSettlement,
+  Income,
+  IncomeFormData,
+  SavingsGoal,
+  UserProfile,
+} from '../types';
+import { password as passwordHasher } from '../utils/password';
 
 const BASE_URL = 'https://67ac71475853dfff53dab929.mockapi.io/api/v1';
 
+// mockapi filters match substrings, so a query for userId=1 also returns users 10, 11, 21...
+const ownedBy = <T extends { userId?: string }>(rows: T[], userId: string): T[] =>
+  rows.filter(row => row.userId === userId);
+
+// Error carrying the HTTP status, if the server answered at all
+export class ApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+  }
+
+  // True when the request never got a response (offline, timeout, DNS...)
+  get isNetworkError(): boolean {
+    return this.status === undefined;
+  }
+}
+
+const toApiError = (error: unknown, message: string): ApiError => {
+  if (error instanceof ApiError) {
+    return new ApiError(message, error.status);
+  }
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return new ApiError(message, status);
+};
+
+let currentSession: AuthSession | null = null;
+let unauthorizedHandler: (() => void) | null = null;
+
+// Session attached to every request; AuthContext owns setting and clearing it
+export const authSession = {
+  set: (session: AuthSession | null) => {
+    currentSession = session;
+  },
+
+  get: (): AuthSession | null => currentSession,
+
+  isExpired: (session: AuthSession): boolean => {
+    return new Date(session.expiresAt).getTime() <= Date.now();
+  },
+
+  // Called once when the session expires or the server answers 401
+  onUnauthorized: (handler: () => void): (() => void) => {
+    unauthorizedHandler = handler;
+    return () => {
+      if (unauthorizedHandler === handler) {
+        unauthorizedHandler = null;
+      }
+    };
+  },
+};
+
+const handleUnauthorized = () => {
+  if (!currentSession) return;
+  currentSession = null;
+  unauthorizedHandler?.();
+};
+
 const api = axios.create({
   baseURL: BASE_URL,
   timeout: 10000,
@@ -11,10 +90,17 @@ const api = axios.create({
   },
 });
 
-// Request interceptor for logging
+// Request interceptor for logging and attaching the session token
 api.interceptors.request.use(
   (config) => {
     console.log(`API Request: ${config.method?.toUpperCase()} ${config.url}`);
+    if (currentSession) {
+      if (authSession.isExpired(currentSession)) {
+        handleUnauthorized();
+        return Promise.reject(new ApiError('Session expired', 401));
+      }
+      config.headers.Authorization = `Bearer ${currentSession.token}`;
+    }
     return config;
   },
   (error) => {
@@ -31,67 +117,105 @@ api.interceptors.response.use(
   },
   (error) => {
     console.error('API Response Error:', error.response?.data || error.message);
+    if (error.response?.status === 401) {
+      handleUnauthorized();
+    }
     return Promise.reject(error);
   }
 );
 
 // User API
 export const userAPI = {
-  // Login user by username and password
-  login: async (username: string, password: string): Promise<User | null> => {
-    try {
-      console.log('Attempting login for username:', username);
-      const response = await api.get(`/users?username=${encodeURIComponent(username)}`);
-      const users = response.data;
-
-      console.log(users)
-      
-      if (users.length === 0) {
-        console.log('No user found with username:', username);
-        throw new Error('Invalid username or password');
-      }
-      
-      const user = users[0];
-      console.log('User found:', user);
-
-      if(user.username != username){
-        console.log('Username validation failed');
-        throw new Error('Invalid username or password');
-      }
-      
-      // Validate password
-      if (user.password !== password) {
-        console.log('Password validation failed');
-        throw new Error('Invalid username or password');
-      }
-      
-      console.log('Login successful for user:', user.username);
-      return user;
+  // Look up the stored user record, credentials included, for the auth server
+  findUserByUsername: async (username: string): Promise<UserRecord | null> => {
+    try {
+      const response = await api.get('/users', { params: { username } });
+      const users: UserRecord[] = response.data;
+      // mockapi matches substrings, so insist on the exact username
+      return users.find(user => user.username === username) || null;
     } catch (error) {
-      console.error('Login error:', error);
-      if (error instanceof Error) {
-        throw error;
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
       }
-      throw new Error('Failed to authenticate user');
+      console.error('Find user error:', error);
+      throw toApiError(error, 'Failed to authenticate user');
     }
   },
 
-  // Create new user
-  createUser: async (userData: { name: string; username: string; email: string; password: string }): Promise<User> => {
+  // Create new user; the password is hashed before it leaves the device
+  createUser: async (userData: { name: string; username: string; email: string; password: string }): Promise<UserRecord> => {
     try {
       const payload = {
         ...userData,
+        password: await passwordHasher.hash(userData.password),
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
       };
       const response = await api.post('/users', payload);
-      return response.data;
+      const record: UserRecord = response.data;
+      try {
+        await userAPI.saveProfile(record);
+      } catch {
+        // The account exists either way; the profile is written again at the next sign-in
+      }
+      return record;
     } catch (error) {
       console.error('Create user error:', error);
       throw new Error('Failed to create user account');
     }
   },
 
+  // Create or refresh the user's public profile, the only user data other users can search
+  saveProfile: async (user: Pick<User, 'id' | 'username' | 'name'>): Promise<UserProfile> => {
+    const profile = { userId: user.id, username: user.username, ...(user.name && { name: user.name }) };
+    try {
+      const existing = await api.get('/profiles', { params: { userId: user.id } })
+        .then(response => ownedBy<UserProfile>(response.data, user.id)[0])
+        .catch(error => {
+          if (axios.isAxiosError(error) && error.response?.status === 404) {
+            return undefined;
+          }
+          throw error;
+        });
+      const response = existing
+        ? await api.put(`/profiles/${existing.id}`, profile)
+        : await api.post('/profiles', profile);
+      return response.data;
+    } catch (error) {
+      console.error('Save profile error:', error);
+      throw toApiError(error, 'Failed to save profile');
+    }
+  },
+
+  // Replace the stored password hash
+  updatePassword: async (userId: string, passwordHash: string): Promise<void> => {
+    try {
+      await api.put(`/users/${userId}`, {
+        password: passwordHash,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      console.error('Update password error:', error);
+      throw toApiError(error, 'Failed to update password');
+    }
+  },
+
+  // Other users whose username contains the query, as group members see them. Searches /profiles,
+  // which holds no credentials, rather than /users
+  searchUsers: async (query: string): Promise<GroupMember[]> => {
+    try {
+      const response = await api.get('/profiles', { params: { username: query } });
+      const profiles: UserProfile[] = response.data;
+      return profiles.map(({ userId, username, name }) => ({ id: userId, username, ...(name && { name }) }));
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      console.error('Search users error:', error);
+      throw toApiError(error, 'Failed to search users');
+    }
+  },
+
   // Get user by ID
   getUser: async (userId: string): Promise<User> => {
     try {
@@ -99,7 +223,25 @@ export const userAPI = {
       return response.data;
     } catch (error) {
       console.error('Get user error:', error);
-      throw new Error('Failed to fetch user data');
+      throw toApiError(error, 'Failed to fetch user data');
+    }
+  },
+
+  // Update profile fields such as the home currency
+  updateUser: async (userId: string, updates: Partial<Pick<User, 'name' | 'email' | 'avatar' | 'homeCurrency'>>): Promise<User> => {
+    try {
+      const response = await api.put(`/users/${userId}`, {
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      });
+      const user: User = response.data;
+      if (updates.name !== undefined) {
+        await userAPI.saveProfile(user);
+      }
+      return user;
+    } catch (error) {
+      console.error('Update user error:', error);
+      throw toApiError(error, 'Failed to update user');
     }
   },
 
@@ -131,25 +273,32 @@ export const userAPI = {
 
 // Expense API
 export const expenseAPI = {
-  // Get all expenses
-  getAllExpenses: async (): Promise<Expense[]> => {
+  // Get one page of a user's expenses, newest first
+  getUserExpenses: async (userId: string, options: ExpenseQueryOptions = {}): Promise<ExpensePage> => {
     try {
-      const response = await api.get('/expenses');
-      return response.data;
-    } catch (error) {
-      console.error('Get expenses error:', error);
-      throw new Error('Failed to fetch expenses');
-    }
-  },
-
-  // Get expenses by user ID
-  getUserExpenses: async (userId: string): Promise<Expense[]> => {
-    try {
-      const response = await api.get(`/expenses?userId=${userId}`);
-      return response.data;
+      const response = await api.get('/expenses', {
+        params: {
+          userId,
+          sortBy: 'date',
+          order: 'desc',
+          ...(options.page && { page: options.page }),
+          ...(options.limit && { limit: options.limit }),
+        },
+      });
+      const rows: Expense[] = response.data;
+      return {
+        expenses: ownedBy(rows, userId),
+        page: options.page || 1,
+        // Judged on the raw rows: other users' matches still fill the page
+        hasMore: !!options.limit && rows.length === options.limit,
+      };
     } catch (error) {
+      // mockapi answers 404 when a filter matches nothing
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return { expenses: [], page: options.page || 1, hasMore: false };
+      }
       console.error('Get user expenses error:', error);
-      throw new Error('Failed to fetch user expenses');
+      throw toApiError(error, 'Failed to fetch user expenses');
     }
   },
 
@@ -160,7 +309,7 @@ export const expenseAPI = {
       return response.data;
     } catch (error) {
       console.error('Get expense error:', error);
-      throw new Error('Failed to fetch expense details');
+      throw toApiError(error, 'Failed to fetch expense details');
     }
   },
 
@@ -177,7 +326,7 @@ export const expenseAPI = {
       return response.data;
     } catch (error) {
       console.error('Create expense error:', error);
-      throw new Error('Failed to create expense');
+      throw toApiError(error, 'Failed to create expense');
     }
   },
 
@@ -193,7 +342,7 @@ export const expenseAPI = {
       return response.data;
     } catch (error) {
       console.error('Update expense error:', error);
-      throw new Error('Failed to update expense');
+      throw toApiError(error, 'Failed to update expense');
     }
   },
 
@@ -203,7 +352,267 @@ export const expenseAPI = {
       await api.delete(`/expenses/${expenseId}`);
     } catch (error) {
       console.error('Delete expense error:', error);
-      throw new Error('Failed to delete expense');
+      throw toApiError(error, 'Failed to delete expense');
+    }
+  },
+};
+
+// Income API
+export const incomeAPI = {
+  // All of a user's income, newest first
+  getUserIncome: async (userId: string): Promise<Income[]> => {
+    try {
+      const response = await api.get('/income', {
+        params: { userId, sortBy: 'date', order: 'desc' },
+      });
+      return ownedBy(response.data, userId);
+    } catch (error) {
+      // mockapi answers 404 when a filter matches nothing
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      console.error('Get user income error:', error);
+      throw toApiError(error, 'Failed to fetch income');
+    }
+  },
+
+  createIncome: async (incomeData: IncomeFormData & { userId: string }): Promise<Income> => {
+    try {
+      const payload = {
+        ...incomeData,
+        amount: parseFloat(incomeData.amount),
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+      const response = await api.post('/income', payload);
+      return response.data;
+    } catch (error) {
+      console.error('Create income error:', error);
+      throw toApiError(error, 'Failed to create income');
+    }
+  },
+
+  updateIncome: async (incomeId: string, incomeData: Partial<IncomeFormData>): Promise<Income> => {
+    try {
+      const payload = {
+        ...incomeData,
+        ...(incomeData.amount && { amount: parseFloat(incomeData.amount) }),
+        updatedAt: new Date().toISOString(),
+      };
+      const response = await api.put(`/income/${incomeId}`, payload);
+      return response.data;
+    } catch (error) {
+      console.error('Update income error:', error);
+      throw toApiError(error, 'Failed to update income');
+    }
+  },
+
+  deleteIncome: async (incomeId: string): Promise<void> => {
+    try {
+      await api.delete(`/income/${incomeId}`);
+    } catch (error) {
+      console.error('Delete income error:', error);
+      throw toApiError(error, 'Failed to delete income');
+    }
+  },
+};
+
+// Savings goal API; contributions travel inside the goal
+export const goalAPI = {
+  getUserGoals: async (userId: string): Promise<SavingsGoal[]> => {
+    try {
+      const response = await api.get('/goals', { params: { userId } });
+      return ownedBy(response.data, userId);
+    } catch (error) {
+      // mockapi answers 404 when a filter matches nothing
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      console.error('Get user goals error:', error);
+      throw toApiError(error, 'Failed to fetch goals');
+    }
+  },
+
+  createGoal: async (goal: Omit<SavingsGoal, 'id' | 'createdAt' | 'updatedAt'>): Promise<SavingsGoal> => {
+    try {
+      const response = await api.post('/goals', {
+        ...goal,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Create goal error:', error);
+      throw toApiError(error, 'Failed to create goal');
+    }
+  },
+
+  updateGoal: async (goalId: string, updates: Partial<Omit<SavingsGoal, 'id' | 'createdAt'>>): Promise<SavingsGoal> => {
+    try {
+      const response = await api.put(`/goals/${goalId}`, {
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Update goal error:', error);
+      throw toApiError(error, 'Failed to update goal');
+    }
+  },
+
+  deleteGoal: async (goalId: string): Promise<void> => {
+    try {
+      await api.delete(`/goals/${goalId}`);
+    } catch (error) {
+      console.error('Delete goal error:', error);
+      throw toApiError(error, 'Failed to delete goal');
+    }
+  },
+};
+
+// Group API; a group's expenses and settlements are child resources of the group
+export const groupAPI = {
+  // Groups the user belongs to, found through their membership rows rather than by listing every group
+  getUserGroups: async (userId: string): Promise<ExpenseGroup[]> => {
+    let memberships: GroupMembership[];
+    try {
+      const response = await api.get('/groupMemberships', { params: { userId } });
+      memberships = ownedBy<GroupMembership>(response.data, userId);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      console.error('Get group memberships error:', error);
+      throw toApiError(error, 'Failed to fetch groups');
+    }
+
+    const groupIds = [...new Set(memberships.map(membership => membership.groupId))];
+    const groups = await Promise.all(groupIds.map(async (groupId): Promise<ExpenseGroup | null> => {
+      try {
+        const response = await api.get(`/groups/${groupId}`);
+        return response.data;
+      } catch (error) {
+        // A membership can outlive its group
+        if (axios.isAxiosError(error) && error.response?.status === 404) {
+          return null;
+        }
+        console.error('Get group error:', error);
+        throw toApiError(error, 'Failed to fetch groups');
+      }
+    }));
+    return groups.filter((group): group is ExpenseGroup => group !== null);
+  },
+
+  createGroup: async (group: Omit<ExpenseGroup, 'id' | 'createdAt' | 'updatedAt'>): Promise<ExpenseGroup> => {
+    try {
+      const response = await api.post('/groups', {
+        ...group,
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      });
+      const created: ExpenseGroup = response.data;
+      await groupAPI.addMemberships(created.id, created.memberIds);
+      return created;
+    } catch (error) {
+      console.error('Create group error:', error);
+      throw toApiError(error, 'Failed to create group');
+    }
+  },
+
+  // Record that these users belong to the group; call alongside updateGroup when members are added
+  addMemberships: async (groupId: string, userIds: string[]): Promise<GroupMembership[]> => {
+    try {
+      return await Promise.all(userIds.map(async userId => {
+        const response = await api.post('/groupMemberships', {
+          groupId,
+          userId,
+          createdAt: new Date().toISOString(),
+        });
+        return response.data;
+      }));
+    } catch (error) {
+      console.error('Add group memberships error:', error);
+      throw toApiError(error, 'Failed to add group members');
+    }
+  },
+
+  updateGroup: async (groupId: string, updates: Partial<Pick<ExpenseGroup, 'name' | 'members' | 'memberIds'>>): Promise<ExpenseGroup> => {
+    try {
+      const response = await api.put(`/groups/${groupId}`, {
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Update group error:', error);
+      throw toApiError(error, 'Failed to update group');
+    }
+  },
+
+  getExpenses: async (groupId: string): Promise<GroupExpense[]> => {
+    try {
+      const response = await api.get(`/groups/${groupId}/groupExpenses`, {
+        params: { sortBy: 'date', order: 'desc' },
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      console.error('Get group expenses error:', error);
+      throw toApiError(error, 'Failed to fetch group expenses');
+    }
+  },
+
+  createExpense: async (groupId: string, expense: Omit<GroupExpense, 'id' | 'groupId' | 'createdAt'>): Promise<GroupExpense> => {
+    try {
+      const response = await api.post(`/groups/${groupId}/groupExpenses`, {
+        ...expense,
+        groupId,
+        createdAt: new Date().toISOString(),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Create group expense error:', error);
+      throw toApiError(error, 'Failed to add group expense');
+    }
+  },
+
+  deleteExpense: async (groupId: string, expenseId: string): Promise<void> => {
+    try {
+      await api.delete(`/groups/${groupId}/groupExpenses/${expenseId}`);
+    } catch (error) {
+      console.error('Delete group expense error:', error);
+      throw toApiError(error, 'Failed to delete group expense');
+    }
+  },
+
+  getSettlements: async (groupId: string): Promise<GroupSettlement[]> => {
+    try {
+      const response = await api.get(`/groups/${groupId}/settlements`, {
+        params: { sortBy: 'date', order: 'desc' },
+      });
+      return response.data;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return [];
+      }
+      console.error('Get settlements error:', error);
+      throw toApiError(error, 'Failed to fetch settlements');
+    }
+  },
+
+  createSettlement: async (groupId: string, settlement: Omit<GroupSettlement, 'id' | 'groupId' | 'createdAt'>): Promise<GroupSettlement> => {
+    try {
+      const response = await api.post(`/groups/${groupId}/settlements`, {
+        ...settlement,
+        groupId,
+        createdAt: new Date().toISOString(),
+      });
+      return response.data;
+    } catch (error) {
+      console.error('Create settlement error:', error);
+      throw toApiError(error, 'Failed to record settlement');
     }
   },
 };
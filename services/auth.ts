@@ -0,0 +1,69 @@
+import { userAPI } from './api';
+import { password } from '../utils/password';
+import { AuthSession, User, UserRecord } from '../types';
+
+const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface AuthResult {
+  user: User;
+  session: AuthSession;
+}
+
+export interface RegisterData {
+  name: string;
+  username: string;
+  email: string;
+  password: string;
+}
+
+// What a real auth backend exposes; swap the implementation below once one exists
+export interface AuthServer {
+  login: (username: string, password: string) => Promise<AuthResult>;
+  register: (userData: RegisterData) => Promise<AuthResult>;
+}
+
+const toPublicUser = (record: UserRecord): User => {
+  const { password: _credentials, ...user } = record;
+  return user;
+};
+
+const issueSession = (userId: string): AuthSession => ({
+  token: password.randomToken(),
+  userId,
+  expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+});
+
+// On-device stand-in for an auth server: verifies hashes against mockapi and issues tokens locally.
+// The limit that remains: anyone can read a user's hash with GET /users?username=, so the work
+// factor only slows down offline guessing. A real server must check passwords and never return hashes.
+export const mockAuthServer: AuthServer = {
+  login: async (username, plainPassword) => {
+    const record = await userAPI.findUserByUsername(username);
+    const isValid = record ? await password.verify(plainPassword, record.password) : false;
+
+    if (!record || !isValid) {
+      throw new Error('Invalid username or password');
+    }
+
+    if (password.needsRehash(record.password)) {
+      // Upgrade accounts created before hashing, or with fewer rounds, the first time they sign in
+      try {
+        await userAPI.updatePassword(record.id, await password.hash(plainPassword));
+      } catch (error) {
+        console.error('Password upgrade error:', error);
+      }
+    }
+
+    // Keeps the searchable profile current, and creates it for accounts made before profiles existed
+    userAPI.saveProfile(record).catch(() => undefined);
+
+    return { user: toPublicUser(record), session: issueSession(record.id) };
+  },
+
+  register: async (userData) => {
+    const record = await userAPI.createUser(userData);
+    return { user: toPublicUser(record), session: issueSession(record.id) };
+  },
+};
+
+export const authServer: AuthServer = mockAuthServer;
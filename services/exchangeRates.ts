@@ -0,0 +1,99 @@
+import { storage } from '../utils/storage';
+import { DEFAULT_CURRENCY, ExchangeRateTable } from '../types';
+
+// Anything that can quote live rates (a bank feed, a public FX API...)
+export interface ExchangeRateProvider {
+  name: string;
+  // Units of each currency that one unit of `base` buys
+  fetchRates: (base: string) => Promise<{ [currency: string]: number }>;
+}
+
+// Rough starting point so conversions work before anyone edits or refreshes the table
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  base: DEFAULT_CURRENCY,
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    JPY: 150,
+    CAD: 1.36,
+    AUD: 1.52,
+    CHF: 0.88,
+    CNY: 7.2,
+    INR: 83,
+    KES: 129,
+    RWF: 1300,
+    ZAR: 18.5,
+  },
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  source: 'default',
+};
+
+let rateProvider: ExchangeRateProvider | null = null;
+
+export const exchangeRates = {
+  // Plug in a live source; without one the table is edited by hand
+  setProvider: (provider: ExchangeRateProvider | null) => {
+    rateProvider = provider;
+  },
+
+  getProvider: (): ExchangeRateProvider | null => rateProvider,
+
+  load: async (userId: string): Promise<ExchangeRateTable> => {
+    return (await storage.getExchangeRates(userId)) || DEFAULT_EXCHANGE_RATES;
+  },
+
+  save: async (userId: string, table: ExchangeRateTable): Promise<void> => {
+    await storage.setExchangeRates(userId, table);
+  },
+
+  // Value of one unit of `from` in `to`, or null when either rate is unknown
+  rate: (table: ExchangeRateTable, from: string, to: string): number | null => {
+    if (from === to) return 1;
+    const fromRate = table.rates[from];
+    const toRate = table.rates[to];
+    if (!fromRate || !toRate) return null;
+    return toRate / fromRate;
+  },
+
+  convert: (table: ExchangeRateTable, amount: number, from: string, to: string): number | null => {
+    const rate = exchangeRates.rate(table, from, to);
+    return rate === null ? null : amount * rate;
+  },
+
+  // Manual edit: "one `currency` is worth `value` of `quote`"
+  withRate: (table: ExchangeRateTable, currency: string, value: number, quote: string): ExchangeRateTable => {
+    const quoteRate = table.rates[quote];
+    if (!quoteRate || value <= 0) {
+      throw new Error(`Cannot set a rate for ${currency} against ${quote}`);
+    }
+    return {
+      ...table,
+      rates: { ...table.rates, [currency]: quoteRate / value },
+      updatedAt: new Date().toISOString(),
+      source: 'manual',
+    };
+  },
+
+  // Replace the table with fresh quotes from the configured provider
+  refresh: async (userId: string, base: string): Promise<ExchangeRateTable> => {
+    if (!rateProvider) {
+      throw new Error('No exchange rate provider configured');
+    }
+
+    try {
+      const rates = await rateProvider.fetchRates(base);
+      const table: ExchangeRateTable = {
+        base,
+        rates: { ...rates, [base]: 1 },
+        updatedAt: new Date().toISOString(),
+        source: rateProvider.name,
+      };
+      await exchangeRates.save(userId, table);
+      return table;
+    } catch (error) {
+      console.error('Refresh exchange rates error:', error);
+      throw new Error('Failed to refresh exchange rates');
+    }
+  },
+};
@@ -0,0 +1,472 @@
+import { AppState, AppStateStatus } from 'react-native';
+import { expenseAPI, ApiError } from './api';
+import { receiptStore } from './receiptStore';
+import { storage } from '../utils/storage';
+import { debug } from '../utils/debug';
+import { Expense, ExpenseFormData, ExpensePage, SyncOperation, SyncOperationType } from '../types';
+
+const LOCAL_ID_PREFIX = 'local_';
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+const MAX_SYNC_ATTEMPTS = 10;
+// Timeouts and rate limiting, which a bulk import can run into, are worth another try
+const RETRYABLE_STATUSES = [408, 429];
+export const EXPENSE_PAGE_SIZE = 20;
+
+type StoreListener = (userId: string) => void;
+
+// The cache as it stood when a fetch went out; the response can't know about anything after it
+interface FetchSnapshot {
+  startedAt: string;
+  cachedIds: Set<string>;
+}
+
+const listeners = new Set<StoreListener>();
+const syncInFlight: { [userId: string]: Promise<void> | undefined } = {};
+const retryTimers: { [userId: string]: ReturnType<typeof setTimeout> | undefined } = {};
+const inFlightOperationIds = new Set<string>();
+const storeLocks: { [userId: string]: Promise<unknown> | undefined } = {};
+
+const generateId = (prefix: string) =>
+  `${prefix}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const isLocalExpenseId = (expenseId: string): boolean => expenseId.startsWith(LOCAL_ID_PREFIX);
+
+const getRetryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1), MAX_RETRY_DELAY_MS);
+
+const notify = (userId: string) => {
+  listeners.forEach(listener => {
+    try {
+      listener(userId);
+    } catch (error) {
+      debug.error('ExpenseStore', 'Listener error:', error);
+    }
+  });
+};
+
+// Runs one read-modify-write of a user's cache and queue at a time, so no write is based on a stale copy.
+// Never nest calls for the same user; network requests stay outside the lock.
+const withStoreLock = <T,>(userId: string, task: () => Promise<T>): Promise<T> => {
+  const run = (storeLocks[userId] || Promise.resolve()).catch(() => undefined).then(task);
+  storeLocks[userId] = run.catch(() => undefined);
+  return run;
+};
+
+const readCache = async (userId: string): Promise<Expense[]> => {
+  return (await storage.getCachedExpenses(userId)) || [];
+};
+
+const writeCache = async (userId: string, expenses: Expense[]) => {
+  await storage.setCachedExpenses(userId, expenses);
+  notify(userId);
+};
+
+// Callers must hold the store lock
+const enqueue = async (userId: string, type: SyncOperationType, expenseId: string, data?: Partial<ExpenseFormData>) => {
+  const queue = await storage.getSyncQueue(userId);
+  queue.push({
+    id: generateId('op_'),
+    type,
+    expenseId,
+    userId,
+    data,
+    attempts: 0,
+    nextAttemptAt: 0,
+    createdAt: new Date().toISOString(),
+  });
+  await storage.setSyncQueue(userId, queue);
+};
+
+const scheduleRetry = (userId: string, delay: number) => {
+  if (retryTimers[userId]) {
+    clearTimeout(retryTimers[userId]);
+  }
+  retryTimers[userId] = setTimeout(() => {
+    retryTimers[userId] = undefined;
+    expenseStore.syncPending(userId);
+  }, delay);
+};
+
+// Position in the newest-first order the server pages in
+const sortKey = (expense: Expense): number => new Date(expense.date || expense.createdAt).getTime();
+
+const sortByDateDesc = (expenses: Expense[]): Expense[] =>
+  [...expenses].sort((a, b) => sortKey(b) - sortKey(a));
+
+// Overlay one server page, and the pending local changes, on the cache. Cached server rows dated
+// inside the page's span but missing from it were deleted elsewhere; rows outside it belong to
+// other pages and stay. Anything created, synced, edited or deleted while the request was out
+// is newer than the page and wins over it.
+const mergePage = (page: ExpensePage, cached: Expense[], queue: SyncOperation[], snapshot: FetchSnapshot): Expense[] => {
+  const pendingDeletes = new Set(queue.filter(op => op.type === 'delete').map(op => op.expenseId));
+  const pendingIds = new Set(queue.filter(op => op.type !== 'delete').map(op => op.expenseId));
+  const cachedById = new Map(cached.map(expense => [expense.id, expense]));
+  const pageIds = new Set(page.expenses.map(expense => expense.id));
+  const changedSince = (expense: Expense) =>
+    !snapshot.cachedIds.has(expense.id) || (expense.updatedAt || expense.createdAt) > snapshot.startedAt;
+
+  // Open at the top for the first page and at the bottom for the last; an empty page spans nothing
+  const keys = page.expenses.map(sortKey);
+  const newest = page.page === 1 ? Infinity : Math.max(...keys);
+  const oldest = page.hasMore ? Math.min(...keys) : -Infinity;
+  const inSpan = (expense: Expense) => sortKey(expense) > oldest && sortKey(expense) < newest;
+
+  const fromServer = page.expenses
+    // Cached when the request went out but gone now: deleted on this device meanwhile
+    .filter(expense => !pendingDeletes.has(expense.id) && (cachedById.has(expense.id) || !snapshot.cachedIds.has(expense.id)))
+    .map(expense => {
+      const local = cachedById.get(expense.id);
+      return local && (pendingIds.has(expense.id) || local.syncFailed || changedSince(local)) ? local : expense;
+    });
+
+  const kept = cached.filter(expense => {
+    if (pageIds.has(expense.id)) return false;
+    if (pendingIds.has(expense.id) || expense.syncFailed) return true;
+    if (isLocalExpenseId(expense.id)) return false;
+    return !inSpan(expense) || changedSince(expense);
+  });
+
+  return sortByDateDesc([...kept, ...fromServer]);
+};
+
+// Everything the server stores for an expense, for resending a change it refused
+const toFormData = (expense: Expense): ExpenseFormData => ({
+  title: expense.title || expense.name || '',
+  amount: expense.amount.toString(),
+  currency: expense.currency,
+  category: expense.category || 'Other',
+  subcategory: expense.subcategory,
+  tags: expense.tags,
+  splits: expense.splits,
+  attachments: expense.attachments,
+  description: expense.description,
+  date: expense.date || expense.createdAt.split('T')[0],
+  recurrence: expense.recurrence,
+  recurringSourceId: expense.recurringSourceId,
+});
+
+const runOperation = async (operation: SyncOperation): Promise<Expense | void> => {
+  switch (operation.type) {
+    case 'create':
+      return expenseAPI.createExpense({
+        ...(operation.data as ExpenseFormData),
+        userId: operation.userId,
+      });
+    case 'update':
+      return expenseAPI.updateExpense(operation.expenseId, operation.data || {});
+    case 'delete':
+      return expenseAPI.deleteExpense(operation.expenseId);
+  }
+};
+
+const replayQueue = async (userId: string) => {
+  while (true) {
+    // Re-read every round; the queue may have grown while the last operation was in flight
+    const operation = await withStoreLock(userId, async () => {
+      const queue = await storage.getSyncQueue(userId);
+      if (queue.length === 0) {
+        return undefined;
+      }
+
+      const head = queue[0];
+      const now = Date.now();
+
+      // Keep operations in order: wait for the head of the queue to be due
+      if (head.nextAttemptAt > now) {
+        scheduleRetry(userId, head.nextAttemptAt - now);
+        return undefined;
+      }
+
+      inFlightOperationIds.add(head.id);
+      return head;
+    });
+    if (!operation) {
+      return;
+    }
+
+    try {
+      const result = await runOperation(operation);
+
+      // Applied to the queue as it is now, so operations added during the request are kept
+      await withStoreLock(userId, async () => {
+        let remaining = (await storage.getSyncQueue(userId)).filter(op => op.id !== operation.id);
+
+        if (operation.type === 'create' && result) {
+          const serverExpense = result as Expense;
+          // Point later operations and the cache at the id the server assigned
+          remaining = remaining.map(op =>
+            op.expenseId === operation.expenseId ? { ...op, expenseId: serverExpense.id } : op
+          );
+          const stillPending = remaining.some(op => op.expenseId === serverExpense.id);
+          const cached = await readCache(userId);
+          await writeCache(userId, cached.map(expense =>
+            expense.id === operation.expenseId ? { ...serverExpense, pendingSync: stillPending } : expense
+          ));
+        } else if (operation.type === 'update') {
+          const stillPending = remaining.some(op => op.expenseId === operation.expenseId);
+          if (!stillPending) {
+            const cached = await readCache(userId);
+            await writeCache(userId, cached.map(expense =>
+              expense.id === operation.expenseId ? { ...expense, pendingSync: false } : expense
+            ));
+          }
+        }
+        await storage.setSyncQueue(userId, remaining);
+      });
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        // Signed out mid-sync; the queue replays after the next login
+        return;
+      }
+
+      const status = error instanceof ApiError ? error.status : undefined;
+      const isRetryable = !(error instanceof ApiError) || error.isNetworkError
+        || (status ?? 0) >= 500 || RETRYABLE_STATUSES.includes(status ?? 0);
+      const attempts = operation.attempts + 1;
+
+      if (!isRetryable || attempts >= MAX_SYNC_ATTEMPTS) {
+        // The server refused it (or it keeps failing): take it off the queue so the rest can drain,
+        // but keep the local copy and mark it so the user can see it never arrived
+        debug.error('ExpenseStore', `Giving up on ${operation.type} for expense ${operation.expenseId}:`, error);
+        await withStoreLock(userId, async () => {
+          const latest = await storage.getSyncQueue(userId);
+          // Later changes to an expense that was never created can't succeed either
+          await storage.setSyncQueue(userId, latest.filter(op => op.id !== operation.id
+            && !(operation.type === 'create' && op.expenseId === operation.expenseId)));
+
+          // A refused delete leaves nothing to mark; the row returns with the next refresh
+          if (operation.type !== 'delete') {
+            const cached = await readCache(userId);
+            await writeCache(userId, cached.map(expense => (expense.id === operation.expenseId
+              ? { ...expense, pendingSync: false, syncFailed: true }
+              : expense)));
+          }
+        });
+        continue;
+      }
+
+      const delay = getRetryDelay(attempts);
+      await withStoreLock(userId, async () => {
+        const latest = await storage.getSyncQueue(userId);
+        await storage.setSyncQueue(userId, latest.map(op =>
+          op.id === operation.id ? { ...op, attempts, nextAttemptAt: Date.now() + delay } : op
+        ));
+      });
+      debug.warn('ExpenseStore', `Sync failed, retrying in ${Math.round(delay / 1000)}s`, error);
+      scheduleRetry(userId, delay);
+      return;
+    } finally {
+      inFlightOperationIds.delete(operation.id);
+    }
+  }
+};
+
+// A queued create that is not currently being sent can still absorb later edits
+const findFoldableCreate = (queue: SyncOperation[], expenseId: string) =>
+  queue.find(op => op.type === 'create' && op.expenseId === expenseId && !inFlightOperationIds.has(op.id));
+
+export const expenseStore = {
+  // Cached expenses only, never touches the network
+  getCachedExpenses: async (userId: string): Promise<Expense[]> => {
+    return readCache(userId);
+  },
+
+  // Serve the cache instantly and refresh in the background; wait for the network only on first load
+  loadExpenses: async (userId: string): Promise<Expense[]> => {
+    const cached = await storage.getCachedExpenses(userId);
+    if (cached) {
+      expenseStore.refresh(userId).catch(error => {
+        debug.warn('ExpenseStore', 'Background refresh failed, serving cached expenses', error);
+      });
+      return cached;
+    }
+    await expenseStore.refresh(userId);
+    return readCache(userId);
+  },
+
+  // Push pending changes, then pull the newest page into the cache; older pages load on demand
+  refresh: async (userId: string): Promise<ExpensePage> => {
+    await expenseStore.syncPending(userId);
+    return expenseStore.fetchPage(userId, 1);
+  },
+
+  // Fetch one page from the server and fold it into the cache; resolves with the page as merged
+  fetchPage: async (userId: string, page: number): Promise<ExpensePage> => {
+    const snapshot = await withStoreLock(userId, async (): Promise<FetchSnapshot> => ({
+      startedAt: new Date().toISOString(),
+      cachedIds: new Set((await readCache(userId)).map(expense => expense.id)),
+    }));
+    const result = await expenseAPI.getUserExpenses(userId, { page, limit: EXPENSE_PAGE_SIZE });
+
+    return withStoreLock(userId, async () => {
+      const cached = await readCache(userId);
+      const queue = await storage.getSyncQueue(userId);
+      const merged = mergePage(result, cached, queue, snapshot);
+
+      await writeCache(userId, merged);
+      const pageIds = new Set(result.expenses.map(expense => expense.id));
+      return { ...result, expenses: merged.filter(expense => pageIds.has(expense.id)) };
+    });
+  },
+
+  getExpense: async (userId: string, expenseId: string): Promise<Expense> => {
+    const cached = await readCache(userId);
+    const expense = cached.find(item => item.id === expenseId);
+    if (expense) {
+      return expense;
+    }
+
+    const serverExpense = await expenseAPI.getExpense(expenseId);
+    if (serverExpense.userId !== userId) {
+      throw new ApiError('Failed to fetch expense details', 404);
+    }
+    return serverExpense;
+  },
+
+  createExpense: async (expenseData: ExpenseFormData & { userId: string }): Promise<Expense> => {
+    const { userId, ...formData } = expenseData;
+    const now = new Date().toISOString();
+    const expense: Expense = {
+      ...formData,
+      id: generateId(LOCAL_ID_PREFIX),
+      amount: parseFloat(formData.amount),
+      userId,
+      createdAt: now,
+      updatedAt: now,
+      pendingSync: true,
+    };
+
+    await withStoreLock(userId, async () => {
+      const cached = await readCache(userId);
+      await writeCache(userId, sortByDateDesc([expense, ...cached]));
+      await enqueue(userId, 'create', expense.id, formData);
+    });
+
+    expenseStore.syncPending(userId);
+    return expense;
+  },
+
+  updateExpense: async (userId: string, expenseId: string, expenseData: Partial<ExpenseFormData>): Promise<Expense> => {
+    // Rows missing from the cache are fetched before taking the lock
+    const fetched = (await readCache(userId)).some(item => item.id === expenseId)
+      ? undefined
+      : await expenseAPI.getExpense(expenseId);
+
+    const { existing, updated } = await withStoreLock(userId, async () => {
+      const cached = await readCache(userId);
+      const current = cached.find(item => item.id === expenseId) || fetched;
+      if (!current) {
+        throw new ApiError('Expense no longer exists', 404);
+      }
+      const next: Expense = {
+        ...current,
+        ...expenseData,
+        amount: expenseData.amount !== undefined ? parseFloat(expenseData.amount) : current.amount,
+        updatedAt: new Date().toISOString(),
+        pendingSync: true,
+        syncFailed: false,
+      };
+
+      const exists = cached.some(item => item.id === expenseId);
+      await writeCache(userId, exists
+        ? cached.map(item => (item.id === expenseId ? next : item))
+        : [next, ...cached]);
+
+      const queue = await storage.getSyncQueue(userId);
+      const pendingCreate = findFoldableCreate(queue, expenseId);
+      if (pendingCreate) {
+        // Not on the server yet: fold the edit into the queued create
+        pendingCreate.data = { ...pendingCreate.data, ...expenseData };
+        await storage.setSyncQueue(userId, queue);
+      } else if (current.syncFailed) {
+        // The refused change is only on this device, so send the whole expense again
+        await enqueue(userId, isLocalExpenseId(expenseId) ? 'create' : 'update', expenseId, toFormData(next));
+      } else {
+        await enqueue(userId, 'update', expenseId, expenseData);
+      }
+      return { existing: current, updated: next };
+    });
+
+    if (expenseData.attachments) {
+      await receiptStore.removeDropped(existing.attachments, expenseData.attachments);
+    }
+
+    expenseStore.syncPending(userId);
+    return updated;
+  },
+
+  deleteExpense: async (userId: string, expenseId: string): Promise<void> => {
+    const { removed, queuedDelete } = await withStoreLock(userId, async () => {
+      const cached = await readCache(userId);
+      const expense = cached.find(item => item.id === expenseId);
+      await writeCache(userId, cached.filter(item => item.id !== expenseId));
+
+      const queue = await storage.getSyncQueue(userId);
+      if (findFoldableCreate(queue, expenseId) || (isLocalExpenseId(expenseId) && expense?.syncFailed)) {
+        // Never reached the server, so just forget every queued change for it
+        await storage.setSyncQueue(userId, queue.filter(op => op.expenseId !== expenseId));
+        return { removed: expense, queuedDelete: false };
+      }
+      await storage.setSyncQueue(userId, queue.filter(op => op.expenseId !== expenseId || inFlightOperationIds.has(op.id)));
+      await enqueue(userId, 'delete', expenseId);
+      return { removed: expense, queuedDelete: true };
+    });
+    if (queuedDelete) {
+      expenseStore.syncPending(userId);
+    }
+
+    // Receipt photos only exist on this device, so they go as soon as the expense does
+    await receiptStore.remove(removed?.attachments);
+  },
+
+  // Replay queued operations against the API; concurrent calls share one run
+  syncPending: (userId: string): Promise<void> => {
+    const inFlight = syncInFlight[userId];
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const run = replayQueue(userId)
+      .catch(error => {
+        debug.error('ExpenseStore', 'Error replaying sync queue:', error);
+      })
+      .finally(() => {
+        syncInFlight[userId] = undefined;
+      });
+
+    syncInFlight[userId] = run;
+    return run;
+  },
+
+  // Retry immediately whenever the app returns to the foreground
+  startAutoSync: (userId: string): (() => void) => {
+    const handleAppStateChange = (state: AppStateStatus) => {
+      if (state === 'active') {
+        withStoreLock(userId, async () => {
+          // Coming back online usually coincides with coming back to the app
+          const queue = await storage.getSyncQueue(userId);
+          await storage.setSyncQueue(userId, queue.map(op => ({ ...op, nextAttemptAt: 0 })));
+        }).then(() => expenseStore.syncPending(userId));
+      }
+    };
+
+    const subscription = AppState.addEventListener('change', handleAppStateChange);
+    expenseStore.syncPending(userId);
+
+    return () => {
+      subscription.remove();
+      if (retryTimers[userId]) {
+        clearTimeout(retryTimers[userId]);
+        retryTimers[userId] = undefined;
+      }
+    };
+  },
+
+  subscribe: (listener: StoreListener): (() => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
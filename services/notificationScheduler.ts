@@ -0,0 +1,211 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { storage } from '../utils/storage';
+import { recurrence } from '../utils/recurrence';
+import { BudgetPeriodRange } from '../utils/budgetPeriod';
+import { BudgetAlertType, BudgetNotificationPreferences } from '../types';
+
+const BUDGET_ALERT_CHANNEL = 'budget-alerts';
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: BudgetNotificationPreferences = {
+  threshold: true,
+  overLimit: true,
+  categoryOverLimit: true,
+};
+
+export interface BudgetNotification {
+  title: string;
+  body: string;
+  data?: { [key: string]: unknown };
+}
+
+// Whatever actually delivers the notification; swapped out in tests or on platforms without push
+export interface NotificationTransport {
+  requestPermission: () => Promise<boolean>;
+  send: (notification: BudgetNotification) => Promise<void>;
+}
+
+// Remembers which alerts already went out so each one fires once per period
+export interface SentAlertStore {
+  load: (userId: string) => Promise<string[]>;
+  save: (userId: string, alertKeys: string[]) => Promise<void>;
+}
+
+export interface BudgetAlertSnapshot {
+  period: BudgetPeriodRange;
+  periodLabel: string;
+  spent: number;
+  // Limit for the period including rollover
+  limit: number;
+  // Percentage of the limit at which the early warning fires
+  threshold: number;
+  categories: { category: string; spent: number; limit: number }[];
+  formatAmount: (amount: number) => string;
+}
+
+export interface NotificationScheduler {
+  // Sends any alerts the snapshot has newly crossed; resolves with how many went out
+  evaluate: (
+    userId: string,
+    snapshot: BudgetAlertSnapshot,
+    preferences?: Partial<BudgetNotificationPreferences>
+  ) => Promise<number>;
+}
+
+interface PendingAlert {
+  key: string;
+  notification: BudgetNotification;
+  // Keys marked as sent alongside this one (an overspend makes the earlier warning moot)
+  supersedes?: string[];
+}
+
+const alertKey = (period: BudgetPeriodRange, type: BudgetAlertType, category?: string) =>
+  [recurrence.toDateKey(period.start), type, category].filter(Boolean).join('|');
+
+const pendingAlerts = (
+  snapshot: BudgetAlertSnapshot,
+  preferences: BudgetNotificationPreferences
+): PendingAlert[] => {
+  const { period, periodLabel, spent, limit, threshold, formatAmount } = snapshot;
+  const label = periodLabel.toLowerCase();
+  const alerts: PendingAlert[] = [];
+
+  if (limit > 0 && spent > limit && preferences.overLimit) {
+    alerts.push({
+      key: alertKey(period, 'overLimit'),
+      supersedes: [alertKey(period, 'threshold')],
+      notification: {
+        title: 'Budget Exceeded',
+        body: `You've gone ${formatAmount(spent - limit)} over your ${label} budget of ${formatAmount(limit)}.`,
+        data: { type: 'overLimit' },
+      },
+    });
+  } else if (limit > 0 && (spent / limit) * 100 >= threshold && preferences.threshold) {
+    alerts.push({
+      key: alertKey(period, 'threshold'),
+      notification: {
+        title: 'Budget Alert',
+        body: `You've used ${((spent / limit) * 100).toFixed(0)}% of your ${label} budget (${formatAmount(spent)} of ${formatAmount(limit)}).`,
+        data: { type: 'threshold' },
+      },
+    });
+  }
+
+  if (preferences.categoryOverLimit) {
+    snapshot.categories
+      .filter(category => category.limit > 0 && category.spent > category.limit)
+      .forEach(({ category, spent: categorySpent, limit: categoryLimit }) => {
+        alerts.push({
+          key: alertKey(period, 'categoryOverLimit', category),
+          notification: {
+            title: `${category} Budget Exceeded`,
+            body: `${category} spending is ${formatAmount(categorySpent - categoryLimit)} over its ${formatAmount(categoryLimit)} limit.`,
+            data: { type: 'categoryOverLimit', category },
+          },
+        });
+      });
+  }
+
+  return alerts;
+};
+
+export const createNotificationScheduler = (
+  transport: NotificationTransport,
+  sentAlerts: SentAlertStore
+): NotificationScheduler => {
+  // Evaluations for the same user run one after another so an alert is never sent twice
+  const queues: { [userId: string]: Promise<unknown> } = {};
+
+  const run = async (
+    userId: string,
+    snapshot: BudgetAlertSnapshot,
+    preferences: BudgetNotificationPreferences
+  ): Promise<number> => {
+    const periodPrefix = `${recurrence.toDateKey(snapshot.period.start)}|`;
+    // Keys from earlier periods are dropped so the list never grows past one period
+    const sent = (await sentAlerts.load(userId)).filter(key => key.startsWith(periodPrefix));
+    const due = pendingAlerts(snapshot, preferences).filter(alert => !sent.includes(alert.key));
+    if (due.length === 0) return 0;
+
+    // Without permission nothing is recorded, so alerts still fire once it is granted
+    if (!(await transport.requestPermission())) return 0;
+
+    let delivered = 0;
+    for (const alert of due) {
+      try {
+        await transport.send(alert.notification);
+        sent.push(alert.key, ...(alert.supersedes || []));
+        delivered++;
+      } catch (error) {
+        console.error('Error sending budget notification:', error);
+      }
+    }
+
+    await sentAlerts.save(userId, Array.from(new Set(sent)));
+    return delivered;
+  };
+
+  return {
+    evaluate: (userId, snapshot, preferences = {}) => {
+      const resolved = { ...DEFAULT_NOTIFICATION_PREFERENCES, ...preferences };
+      const next = (queues[userId] || Promise.resolve())
+        .catch(() => undefined)
+        .then(() => run(userId, snapshot, resolved));
+      queues[userId] = next;
+      return next;
+    },
+  };
+};
+
+let handlerConfigured = false;
+
+const configureExpoNotifications = async () => {
+  if (handlerConfigured) return;
+  handlerConfigured = true;
+
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(BUDGET_ALERT_CHANNEL, {
+      name: 'Budget alerts',
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+};
+
+export const expoNotificationTransport: NotificationTransport = {
+  requestPermission: async () => {
+    try {
+      await configureExpoNotifications();
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      if (!current.canAskAgain) return false;
+      return (await Notifications.requestPermissionsAsync()).granted;
+    } catch (error) {
+      console.error('Error requesting notification permission:', error);
+      return false;
+    }
+  },
+
+  send: async ({ title, body, data }) => {
+    await Notifications.scheduleNotificationAsync({
+      content: { title, body, data },
+      // Deliver immediately
+      trigger: Platform.OS === 'android' ? { channelId: BUDGET_ALERT_CHANNEL } : null,
+    });
+  },
+};
+
+export const storageSentAlertStore: SentAlertStore = {
+  load: storage.getSentBudgetAlerts,
+  save: storage.setSentBudgetAlerts,
+};
+
+export const notificationScheduler = createNotificationScheduler(expoNotificationTransport, storageSentAlertStore);
@@ -0,0 +1,49 @@
+import { Platform } from 'react-native';
+import TextRecognition from '@react-native-ml-kit/text-recognition';
+import { receiptParser, ParsedReceipt, ReceiptDateOrder } from '../utils/receiptParser';
+
+// Whatever turns a receipt photo into text; swapped out in tests or where on-device OCR isn't available
+export interface OcrEngine {
+  isAvailable: () => boolean;
+  recognize: (imageUri: string) => Promise<string>;
+}
+
+export interface ReceiptScanner {
+  isAvailable: () => boolean;
+  // Reads the image and parses it; resolves with an empty result when nothing useful was found
+  scan: (imageUri: string, dateOrder?: ReceiptDateOrder) => Promise<ParsedReceipt>;
+}
+
+export const createReceiptScanner = (engine: OcrEngine): ReceiptScanner => ({
+  isAvailable: engine.isAvailable,
+
+  scan: async (imageUri, dateOrder) => {
+    const text = await engine.recognize(imageUri);
+    return receiptParser.parse(text, dateOrder);
+  },
+});
+
+// ML Kit runs on the device, so receipts never leave the phone; it needs a development build
+export const mlKitOcrEngine: OcrEngine = {
+  isAvailable: () => Platform.OS === 'ios' || Platform.OS === 'android',
+
+  recognize: async (imageUri) => {
+    const result = await TextRecognition.recognize(imageUri);
+    return result.text;
+  },
+};
+
+// Returns canned text for each image (or the same text for all); stands in for real OCR in tests and on web
+export const createStaticOcrEngine = (text: string | { [imageUri: string]: string }): OcrEngine => ({
+  isAvailable: () => true,
+
+  recognize: async (imageUri) => {
+    if (typeof text === 'string') return text;
+    if (!(imageUri in text)) {
+      throw new Error('No text recorded for this image');
+    }
+    return text[imageUri];
+  },
+});
+
+export const receiptScanner = createReceiptScanner(mlKitOcrEngine);
@@ -0,0 +1,109 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as ImagePicker from 'expo-image-picker';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { ReceiptAttachment } from '../types';
+
+export type ReceiptSource = 'camera' | 'library';
+
+const THUMBNAIL_WIDTH = 240;
+
+// The file system module is native-only; on web the picker's blob URL is kept as it is
+const receiptsDirectory = () =>
+  Platform.OS === 'web' || !FileSystem.documentDirectory ? null : `${FileSystem.documentDirectory}receipts/`;
+
+const generateId = () => `receipt_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const ensureDirectory = async (directory: string) => {
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+const requestPermission = async (source: ReceiptSource): Promise<boolean> => {
+  const response = source === 'camera'
+    ? await ImagePicker.requestCameraPermissionsAsync()
+    : await ImagePicker.requestMediaLibraryPermissionsAsync();
+  return response.granted;
+};
+
+export const receiptStore = {
+  // Opens the camera or photo library and keeps a copy of each chosen image; empty if cancelled
+  pick: async (source: ReceiptSource): Promise<ReceiptAttachment[]> => {
+    if (!(await requestPermission(source))) {
+      throw new Error(source === 'camera'
+        ? 'Allow camera access to photograph receipts'
+        : 'Allow photo library access to attach receipts');
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images'],
+      quality: 0.8,
+      allowsMultipleSelection: source === 'library',
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    if (result.canceled) {
+      return [];
+    }
+
+    const saved: ReceiptAttachment[] = [];
+    for (const asset of result.assets) {
+      saved.push(await receiptStore.save(asset.uri, asset.width, asset.height));
+    }
+    return saved;
+  },
+
+  // Copies the image out of the picker's temporary location and renders a small thumbnail next to it
+  save: async (sourceUri: string, width?: number, height?: number): Promise<ReceiptAttachment> => {
+    const id = generateId();
+    const createdAt = new Date().toISOString();
+    const directory = receiptsDirectory();
+    if (!directory) {
+      return { id, uri: sourceUri, thumbnailUri: sourceUri, width, height, createdAt };
+    }
+
+    await ensureDirectory(directory);
+    const uri = `${directory}${id}.jpg`;
+    const thumbnailUri = `${directory}${id}_thumb.jpg`;
+    await FileSystem.copyAsync({ from: sourceUri, to: uri });
+
+    try {
+      const rendered = await ImageManipulator.manipulate(sourceUri).resize({ width: THUMBNAIL_WIDTH }).renderAsync();
+      const thumbnail = await rendered.saveAsync({ compress: 0.7, format: SaveFormat.JPEG });
+      await FileSystem.moveAsync({ from: thumbnail.uri, to: thumbnailUri });
+    } catch (error) {
+      // The full image still works as its own thumbnail
+      console.warn('Error creating receipt thumbnail:', error);
+      return { id, uri, thumbnailUri: uri, width, height, createdAt };
+    }
+
+    return { id, uri, thumbnailUri, width, height, createdAt };
+  },
+
+  // Deletes the files behind the attachments; missing files are not an error
+  remove: async (attachments: ReceiptAttachment[] = []): Promise<void> => {
+    const directory = receiptsDirectory();
+    if (!directory) return;
+
+    for (const attachment of attachments) {
+      const uris = Array.from(new Set([attachment.uri, attachment.thumbnailUri]))
+        .filter(uri => uri.startsWith(directory));
+      for (const uri of uris) {
+        try {
+          await FileSystem.deleteAsync(uri, { idempotent: true });
+        } catch (error) {
+          console.warn('Error deleting receipt file:', error);
+        }
+      }
+    }
+  },
+
+  // Files for attachments that were on the expense before an edit but not after
+  removeDropped: async (previous: ReceiptAttachment[] = [], next: ReceiptAttachment[] = []): Promise<void> => {
+    const kept = new Set(next.map(attachment => attachment.id));
+    await receiptStore.remove(previous.filter(attachment => !kept.has(attachment.id)));
+  },
+};
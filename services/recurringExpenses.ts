@@ -0,0 +1,66 @@
+import { expenseStore, isLocalExpenseId } from './expenseStore';
+import { debug } from '../utils/debug';
+import { recurrence, RecurringOccurrence } from '../utils/recurrence';
+
+const generationInFlight: { [userId: string]: Promise<number> | undefined } = {};
+
+const materializeDue = async (userId: string): Promise<number> => {
+  const expenses = await expenseStore.getCachedExpenses(userId);
+  const due = recurrence.upcoming(expenses, new Date(0), new Date());
+
+  // Group by series so each source gets one watermark update
+  const bySource = new Map<string, RecurringOccurrence[]>();
+  due.forEach(occurrence => {
+    // Wait until the series itself has synced so occurrences link to its server id
+    if (isLocalExpenseId(occurrence.source.id)) return;
+    bySource.set(occurrence.source.id, [...(bySource.get(occurrence.source.id) || []), occurrence]);
+  });
+
+  let created = 0;
+  for (const occurrences of bySource.values()) {
+    const source = occurrences[0].source;
+    for (const occurrence of occurrences) {
+      await expenseStore.createExpense({
+        title: source.title || source.name || '',
+        amount: occurrence.amount.toString(),
+        currency: source.currency,
+        category: source.category || 'Other',
+        subcategory: source.subcategory,
+        // Occurrences share the source's amount, so its splits still add up
+        splits: source.splits,
+        tags: source.tags,
+        description: source.description,
+        date: occurrence.date,
+        recurringSourceId: source.id,
+        userId,
+      });
+      created++;
+    }
+
+    // Deleted occurrences stay deleted: the next run starts after the last generated date
+    await expenseStore.updateExpense(userId, source.id, {
+      recurrence: { ...source.recurrence!, lastGeneratedDate: occurrences[occurrences.length - 1].date },
+    });
+  }
+
+  if (created > 0) {
+    debug.log('RecurringExpenses', `Generated ${created} recurring expense(s)`);
+  }
+  return created;
+};
+
+export const recurringExpenses = {
+  // Create every occurrence due up to today that does not exist yet; concurrent calls share one run
+  generateDue: (userId: string): Promise<number> => {
+    const inFlight = generationInFlight[userId];
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const run = materializeDue(userId).finally(() => {
+      generationInFlight[userId] = undefined;
+    });
+    generationInFlight[userId] = run;
+    return run;
+  },
+};
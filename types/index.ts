@@ -6,6 +6,18 @@ export interface User {
   avatar?: string;
   createdAt: string;
   budgetSettings?: BudgetSettings;
+  homeCurrency?: string;
+}
+
+// User as the API stores it, credentials included; never hand this to the UI
+export interface UserRecord extends User {
+  password?: string;
+}
+
+export interface AuthSession {
+  token: string;
+  userId: string;
+  expiresAt: string;
 }
 
 export interface Expense {
@@ -13,12 +25,73 @@ export interface Expense {
   title?: string;
   name?: string;
   amount: number ;
+  currency?: string;
+  // Amount in the user's home currency; derived on the device, never stored
+  convertedAmount?: number;
   category?: string;
+  // Optional second level under the category, e.g. Groceries under Food & Dining
+  subcategory?: string;
+  // Free-form labels across categories, e.g. a trip or "reimbursable"; stored lowercase
+  tags?: string[];
+  // Line items filed under their own categories; when present, category is the largest one's
+  splits?: ExpenseSplit[];
+  // Receipt photos kept on this device
+  attachments?: ReceiptAttachment[];
   description?: string;
   date?: string;
   userId?: string;
   createdAt: string;
   updatedAt?: string;
+  pendingSync?: boolean;
+  // The server refused the last change made on this device; saving the expense again resends it
+  syncFailed?: boolean;
+  recurrence?: RecurrenceRule;
+  recurringSourceId?: string;
+}
+
+// Part of one expense, e.g. the household items on a grocery receipt; amounts are in the
+// expense's own currency and add up to its amount
+export interface ExpenseSplit {
+  id: string;
+  amount: number;
+  category: string;
+  note?: string;
+}
+
+// Image files live in the app's document directory; only these references travel with the expense
+export interface ReceiptAttachment {
+  id: string;
+  uri: string;
+  thumbnailUri: string;
+  width?: number;
+  height?: number;
+  createdAt: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// Set on the expense that starts a series; generated occurrences point back via recurringSourceId
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  endDate?: string;
+  // Date (YYYY-MM-DD) of the latest materialized occurrence; generation resumes after it
+  lastGeneratedDate?: string;
+}
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'yearly'];
+
+export type SyncOperationType = 'create' | 'update' | 'delete';
+
+export interface SyncOperation {
+  id: string;
+  type: SyncOperationType;
+  expenseId: string;
+  userId: string;
+  data?: Partial<ExpenseFormData>;
+  attempts: number;
+  nextAttemptAt: number;
+  createdAt: string;
 }
 
 export interface Budget {
@@ -26,16 +99,93 @@ export interface Budget {
   category: string;
   limit: number;
   spent: number;
-  period: 'weekly' | 'monthly' | 'yearly';
+  period: BudgetPeriodType;
   userId: string;
 }
 
 export interface ExpenseFormData {
   title: string;
   amount: string;
+  currency?: string;
   category: string;
+  subcategory?: string;
+  tags?: string[];
+  // An empty list removes earlier splits
+  splits?: ExpenseSplit[];
+  attachments?: ReceiptAttachment[];
   description?: string;
   date: string;
+  recurrence?: RecurrenceRule;
+  recurringSourceId?: string;
+}
+
+export type IncomeSource = 'salary' | 'freelance' | 'refund' | 'other';
+
+export const INCOME_SOURCES: IncomeSource[] = ['salary', 'freelance', 'refund', 'other'];
+
+export interface Income {
+  id: string;
+  title: string;
+  amount: number;
+  currency?: string;
+  // Amount in the user's home currency; derived on the device, never stored
+  convertedAmount?: number;
+  source: IncomeSource;
+  description?: string;
+  date: string;
+  userId?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface IncomeFormData {
+  title: string;
+  amount: string;
+  currency?: string;
+  source: IncomeSource;
+  description?: string;
+  date: string;
+}
+
+// Money put towards a goal, in the goal's currency
+export interface GoalContribution {
+  id: string;
+  amount: number;
+  date: string;
+  note?: string;
+  createdAt: string;
+}
+
+// "Emergency fund: 5,000 by June"; contributions are stored on the goal itself
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  targetAmount: number;
+  currency: string;
+  // YYYY-MM-DD
+  targetDate: string;
+  contributions: GoalContribution[];
+  userId?: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface GoalFormData {
+  name: string;
+  targetAmount: string;
+  targetDate: string;
+}
+
+export interface ExpenseQueryOptions {
+  page?: number;
+  limit?: number;
+}
+
+export interface ExpensePage {
+  expenses: Expense[];
+  page: number;
+  // Whether the server may hold further pages
+  hasMore: boolean;
 }
 
 export interface LoginFormData {
@@ -49,31 +199,173 @@ export interface ApiResponse<T> {
   success: boolean;
 }
 
-export type ExpenseCategory = 
-  | 'Food & Dining'
-  | 'Transportation'
-  | 'Shopping'
-  | 'Entertainment'
-  | 'Bills & Utilities'
-  | 'Healthcare'
-  | 'Education'
-  | 'Travel'
-  | 'Other';
-
-export const EXPENSE_CATEGORIES: ExpenseCategory[] = [
-  'Food & Dining',
-  'Transportation',
-  'Shopping',
-  'Entertainment',
-  'Bills & Utilities',
-  'Healthcare',
-  'Education',
-  'Travel',
-  'Other',
+// Categories are user data; expenses refer to them by name
+export interface CategoryDefinition {
+  id: string;
+  name: string;
+  // Ionicons glyph name
+  icon: string;
+  color: string;
+  // Hidden from pickers but still shown on the expenses filed under it
+  archived?: boolean;
+  // Earlier names (after a rename) and merged-in categories that resolve to this one
+  aliases?: string[];
+  // Offered under the category when filing an expense; spending rolls up to the category
+  subcategories?: string[];
+}
+
+// Catch-all for expenses without a category; it can be restyled but not renamed, archived or merged away
+export const FALLBACK_CATEGORY = 'Other';
+
+export const DEFAULT_CATEGORIES: CategoryDefinition[] = [
+  { id: 'food', name: 'Food & Dining', icon: 'restaurant-outline', color: '#f59e0b', subcategories: ['Groceries', 'Restaurants', 'Coffee'] },
+  { id: 'transportation', name: 'Transportation', icon: 'car-outline', color: '#3b82f6', subcategories: ['Fuel', 'Public Transit', 'Rideshare', 'Parking'] },
+  { id: 'shopping', name: 'Shopping', icon: 'bag-outline', color: '#ec4899', subcategories: ['Clothing', 'Electronics', 'Household'] },
+  { id: 'entertainment', name: 'Entertainment', icon: 'game-controller-outline', color: '#8b5cf6' },
+  { id: 'bills', name: 'Bills & Utilities', icon: 'receipt-outline', color: '#ef4444', subcategories: ['Rent', 'Electricity', 'Water', 'Internet', 'Phone'] },
+  { id: 'healthcare', name: 'Healthcare', icon: 'medical-outline', color: '#10b981' },
+  { id: 'education', name: 'Education', icon: 'school-outline', color: '#06b6d4' },
+  { id: 'travel', name: 'Travel', icon: 'airplane-outline', color: '#f97316' },
+  { id: 'other', name: FALLBACK_CATEGORY, icon: 'ellipse-outline', color: '#6b7280' },
 ];
 
+// Names of the built-in categories, for code that runs without a user's registry
+export const EXPENSE_CATEGORIES: string[] = DEFAULT_CATEGORIES.map(category => category.name);
+
+export type BudgetPeriodType = 'weekly' | 'monthly' | 'yearly' | 'custom';
+
+export const BUDGET_PERIOD_TYPES: BudgetPeriodType[] = ['weekly', 'monthly', 'yearly', 'custom'];
+
 export interface BudgetSettings {
+  // Limit for one budget period; the name dates from when every budget was monthly
   monthlyLimit: number;
   notificationThreshold: number;
   categoryLimits?: { [key: string]: number };
-} 
\ No newline at end of file
+  period?: BudgetPeriodType;
+  // 0 (Sunday) to 6, for weekly budgets
+  weekStartsOn?: number;
+  // Day of the month a custom pay cycle starts on, 1 to 31
+  cycleStartDay?: number;
+  // Date (YYYY-MM-DD) rollover was switched on; absent means off. Carry-over starts with that period
+  rolloverSince?: string;
+  categoryRolloverSince?: { [category: string]: string };
+  // Which local notifications to send; every type is on unless switched off
+  notifications?: Partial<BudgetNotificationPreferences>;
+}
+
+export type BudgetAlertType = 'threshold' | 'overLimit' | 'categoryOverLimit';
+
+export type BudgetNotificationPreferences = { [type in BudgetAlertType]: boolean };
+
+// Expenses saved before currencies were tracked were all entered in dollars
+export const DEFAULT_CURRENCY = 'USD';
+
+export const SUPPORTED_CURRENCIES: string[] = [
+  'USD',
+  'EUR',
+  'GBP',
+  'JPY',
+  'CAD',
+  'AUD',
+  'CHF',
+  'CNY',
+  'INR',
+  'KES',
+  'RWF',
+  'ZAR',
+];
+
+// rates[code] is how many units of `code` one unit of `base` buys
+export interface ExchangeRateTable {
+  base: string;
+  rates: { [currency: string]: number };
+  updatedAt: string;
+  source: string;
+}
+
+export type CategoryRuleField = 'title' | 'description' | 'any';
+
+export type CategoryRuleMatchType = 'contains' | 'regex';
+
+// "If <field> contains/matches <pattern> and the amount is in range, file it under <category>".
+// Rules are kept in priority order; the first enabled match wins.
+export interface CategoryRule {
+  id: string;
+  pattern: string;
+  matchType: CategoryRuleMatchType;
+  field: CategoryRuleField;
+  // Bounds in the home currency, both inclusive
+  minAmount?: number;
+  maxAmount?: number;
+  category: string;
+  enabled: boolean;
+  createdAt: string;
+}
+
+// What other users see of someone in a shared group; never the full user record
+export interface GroupMember {
+  id: string;
+  username: string;
+  name?: string;
+}
+
+// Row of the searchable /profiles resource, kept apart from /users so a search never returns credentials
+export interface UserProfile {
+  id: string;
+  userId: string;
+  username: string;
+  name?: string;
+}
+
+// One user's membership of one group, so a user's groups can be queried by userId
+export interface GroupMembership {
+  id: string;
+  groupId: string;
+  userId: string;
+  createdAt: string;
+}
+
+// A ledger shared by several users, e.g. a team's lunches or a trip; amounts are in its currency
+export interface ExpenseGroup {
+  id: string;
+  name: string;
+  currency: string;
+  members: GroupMember[];
+  // Member ids again, for balances; groups are found by member through GroupMembership rows
+  memberIds: string[];
+  createdBy: string;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type GroupSplitMethod = 'equal' | 'shares' | 'exact';
+
+export const GROUP_SPLIT_METHODS: GroupSplitMethod[] = ['equal', 'shares', 'exact'];
+
+// Paid by one member on behalf of some or all of the group
+export interface GroupExpense {
+  id: string;
+  groupId: string;
+  title: string;
+  amount: number;
+  paidBy: string;
+  splitMethod: GroupSplitMethod;
+  // Keyed by member id; members left out owe nothing. 'equal' stores 1 per member,
+  // 'shares' the relative weights and 'exact' the amount each one owes.
+  shares: { [memberId: string]: number };
+  date: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// Money handed from one member to another to pay off what they owe
+export interface GroupSettlement {
+  id: string;
+  groupId: string;
+  from: string;
+  to: string;
+  amount: number;
+  date: string;
+  createdBy: string;
+  createdAt: string;
+}
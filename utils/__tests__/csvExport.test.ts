@@ -0,0 +1,99 @@
+import { describe, expect, it } from '@jest/globals';
+import { escapeCsvField, exportExpensesToCsv } from '../csvExport';
+import { Expense } from '../../types';
+
+const expense = (overrides: Partial<Expense> = {}): Expense => ({
+  id: 'exp_1',
+  title: 'Lunch',
+  amount: 12.5,
+  currency: 'USD',
+  category: 'Food & Dining',
+  date: '2026-03-04',
+  createdAt: '2026-03-04T12:00:00.000Z',
+  ...overrides,
+});
+
+// Only for documents whose fields hold no line breaks
+const records = (csv: string): string[] => csv.split('\r\n');
+
+describe('escapeCsvField', () => {
+  it('leaves plain values alone', () => {
+    expect(escapeCsvField('Groceries')).toBe('Groceries');
+    expect(escapeCsvField('')).toBe('');
+  });
+
+  it('quotes values holding a comma', () => {
+    expect(escapeCsvField('Coffee, beans')).toBe('"Coffee, beans"');
+  });
+
+  it('doubles embedded quotes', () => {
+    expect(escapeCsvField('The "good" place')).toBe('"The ""good"" place"');
+  });
+
+  it('quotes values holding a CR or LF', () => {
+    expect(escapeCsvField('line one\nline two')).toBe('"line one\nline two"');
+    expect(escapeCsvField('line one\r\nline two')).toBe('"line one\r\nline two"');
+    expect(escapeCsvField('carriage\rreturn')).toBe('"carriage\rreturn"');
+  });
+});
+
+describe('exportExpensesToCsv', () => {
+  it('writes the default columns in order', () => {
+    const csv = exportExpensesToCsv([expense()]);
+    expect(records(csv)).toEqual([
+      'Date,Title,Category,Amount,Currency',
+      '2026-03-04,Lunch,Food & Dining,12.50,USD',
+      '',
+    ]);
+  });
+
+  it('ends every record, including the last, with CRLF', () => {
+    const csv = exportExpensesToCsv([expense(), expense({ id: 'exp_2', title: 'Dinner' })]);
+    expect(csv.endsWith('\r\n')).toBe(true);
+    expect(csv.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+    expect(records(csv)).toHaveLength(4);
+  });
+
+  it('keeps the requested column order', () => {
+    const csv = exportExpensesToCsv([expense()], { columns: ['currency', 'amount', 'id', 'title'] });
+    expect(records(csv).slice(0, 2)).toEqual(['Currency,Amount,ID,Title', 'USD,12.50,exp_1,Lunch']);
+  });
+
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const csv = exportExpensesToCsv(
+      [expense({ title: 'Pizza, wings', description: 'Said "thanks"\r\nand left' })],
+      { columns: ['title', 'description', 'amount'] }
+    );
+    expect(csv).toBe('Title,Description,Amount\r\n"Pizza, wings","Said ""thanks""\r\nand left",12.50\r\n');
+  });
+
+  it('quotes decimal comma amounts', () => {
+    const csv = exportExpensesToCsv([expense({ amount: 1234.5 })], {
+      columns: ['title', 'amount'],
+      amountFormat: 'decimalComma',
+    });
+    expect(records(csv)[1]).toBe('Lunch,"1234,50"');
+  });
+
+  it('formats dates in the chosen order', () => {
+    const us = exportExpensesToCsv([expense()], { columns: ['date'], dateFormat: 'us' });
+    const eu = exportExpensesToCsv([expense()], { columns: ['date'], dateFormat: 'eu' });
+    expect(records(us)[1]).toBe('03/04/2026');
+    expect(records(eu)[1]).toBe('04/03/2026');
+  });
+
+  it('labels the converted amount with the home currency', () => {
+    const csv = exportExpensesToCsv([expense({ amount: 10, currency: 'EUR', convertedAmount: 10.8 })], {
+      columns: ['amount', 'currency', 'convertedAmount'],
+      homeCurrency: 'USD',
+    });
+    expect(records(csv).slice(0, 2)).toEqual(['Amount,Currency,Home Amount (USD)', '10.00,EUR,10.80']);
+  });
+
+  it('joins tags with spaces and blanks missing optional fields', () => {
+    const csv = exportExpensesToCsv([expense({ tags: ['trip', 'reimbursable'] })], {
+      columns: ['tags', 'subcategory', 'description'],
+    });
+    expect(records(csv)[1]).toBe('trip reimbursable,,');
+  });
+});
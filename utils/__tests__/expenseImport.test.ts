@@ -0,0 +1,190 @@
+import { describe, expect, it } from '@jest/globals';
+import { Expense } from '../../types';
+import { expenseImport, ImportOptions, ImportTable } from '../expenseImport';
+
+const OPTIONS: ImportOptions = {
+  dateFormat: 'iso',
+  decimalComma: false,
+  spendingSign: 'positive',
+  defaultCurrency: 'USD',
+};
+
+const MAPPING = { date: 0, title: 1, amount: 2 };
+
+const table = (...rows: string[][]): ImportTable => ({ format: 'csv', headers: ['Date', 'Title', 'Amount'], rows });
+
+// Builds one row through the full mapping, which is how dates and amounts get parsed
+const buildOne = (date: string, amount: string, options: Partial<ImportOptions> = {}) =>
+  expenseImport.buildRows(table([date, 'Corner Shop', amount]), MAPPING, { ...OPTIONS, ...options }, [])[0];
+
+const saved = (overrides: Partial<Expense>): Expense => ({
+  id: 'exp_1',
+  title: 'Corner Shop',
+  amount: 12.5,
+  category: 'Other',
+  description: '',
+  date: '2024-03-14',
+  userId: 'user_1',
+  createdAt: '2024-03-14T10:00:00.000Z',
+  updatedAt: '2024-03-14T10:00:00.000Z',
+  ...overrides,
+});
+
+describe('expenseImport.parseCsv', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const parsed = expenseImport.parseCsv(
+      'Date,Title,Amount\r\n2024-03-14,"Smith, Jones & Co","1,200.00"\r\n2024-03-15,"The ""Good"" Cafe\nUptown",4.50\r\n'
+    );
+    expect(parsed.headers).toEqual(['Date', 'Title', 'Amount']);
+    expect(parsed.rows).toEqual([
+      ['2024-03-14', 'Smith, Jones & Co', '1,200.00'],
+      ['2024-03-15', 'The "Good" Cafe\nUptown', '4.50'],
+    ]);
+  });
+
+  it('detects semicolon-separated files', () => {
+    const parsed = expenseImport.parseCsv('Datum;Beschreibung;Betrag\n14.03.2024;Bäckerei, Süd;3,20\n');
+    expect(parsed.headers).toEqual(['Datum', 'Beschreibung', 'Betrag']);
+    expect(parsed.rows).toEqual([['14.03.2024', 'Bäckerei, Süd', '3,20']]);
+  });
+
+  it('strips a byte order mark and skips blank lines', () => {
+    const parsed = expenseImport.parseCsv('\uFEFFDate,Title\n\n2024-03-14,Taxi\n , \n');
+    expect(parsed.headers).toEqual(['Date', 'Title']);
+    expect(parsed.rows).toEqual([['2024-03-14', 'Taxi']]);
+  });
+});
+
+describe('expenseImport.parseOfx', () => {
+  it('reads SGML transactions and the statement currency', () => {
+    const parsed = expenseImport.parseOfx([
+      'OFXHEADER:100',
+      '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>',
+      '<CURDEF>EUR',
+      '<BANKTRANLIST>',
+      '<STMTTRN>',
+      '<TRNTYPE>DEBIT',
+      '<DTPOSTED>20240314120000[-5:EST]',
+      '<TRNAMT>-12.50',
+      '<NAME>CORNER SHOP',
+      '<MEMO>Card 1234',
+      '<STMTTRN>',
+      '<DTPOSTED>20240315',
+      '<TRNAMT>-3.20',
+      '<PAYEE>BAKERY',
+      '</BANKTRANLIST>',
+    ].join('\n'));
+
+    expect(parsed.format).toBe('ofx');
+    expect(parsed.rows).toEqual([
+      ['20240314120000[-5:EST]', '-12.50', 'CORNER SHOP', 'Card 1234', 'EUR'],
+      ['20240315', '-3.20', 'BAKERY', '', 'EUR'],
+    ]);
+  });
+
+  it('reads XML transactions with closing tags', () => {
+    const parsed = expenseImport.parseOfx(
+      '<?xml version="1.0"?><OFX><CURDEF>USD</CURDEF><STMTTRN><DTPOSTED>20240314</DTPOSTED>'
+      + '<TRNAMT>-9.99</TRNAMT><NAME>Streaming</NAME></STMTTRN></OFX>'
+    );
+    expect(parsed.rows).toEqual([['20240314', '-9.99', 'Streaming', '', 'USD']]);
+  });
+
+  it('is chosen for .ofx and .qfx files or OFX content', () => {
+    expect(expenseImport.parse('Date,Title\n', 'statement.QFX').format).toBe('ofx');
+    expect(expenseImport.parse('<OFX></OFX>').format).toBe('ofx');
+    expect(expenseImport.parse('Date,Title\n', 'statement.csv').format).toBe('csv');
+  });
+});
+
+describe('expenseImport.guessSpendingSign', () => {
+  it('picks the sign most amounts carry', () => {
+    expect(expenseImport.guessSpendingSign(table(['', '', '-1'], ['', '', '-2'], ['', '', '30']), MAPPING)).toBe('negative');
+    expect(expenseImport.guessSpendingSign(table(['', '', '-1'], ['', '', '2'], ['', '', '3']), MAPPING)).toBe('positive');
+  });
+
+  it('counts parentheses as negative and ignores zero and unreadable amounts', () => {
+    const rows = table(['', '', '(1,50)'], ['', '', '0'], ['', '', 'n/a'], ['', '', '(2,00)'], ['', '', '4,00']);
+    expect(expenseImport.guessSpendingSign(rows, MAPPING, true)).toBe('negative');
+  });
+
+  it('defaults to positive without an amount column or on a tie', () => {
+    expect(expenseImport.guessSpendingSign(table(['', '', '-1']), { date: 0 })).toBe('positive');
+    expect(expenseImport.guessSpendingSign(table(['', '', '-1'], ['', '', '1']), MAPPING)).toBe('positive');
+  });
+});
+
+describe('expenseImport.buildRows', () => {
+  describe('dates', () => {
+    it('reads ambiguous numeric dates in the chosen order', () => {
+      expect(buildOne('04/05/2024', '1', { dateFormat: 'us' }).data.date).toBe('2024-04-05');
+      expect(buildOne('04/05/2024', '1', { dateFormat: 'eu' }).data.date).toBe('2024-05-04');
+      expect(buildOne('14.03.24', '1', { dateFormat: 'eu' }).data.date).toBe('2024-03-14');
+    });
+
+    it('reads ISO and compact OFX dates whatever the chosen order', () => {
+      expect(buildOne('2024-3-9', '1', { dateFormat: 'eu' }).data.date).toBe('2024-03-09');
+      expect(buildOne('20240314120000[-5:EST]', '1', { dateFormat: 'us' }).data.date).toBe('2024-03-14');
+    });
+
+    it('rejects dates that do not exist', () => {
+      const row = buildOne('02/30/2024', '1', { dateFormat: 'us' });
+      expect(row.data.date).toBe('');
+      expect(row.errors).toContain('Date not recognized');
+    });
+  });
+
+  describe('amounts', () => {
+    it('reads a decimal comma with thousands dots', () => {
+      expect(buildOne('2024-03-14', '1.234,56 €', { decimalComma: true }).data.amount).toBe('1234.56');
+      expect(buildOne('2024-03-14', '3,20', { decimalComma: true }).data.amount).toBe('3.20');
+    });
+
+    it('drops currency symbols and thousands commas', () => {
+      expect(buildOne('2024-03-14', '$1,234.56').data.amount).toBe('1234.56');
+    });
+
+    it('treats parentheses as negative', () => {
+      const row = buildOne('2024-03-14', '(12.50)', { spendingSign: 'negative' });
+      expect(row.data.amount).toBe('12.50');
+      expect(row.errors).toEqual([]);
+      expect(buildOne('2024-03-14', '(12,50)', { decimalComma: true }).errors)
+        .toContain('Looks like a refund or payment, not spending');
+    });
+
+    it('flags amounts with the refund sign', () => {
+      expect(buildOne('2024-03-14', '-12.50').errors).toContain('Looks like a refund or payment, not spending');
+      expect(buildOne('2024-03-14', '12.50', { spendingSign: 'negative' }).errors)
+        .toContain('Looks like a refund or payment, not spending');
+    });
+  });
+
+  describe('duplicates', () => {
+    it('matches saved expenses by amount, day and similar title', () => {
+      const rows = expenseImport.buildRows(
+        table(['2024-03-14', 'CORNER SHOP LONDON', '12.50'], ['2024-03-14', 'Corner Shop', '12.51'], ['2024-03-15', 'Corner Shop', '12.50']),
+        MAPPING,
+        OPTIONS,
+        [saved({ date: '2024-03-14T18:30:00.000Z' })]
+      );
+      expect(rows.map(row => row.duplicateOf?.title)).toEqual(['Corner Shop', undefined, undefined]);
+    });
+
+    it('does not match different merchants on the same day and amount', () => {
+      const [row] = expenseImport.buildRows(table(['2024-03-14', 'Petrol Station', '12.50']), MAPPING, OPTIONS, [saved({})]);
+      expect(row.duplicateOf).toBeUndefined();
+    });
+
+    it('matches earlier valid rows of the same file but not rows with errors', () => {
+      const rows = expenseImport.buildRows(
+        table(['2024-03-14', 'Taxi', '-8.00'], ['2024-03-14', 'Taxi', '8.00'], ['2024-03-14', 'Taxi', '8.00']),
+        MAPPING,
+        OPTIONS,
+        []
+      );
+      expect(rows[1].duplicateOf).toBeUndefined();
+      expect(rows[2].duplicateOf).toBe(rows[1].data);
+      expect(expenseImport.importable(rows)).toEqual([rows[1]]);
+    });
+  });
+});
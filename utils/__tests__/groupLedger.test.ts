@@ -0,0 +1,153 @@
+import { describe, expect, it } from '@jest/globals';
+import { GroupExpense, GroupSettlement } from '../../types';
+import { groupLedger, GroupTransfer } from '../groupLedger';
+
+const expense = (overrides: Partial<GroupExpense>): GroupExpense => ({
+  id: 'e1',
+  groupId: 'g1',
+  title: 'Dinner',
+  amount: 0,
+  paidBy: 'a',
+  splitMethod: 'equal',
+  shares: {},
+  date: '2026-03-01',
+  createdBy: 'a',
+  createdAt: '2026-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const settlement = (from: string, to: string, amount: number): GroupSettlement => ({
+  id: `${from}-${to}`,
+  groupId: 'g1',
+  from,
+  to,
+  amount,
+  date: '2026-03-02',
+  createdBy: from,
+  createdAt: '2026-03-02T00:00:00.000Z',
+});
+
+const sumCents = (amounts: number[]) => amounts.reduce((total, amount) => total + Math.round(amount * 100), 0);
+
+// Balances in cents once every transfer has been paid
+const afterPaying = (balances: { [memberId: string]: number }, transfers: GroupTransfer[]) => {
+  const cents = Object.fromEntries(Object.entries(balances).map(([id, amount]) => [id, Math.round(amount * 100)]));
+  transfers.forEach(({ from, to, amount }) => {
+    cents[from] += Math.round(amount * 100);
+    cents[to] -= Math.round(amount * 100);
+  });
+  return cents;
+};
+
+const allZero = (cents: { [memberId: string]: number }) => Object.values(cents).every(value => value === 0);
+
+describe('groupLedger.owedShares', () => {
+  it('gives leftover cents of an equal split to the first members by id', () => {
+    const shares = groupLedger.owedShares(expense({ amount: 10, shares: { c: 1, a: 1, b: 1 } }));
+    expect(shares).toEqual({ a: 3.34, b: 3.33, c: 3.33 });
+  });
+
+  it('gives leftover cents to the largest remainders when splitting by shares', () => {
+    const shares = groupLedger.owedShares(expense({ amount: 10, splitMethod: 'shares', shares: { a: 1, b: 2 } }));
+    expect(shares).toEqual({ a: 3.33, b: 6.67 });
+  });
+
+  it('always adds up to the exact amount', () => {
+    [0.01, 0.05, 1, 9.99, 100, 1234.57].forEach(amount => {
+      const equal = groupLedger.owedShares(expense({ amount, shares: { a: 1, b: 1, c: 1, d: 1, e: 1, f: 1, g: 1 } }));
+      const weighted = groupLedger.owedShares(expense({ amount, splitMethod: 'shares', shares: { a: 3, b: 5, c: 7 } }));
+      expect(sumCents(Object.values(equal))).toBe(Math.round(amount * 100));
+      expect(sumCents(Object.values(weighted))).toBe(Math.round(amount * 100));
+    });
+  });
+
+  it('leaves out members who owe nothing', () => {
+    expect(groupLedger.owedShares(expense({ amount: 0.02, shares: { a: 1, b: 1, c: 1 } }))).toEqual({ a: 0.01, b: 0.01 });
+    expect(groupLedger.owedShares(expense({ amount: 12, splitMethod: 'exact', shares: { a: 12, b: 0 } }))).toEqual({ a: 12 });
+  });
+});
+
+describe('groupLedger.balances', () => {
+  it('credits the payer and debits each share', () => {
+    const balances = groupLedger.balances(['a', 'b', 'c'], [expense({ amount: 30, shares: { a: 1, b: 1, c: 1 } })], []);
+    expect(balances).toEqual({ a: 20, b: -10, c: -10 });
+  });
+
+  it('applies settlements', () => {
+    const balances = groupLedger.balances(
+      ['a', 'b', 'c'],
+      [expense({ amount: 30, shares: { a: 1, b: 1, c: 1 } })],
+      [settlement('b', 'a', 10)]
+    );
+    expect(balances).toEqual({ a: 10, b: 0, c: -10 });
+  });
+
+  it('stays zero-sum when a split leaves odd cents', () => {
+    const balances = groupLedger.balances(
+      ['a', 'b', 'c'],
+      [expense({ amount: 10, shares: { a: 1, b: 1, c: 1 } }), expense({ amount: 0.05, paidBy: 'b', shares: { a: 1, c: 1 } })],
+      []
+    );
+    expect(balances).toEqual({ a: 6.63, b: -3.28, c: -3.35 });
+    expect(sumCents(Object.values(balances))).toBe(0);
+  });
+
+  it('keeps balances of people who are no longer members', () => {
+    const balances = groupLedger.balances(['a'], [expense({ amount: 8, shares: { a: 1, former: 1 } })], []);
+    expect(balances).toEqual({ a: 4, former: -4 });
+  });
+});
+
+describe('groupLedger.settle', () => {
+  it('settles a balanced three-person cycle in two transfers', () => {
+    // a paid for b, b paid for c and c paid for a, in different amounts
+    const balances = groupLedger.balances(['a', 'b', 'c'], [
+      expense({ amount: 30, paidBy: 'a', splitMethod: 'exact', shares: { b: 30 } }),
+      expense({ amount: 20, paidBy: 'b', splitMethod: 'exact', shares: { c: 20 } }),
+      expense({ amount: 10, paidBy: 'c', splitMethod: 'exact', shares: { a: 10 } }),
+    ], []);
+    const transfers = groupLedger.settle(balances);
+
+    expect(transfers).toHaveLength(2);
+    expect(allZero(afterPaying(balances, transfers))).toBe(true);
+  });
+
+  it('settles two independent zero-sum pairs in two transfers', () => {
+    const transfers = groupLedger.settle({ a: 5, b: -5, c: 3, d: -3 });
+    expect(transfers).toEqual(expect.arrayContaining([
+      { from: 'b', to: 'a', amount: 5 },
+      { from: 'd', to: 'c', amount: 3 },
+    ]));
+    expect(transfers).toHaveLength(2);
+  });
+
+  it('finds zero-sum groups that biggest-to-biggest matching would miss', () => {
+    // Matching the largest debt to the largest credit first takes four transfers here
+    const balances = { a: 10, b: -6, c: -4, d: 7, e: -7 };
+    const transfers = groupLedger.settle(balances);
+
+    expect(transfers).toHaveLength(3);
+    expect(allZero(afterPaying(balances, transfers))).toBe(true);
+  });
+
+  it('falls back to greedy matching above twelve unsettled members', () => {
+    const trap = { a: 10, b: -6, c: -4, d: 7, e: -7 };
+    const pairs = { f: 1, g: -1, h: 2, i: -2, j: 3, k: -3 };
+
+    // Eleven members: the exact search finds all five zero-sum groups
+    const eleven = { ...trap, ...pairs };
+    expect(groupLedger.settle(eleven)).toHaveLength(6);
+
+    // Thirteen: greedy pays the largest debt to the largest credit first and needs an extra transfer
+    const thirteen = { ...eleven, l: 4.5, m: -4.5 };
+    const transfers = groupLedger.settle(thirteen);
+    expect(transfers[0]).toEqual({ from: 'e', to: 'a', amount: 7 });
+    expect(transfers).toHaveLength(8);
+    expect(allZero(afterPaying(thirteen, transfers))).toBe(true);
+  });
+
+  it('ignores members who are already settled', () => {
+    expect(groupLedger.settle({ a: 0, b: 2.5, c: -2.5 })).toEqual([{ from: 'c', to: 'b', amount: 2.5 }]);
+    expect(groupLedger.settle({ a: 0, b: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, expect, it } from '@jest/globals';
+import { receiptParser } from '../receiptParser';
+
+const receipt = (...lines: string[]) => lines.join('\n');
+
+describe('receiptParser.parse', () => {
+  it('reads a typical US grocery receipt', () => {
+    const parsed = receiptParser.parse(receipt(
+      'TRADER JOE\'S',
+      '123 Main St',
+      'Tel 555-0100',
+      '03/14/2024 14:32',
+      'BANANAS 1.99',
+      'MILK 3.49',
+      'SUBTOTAL 5.48',
+      'TAX 0.44',
+      'TOTAL 5.92',
+      'CASH 10.00',
+      'CHANGE 4.08',
+    ));
+
+    expect(parsed).toEqual({
+      merchant: 'Trader Joe\'s',
+      total: 5.92,
+      date: '2024-03-14',
+      currency: undefined,
+    });
+  });
+
+  it('skips subtotal, tax, cash and change lines when picking the total', () => {
+    const parsed = receiptParser.parse(receipt(
+      'Corner Cafe',
+      'Subtotal 40.00',
+      'VAT 8.00',
+      'Total 48.00',
+      'Cash tendered 100.00',
+      'Change 52.00',
+    ));
+    expect(parsed.total).toBe(48);
+  });
+
+  it('prefers "amount due" wording over a plain total', () => {
+    const parsed = receiptParser.parse(receipt('Hardware Co', 'Total 120.00', 'Discount 20.00', 'Amount due 100.00'));
+    expect(parsed.total).toBe(100);
+  });
+
+  it('reads the figure on the line below the label', () => {
+    const parsed = receiptParser.parse(receipt('Bakery', 'TOTAL', '12.40'));
+    expect(parsed.total).toBe(12.4);
+  });
+
+  it('falls back to the largest price when nothing is labelled', () => {
+    const parsed = receiptParser.parse(receipt('Market Stall', 'Apples 2.50', 'Pears 3.75', 'Change 6.25'));
+    expect(parsed.total).toBe(3.75);
+  });
+
+  it('reads thousands separators either way round', () => {
+    expect(receiptParser.parse('Möbelhaus\nSumme 1.234,56 EUR').total).toBe(1234.56);
+    expect(receiptParser.parse('Furniture Barn\nTotal 1,234.56').total).toBe(1234.56);
+    expect(receiptParser.parse('Bistro\nTotale 12,50').total).toBe(12.5);
+  });
+
+  it('does not read dates or times as prices', () => {
+    const parsed = receiptParser.parse(receipt('Kiosk', 'Total 12.05.24 3.20', '14:30'));
+    expect(parsed.total).toBe(3.2);
+  });
+
+  describe('dates', () => {
+    it('reads ambiguous numeric dates in the order asked for', () => {
+      const text = receipt('Pharmacy', '04/05/2024', 'Total 9.99');
+      expect(receiptParser.parse(text, 'us').date).toBe('2024-04-05');
+      expect(receiptParser.parse(text, 'eu').date).toBe('2024-05-04');
+    });
+
+    it('treats a part above 12 as the day whatever the order', () => {
+      expect(receiptParser.parse('Pharmacy\n25/12/2023', 'us').date).toBe('2023-12-25');
+      expect(receiptParser.parse('Pharmacy\n12/25/2023', 'eu').date).toBe('2023-12-25');
+    });
+
+    it('reads ISO, dotted and two-digit year dates', () => {
+      expect(receiptParser.parse('Shop\n2024-02-29').date).toBe('2024-02-29');
+      expect(receiptParser.parse('Shop\n03.01.24', 'eu').date).toBe('2024-01-03');
+    });
+
+    it('reads dates with month names', () => {
+      expect(receiptParser.parse('Shop\n7th Mar 2024').date).toBe('2024-03-07');
+      expect(receiptParser.parse('Shop\nMarch 7, 2024').date).toBe('2024-03-07');
+    });
+
+    it('ignores impossible and future dates', () => {
+      expect(receiptParser.parse('Shop\n02/30/2024').date).toBeUndefined();
+      expect(receiptParser.parse('Shop\n01/01/2999').date).toBeUndefined();
+    });
+  });
+
+  describe('currency', () => {
+    it('prefers an ISO code', () => {
+      expect(receiptParser.parse('Shop\nTotal 10.00 GBP').currency).toBe('GBP');
+    });
+
+    it('recognises symbols that name one currency', () => {
+      expect(receiptParser.parse('Shop\nTotal €10.00').currency).toBe('EUR');
+      expect(receiptParser.parse('Shop\nTotal £10.00').currency).toBe('GBP');
+      expect(receiptParser.parse('Shop\nTotal ₹250.00').currency).toBe('INR');
+      expect(receiptParser.parse('Shop\nTotal C$10.00').currency).toBe('CAD');
+    });
+
+    it('leaves a bare dollar sign alone', () => {
+      expect(receiptParser.parse('Shop\nTotal $10.00').currency).toBeUndefined();
+    });
+  });
+
+  it('skips header lines that are not the merchant', () => {
+    const parsed = receiptParser.parse(receipt('RECEIPT', 'Welcome!', 'www.example.com', 'BLUE BOTTLE COFFEE', 'Total 4.50'));
+    expect(parsed.merchant).toBe('Blue Bottle Coffee');
+  });
+
+  it('returns nothing for empty text', () => {
+    const parsed = receiptParser.parse('  \n \n');
+    expect(parsed).toEqual({});
+    expect(receiptParser.isEmpty(parsed)).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { BudgetPeriodType, BudgetSettings, Expense } from '../types';
+import { recurrence } from './recurrence';
+
+// Both ends inclusive: start is local midnight, end is the last millisecond of the final day
+export interface BudgetPeriodRange {
+  start: Date;
+  end: Date;
+}
+
+const PERIOD_LABELS: { [key in BudgetPeriodType]: string } = {
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+  custom: 'Pay Cycle',
+};
+
+const DEFAULT_WEEK_START = 1; // Monday
+
+const clampDay = (year: number, month: number, day: number) =>
+  Math.min(Math.max(day, 1), new Date(year, month + 1, 0).getDate());
+
+const endBefore = (nextStart: Date) => new Date(nextStart.getTime() - 1);
+
+export const budgetPeriod = {
+  type: (settings: BudgetSettings): BudgetPeriodType => settings.period || 'monthly',
+
+  label: (settings: BudgetSettings): string => PERIOD_LABELS[budgetPeriod.type(settings)],
+
+  // The period that contains `date`
+  containing: (settings: BudgetSettings, date: Date = new Date()): BudgetPeriodRange => {
+    const year = date.getFullYear();
+    const month = date.getMonth();
+
+    switch (budgetPeriod.type(settings)) {
+      case 'weekly': {
+        const weekStart = settings.weekStartsOn ?? DEFAULT_WEEK_START;
+        const offset = (date.getDay() - weekStart + 7) % 7;
+        const start = new Date(year, month, date.getDate() - offset);
+        return { start, end: endBefore(new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7)) };
+      }
+      case 'yearly':
+        return { start: new Date(year, 0, 1), end: endBefore(new Date(year + 1, 0, 1)) };
+      case 'custom': {
+        // Pay cycles start on the same day every month, clamped for short months
+        const cycleDay = settings.cycleStartDay || 1;
+        const startsThisMonth = date.getDate() >= clampDay(year, month, cycleDay);
+        const startMonth = startsThisMonth ? month : month - 1;
+        const start = new Date(year, startMonth, clampDay(year, startMonth, cycleDay));
+        const nextStart = new Date(year, startMonth + 1, clampDay(year, startMonth + 1, cycleDay));
+        return { start, end: endBefore(nextStart) };
+      }
+      case 'monthly':
+      default:
+        return { start: new Date(year, month, 1), end: endBefore(new Date(year, month + 1, 1)) };
+    }
+  },
+
+  previous: (settings: BudgetSettings, range: BudgetPeriodRange): BudgetPeriodRange => {
+    return budgetPeriod.containing(settings, new Date(range.start.getTime() - 1));
+  },
+
+  next: (settings: BudgetSettings, range: BudgetPeriodRange): BudgetPeriodRange => {
+    return budgetPeriod.containing(settings, new Date(range.end.getTime() + 1));
+  },
+
+  // Compares calendar days so "2024-05-01" counts on May 1st in every timezone
+  contains: (range: BudgetPeriodRange, expense: Expense): boolean => {
+    return budgetPeriod.containsDate(range, expense.date || expense.createdAt);
+  },
+
+  containsDate: (range: BudgetPeriodRange, date: string): boolean => {
+    const day = date.slice(0, 10);
+    return day >= recurrence.toDateKey(range.start) && day <= recurrence.toDateKey(range.end);
+  },
+
+  filterExpenses: (range: BudgetPeriodRange, expenses: Expense[]): Expense[] => {
+    return expenses.filter(expense => budgetPeriod.contains(range, expense));
+  },
+
+  formatRange: (range: BudgetPeriodRange): string => {
+    const format = (date: Date, withYear: boolean) => date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      ...(withYear && { year: 'numeric' }),
+    });
+    const sameYear = range.start.getFullYear() === range.end.getFullYear();
+    return `${format(range.start, !sameYear)} – ${format(range.end, true)}`;
+  },
+};
@@ -0,0 +1,198 @@
+import { BudgetAlertType, BudgetSettings, Expense, ExpenseSplit } from '../types';
+import { expenseSelectors, CategoryTotal } from './expenseSelectors';
+import { budgetPeriod, BudgetPeriodRange } from './budgetPeriod';
+import { recurrence } from './recurrence';
+
+// How far back carry-over is followed; older periods no longer affect today's limit
+const MAX_ROLLOVER_PERIODS = 36;
+
+export interface CategoryBudget {
+  category: string;
+  spent: number;
+  limit: number;
+  // Not capped at 100 so overspending can be reported
+  percentage: number;
+}
+
+export interface CategoryBudgetBreakdown {
+  budgeted: CategoryBudget[];
+  unbudgeted: CategoryTotal[];
+}
+
+export interface PeriodSummary {
+  range: BudgetPeriodRange;
+  limit: number;
+  // Remainder (positive) or deficit (negative) carried in from the previous period
+  rollover: number;
+  effectiveLimit: number;
+  spent: number;
+  remaining: number;
+}
+
+export interface PeriodSummaryOptions {
+  // Summarize one category against its own limit instead of the whole budget
+  category?: string;
+  // Number of periods to return, ending with the current one
+  count?: number;
+  now?: Date;
+}
+
+export interface BudgetCheck {
+  // Home-currency amount of the expense about to be saved
+  amount: number;
+  category: string;
+  // Line items as entered; each category gets its proportional share of amount
+  splits?: Pick<ExpenseSplit, 'amount' | 'category'>[];
+  date: string;
+  // Set when editing, so the saved version is replaced rather than added to
+  expenseId?: string;
+}
+
+export interface BudgetWarning {
+  type: BudgetAlertType;
+  category?: string;
+  spentBefore: number;
+  spentAfter: number;
+  limit: number;
+}
+
+export const budgetSelectors = {
+  // Only positive limits count as a budget; zero or missing means "not budgeted"
+  categoryLimits: (settings: BudgetSettings): { [category: string]: number } => {
+    const limits: { [category: string]: number } = {};
+    Object.entries(settings.categoryLimits || {}).forEach(([category, limit]) => {
+      const value = Number(limit);
+      if (value > 0) {
+        limits[category] = value;
+      }
+    });
+    return limits;
+  },
+
+  allocated: (settings: BudgetSettings): number => {
+    return Object.values(budgetSelectors.categoryLimits(settings)).reduce((total, limit) => total + limit, 0);
+  },
+
+  // Negative when category limits add up to more than the monthly limit
+  unallocated: (settings: BudgetSettings): number => {
+    return settings.monthlyLimit - budgetSelectors.allocated(settings);
+  },
+
+  isOverAllocated: (settings: BudgetSettings): boolean => {
+    return budgetSelectors.unallocated(settings) < 0;
+  },
+
+  // Split category spending into categories with a limit and those without.
+  // effectiveLimits, when given, replaces the configured limits (e.g. to include rollover).
+  categoryBreakdown: (
+    settings: BudgetSettings,
+    totals: CategoryTotal[],
+    effectiveLimits?: { [category: string]: number }
+  ): CategoryBudgetBreakdown => {
+    const limits = { ...budgetSelectors.categoryLimits(settings), ...effectiveLimits };
+    const spentByCategory: { [category: string]: number } = {};
+    totals.forEach(({ category, amount }) => {
+      spentByCategory[category] = amount;
+    });
+
+    const budgeted = Object.entries(limits)
+      .map(([category, limit]) => {
+        const spent = spentByCategory[category] || 0;
+        const percentage = limit > 0 ? (spent / limit) * 100 : spent > 0 ? Infinity : 0;
+        return { category, spent, limit, percentage };
+      })
+      .sort((a, b) => b.percentage - a.percentage);
+
+    const unbudgeted = totals.filter(({ category, amount }) => !(category in limits) && amount > 0);
+
+    return { budgeted, unbudgeted };
+  },
+
+  // Limit, rollover and spend for recent periods, oldest first; the last entry is the current period.
+  // Past periods are measured against today's limits since earlier settings are not kept.
+  periodSummaries: (settings: BudgetSettings, expenses: Expense[], options: PeriodSummaryOptions = {}): PeriodSummary[] => {
+    const { category, count = 1, now = new Date() } = options;
+    const limit = category ? budgetSelectors.categoryLimits(settings)[category] || 0 : settings.monthlyLimit;
+    const since = category ? settings.categoryRolloverSince?.[category] : settings.rolloverSince;
+    const relevant = category ? expenseSelectors.byCategory(expenses, category) : expenses;
+
+    // Walk back far enough to cover the requested history and the whole rollover chain
+    const ranges: BudgetPeriodRange[] = [budgetPeriod.containing(settings, now)];
+    while (ranges.length < MAX_ROLLOVER_PERIODS) {
+      const reachedSince = !since || recurrence.toDateKey(ranges[0].start) <= since;
+      if (ranges.length >= count && reachedSince) break;
+      ranges.unshift(budgetPeriod.previous(settings, ranges[0]));
+    }
+
+    let carry = 0;
+    const summaries = ranges.map(range => {
+      const inChain = !!since && recurrence.toDateKey(range.end) >= since;
+      const rollover = inChain ? carry : 0;
+      const effectiveLimit = limit + rollover;
+      const inRange = budgetPeriod.filterExpenses(range, relevant);
+      const spent = category ? expenseSelectors.categoryTotal(inRange, category) : expenseSelectors.total(inRange);
+      carry = inChain ? effectiveLimit - spent : 0;
+      return { range, limit, rollover, effectiveLimit, spent, remaining: effectiveLimit - spent };
+    });
+
+    return summaries.slice(-count);
+  },
+
+  currentPeriodSummary: (settings: BudgetSettings, expenses: Expense[], category?: string): PeriodSummary => {
+    return budgetSelectors.periodSummaries(settings, expenses, { category })[0];
+  },
+
+  // Limits the check would newly cross in the current period. Only increases warn, so an edit
+  // that lowers the amount or moves the expense out of the period never asks for confirmation.
+  budgetWarnings: (
+    settings: BudgetSettings,
+    expenses: Expense[],
+    check: BudgetCheck,
+    limits: { total: number; categories: { [category: string]: number } },
+    now: Date = new Date()
+  ): BudgetWarning[] => {
+    const range = budgetPeriod.containing(settings, now);
+    const current = budgetPeriod.filterExpenses(range, expenses);
+    const others = check.expenseId ? current.filter(expense => expense.id !== check.expenseId) : current;
+    const added = budgetPeriod.containsDate(range, check.date) ? check.amount : 0;
+    const warnings: BudgetWarning[] = [];
+
+    const spentBefore = expenseSelectors.total(current);
+    const spentAfter = expenseSelectors.total(others) + added;
+    const thresholdAmount = limits.total * (settings.notificationThreshold / 100);
+    if (spentAfter > spentBefore) {
+      if (spentAfter > limits.total) {
+        warnings.push({ type: 'overLimit', spentBefore, spentAfter, limit: limits.total });
+      } else if (spentAfter >= thresholdAmount && spentBefore < thresholdAmount) {
+        warnings.push({ type: 'threshold', spentBefore, spentAfter, limit: limits.total });
+      }
+    }
+
+    // A split expense can push several categories over at once
+    const addedByCategory: { [category: string]: number } = {};
+    const portions = check.splits && check.splits.length > 0
+      ? expenseSelectors.splitShares(added, check.splits)
+      : [{ category: check.category, amount: added }];
+    portions.forEach(({ category, amount }) => {
+      addedByCategory[category] = (addedByCategory[category] || 0) + amount;
+    });
+
+    Object.entries(addedByCategory).forEach(([category, amount]) => {
+      const categoryLimit = limits.categories[category];
+      if (categoryLimit === undefined) return;
+      const categoryBefore = expenseSelectors.categoryTotal(current, category);
+      const categoryAfter = expenseSelectors.categoryTotal(others, category) + amount;
+      if (categoryAfter > categoryLimit && categoryAfter > categoryBefore) {
+        warnings.push({
+          type: 'categoryOverLimit',
+          category,
+          spentBefore: categoryBefore,
+          spentAfter: categoryAfter,
+          limit: categoryLimit,
+        });
+      }
+    });
+
+    return warnings;
+  },
+};
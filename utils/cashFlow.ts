@@ -0,0 +1,76 @@
+import { Expense, Income, IncomeSource } from '../types';
+import { expenseSelectors } from './expenseSelectors';
+
+// Money in and out for one calendar month, in the home currency
+export interface CashFlowMonth {
+  year: number;
+  // 0-based, like Date.getMonth()
+  month: number;
+  label: string;
+  income: number;
+  expenses: number;
+  net: number;
+  // Share of income kept, e.g. 0.25; null without income to compare against
+  savingsRate: number | null;
+}
+
+// Label and Ionicons glyph for each income source
+export const INCOME_SOURCE_DETAILS: { [source in IncomeSource]: { label: string; icon: string } } = {
+  salary: { label: 'Salary', icon: 'briefcase-outline' },
+  freelance: { label: 'Freelance', icon: 'laptop-outline' },
+  refund: { label: 'Refund', icon: 'return-down-back-outline' },
+  other: { label: 'Other', icon: 'cash-outline' },
+};
+
+const getIncomeDate = (income: Income): Date => new Date(income.date || income.createdAt);
+
+export const cashFlow = {
+  // Home-currency amount when a conversion is known, otherwise the amount as entered
+  amount: (income: Income): number => {
+    if (income.convertedAmount !== undefined) {
+      return income.convertedAmount;
+    }
+    const amount: number | string = income.amount;
+    return typeof amount === 'string' ? parseFloat(amount) || 0 : amount;
+  },
+
+  total: (income: Income[]): number => {
+    return income.reduce((total, entry) => total + cashFlow.amount(entry), 0);
+  },
+
+  // month is 0-based, like Date.getMonth()
+  byMonth: (income: Income[], year: number, month: number): Income[] => {
+    return income.filter(entry => {
+      const date = getIncomeDate(entry);
+      return date.getMonth() === month && date.getFullYear() === year;
+    });
+  },
+
+  sortByDateDesc: (income: Income[]): Income[] => {
+    return [...income].sort((a, b) => getIncomeDate(b).getTime() - getIncomeDate(a).getTime());
+  },
+
+  savingsRate: (income: number, spent: number): number | null => {
+    return income > 0 ? (income - spent) / income : null;
+  },
+
+  // The last `count` months, oldest first, ending with the month of `now`
+  months: (expenses: Expense[], income: Income[], count: number, now: Date = new Date()): CashFlowMonth[] => {
+    return Array.from({ length: count }, (_, i) => {
+      const start = new Date(now.getFullYear(), now.getMonth() - (count - 1 - i), 1);
+      const year = start.getFullYear();
+      const month = start.getMonth();
+      const earned = cashFlow.total(cashFlow.byMonth(income, year, month));
+      const spent = expenseSelectors.total(expenseSelectors.byMonth(expenses, year, month));
+      return {
+        year,
+        month,
+        label: start.toLocaleDateString('en-US', { month: 'short' }),
+        income: earned,
+        expenses: spent,
+        net: earned - spent,
+        savingsRate: cashFlow.savingsRate(earned, spent),
+      };
+    });
+  },
+};
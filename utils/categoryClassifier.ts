@@ -0,0 +1,117 @@
+import { EXPENSE_CATEGORIES, Expense } from '../types';
+
+// Multinomial naive Bayes over words in past titles and descriptions.
+// The model is plain data so it can be built, updated and inspected without any platform code.
+
+export interface ClassifierExample {
+  tokens: string[];
+  category: string;
+}
+
+interface CategoryStats {
+  examples: number;
+  tokens: number;
+  tokenCounts: { [token: string]: number };
+}
+
+export interface ClassifierModel {
+  examples: number;
+  categories: { [category: string]: CategoryStats };
+  // Occurrences of each token across all categories, so forgotten words leave the vocabulary
+  vocabulary: { [token: string]: number };
+}
+
+export interface CategoryPrediction {
+  category: string;
+  // Posterior probability, 0–1, over every category the model could pick
+  confidence: number;
+}
+
+export interface ClassifierInput {
+  title?: string;
+  description?: string;
+}
+
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(token => token.length > 1 && !/^\d+$/.test(token));
+
+const adjust = (model: ClassifierModel, example: ClassifierExample, delta: 1 | -1) => {
+  const stats = model.categories[example.category] || { examples: 0, tokens: 0, tokenCounts: {} };
+  stats.examples += delta;
+  stats.tokens += delta * example.tokens.length;
+  example.tokens.forEach(token => {
+    stats.tokenCounts[token] = (stats.tokenCounts[token] || 0) + delta;
+    if (stats.tokenCounts[token] <= 0) delete stats.tokenCounts[token];
+    model.vocabulary[token] = (model.vocabulary[token] || 0) + delta;
+    if (model.vocabulary[token] <= 0) delete model.vocabulary[token];
+  });
+  model.examples += delta;
+
+  if (stats.examples > 0) {
+    model.categories[example.category] = stats;
+  } else {
+    delete model.categories[example.category];
+  }
+};
+
+export const categoryClassifier = {
+  create: (): ClassifierModel => ({ examples: 0, categories: {}, vocabulary: {} }),
+
+  // What the classifier learns from an expense; null when there is nothing to learn
+  example: (expense: Pick<Expense, 'title' | 'name' | 'description' | 'category'>): ClassifierExample | null => {
+    const tokens = categoryClassifier.tokenize({ title: expense.title || expense.name, description: expense.description });
+    if (!expense.category || tokens.length === 0) return null;
+    return { tokens, category: expense.category };
+  },
+
+  tokenize: (input: ClassifierInput): string[] => tokenize(`${input.title || ''} ${input.description || ''}`),
+
+  // Both update the model in place so retraining after each save stays cheap
+  add: (model: ClassifierModel, example: ClassifierExample) => adjust(model, example, 1),
+
+  remove: (model: ClassifierModel, example: ClassifierExample) => adjust(model, example, -1),
+
+  train: (expenses: Expense[]): ClassifierModel => {
+    const model = categoryClassifier.create();
+    expenses.forEach(expense => {
+      const example = categoryClassifier.example(expense);
+      if (example) categoryClassifier.add(model, example);
+    });
+    return model;
+  },
+
+  // Every category ranked by how likely it is, best first. Empty when none of the words
+  // have been seen before, since the ranking would then only reflect how common each category is.
+  // Pass candidates to limit the ranking to categories that can still be picked.
+  rank: (model: ClassifierModel, input: ClassifierInput, candidates?: string[]): CategoryPrediction[] => {
+    const tokens = categoryClassifier.tokenize(input).filter(token => token in model.vocabulary);
+    if (tokens.length === 0) return [];
+
+    const categories = candidates
+      ? Array.from(new Set(candidates))
+      : Array.from(new Set<string>([...EXPENSE_CATEGORIES, ...Object.keys(model.categories)]));
+    if (categories.length === 0) return [];
+    const vocabularySize = Object.keys(model.vocabulary).length;
+
+    // Laplace-smoothed log probabilities, so categories without examples still get a (small) share
+    const scores = categories.map(category => {
+      const stats = model.categories[category] || { examples: 0, tokens: 0, tokenCounts: {} };
+      let score = Math.log((stats.examples + 1) / (model.examples + categories.length));
+      tokens.forEach(token => {
+        score += Math.log(((stats.tokenCounts[token] || 0) + 1) / (stats.tokens + vocabularySize));
+      });
+      return { category, score };
+    });
+
+    const best = Math.max(...scores.map(({ score }) => score));
+    const weights = scores.map(({ category, score }) => ({ category, weight: Math.exp(score - best) }));
+    const total = weights.reduce((sum, { weight }) => sum + weight, 0);
+
+    return weights
+      .map(({ category, weight }) => ({ category, confidence: weight / total }))
+      .sort((a, b) => b.confidence - a.confidence);
+  },
+};
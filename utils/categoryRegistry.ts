@@ -0,0 +1,122 @@
+import { CategoryDefinition, FALLBACK_CATEGORY } from '../types';
+
+export const FALLBACK_CATEGORY_ICON = 'ellipse-outline';
+export const FALLBACK_CATEGORY_COLOR = '#6b7280';
+
+// Choices offered when creating or editing a category
+export const CATEGORY_ICONS = [
+  'restaurant-outline',
+  'cafe-outline',
+  'cart-outline',
+  'car-outline',
+  'bus-outline',
+  'bag-outline',
+  'shirt-outline',
+  'game-controller-outline',
+  'film-outline',
+  'musical-notes-outline',
+  'receipt-outline',
+  'flash-outline',
+  'home-outline',
+  'medical-outline',
+  'fitness-outline',
+  'school-outline',
+  'book-outline',
+  'airplane-outline',
+  'paw-outline',
+  'gift-outline',
+  'heart-outline',
+  'phone-portrait-outline',
+  'construct-outline',
+  'ellipse-outline',
+];
+
+export const CATEGORY_COLORS = [
+  '#f59e0b',
+  '#3b82f6',
+  '#ec4899',
+  '#8b5cf6',
+  '#ef4444',
+  '#10b981',
+  '#06b6d4',
+  '#f97316',
+  '#84cc16',
+  '#14b8a6',
+  '#6366f1',
+  '#6b7280',
+];
+
+// Shown for expenses filed directly under a category, without a subcategory
+export const GENERAL_SUBCATEGORY_LABEL = 'General';
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+export const categoryRegistry = {
+  // Matches current names first, then earlier names and merged-in categories
+  find: (categories: CategoryDefinition[], name: string): CategoryDefinition | undefined => {
+    if (!name) return undefined;
+    return categories.find(category => sameName(category.name, name))
+      || categories.find(category => (category.aliases || []).some(alias => sameName(alias, name)));
+  },
+
+  // Current name for whatever an expense was filed under; unknown names are kept as they are
+  resolveName: (categories: CategoryDefinition[], name?: string): string => {
+    if (!name) return FALLBACK_CATEGORY;
+    return categoryRegistry.find(categories, name)?.name || name;
+  },
+
+  // Always returns something drawable, even for names the registry has never seen
+  lookup: (categories: CategoryDefinition[], name?: string): CategoryDefinition => {
+    return categoryRegistry.find(categories, name || FALLBACK_CATEGORY) || {
+      id: `unknown_${name}`,
+      name: name || FALLBACK_CATEGORY,
+      icon: FALLBACK_CATEGORY_ICON,
+      color: FALLBACK_CATEGORY_COLOR,
+    };
+  },
+
+  active: (categories: CategoryDefinition[]): CategoryDefinition[] => categories.filter(category => !category.archived),
+
+  // Message explaining why the name can't be used, or null when it is fine
+  validateName: (categories: CategoryDefinition[], name: string, categoryId?: string): string | null => {
+    if (!name.trim()) {
+      return 'Enter a category name';
+    }
+    if (name.trim().length > 40) {
+      return 'Category names must be 40 characters or fewer';
+    }
+    const existing = categoryRegistry.find(categories, name);
+    if (existing && existing.id !== categoryId) {
+      return `"${name.trim()}" is already used by ${existing.name}`;
+    }
+    return null;
+  },
+
+  isFallback: (category: CategoryDefinition): boolean => sameName(category.name, FALLBACK_CATEGORY),
+
+  validateSubcategoryName: (category: Pick<CategoryDefinition, 'subcategories'>, name: string): string | null => {
+    if (!name.trim()) {
+      return 'Enter a subcategory name';
+    }
+    if (name.trim().length > 40) {
+      return 'Subcategory names must be 40 characters or fewer';
+    }
+    if (sameName(name, GENERAL_SUBCATEGORY_LABEL) || (category.subcategories || []).some(existing => sameName(existing, name))) {
+      return `"${name.trim()}" is already a subcategory`;
+    }
+    return null;
+  },
+
+  subcategoryLabel: (subcategory?: string): string => subcategory || GENERAL_SUBCATEGORY_LABEL,
+
+  // Lighter variants of a category's color, so subcategories read as part of their parent on charts
+  shade: (color: string, step: number): string => {
+    const match = /^#([0-9a-f]{6})$/i.exec(color);
+    if (!match || step <= 0) return color;
+    const mix = Math.min(step * 0.18, 0.8);
+    const value = parseInt(match[1], 16);
+    const channels = [value >> 16, (value >> 8) & 0xff, value & 0xff]
+      .map(channel => Math.round(channel + (255 - channel) * mix));
+    return `#${channels.map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+  },
+};
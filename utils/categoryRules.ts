@@ -0,0 +1,83 @@
+import { CategoryRule } from '../types';
+
+// What a rule is tested against; amount is in the home currency
+export interface CategoryRuleInput {
+  title?: string;
+  description?: string;
+  amount?: number;
+}
+
+const buildRegex = (pattern: string): RegExp | null => {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+};
+
+const matchesText = (rule: CategoryRule, text: string): boolean => {
+  if (rule.matchType === 'regex') {
+    return buildRegex(rule.pattern)?.test(text) || false;
+  }
+  return text.toLowerCase().includes(rule.pattern.trim().toLowerCase());
+};
+
+export const categoryRules = {
+  // Message explaining why the rule can't be saved, or null when it is fine
+  validate: (rule: Pick<CategoryRule, 'pattern' | 'matchType' | 'minAmount' | 'maxAmount' | 'category'>): string | null => {
+    if (!rule.pattern.trim()) {
+      return 'Enter the text to look for';
+    }
+    if (rule.matchType === 'regex' && !buildRegex(rule.pattern)) {
+      return 'The regular expression is not valid';
+    }
+    if (rule.minAmount !== undefined && rule.maxAmount !== undefined && rule.minAmount > rule.maxAmount) {
+      return 'Minimum amount must not be more than the maximum';
+    }
+    if (!rule.category) {
+      return 'Choose a category';
+    }
+    return null;
+  },
+
+  matches: (rule: CategoryRule, input: CategoryRuleInput): boolean => {
+    if (!rule.enabled || !rule.pattern.trim()) return false;
+
+    const fields = rule.field === 'any'
+      ? [input.title, input.description]
+      : [rule.field === 'title' ? input.title : input.description];
+    if (!fields.some(text => text && matchesText(rule, text))) return false;
+
+    // Amount bounds only apply once an amount is known
+    if (input.amount !== undefined && !isNaN(input.amount)) {
+      if (rule.minAmount !== undefined && input.amount < rule.minAmount) return false;
+      if (rule.maxAmount !== undefined && input.amount > rule.maxAmount) return false;
+    }
+    return true;
+  },
+
+  // First matching rule in priority order
+  find: (rules: CategoryRule[], input: CategoryRuleInput): CategoryRule | undefined => {
+    return rules.find(rule => categoryRules.matches(rule, input));
+  },
+
+  describe: (rule: CategoryRule): string => {
+    const field = rule.field === 'any' ? 'Title or description' : rule.field === 'title' ? 'Title' : 'Description';
+    const condition = rule.matchType === 'regex' ? `matches /${rule.pattern}/` : `contains "${rule.pattern}"`;
+    const bounds = [
+      rule.minAmount !== undefined && `≥ ${rule.minAmount}`,
+      rule.maxAmount !== undefined && `≤ ${rule.maxAmount}`,
+    ].filter(Boolean).join(' and ');
+    return `${field} ${condition}${bounds ? `, amount ${bounds}` : ''}`;
+  },
+
+  // Swap a rule with its neighbour; positions outside the list leave it unchanged
+  move: (rules: CategoryRule[], ruleId: string, offset: -1 | 1): CategoryRule[] => {
+    const index = rules.findIndex(rule => rule.id === ruleId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= rules.length) return rules;
+    const reordered = [...rules];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    return reordered;
+  },
+};
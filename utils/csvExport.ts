@@ -0,0 +1,121 @@
+import { DEFAULT_CURRENCY, Expense } from '../types';
+import { expenseSelectors } from './expenseSelectors';
+
+export type CsvColumn = 'date' | 'title' | 'category' | 'subcategory' | 'tags' | 'description' | 'amount' | 'currency' | 'convertedAmount' | 'id';
+
+export type CsvDateFormat = 'iso' | 'us' | 'eu';
+
+// 'decimalComma' writes 1234,50 for spreadsheets set to European locales
+export type CsvAmountFormat = 'decimalPoint' | 'decimalComma';
+
+export interface CsvExportOptions {
+  columns?: CsvColumn[];
+  dateFormat?: CsvDateFormat;
+  amountFormat?: CsvAmountFormat;
+  // Labels the converted amount column
+  homeCurrency?: string;
+}
+
+export const CSV_COLUMNS: { key: CsvColumn; label: string }[] = [
+  { key: 'date', label: 'Date' },
+  { key: 'title', label: 'Title' },
+  { key: 'category', label: 'Category' },
+  { key: 'subcategory', label: 'Subcategory' },
+  { key: 'tags', label: 'Tags' },
+  { key: 'description', label: 'Description' },
+  { key: 'amount', label: 'Amount' },
+  { key: 'currency', label: 'Currency' },
+  { key: 'convertedAmount', label: 'Home Amount' },
+  { key: 'id', label: 'ID' },
+];
+
+export const DEFAULT_CSV_COLUMNS: CsvColumn[] = ['date', 'title', 'category', 'amount', 'currency'];
+
+export const CSV_DATE_FORMATS: { key: CsvDateFormat; label: string }[] = [
+  { key: 'iso', label: 'YYYY-MM-DD' },
+  { key: 'us', label: 'MM/DD/YYYY' },
+  { key: 'eu', label: 'DD/MM/YYYY' },
+];
+
+export const CSV_AMOUNT_FORMATS: { key: CsvAmountFormat; label: string }[] = [
+  { key: 'decimalPoint', label: '1234.50' },
+  { key: 'decimalComma', label: '1234,50' },
+];
+
+// RFC 4180: records end in CRLF
+const LINE_BREAK = '\r\n';
+
+// RFC 4180: fields holding a comma, quote or line break are quoted, and quotes are doubled
+export const escapeCsvField = (value: string): string => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+const formatDate = (expense: Expense, format: CsvDateFormat): string => {
+  const [year, month, day] = (expense.date || expense.createdAt || '').slice(0, 10).split('-');
+  if (!year || !month || !day) return '';
+  switch (format) {
+    case 'us':
+      return `${month}/${day}/${year}`;
+    case 'eu':
+      return `${day}/${month}/${year}`;
+    case 'iso':
+    default:
+      return `${year}-${month}-${day}`;
+  }
+};
+
+const formatAmount = (amount: number | undefined, format: CsvAmountFormat): string => {
+  if (amount === undefined || isNaN(amount)) return '';
+  const value = amount.toFixed(2);
+  return format === 'decimalComma' ? value.replace('.', ',') : value;
+};
+
+const columnLabel = (column: CsvColumn, homeCurrency?: string): string => {
+  const label = CSV_COLUMNS.find(({ key }) => key === column)?.label || column;
+  return column === 'convertedAmount' && homeCurrency ? `${label} (${homeCurrency})` : label;
+};
+
+const columnValue = (expense: Expense, column: CsvColumn, options: Required<Omit<CsvExportOptions, 'homeCurrency'>>): string => {
+  switch (column) {
+    case 'date':
+      return formatDate(expense, options.dateFormat);
+    case 'title':
+      return expense.title || expense.name || '';
+    case 'category':
+      return expense.category || 'Other';
+    case 'subcategory':
+      return expense.subcategory || '';
+    case 'tags':
+      return (expense.tags || []).join(' ');
+    case 'description':
+      return expense.description || '';
+    case 'amount': {
+      const amount: number | string = expense.amount;
+      return formatAmount(typeof amount === 'string' ? parseFloat(amount) : amount, options.amountFormat);
+    }
+    case 'currency':
+      return expense.currency || DEFAULT_CURRENCY;
+    case 'convertedAmount':
+      return formatAmount(expenseSelectors.amount(expense), options.amountFormat);
+    case 'id':
+      return expense.id;
+    default:
+      return '';
+  }
+};
+
+// Header row plus one record per expense, in the order given
+export const exportExpensesToCsv = (expenses: Expense[], options: CsvExportOptions = {}): string => {
+  const resolved = {
+    columns: options.columns && options.columns.length > 0 ? options.columns : DEFAULT_CSV_COLUMNS,
+    dateFormat: options.dateFormat || 'iso',
+    amountFormat: options.amountFormat || 'decimalPoint',
+  };
+
+  const header = resolved.columns.map(column => escapeCsvField(columnLabel(column, options.homeCurrency)));
+  const rows = expenses.map(expense =>
+    resolved.columns.map(column => escapeCsvField(columnValue(expense, column, resolved)))
+  );
+
+  return [header, ...rows].map(fields => fields.join(',')).join(LINE_BREAK) + LINE_BREAK;
+};
@@ -1,4 +1,4 @@
-import { Expense } from '../types';
+import { Expense, Income, SavingsGoal, DEFAULT_CURRENCY, INCOME_SOURCES } from '../types';
 
 export const debug = {
   log: (component: string, message: string, data?: any) => {
@@ -69,18 +69,117 @@ export const debug = {
       id: expense.id || '',
       title: expense.title || expense.name || 'Untitled Expense',
       amount: cleanAmount,
+      currency: expense.currency || DEFAULT_CURRENCY,
       category: expense.category || 'Other',
+      ...(expense.subcategory && { subcategory: expense.subcategory }),
+      ...(Array.isArray(expense.tags) && expense.tags.length > 0 && { tags: expense.tags }),
+      ...(Array.isArray(expense.splits) && expense.splits.length > 0 && { splits: expense.splits }),
+      ...(Array.isArray(expense.attachments) && expense.attachments.length > 0 && { attachments: expense.attachments }),
       description: expense.description || '',
       date: expense.date || expense.createdAt || new Date().toISOString(),
       userId: expense.userId || '',
       createdAt: expense.createdAt || new Date().toISOString(),
       updatedAt: expense.updatedAt || expense.createdAt || new Date().toISOString(),
+      pendingSync: !!expense.pendingSync,
+      ...(expense.syncFailed && { syncFailed: true }),
+      ...(expense.recurrence && { recurrence: expense.recurrence }),
+      ...(expense.recurringSourceId && { recurringSourceId: expense.recurringSourceId }),
     };
     
     
     return normalized;
   },
   
+  validateIncome: (income: any) => {
+    const issues: string[] = [];
+    
+    if (!income) {
+      issues.push('Income is null or undefined');
+      return { isValid: false, issues };
+    }
+    
+    if (!income.id) issues.push('Missing id');
+    if (!income.title) issues.push('Missing title');
+    if (!income.amount && income.amount !== 0) issues.push('Missing amount');
+    if (income.source && !INCOME_SOURCES.includes(income.source)) issues.push(`Unknown source "${income.source}"`);
+    if (!income.date && !income.createdAt) issues.push('Missing date/createdAt');
+    
+    return {
+      isValid: issues.length === 0,
+      issues
+    };
+  },
+  
+  // Same cleanup as normalizeExpense; income is never negative, refunds included
+  normalizeIncome: (income: any): Income => {
+    if (!income) {
+      return {
+        id: '',
+        title: 'Invalid Income',
+        amount: 0,
+        source: 'other',
+        description: '',
+        date: new Date().toISOString(),
+        userId: '',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+      };
+    }
+    
+    let cleanAmount = income.amount || 0;
+    if (typeof cleanAmount === 'string') {
+      const cleanedAmount = cleanAmount.replace(/[^0-9.-]/g, '');
+      cleanAmount = parseFloat(cleanedAmount) || 0;
+    }
+    cleanAmount = Math.abs(cleanAmount);
+    
+    if (cleanAmount > 999999999) {
+      console.warn('Extremely large amount detected, capping:', cleanAmount);
+      cleanAmount = 999999999;
+    }
+    
+    return {
+      id: income.id || '',
+      title: income.title || 'Untitled Income',
+      amount: cleanAmount,
+      currency: income.currency || DEFAULT_CURRENCY,
+      source: INCOME_SOURCES.includes(income.source) ? income.source : 'other',
+      description: income.description || '',
+      date: income.date || income.createdAt || new Date().toISOString(),
+      userId: income.userId || '',
+      createdAt: income.createdAt || new Date().toISOString(),
+      updatedAt: income.updatedAt || income.createdAt || new Date().toISOString(),
+    };
+  },
+  
+  // Drops contributions that can't be read rather than the whole goal
+  normalizeGoal: (goal: any): SavingsGoal => {
+    const toAmount = (value: any): number => {
+      const amount = typeof value === 'string' ? parseFloat(value.replace(/[^0-9.-]/g, '')) : value;
+      return Math.min(Math.abs(amount || 0), 999999999);
+    };
+    
+    return {
+      id: goal?.id || '',
+      name: goal?.name || 'Untitled Goal',
+      targetAmount: toAmount(goal?.targetAmount),
+      currency: goal?.currency || DEFAULT_CURRENCY,
+      targetDate: goal?.targetDate || new Date().toISOString().split('T')[0],
+      contributions: (Array.isArray(goal?.contributions) ? goal.contributions : [])
+        .filter((contribution: any) => contribution && contribution.id && contribution.date)
+        .map((contribution: any) => ({
+          id: contribution.id,
+          amount: toAmount(contribution.amount),
+          date: contribution.date,
+          ...(contribution.note && { note: contribution.note }),
+          createdAt: contribution.createdAt || contribution.date,
+        })),
+      userId: goal?.userId || '',
+      createdAt: goal?.createdAt || new Date().toISOString(),
+      updatedAt: goal?.updatedAt || goal?.createdAt || new Date().toISOString(),
+    };
+  },
+  
   validateUser: (user: any) => {
     const issues: string[] = [];
     
@@ -0,0 +1,269 @@
+import { EXPENSE_CATEGORIES, FALLBACK_CATEGORY, SUPPORTED_CURRENCIES, Expense, ExpenseFormData } from '../types';
+import { CsvDateFormat } from './csvExport';
+import { validation } from './validation';
+
+// Parsed file contents before any column is given a meaning
+export interface ImportTable {
+  format: 'csv' | 'ofx';
+  headers: string[];
+  rows: string[][];
+}
+
+export type ImportField = 'title' | 'amount' | 'date' | 'category' | 'description' | 'currency';
+
+// Column index for each field; unmapped fields are left out
+export type ImportMapping = { [field in ImportField]?: number };
+
+export interface ImportOptions {
+  dateFormat: CsvDateFormat;
+  decimalComma: boolean;
+  // Bank exports usually write card spending as negative numbers
+  spendingSign: 'positive' | 'negative';
+  defaultCurrency: string;
+  // Maps a category named in the file to one of the user's categories; defaults to the built-in names
+  resolveCategory?: (value: string) => string | undefined;
+  // Picks a category when the file has none (or one we don't know), e.g. from category rules
+  categorize?: (data: ExpenseFormData) => string | undefined;
+}
+
+export interface ImportRow {
+  // 1-based record number for showing the user which entry is which (CSV counts the header line)
+  line: number;
+  data: ExpenseFormData;
+  errors: string[];
+  duplicateOf?: Expense | ExpenseFormData;
+}
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required: boolean }[] = [
+  { key: 'date', label: 'Date', required: true },
+  { key: 'title', label: 'Title', required: true },
+  { key: 'amount', label: 'Amount', required: true },
+  { key: 'category', label: 'Category', required: false },
+  { key: 'description', label: 'Description', required: false },
+  { key: 'currency', label: 'Currency', required: false },
+];
+
+// Header names seen in common bank and spreadsheet exports
+const HEADER_HINTS: { [field in ImportField]: RegExp } = {
+  date: /date|posted|time/i,
+  title: /title|payee|merchant|name|description|narrative|details/i,
+  amount: /amount|debit|value|sum|total/i,
+  category: /category|type/i,
+  description: /memo|note|reference|description/i,
+  currency: /currency|ccy/i,
+};
+
+// Titles this similar (shared words over the shorter title) count as the same merchant
+const TITLE_SIMILARITY = 0.6;
+
+const splitRecords = (text: string, delimiter: string): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter(fields => fields.some(value => value.trim() !== ''));
+};
+
+const ofxTag = (block: string, tag: string): string => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : '';
+};
+
+const words = (title: string): string[] => title.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 1);
+
+const similarTitles = (a: string, b: string): boolean => {
+  const left = words(a);
+  const right = words(b);
+  if (left.length === 0 || right.length === 0) return a.trim().toLowerCase() === b.trim().toLowerCase();
+  const shared = left.filter(word => right.includes(word)).length;
+  return shared / Math.min(left.length, right.length) >= TITLE_SIMILARITY;
+};
+
+const isSameExpense = (row: ExpenseFormData, other: Expense | ExpenseFormData): boolean => {
+  const otherAmount = typeof other.amount === 'string' ? parseFloat(other.amount) : other.amount;
+  return Math.abs(parseFloat(row.amount) - otherAmount) < 0.005
+    && row.date.slice(0, 10) === (other.date || ('createdAt' in other ? other.createdAt : '') || '').slice(0, 10)
+    && similarTitles(row.title, other.title || ('name' in other ? other.name : '') || '');
+};
+
+const parseDate = (value: string, format: CsvDateFormat): string | null => {
+  const trimmed = value.trim();
+  // OFX and ISO dates are unambiguous whatever the chosen format
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})/);
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const parts = iso || compact;
+  let year: string, month: string, day: string;
+
+  if (parts) {
+    [, year, month, day] = parts;
+  } else {
+    const numbers = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})/);
+    if (!numbers) return null;
+    [, month, day, year] = format === 'eu' ? [numbers[0], numbers[2], numbers[1], numbers[3]] : numbers;
+    if (year.length === 2) year = `20${year}`;
+  }
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (isNaN(date.getTime()) || date.getMonth() !== Number(month) - 1) return null;
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+};
+
+const parseAmount = (value: string, decimalComma: boolean): number | null => {
+  let cleaned = value.trim();
+  // Accounting style: (12.50) is negative
+  const parenthesized = /^\(.*\)$/.test(cleaned);
+  cleaned = decimalComma
+    ? cleaned.replace(/[^0-9,-]/g, '').replace(',', '.')
+    : cleaned.replace(/[^0-9.-]/g, '');
+  const amount = parseFloat(cleaned);
+  if (isNaN(amount)) return null;
+  return parenthesized ? -Math.abs(amount) : amount;
+};
+
+const matchCategory = (value: string): string | undefined => {
+  return EXPENSE_CATEGORIES.find(known => known.toLowerCase() === value.trim().toLowerCase());
+};
+
+export const expenseImport = {
+  // Accepts comma- or semicolon-separated files with RFC 4180 quoting; the first record is the header
+  parseCsv: (text: string): ImportTable => {
+    const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] || '';
+    const delimiter = (firstLine.match(/;/g) || []).length > (firstLine.match(/,/g) || []).length ? ';' : ',';
+    const [headers = [], ...rows] = splitRecords(text.replace(/^\uFEFF/, ''), delimiter);
+    return { format: 'csv', headers: headers.map(header => header.trim()), rows };
+  },
+
+  // Reads the statement transactions out of OFX 1.x (SGML) and 2.x (XML) files
+  parseOfx: (text: string): ImportTable => {
+    const blocks = text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+    const currency = ofxTag(text, 'CURDEF');
+    return {
+      format: 'ofx',
+      headers: ['Date', 'Amount', 'Name', 'Memo', 'Currency'],
+      rows: blocks.map(block => [
+        ofxTag(block, 'DTPOSTED'),
+        ofxTag(block, 'TRNAMT'),
+        ofxTag(block, 'NAME') || ofxTag(block, 'PAYEE'),
+        ofxTag(block, 'MEMO'),
+        currency,
+      ]),
+    };
+  },
+
+  parse: (text: string, fileName: string = ''): ImportTable => {
+    const isOfx = /\.(ofx|qfx)$/i.test(fileName) || /<OFX>/i.test(text);
+    return isOfx ? expenseImport.parseOfx(text) : expenseImport.parseCsv(text);
+  },
+
+  // Best guess from header names; each column is used for at most one field
+  guessMapping: (table: ImportTable): ImportMapping => {
+    const mapping: ImportMapping = {};
+    const used = new Set<number>();
+    IMPORT_FIELDS.forEach(({ key }) => {
+      const index = table.headers.findIndex((header, column) => !used.has(column) && HEADER_HINTS[key].test(header));
+      if (index !== -1) {
+        mapping[key] = index;
+        used.add(index);
+      }
+    });
+    return mapping;
+  },
+
+  // Most card exports list spending as negative; pick whichever sign dominates the amount column
+  guessSpendingSign: (table: ImportTable, mapping: ImportMapping, decimalComma: boolean = false): 'positive' | 'negative' => {
+    if (mapping.amount === undefined) return 'positive';
+    const amounts = table.rows
+      .map(row => parseAmount(row[mapping.amount!] || '', decimalComma))
+      .filter((amount): amount is number => amount !== null && amount !== 0);
+    const negative = amounts.filter(amount => amount < 0).length;
+    return negative > amounts.length / 2 ? 'negative' : 'positive';
+  },
+
+  // Maps, validates and flags duplicates against saved expenses and earlier rows of the same file
+  buildRows: (table: ImportTable, mapping: ImportMapping, options: ImportOptions, existing: Expense[]): ImportRow[] => {
+    const rows: ImportRow[] = [];
+    const cell = (row: string[], field: ImportField) =>
+      mapping[field] === undefined ? '' : (row[mapping[field]!] || '').trim();
+
+    table.rows.forEach((row, index) => {
+      const errors: string[] = [];
+
+      const rawAmount = parseAmount(cell(row, 'amount'), options.decimalComma);
+      const isRefund = rawAmount !== null && rawAmount !== 0
+        && (options.spendingSign === 'negative' ? rawAmount > 0 : rawAmount < 0);
+      if (isRefund) {
+        errors.push('Looks like a refund or payment, not spending');
+      }
+      const amount = rawAmount === null ? '' : Math.abs(rawAmount).toFixed(2);
+
+      const date = parseDate(cell(row, 'date'), options.dateFormat);
+      const data: ExpenseFormData = {
+        title: cell(row, 'title') || cell(row, 'description'),
+        amount,
+        currency: (cell(row, 'currency') || options.defaultCurrency).toUpperCase(),
+        category: '',
+        description: mapping.description === mapping.title ? '' : cell(row, 'description'),
+        date: date || '',
+      };
+      const named = cell(row, 'category');
+      data.category = (named && (options.resolveCategory || matchCategory)(named)) || options.categorize?.(data) || FALLBACK_CATEGORY;
+
+      [
+        validation.title(data.title),
+        validation.amount(data.amount),
+        date ? validation.date(data.date) : { isValid: false, message: 'Date not recognized' },
+        validation.description(data.description || ''),
+        SUPPORTED_CURRENCIES.includes(data.currency!)
+          ? { isValid: true }
+          : { isValid: false, message: `Currency ${data.currency} is not supported` },
+      ].forEach(result => {
+        if (!result.isValid) errors.push(result.message!);
+      });
+
+      const duplicateOf = errors.length === 0
+        ? existing.find(expense => isSameExpense(data, expense))
+          || rows.find(previous => previous.errors.length === 0 && isSameExpense(data, previous.data))?.data
+        : undefined;
+
+      rows.push({ line: index + (table.format === 'csv' ? 2 : 1), data, errors, duplicateOf });
+    });
+
+    return rows;
+  },
+
+  // Rows that can be created as-is
+  importable: (rows: ImportRow[]): ImportRow[] => rows.filter(row => row.errors.length === 0 && !row.duplicateOf),
+};
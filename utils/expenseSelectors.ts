@@ -0,0 +1,154 @@
+import { Expense, ExpenseSplit } from '../types';
+import { tags } from './tags';
+
+export interface CategoryTotal {
+  category: string;
+  amount: number;
+}
+
+// The share of an expense's home-currency amount that belongs to one category
+export interface ExpensePortion {
+  category: string;
+  // '' when filed directly under the category
+  subcategory: string;
+  amount: number;
+}
+
+// Dates are "YYYY-MM-DD" keys, both inclusive
+export interface ExpenseFilter {
+  search?: string;
+  category?: string;
+  // Expenses must carry every listed tag
+  tags?: string[];
+  from?: string;
+  to?: string;
+}
+
+const getExpenseDate = (expense: Expense): Date => new Date(expense.date || expense.createdAt);
+
+export const expenseSelectors = {
+  // Home-currency amount when a conversion is known, otherwise the amount as entered
+  amount: (expense: Expense): number => {
+    if (expense.convertedAmount !== undefined) {
+      return expense.convertedAmount;
+    }
+    const amount: number | string = expense.amount;
+    return typeof amount === 'string' ? parseFloat(amount) || 0 : amount;
+  },
+
+  total: (expenses: Expense[]): number => {
+    return expenses.reduce((total, expense) => total + expenseSelectors.amount(expense), 0);
+  },
+
+  // month is 0-based, like Date.getMonth()
+  byMonth: (expenses: Expense[], year: number, month: number): Expense[] => {
+    return expenses.filter(expense => {
+      const expenseDate = getExpenseDate(expense);
+      return expenseDate.getMonth() === month && expenseDate.getFullYear() === year;
+    });
+  },
+
+  currentMonth: (expenses: Expense[]): Expense[] => {
+    const now = new Date();
+    return expenseSelectors.byMonth(expenses, now.getFullYear(), now.getMonth());
+  },
+
+  // Divides amount across the splits in proportion to what was entered on each line
+  splitShares: (amount: number, splits: Pick<ExpenseSplit, 'amount' | 'category'>[]): ExpensePortion[] => {
+    const entered = splits.reduce((total, split) => total + split.amount, 0);
+    return splits.map(split => ({
+      category: split.category || 'Other',
+      subcategory: '',
+      amount: entered > 0 ? (amount * split.amount) / entered : 0,
+    }));
+  },
+
+  // An unsplit expense is a single portion under its own category
+  portions: (expense: Expense): ExpensePortion[] => {
+    const amount = expenseSelectors.amount(expense);
+    if (expense.splits && expense.splits.length > 0) {
+      return expenseSelectors.splitShares(amount, expense.splits);
+    }
+    return [{ category: expense.category || 'Other', subcategory: expense.subcategory || '', amount }];
+  },
+
+  // Expenses with any part filed under the category
+  byCategory: (expenses: Expense[], category: string): Expense[] => {
+    return expenses.filter(expense => expenseSelectors.portions(expense).some(portion => portion.category === category));
+  },
+
+  // Only the split lines under the category count, not the whole receipt
+  categoryTotal: (expenses: Expense[], category: string): number => {
+    return expenses.reduce((total, expense) => total + expenseSelectors.portions(expense)
+      .filter(portion => portion.category === category)
+      .reduce((sum, portion) => sum + portion.amount, 0), 0);
+  },
+
+  // Inclusive on both ends
+  byDateRange: (expenses: Expense[], start: Date, end: Date): Expense[] => {
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+    return expenses.filter(expense => {
+      const time = getExpenseDate(expense).getTime();
+      return time >= startTime && time <= endTime;
+    });
+  },
+
+  categoryTotals: (expenses: Expense[]): CategoryTotal[] => {
+    const totals: { [category: string]: number } = {};
+    expenses.forEach(expense => {
+      expenseSelectors.portions(expense).forEach(({ category, amount }) => {
+        totals[category] = (totals[category] || 0) + amount;
+      });
+    });
+
+    return Object.entries(totals)
+      .map(([category, amount]) => ({ category, amount }))
+      .sort((a, b) => b.amount - a.amount);
+  },
+
+  // Breakdown of one category by subcategory; expenses without one are keyed by ''
+  subcategoryTotals: (expenses: Expense[], category: string): CategoryTotal[] => {
+    const totals: { [subcategory: string]: number } = {};
+    expenses.forEach(expense => {
+      expenseSelectors.portions(expense)
+        .filter(portion => portion.category === category)
+        .forEach(({ subcategory, amount }) => {
+          totals[subcategory] = (totals[subcategory] || 0) + amount;
+        });
+    });
+
+    return Object.entries(totals)
+      .map(([subcategory, amount]) => ({ category: subcategory, amount }))
+      .sort((a, b) => b.amount - a.amount);
+  },
+
+  // Search matches title, category, description, tags or split lines; empty fields don't filter
+  filter: (expenses: Expense[], filter: ExpenseFilter): Expense[] => {
+    const query = filter.search?.trim().toLowerCase();
+    return expenses.filter(expense => {
+      if (query) {
+        const splits = expense.splits || [];
+        const haystack = [
+          expense.title,
+          expense.category,
+          expense.description,
+          ...(expense.tags || []),
+          ...splits.map(split => split.category),
+          ...splits.map(split => split.note),
+        ];
+        if (!haystack.some(field => field?.toLowerCase().includes(query))) return false;
+      }
+      if (filter.category && !expenseSelectors.portions(expense).some(portion => portion.category === filter.category)) return false;
+      if (filter.tags && !tags.hasAll(expense, filter.tags)) return false;
+      const day = (expense.date || expense.createdAt).slice(0, 10);
+      if (filter.from && day < filter.from) return false;
+      if (filter.to && day > filter.to) return false;
+      return true;
+    });
+  },
+
+  sortByDateDesc: (expenses: Expense[]): Expense[] => {
+    return [...expenses].sort((a, b) => getExpenseDate(b).getTime() - getExpenseDate(a).getTime());
+  },
+};
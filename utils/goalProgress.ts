@@ -0,0 +1,91 @@
+import { SavingsGoal } from '../types';
+
+export type GoalStatus = 'complete' | 'on-track' | 'behind' | 'overdue' | 'not-started';
+
+// Label and accent color for each status, shared by every screen that shows a goal
+export const GOAL_STATUS_DETAILS: { [status in GoalStatus]: { label: string; color: string } } = {
+  complete: { label: 'Reached', color: '#22c55e' },
+  'on-track': { label: 'On track', color: '#3b82f6' },
+  behind: { label: 'Behind', color: '#f59e0b' },
+  overdue: { label: 'Past due', color: '#ef4444' },
+  'not-started': { label: 'Not started', color: '#9ca3af' },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+// Pace is measured over at least this long, so one early deposit doesn't promise an instant finish
+const MIN_PACE_DAYS = 30;
+
+// Start of the day in local time; stored dates are "YYYY-MM-DD" or full ISO strings
+const toDay = (date: string | Date): Date => {
+  const value = typeof date === 'string' ? new Date(`${date.slice(0, 10)}T00:00:00`) : new Date(date);
+  value.setHours(0, 0, 0, 0);
+  return value;
+};
+
+const daysBetween = (from: Date, to: Date): number => Math.round((toDay(to).getTime() - toDay(from).getTime()) / DAY_MS);
+
+export const goalProgress = {
+  saved: (goal: SavingsGoal): number => {
+    return goal.contributions.reduce((total, contribution) => total + contribution.amount, 0);
+  },
+
+  remaining: (goal: SavingsGoal): number => {
+    return Math.max(goal.targetAmount - goalProgress.saved(goal), 0);
+  },
+
+  // Between 0 and 1
+  fraction: (goal: SavingsGoal): number => {
+    if (goal.targetAmount <= 0) return 1;
+    return Math.min(goalProgress.saved(goal) / goal.targetAmount, 1);
+  },
+
+  // Fractional months until the target date; zero or less once it has passed
+  monthsLeft: (goal: SavingsGoal, now: Date = new Date()): number => {
+    return daysBetween(now, toDay(goal.targetDate)) / DAYS_PER_MONTH;
+  },
+
+  // What has to go in each month from now to finish on time; null once the date has passed
+  requiredMonthly: (goal: SavingsGoal, now: Date = new Date()): number | null => {
+    const remaining = goalProgress.remaining(goal);
+    if (remaining === 0) return 0;
+    const monthsLeft = goalProgress.monthsLeft(goal, now);
+    if (monthsLeft <= 0) return null;
+    // Less than a month to go means the rest is due this month
+    return remaining / Math.max(monthsLeft, 1);
+  },
+
+  // When the goal will be reached at the pace saved so far; null before the first contribution
+  projectedCompletion: (goal: SavingsGoal, now: Date = new Date()): Date | null => {
+    if (goal.contributions.length === 0) return null;
+    const dates = goal.contributions.map(contribution => toDay(contribution.date));
+    if (goalProgress.remaining(goal) === 0) {
+      return new Date(Math.max(...dates.map(date => date.getTime())));
+    }
+
+    const start = new Date(Math.min(toDay(goal.createdAt).getTime(), ...dates.map(date => date.getTime())));
+    const perDay = goalProgress.saved(goal) / Math.max(daysBetween(start, now), MIN_PACE_DAYS);
+    if (perDay <= 0) return null;
+
+    const projected = toDay(now);
+    projected.setDate(projected.getDate() + Math.ceil(goalProgress.remaining(goal) / perDay));
+    return projected;
+  },
+
+  status: (goal: SavingsGoal, now: Date = new Date()): GoalStatus => {
+    if (goalProgress.remaining(goal) === 0) return 'complete';
+    if (goalProgress.monthsLeft(goal, now) <= 0) return 'overdue';
+    const projected = goalProgress.projectedCompletion(goal, now);
+    if (!projected) return 'not-started';
+    return projected <= toDay(goal.targetDate) ? 'on-track' : 'behind';
+  },
+
+  // Soonest deadline first; finished goals go last
+  sort: (goals: SavingsGoal[]): SavingsGoal[] => {
+    return [...goals].sort((a, b) => {
+      const aDone = goalProgress.remaining(a) === 0 ? 1 : 0;
+      const bDone = goalProgress.remaining(b) === 0 ? 1 : 0;
+      return aDone - bDone || a.targetDate.localeCompare(b.targetDate);
+    });
+  },
+};
@@ -0,0 +1,167 @@
+import { GroupExpense, GroupMember, GroupSettlement, GroupSplitMethod } from '../types';
+
+export interface GroupTransfer {
+  from: string;
+  to: string;
+  amount: number;
+}
+
+// Above this many unsettled members the exact search gets slow; greedy matching is used instead
+const MAX_EXACT_MEMBERS = 12;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+// Divides cents in proportion to the weights; leftover cents go to the largest remainders so the parts add up exactly
+const apportion = (cents: number, weights: { [memberId: string]: number }): { [memberId: string]: number } => {
+  const ids = Object.keys(weights).filter(id => weights[id] > 0);
+  const totalWeight = ids.reduce((total, id) => total + weights[id], 0);
+  const parts: { [memberId: string]: number } = {};
+  if (totalWeight <= 0) return parts;
+
+  const exact = ids.map(id => ({ id, value: (cents * weights[id]) / totalWeight }));
+  exact.forEach(({ id, value }) => {
+    parts[id] = Math.floor(value);
+  });
+  let leftover = cents - exact.reduce((total, { id }) => total + parts[id], 0);
+  [...exact]
+    .sort((a, b) => (b.value - Math.floor(b.value)) - (a.value - Math.floor(a.value)) || a.id.localeCompare(b.id))
+    .forEach(({ id }) => {
+      if (leftover <= 0) return;
+      parts[id] += 1;
+      leftover -= 1;
+    });
+  return parts;
+};
+
+// Splits the set of balances into as many zero-sum groups as possible; each group of k people
+// then settles in k - 1 transfers, which is the fewest any plan can use
+const zeroSumGroups = (ids: string[], cents: { [memberId: string]: number }): string[][] => {
+  const count = ids.length;
+  const full = (1 << count) - 1;
+  const sums = new Array<number>(full + 1).fill(0);
+  const best = new Array<number>(full + 1).fill(0);
+
+  for (let mask = 1; mask <= full; mask++) {
+    const low = mask & -mask;
+    sums[mask] = sums[mask ^ low] + cents[ids[Math.log2(low)]];
+    let most = 0;
+    for (let i = 0; i < count; i++) {
+      if (mask & (1 << i)) most = Math.max(most, best[mask ^ (1 << i)]);
+    }
+    best[mask] = most + (sums[mask] === 0 ? 1 : 0);
+  }
+
+  // Peel members off in an order that keeps the best count; each zero running total closes a group
+  const order: string[] = [];
+  let mask = full;
+  while (mask) {
+    const own = sums[mask] === 0 ? 1 : 0;
+    const next = ids.findIndex((_, i) => (mask & (1 << i)) && best[mask ^ (1 << i)] === best[mask] - own);
+    order.unshift(ids[next]);
+    mask ^= 1 << next;
+  }
+
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let running = 0;
+  order.forEach(id => {
+    current.push(id);
+    running += cents[id];
+    if (running === 0) {
+      groups.push(current);
+      current = [];
+    }
+  });
+  return groups;
+};
+
+// Repeatedly pays the biggest debt to the biggest creditor
+const greedyTransfers = (ids: string[], cents: { [memberId: string]: number }): GroupTransfer[] => {
+  const remaining = ids.map(id => ({ id, cents: cents[id] }));
+  const transfers: GroupTransfer[] = [];
+  for (;;) {
+    const creditor = remaining.reduce((top, entry) => (entry.cents > top.cents ? entry : top), remaining[0]);
+    const debtor = remaining.reduce((low, entry) => (entry.cents < low.cents ? entry : low), remaining[0]);
+    if (!creditor || creditor.cents <= 0 || debtor.cents >= 0) break;
+    const amount = Math.min(creditor.cents, -debtor.cents);
+    transfers.push({ from: debtor.id, to: creditor.id, amount: amount / 100 });
+    creditor.cents -= amount;
+    debtor.cents += amount;
+  }
+  return transfers;
+};
+
+export const groupLedger = {
+  // "You" for the signed-in user, otherwise the member's name or username
+  memberName: (members: GroupMember[], memberId: string, selfId?: string): string => {
+    if (memberId === selfId) return 'You';
+    const member = members.find(candidate => candidate.id === memberId);
+    return member ? member.name || member.username : 'Former member';
+  },
+
+  // What each member owes for one expense, in the group currency; always adds up to the amount
+  owedShares: (expense: Pick<GroupExpense, 'amount' | 'splitMethod' | 'shares'>): { [memberId: string]: number } => {
+    const cents = toCents(expense.amount);
+    const parts = expense.splitMethod === 'exact'
+      ? Object.fromEntries(Object.entries(expense.shares).map(([id, amount]) => [id, toCents(amount)]))
+      : apportion(cents, expense.splitMethod === 'equal'
+        ? Object.fromEntries(Object.keys(expense.shares).map(id => [id, 1]))
+        : expense.shares);
+    return Object.fromEntries(Object.entries(parts).filter(([, part]) => part > 0).map(([id, part]) => [id, part / 100]));
+  },
+
+  // Checks the split before it's saved; returns a message to show, or undefined when it's fine
+  validateSplit: (amount: number, method: GroupSplitMethod, shares: { [memberId: string]: number }): string | undefined => {
+    const included = Object.values(shares).filter(value => value > 0);
+    if (included.length === 0) {
+      return 'Choose at least one member to split with';
+    }
+    if (Object.values(shares).some(value => value < 0 || isNaN(value))) {
+      return 'Shares cannot be negative';
+    }
+    if (method === 'exact') {
+      const assigned = included.reduce((total, value) => total + toCents(value), 0);
+      if (assigned !== toCents(amount)) {
+        return `Amounts add up to ${(assigned / 100).toFixed(2)} but the expense is ${amount.toFixed(2)}`;
+      }
+    }
+    return undefined;
+  },
+
+  // Net position of each member: positive means the group owes them, negative that they owe the group
+  balances: (memberIds: string[], expenses: GroupExpense[], settlements: GroupSettlement[]): { [memberId: string]: number } => {
+    const cents: { [memberId: string]: number } = {};
+    memberIds.forEach(id => {
+      cents[id] = 0;
+    });
+    const add = (id: string, amount: number) => {
+      cents[id] = (cents[id] || 0) + amount;
+    };
+
+    expenses.forEach(expense => {
+      add(expense.paidBy, toCents(expense.amount));
+      Object.entries(groupLedger.owedShares(expense)).forEach(([id, share]) => add(id, -toCents(share)));
+    });
+    settlements.forEach(settlement => {
+      add(settlement.from, toCents(settlement.amount));
+      add(settlement.to, -toCents(settlement.amount));
+    });
+
+    return Object.fromEntries(Object.entries(cents).map(([id, value]) => [id, value / 100]));
+  },
+
+  // Who should pay whom to clear every balance, using as few transfers as possible
+  settle: (balances: { [memberId: string]: number }): GroupTransfer[] => {
+    const cents: { [memberId: string]: number } = {};
+    Object.entries(balances).forEach(([id, amount]) => {
+      const value = toCents(amount);
+      if (value !== 0) cents[id] = value;
+    });
+    const ids = Object.keys(cents).sort();
+    const balanced = ids.reduce((total, id) => total + cents[id], 0) === 0;
+    if (!balanced || ids.length > MAX_EXACT_MEMBERS) {
+      return greedyTransfers(ids, cents);
+    }
+    return zeroSumGroups(ids, cents).flatMap(group => greedyTransfers(group, cents));
+  },
+};
@@ -0,0 +1,63 @@
+import { pbkdf2Async } from '@noble/hashes/pbkdf2';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import * as Crypto from 'expo-crypto';
+
+// Stored as "pbkdf2_sha256$<iterations>$<salt hex>$<hash hex>"
+const HASH_SCHEME = 'pbkdf2_sha256';
+// Hashing is pure JS, so every sign-in pays for this on the device: 100k rounds take about half a
+// second under Node and several times that under Hermes. OWASP asks for 600k once a server does the work.
+const ITERATIONS = 100000;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+
+const derive = async (plain: string, salt: Uint8Array, iterations: number): Promise<string> => {
+  const key = await pbkdf2Async(sha256, plain, salt, { c: iterations, dkLen: KEY_LENGTH });
+  return bytesToHex(key);
+};
+
+// Compare without bailing out early so timing does not leak the matching prefix
+const constantTimeEquals = (a: string, b: string): boolean => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+export const password = {
+  isHashed: (stored: string | undefined): boolean => {
+    return !!stored && stored.startsWith(`${HASH_SCHEME}$`);
+  },
+
+  // Plain passwords and hashes made with fewer rounds than today's should be hashed again at sign-in
+  needsRehash: (stored: string | undefined): boolean => {
+    if (!password.isHashed(stored)) return true;
+    return parseInt(stored!.split('$')[1], 10) < ITERATIONS;
+  },
+
+  hash: async (plain: string): Promise<string> => {
+    const salt = Crypto.getRandomBytes(SALT_LENGTH);
+    const hash = await derive(plain, salt, ITERATIONS);
+    return [HASH_SCHEME, ITERATIONS, bytesToHex(salt), hash].join('$');
+  },
+
+  verify: async (plain: string, stored: string | undefined): Promise<boolean> => {
+    if (!stored) return false;
+
+    // Accounts created before hashing still hold the plain password
+    if (!password.isHashed(stored)) {
+      return constantTimeEquals(plain, stored);
+    }
+
+    const [, iterations, saltHex, expected] = stored.split('$');
+    const actual = await derive(plain, hexToBytes(saltHex), parseInt(iterations, 10));
+    return constantTimeEquals(actual, expected);
+  },
+
+  // Opaque random token, hex encoded
+  randomToken: (byteLength: number = 32): string => {
+    return bytesToHex(Crypto.getRandomBytes(byteLength));
+  },
+};
@@ -0,0 +1,184 @@
+import { SUPPORTED_CURRENCIES } from '../types';
+
+export interface ParsedReceipt {
+  merchant?: string;
+  total?: number;
+  // YYYY-MM-DD
+  date?: string;
+  currency?: string;
+}
+
+export type ReceiptDateOrder = 'us' | 'eu';
+
+// Lines naming the amount actually paid, strongest wording first
+const TOTAL_KEYWORDS: RegExp[] = [
+  /\b(grand\s*total|amount\s*due|balance\s*due|total\s*due|total\s*to\s*pay|montant\s*d[uû]|zu\s*zahlen)\b/i,
+  /\b(total|totaal|totale|summe|betrag|amount|montant|importe)\b/i,
+];
+
+// Lines that mention a total-like word but carry some other figure
+const NOT_TOTAL = /\b(sub\s*-?\s*total|tax|vat|tva|mwst|gst|tip|gratuity|change|cash|tendered|tender|savings|saved|discount|items?|qty|points)\b/i;
+
+// Prices with two decimals: 1,234.56 / 1.234,56 / 12.50
+const AMOUNT_PATTERN = /(?:^|[^\d.,])(\d{1,3}(?:[.,]\d{3})+[.,]\d{2}|\d+[.,]\d{2})(?![\d.,]*\d)/g;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Symbols that name one currency; a bare "$" is left alone since several currencies use it
+const CURRENCY_SYMBOLS: [RegExp, string][] = [
+  [/US\$/, 'USD'],
+  [/C\$|CA\$/, 'CAD'],
+  [/A\$|AU\$/, 'AUD'],
+  [/€/, 'EUR'],
+  [/£/, 'GBP'],
+  [/₹|\bRs\.?\s?\d/, 'INR'],
+  [/\bKSh\b|\bKshs?\b/i, 'KES'],
+  [/\bFRw\b|\bRWF\b/i, 'RWF'],
+  [/\bFr\.\s?\d/, 'CHF'],
+  [/¥|円/, 'JPY'],
+  [/元/, 'CNY'],
+];
+
+// Lines near the top that are clearly not the shop's name
+const NOT_MERCHANT = /(receipt|invoice|welcome|thank|tel\b|phone|fax|www\.|https?:|@|\.com\b|vat\s*(no|reg)|tax\s*id|store\s*#|order\s*#|table\b|server\b|cashier)/i;
+
+const MERCHANT_SEARCH_LINES = 6;
+
+const toLines = (text: string): string[] =>
+  text.split(/\r?\n/).map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+
+// Reads one matched price, working out which separator is the decimal point
+const toNumber = (raw: string): number | null => {
+  const decimal = raw.charAt(raw.length - 3);
+  const whole = raw.slice(0, -3).replace(/[.,]/g, '');
+  const amount = parseFloat(`${whole}.${raw.slice(-2)}`);
+  return decimal === '.' || decimal === ',' ? (isNaN(amount) ? null : amount) : null;
+};
+
+const amountsIn = (line: string): number[] => {
+  const amounts: number[] = [];
+  for (const match of line.matchAll(AMOUNT_PATTERN)) {
+    const amount = toNumber(match[1]);
+    if (amount !== null && amount > 0) amounts.push(amount);
+  }
+  return amounts;
+};
+
+// Looks past dates and times so "12.05.24" or "14:32" aren't read as prices
+const withoutDates = (line: string): string =>
+  line
+    .replace(/\b\d{1,4}[/.-]\d{1,2}[/.-]\d{2,4}\b/g, ' ')
+    .replace(/\b\d{1,2}:\d{2}(:\d{2})?\b/g, ' ');
+
+const findTotal = (lines: string[]): number | undefined => {
+  for (const keyword of TOTAL_KEYWORDS) {
+    const candidates: number[] = [];
+    lines.forEach((line, index) => {
+      if (!keyword.test(line) || NOT_TOTAL.test(line)) return;
+      // Some layouts print the figure on the line below the label
+      const amounts = amountsIn(withoutDates(line));
+      const next = lines[index + 1];
+      const found = amounts.length > 0 ? amounts : next && !NOT_TOTAL.test(next) ? amountsIn(withoutDates(next)) : [];
+      if (found.length > 0) candidates.push(found[found.length - 1]);
+    });
+    if (candidates.length > 0) return Math.max(...candidates);
+  }
+
+  // No labelled total: the biggest price left over once payment lines are skipped
+  const amounts = lines
+    .filter(line => !NOT_TOTAL.test(line))
+    .flatMap(line => amountsIn(withoutDates(line)));
+  return amounts.length > 0 ? Math.max(...amounts) : undefined;
+};
+
+const toDateKey = (year: number, month: number, day: number): string | undefined => {
+  const fullYear = year < 100 ? 2000 + year : year;
+  const date = new Date(fullYear, month - 1, day);
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || date.getDate() !== day) return undefined;
+  return `${fullYear}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const monthIndex = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+const dateIn = (line: string, order: ReceiptDateOrder): string | undefined => {
+  const iso = line.match(/\b(\d{4})[/.-](\d{1,2})[/.-](\d{1,2})\b/);
+  if (iso) return toDateKey(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const numeric = line.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})\b/);
+  if (numeric) {
+    const first = Number(numeric[1]);
+    const second = Number(numeric[2]);
+    const year = Number(numeric[3]);
+    // A part above 12 can only be the day, whatever the locale
+    const dayFirst = first > 12 || (second <= 12 && order === 'eu');
+    return dayFirst ? toDateKey(year, second, first) : toDateKey(year, first, second);
+  }
+
+  const dayMonth = line.match(/\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?[\s,-]+(\d{4}|\d{2})\b/);
+  if (dayMonth && monthIndex(dayMonth[2]) > 0) {
+    return toDateKey(Number(dayMonth[3]), monthIndex(dayMonth[2]), Number(dayMonth[1]));
+  }
+
+  const monthDay = line.match(/\b([A-Za-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})\b/);
+  if (monthDay && monthIndex(monthDay[1]) > 0) {
+    return toDateKey(Number(monthDay[3]), monthIndex(monthDay[1]), Number(monthDay[2]));
+  }
+
+  return undefined;
+};
+
+const findDate = (lines: string[], order: ReceiptDateOrder): string | undefined => {
+  const today = new Date().toISOString().split('T')[0];
+  for (const line of lines) {
+    const date = dateIn(line, order);
+    // OCR noise can produce dates in the future; a receipt can't be from then
+    if (date && date <= today) return date;
+  }
+  return undefined;
+};
+
+const findCurrency = (text: string): string | undefined => {
+  const code = text.match(new RegExp(`\\b(${SUPPORTED_CURRENCIES.join('|')})\\b`));
+  if (code) return code[1];
+  const symbol = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(text));
+  return symbol ? symbol[1] : undefined;
+};
+
+// Receipts print the shop name in capitals; "TRADER JOE'S" reads better as "Trader Joe's"
+const tidyMerchant = (line: string): string => {
+  const name = line.replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9'&)]+$/g, '');
+  if (name !== name.toUpperCase()) return name;
+  return name.toLowerCase().replace(/(^|[\s&(-])([a-z])/g, (_, before: string, letter: string) => before + letter.toUpperCase());
+};
+
+const findMerchant = (lines: string[]): string | undefined => {
+  const line = lines.slice(0, MERCHANT_SEARCH_LINES).find(candidate => {
+    const letters = (candidate.match(/[A-Za-z]/g) || []).length;
+    const digits = (candidate.match(/\d/g) || []).length;
+    return letters >= 3
+      && letters > digits
+      && !/^\d/.test(candidate)
+      && !NOT_MERCHANT.test(candidate)
+      && amountsIn(candidate).length === 0;
+  });
+  return line ? tidyMerchant(line) : undefined;
+};
+
+export const receiptParser = {
+  // Pulls what it can out of OCR text; fields it can't find are left undefined rather than guessed
+  parse: (text: string, dateOrder: ReceiptDateOrder = 'us'): ParsedReceipt => {
+    const lines = toLines(text);
+    if (lines.length === 0) return {};
+    return {
+      merchant: findMerchant(lines),
+      total: findTotal(lines),
+      date: findDate(lines, dateOrder),
+      currency: findCurrency(text),
+    };
+  },
+
+  // Whether parsing found anything worth offering to the user
+  isEmpty: (receipt: ParsedReceipt): boolean => {
+    return !receipt.merchant && receipt.total === undefined && !receipt.date && !receipt.currency;
+  },
+};
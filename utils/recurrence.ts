@@ -0,0 +1,116 @@
+import { Expense, RecurrenceRule } from '../types';
+
+// Safety net so a daily rule started years ago cannot flood the device in one pass
+const MAX_OCCURRENCES = 366;
+
+const FREQUENCY_LABELS: { [key: string]: [string, string] } = {
+  daily: ['Daily', 'days'],
+  weekly: ['Weekly', 'weeks'],
+  monthly: ['Monthly', 'months'],
+  yearly: ['Yearly', 'years'],
+};
+
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+
+export interface RecurringOccurrence {
+  source: Expense;
+  date: string;
+  amount: number;
+}
+
+export const recurrence = {
+  // Local calendar day as YYYY-MM-DD, the format expense dates are entered in
+  toDateKey: (date: Date): string => {
+    const month = `${date.getMonth() + 1}`.padStart(2, '0');
+    const day = `${date.getDate()}`.padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  },
+
+  // Reads the calendar day of a date or ISO string as local midnight
+  parseDateKey: (value: string): Date => {
+    const [year, month, day] = value.slice(0, 10).split('-').map(part => parseInt(part, 10));
+    return new Date(year, month - 1, day);
+  },
+
+  // The nth occurrence counted from the start date (n = 0 is the start itself).
+  // Monthly and yearly rules clamp to the last day, so the 31st becomes Feb 28 without drifting.
+  occurrenceAt: (start: Date, rule: RecurrenceRule, n: number): Date => {
+    const step = n * Math.max(1, rule.interval);
+    switch (rule.frequency) {
+      case 'daily':
+        return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step);
+      case 'weekly':
+        return new Date(start.getFullYear(), start.getMonth(), start.getDate() + step * 7);
+      case 'monthly':
+      case 'yearly': {
+        const months = rule.frequency === 'monthly' ? step : step * 12;
+        const year = start.getFullYear() + Math.floor((start.getMonth() + months) / 12);
+        const month = (start.getMonth() + months) % 12;
+        return new Date(year, month, Math.min(start.getDate(), daysInMonth(year, month)));
+      }
+    }
+  },
+
+  // Occurrence dates strictly after `after` and up to `until` (inclusive), honouring the end date
+  occurrencesBetween: (startDate: string, rule: RecurrenceRule, after: Date, until: Date): string[] => {
+    const start = recurrence.parseDateKey(startDate);
+    const end = rule.endDate ? recurrence.parseDateKey(rule.endDate) : null;
+    const afterKey = recurrence.toDateKey(after);
+    const dates: string[] = [];
+
+    for (let n = 1; dates.length < MAX_OCCURRENCES; n++) {
+      const date = recurrence.occurrenceAt(start, rule, n);
+      if (date > until || (end && date > end)) {
+        break;
+      }
+      const key = recurrence.toDateKey(date);
+      if (key > afterKey) {
+        dates.push(key);
+      }
+    }
+    return dates;
+  },
+
+  nextOccurrence: (startDate: string, rule: RecurrenceRule, after: Date = new Date()): string | null => {
+    const start = recurrence.parseDateKey(startDate);
+    if (start > after) {
+      return recurrence.toDateKey(start);
+    }
+    const horizon = new Date(after.getFullYear() + Math.max(1, rule.interval) + 1, after.getMonth(), after.getDate());
+    return recurrence.occurrencesBetween(startDate, rule, after, horizon)[0] || null;
+  },
+
+  isEnded: (rule: RecurrenceRule, today: Date = new Date()): boolean => {
+    return !!rule.endDate && rule.endDate.slice(0, 10) < recurrence.toDateKey(today);
+  },
+
+  describe: (rule: RecurrenceRule): string => {
+    const [single, plural] = FREQUENCY_LABELS[rule.frequency];
+    return rule.interval > 1 ? `Every ${rule.interval} ${plural}` : single;
+  },
+
+  // Expenses that start a series
+  templates: (expenses: Expense[]): Expense[] => {
+    return expenses.filter(expense => !!expense.recurrence && !expense.recurringSourceId);
+  },
+
+  // Occurrences in (from, to] that have not been materialized yet, for every series
+  upcoming: (expenses: Expense[], from: Date, to: Date): RecurringOccurrence[] => {
+    const existing = new Set(
+      expenses
+        .filter(expense => expense.recurringSourceId && expense.date)
+        .map(expense => `${expense.recurringSourceId}|${expense.date!.slice(0, 10)}`)
+    );
+
+    return recurrence.templates(expenses).flatMap(source => {
+      const rule = source.recurrence!;
+      const startDate = source.date || source.createdAt;
+      const generatedUntil = rule.lastGeneratedDate ? recurrence.parseDateKey(rule.lastGeneratedDate) : null;
+      const after = generatedUntil && generatedUntil > from ? generatedUntil : from;
+
+      return recurrence.occurrencesBetween(startDate, rule, after, to)
+        .filter(date => !existing.has(`${source.id}|${date}`))
+        .map(date => ({ source, date, amount: source.amount }));
+    });
+  },
+};
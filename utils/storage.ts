@@ -1,5 +1,6 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { User } from '../types';
+import * as SecureStore from 'expo-secure-store';
+import { User, AuthSession, Expense, Income, SavingsGoal, SyncOperation, ExchangeRateTable, CategoryRule, CategoryDefinition } from '../types';
 
 interface BudgetSettings {
   monthlyLimit: number;
@@ -11,13 +12,81 @@ const STORAGE_KEYS = {
   AUTH_TOKEN: '@finance_tracker_token',
   ONBOARDING_COMPLETED: '@finance_tracker_onboarding',
   BUDGET_SETTINGS: '@finance_tracker_budget_settings',
+  EXPENSES: '@finance_tracker_expenses',
+  INCOME: '@finance_tracker_income',
+  GOALS: '@finance_tracker_goals',
+  SYNC_QUEUE: '@finance_tracker_sync_queue',
+  EXCHANGE_RATES: '@finance_tracker_exchange_rates',
+  SENT_BUDGET_ALERTS: '@finance_tracker_sent_budget_alerts',
+  CATEGORY_RULES: '@finance_tracker_category_rules',
+  CATEGORIES: '@finance_tracker_categories',
+  SECURE_MIGRATION: '@finance_tracker_secure_migrated',
+};
+
+// Keys that live in the encrypted store (Keychain / Keystore) instead of AsyncStorage
+const SENSITIVE_KEYS = [STORAGE_KEYS.USER, STORAGE_KEYS.AUTH_TOKEN];
+
+// Fields that must never be written to disk, whichever store is used
+const SECRET_USER_FIELDS = ['password', 'passwordHash', 'salt', 'token'];
+
+// SecureStore only accepts [A-Za-z0-9._-] in keys
+const toSecureKey = (key: string) => key.replace(/^@/, '').replace(/[^A-Za-z0-9._-]/g, '_');
+
+let secureStoreAvailable: boolean | null = null;
+
+const isSecureStoreAvailable = async (): Promise<boolean> => {
+  if (secureStoreAvailable === null) {
+    try {
+      secureStoreAvailable = await SecureStore.isAvailableAsync();
+    } catch {
+      secureStoreAvailable = false;
+    }
+    if (!secureStoreAvailable) {
+      console.warn('Secure storage unavailable on this platform, falling back to AsyncStorage');
+    }
+  }
+  return secureStoreAvailable;
+};
+
+// Routes sensitive keys to the encrypted store and everything else to AsyncStorage
+const keyValueStore = {
+  setItem: async (key: string, value: string): Promise<void> => {
+    if (SENSITIVE_KEYS.includes(key) && await isSecureStoreAvailable()) {
+      await SecureStore.setItemAsync(toSecureKey(key), value);
+      return;
+    }
+    await AsyncStorage.setItem(key, value);
+  },
+
+  getItem: async (key: string): Promise<string | null> => {
+    if (SENSITIVE_KEYS.includes(key) && await isSecureStoreAvailable()) {
+      return SecureStore.getItemAsync(toSecureKey(key));
+    }
+    return AsyncStorage.getItem(key);
+  },
+
+  removeItem: async (key: string): Promise<void> => {
+    if (SENSITIVE_KEYS.includes(key) && await isSecureStoreAvailable()) {
+      await SecureStore.deleteItemAsync(toSecureKey(key));
+      return;
+    }
+    await AsyncStorage.removeItem(key);
+  },
+};
+
+export const stripSecrets = <T extends object>(user: T): T => {
+  const safeUser: { [key: string]: unknown } = { ...(user as { [key: string]: unknown }) };
+  SECRET_USER_FIELDS.forEach(field => {
+    delete safeUser[field];
+  });
+  return safeUser as T;
 };
 
 export const storage = {
   // User management
   setUser: async (user: User): Promise<void> => {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.USER, JSON.stringify(user));
+      await keyValueStore.setItem(STORAGE_KEYS.USER, JSON.stringify(stripSecrets(user)));
     } catch (error) {
       console.error('Error saving user:', error);
       throw new Error('Failed to save user data');
@@ -26,7 +95,7 @@ export const storage = {
 
   getUser: async (): Promise<User | null> => {
     try {
-      const userData = await AsyncStorage.getItem(STORAGE_KEYS.USER);
+      const userData = await keyValueStore.getItem(STORAGE_KEYS.USER);
       return userData ? JSON.parse(userData) : null;
     } catch (error) {
       console.error('Error getting user:', error);
@@ -36,38 +105,43 @@ export const storage = {
 
   removeUser: async (): Promise<void> => {
     try {
-      await AsyncStorage.removeItem(STORAGE_KEYS.USER);
+      await keyValueStore.removeItem(STORAGE_KEYS.USER);
     } catch (error) {
       console.error('Error removing user:', error);
       throw new Error('Failed to remove user data');
     }
   },
 
-  // Auth token management
-  setAuthToken: async (token: string): Promise<void> => {
+  // Auth session management
+  setAuthSession: async (session: AuthSession): Promise<void> => {
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, token);
+      await keyValueStore.setItem(STORAGE_KEYS.AUTH_TOKEN, JSON.stringify(session));
     } catch (error) {
-      console.error('Error saving auth token:', error);
-      throw new Error('Failed to save auth token');
+      console.error('Error saving auth session:', error);
+      throw new Error('Failed to save auth session');
     }
   },
 
-  getAuthToken: async (): Promise<string | null> => {
+  getAuthSession: async (): Promise<AuthSession | null> => {
     try {
-      return await AsyncStorage.getItem(STORAGE_KEYS.AUTH_TOKEN);
+      const sessionData = await keyValueStore.getItem(STORAGE_KEYS.AUTH_TOKEN);
+      if (!sessionData) return null;
+
+      // Older installs stored the bare user id here; those are not valid sessions
+      const session = JSON.parse(sessionData);
+      return session && typeof session === 'object' && session.token && session.expiresAt ? session : null;
     } catch (error) {
-      console.error('Error getting auth token:', error);
+      console.error('Error getting auth session:', error);
       return null;
     }
   },
 
-  removeAuthToken: async (): Promise<void> => {
+  removeAuthSession: async (): Promise<void> => {
     try {
-      await AsyncStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
+      await keyValueStore.removeItem(STORAGE_KEYS.AUTH_TOKEN);
     } catch (error) {
-      console.error('Error removing auth token:', error);
-      throw new Error('Failed to remove auth token');
+      console.error('Error removing auth session:', error);
+      throw new Error('Failed to remove auth session');
     }
   },
 
@@ -122,21 +196,234 @@ export const storage = {
     }
   },
 
+  // Offline expense cache (per user)
+  setCachedExpenses: async (userId: string, expenses: Expense[]): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.EXPENSES}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(expenses));
+    } catch (error) {
+      console.error('Error saving cached expenses:', error);
+      throw new Error('Failed to save expenses locally');
+    }
+  },
+
+  getCachedExpenses: async (userId: string): Promise<Expense[] | null> => {
+    try {
+      const key = `${STORAGE_KEYS.EXPENSES}_${userId}`;
+      const expensesData = await AsyncStorage.getItem(key);
+      return expensesData ? JSON.parse(expensesData) : null;
+    } catch (error) {
+      console.error('Error getting cached expenses:', error);
+      return null;
+    }
+  },
+
+  // Offline income cache (per user)
+  setCachedIncome: async (userId: string, income: Income[]): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.INCOME}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(income));
+    } catch (error) {
+      console.error('Error saving cached income:', error);
+      throw new Error('Failed to save income locally');
+    }
+  },
+
+  getCachedIncome: async (userId: string): Promise<Income[] | null> => {
+    try {
+      const key = `${STORAGE_KEYS.INCOME}_${userId}`;
+      const incomeData = await AsyncStorage.getItem(key);
+      return incomeData ? JSON.parse(incomeData) : null;
+    } catch (error) {
+      console.error('Error getting cached income:', error);
+      return null;
+    }
+  },
+
+  // Offline savings goal cache (per user)
+  setCachedGoals: async (userId: string, goals: SavingsGoal[]): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.GOALS}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(goals));
+    } catch (error) {
+      console.error('Error saving cached goals:', error);
+      throw new Error('Failed to save goals locally');
+    }
+  },
+
+  getCachedGoals: async (userId: string): Promise<SavingsGoal[] | null> => {
+    try {
+      const key = `${STORAGE_KEYS.GOALS}_${userId}`;
+      const goalsData = await AsyncStorage.getItem(key);
+      return goalsData ? JSON.parse(goalsData) : null;
+    } catch (error) {
+      console.error('Error getting cached goals:', error);
+      return null;
+    }
+  },
+
+  // Pending sync operations (per user)
+  setSyncQueue: async (userId: string, queue: SyncOperation[]): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.SYNC_QUEUE}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(queue));
+    } catch (error) {
+      console.error('Error saving sync queue:', error);
+      throw new Error('Failed to save pending changes');
+    }
+  },
+
+  getSyncQueue: async (userId: string): Promise<SyncOperation[]> => {
+    try {
+      const key = `${STORAGE_KEYS.SYNC_QUEUE}_${userId}`;
+      const queueData = await AsyncStorage.getItem(key);
+      return queueData ? JSON.parse(queueData) : [];
+    } catch (error) {
+      console.error('Error getting sync queue:', error);
+      return [];
+    }
+  },
+
+  // Exchange rates (per user, kept across logins so manual edits survive)
+  setExchangeRates: async (userId: string, table: ExchangeRateTable): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.EXCHANGE_RATES}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(table));
+    } catch (error) {
+      console.error('Error saving exchange rates:', error);
+      throw new Error('Failed to save exchange rates');
+    }
+  },
+
+  getExchangeRates: async (userId: string): Promise<ExchangeRateTable | null> => {
+    try {
+      const key = `${STORAGE_KEYS.EXCHANGE_RATES}_${userId}`;
+      const ratesData = await AsyncStorage.getItem(key);
+      return ratesData ? JSON.parse(ratesData) : null;
+    } catch (error) {
+      console.error('Error getting exchange rates:', error);
+      return null;
+    }
+  },
+
+  // The user's category registry; null until they first change it
+  setCategories: async (userId: string, categories: CategoryDefinition[]): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.CATEGORIES}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(categories));
+    } catch (error) {
+      console.error('Error saving categories:', error);
+      throw new Error('Failed to save categories');
+    }
+  },
+
+  getCategories: async (userId: string): Promise<CategoryDefinition[] | null> => {
+    try {
+      const key = `${STORAGE_KEYS.CATEGORIES}_${userId}`;
+      const categoriesData = await AsyncStorage.getItem(key);
+      return categoriesData ? JSON.parse(categoriesData) : null;
+    } catch (error) {
+      console.error('Error getting categories:', error);
+      return null;
+    }
+  },
+
+  // Category rules in priority order (per user)
+  setCategoryRules: async (userId: string, rules: CategoryRule[]): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.CATEGORY_RULES}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(rules));
+    } catch (error) {
+      console.error('Error saving category rules:', error);
+      throw new Error('Failed to save category rules');
+    }
+  },
+
+  getCategoryRules: async (userId: string): Promise<CategoryRule[]> => {
+    try {
+      const key = `${STORAGE_KEYS.CATEGORY_RULES}_${userId}`;
+      const rulesData = await AsyncStorage.getItem(key);
+      return rulesData ? JSON.parse(rulesData) : [];
+    } catch (error) {
+      console.error('Error getting category rules:', error);
+      return [];
+    }
+  },
+
+  // Budget alerts already notified this period (per user)
+  setSentBudgetAlerts: async (userId: string, alertKeys: string[]): Promise<void> => {
+    try {
+      const key = `${STORAGE_KEYS.SENT_BUDGET_ALERTS}_${userId}`;
+      await AsyncStorage.setItem(key, JSON.stringify(alertKeys));
+    } catch (error) {
+      console.error('Error saving sent budget alerts:', error);
+    }
+  },
+
+  getSentBudgetAlerts: async (userId: string): Promise<string[]> => {
+    try {
+      const key = `${STORAGE_KEYS.SENT_BUDGET_ALERTS}_${userId}`;
+      const alertsData = await AsyncStorage.getItem(key);
+      return alertsData ? JSON.parse(alertsData) : [];
+    } catch (error) {
+      console.error('Error getting sent budget alerts:', error);
+      return [];
+    }
+  },
+
+  // Move sensitive values written by older versions out of plain AsyncStorage (runs once)
+  migrateSensitiveData: async (): Promise<void> => {
+    try {
+      if (!(await isSecureStoreAvailable())) return;
+      if (await AsyncStorage.getItem(STORAGE_KEYS.SECURE_MIGRATION) === 'true') return;
+
+      for (const key of SENSITIVE_KEYS) {
+        const legacyValue = await AsyncStorage.getItem(key);
+        if (legacyValue === null) continue;
+
+        let value: string | null = legacyValue;
+        if (key === STORAGE_KEYS.USER) {
+          // Older versions persisted the API user including the password
+          try {
+            value = JSON.stringify(stripSecrets(JSON.parse(legacyValue)));
+          } catch {
+            value = null;
+          }
+        }
+
+        if (value !== null) {
+          await keyValueStore.setItem(key, value);
+        }
+        await AsyncStorage.removeItem(key);
+      }
+
+      await AsyncStorage.setItem(STORAGE_KEYS.SECURE_MIGRATION, 'true');
+    } catch (error) {
+      console.error('Error migrating sensitive data:', error);
+    }
+  },
+
   // Clear all data
   clearAll: async (): Promise<void> => {
     try {
       // Get all keys to find user-specific budget settings
       const allKeys = await AsyncStorage.getAllKeys();
       const budgetKeys = allKeys.filter(key => key.startsWith(STORAGE_KEYS.BUDGET_SETTINGS));
+      const expenseCacheKeys = allKeys.filter(key => key.startsWith(STORAGE_KEYS.EXPENSES));
+      const incomeCacheKeys = allKeys.filter(key => key.startsWith(STORAGE_KEYS.INCOME));
+      const goalCacheKeys = allKeys.filter(key => key.startsWith(STORAGE_KEYS.GOALS));
       
+      // Sync queues are kept so unsynced changes replay on the next login
       const keysToRemove = [
-        STORAGE_KEYS.USER,
-        STORAGE_KEYS.AUTH_TOKEN,
         STORAGE_KEYS.ONBOARDING_COMPLETED,
         ...budgetKeys, // Include all user-specific budget settings
+        ...expenseCacheKeys,
+        ...incomeCacheKeys,
+        ...goalCacheKeys,
       ];
       
       await AsyncStorage.multiRemove(keysToRemove);
+      await Promise.all(SENSITIVE_KEYS.map(key => keyValueStore.removeItem(key)));
     } catch (error) {
       console.error('Error clearing storage:', error);
       throw new Error('Failed to clear storage');
@@ -0,0 +1,81 @@
+import { Expense } from '../types';
+
+export interface TagTotal {
+  tag: string;
+  amount: number;
+  count: number;
+  // Dates (YYYY-MM-DD) of the earliest and latest tagged expense
+  from: string;
+  to: string;
+}
+
+export const MAX_TAG_LENGTH = 30;
+
+// Tags are stored lowercase so "Lisbon" and "lisbon" end up as one tag
+export const tags = {
+  normalize: (value: string): string => {
+    return value
+      .trim()
+      .replace(/^#+/, '')
+      .replace(/\s+/g, '-')
+      .toLowerCase()
+      .slice(0, MAX_TAG_LENGTH);
+  },
+
+  // Splits typed text on commas so "lisbon, work" adds two tags at once
+  parse: (value: string): string[] => {
+    return tags.merge([], value.split(',').map(tags.normalize));
+  },
+
+  // Adds tags that aren't already present, keeping the original order
+  merge: (current: string[], added: string[]): string[] => {
+    const result = [...current];
+    added.forEach(tag => {
+      if (tag && !result.includes(tag)) result.push(tag);
+    });
+    return result;
+  },
+
+  // Every tag in use, most used first
+  all: (expenses: Expense[]): string[] => {
+    const counts: { [tag: string]: number } = {};
+    expenses.forEach(expense => {
+      (expense.tags || []).forEach(tag => {
+        counts[tag] = (counts[tag] || 0) + 1;
+      });
+    });
+    return Object.keys(counts).sort((a, b) => counts[b] - counts[a] || a.localeCompare(b));
+  },
+
+  // Existing tags for autocomplete: prefix matches before ones containing the query
+  suggest: (known: string[], query: string, exclude: string[] = [], limit = 6): string[] => {
+    const needle = tags.normalize(query);
+    const candidates = known.filter(tag => !exclude.includes(tag));
+    if (!needle) return candidates.slice(0, limit);
+    const prefix = candidates.filter(tag => tag.startsWith(needle) && tag !== needle);
+    const inner = candidates.filter(tag => !tag.startsWith(needle) && tag.includes(needle));
+    return [...prefix, ...inner].slice(0, limit);
+  },
+
+  // Expenses carrying every one of the tags
+  hasAll: (expense: Expense, required: string[]): boolean => {
+    return required.every(tag => (expense.tags || []).includes(tag));
+  },
+
+  // One row per tag; an expense with several tags counts towards each of them
+  totals: (expenses: Expense[], amount: (expense: Expense) => number): TagTotal[] => {
+    const totals: { [tag: string]: TagTotal } = {};
+    expenses.forEach(expense => {
+      const day = (expense.date || expense.createdAt).slice(0, 10);
+      (expense.tags || []).forEach(tag => {
+        const total = totals[tag] || { tag, amount: 0, count: 0, from: day, to: day };
+        total.amount += amount(expense);
+        total.count += 1;
+        if (day < total.from) total.from = day;
+        if (day > total.to) total.to = day;
+        totals[tag] = total;
+      });
+    });
+    return Object.values(totals).sort((a, b) => b.amount - a.amount);
+  },
+};
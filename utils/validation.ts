@@ -100,4 +100,69 @@ export const validation = {
     
     return { isValid: true };
   },
-}; 
\ No newline at end of file
+
+  // Goals are set for a day still to come
+  targetDate: (date: string): { isValid: boolean; message?: string } => {
+    if (!date) {
+      return { isValid: false, message: 'Target date is required' };
+    }
+
+    const targetDate = new Date(date);
+    if (isNaN(targetDate.getTime())) {
+      return { isValid: false, message: 'Please enter a valid date' };
+    }
+
+    if (date.slice(0, 10) <= new Date().toISOString().split('T')[0]) {
+      return { isValid: false, message: 'Target date must be in the future' };
+    }
+
+    return { isValid: true };
+  },
+
+  // Every line needs a positive amount and a category, and together they must account for the whole amount
+  splits: (splits: { amount: string; category: string }[], amount: string): { isValid: boolean; message?: string } => {
+    if (splits.length < 2) {
+      return { isValid: false, message: 'Add at least two splits, or stop splitting' };
+    }
+
+    if (splits.some(split => !(parseFloat(split.amount) > 0))) {
+      return { isValid: false, message: 'Each split needs an amount greater than 0' };
+    }
+
+    if (splits.some(split => !split.category)) {
+      return { isValid: false, message: 'Each split needs a category' };
+    }
+
+    const total = parseFloat(amount) || 0;
+    const assigned = splits.reduce((sum, split) => sum + parseFloat(split.amount), 0);
+    if (Math.abs(assigned - total) >= 0.005) {
+      return {
+        isValid: false,
+        message: `Splits add up to ${assigned.toFixed(2)} but the amount is ${total.toFixed(2)}`,
+      };
+    }
+
+    return { isValid: true };
+  },
+
+  recurrenceInterval: (interval: string): { isValid: boolean; message?: string } => {
+    const numericInterval = Number(interval);
+    if (!interval || !Number.isInteger(numericInterval) || numericInterval < 1) {
+      return { isValid: false, message: 'Repeat interval must be a whole number of at least 1' };
+    }
+
+    if (numericInterval > 365) {
+      return { isValid: false, message: 'Repeat interval is too large' };
+    }
+
+    return { isValid: true };
+  },
+
+  recurrenceEndDate: (endDate: string | undefined, startDate: string): { isValid: boolean; message?: string } => {
+    if (endDate && endDate.slice(0, 10) < startDate.slice(0, 10)) {
+      return { isValid: false, message: 'End date must be on or after the first date' };
+    }
+
+    return { isValid: true };
+  },
+};